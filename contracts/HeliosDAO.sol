@@ -0,0 +1,253 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// Governance with encrypted ballots. A member splits up to their voting power between "for" and "against"
+// as two encrypted weights; the tallies are summed homomorphically, so neither individual ballots nor the
+// running totals are ever visible. Once voting ends only the two totals are decrypted, through the oracle
+// callback, and a proposal that passed can execute its call. Transferring ownership of HeliosNetFHE, the
+// lending pool or this contract itself to the DAO puts their admin functions under governance.
+contract HeliosDAO is SepoliaConfig {
+    using FHE for euint64;
+
+    uint256 public constant MAX_VOTING_PERIOD = 30 days;
+
+    // Ended is never stored: an Active proposal past its end time reports Ended until its tally is requested.
+    enum ProposalState {
+        Active,
+        Ended,
+        Tallying,
+        Succeeded,
+        Defeated,
+        Executed
+    }
+
+    struct Proposal {
+        address proposer;
+        address target;
+        uint64 endTime;
+        ProposalState state;
+        uint64 forVotes;
+        uint64 againstVotes;
+        uint256 voterCount;
+        string description;
+        bytes callData;
+        euint64 encryptedFor;
+        euint64 encryptedAgainst;
+    }
+
+    address public owner;
+    uint256 public votingPeriod;
+    // Minimum of for + against weight for a proposal to pass.
+    uint64 public quorumVotes;
+
+    mapping(address => uint32) public votingPower;
+    uint256 public totalVotingPower;
+
+    uint256 public proposalCount;
+    mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+
+    struct DecryptionContext {
+        uint256 proposalId;
+        bytes32 stateHash;
+        bool processed;
+    }
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event VotingPowerSet(address indexed account, uint32 votingPower);
+    event GovernanceParametersUpdated(uint256 votingPeriod, uint64 quorumVotes);
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        address target,
+        uint64 endTime,
+        string description
+    );
+    event VoteCast(uint256 indexed proposalId, address indexed voter);
+    event TallyRequested(uint256 indexed requestId, uint256 indexed proposalId, bytes32 stateHash);
+    event ProposalTallied(uint256 indexed proposalId, uint64 forVotes, uint64 againstVotes, bool succeeded);
+    event ProposalExecuted(uint256 indexed proposalId);
+
+    error NotOwner();
+    error NotMember();
+    error InvalidParameter();
+    error UnknownProposal();
+    error VotingClosed();
+    error VotingNotEnded();
+    error TallyAlreadyRequested();
+    error AlreadyVoted();
+    error ReplayAttempt();
+    error StateMismatch();
+    error NotSucceeded();
+    error ExecutionFailed();
+
+    modifier onlyOwner() {
+        _checkOwner();
+        _;
+    }
+
+    modifier onlyMember() {
+        _checkMember();
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+        votingPeriod = 3 days;
+        quorumVotes = 1;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        address previousOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(previousOwner, newOwner);
+    }
+
+    function setVotingPower(address account, uint32 power) external onlyOwner {
+        totalVotingPower = totalVotingPower - votingPower[account] + power;
+        votingPower[account] = power;
+        emit VotingPowerSet(account, power);
+    }
+
+    function setGovernanceParameters(uint256 newVotingPeriod, uint64 newQuorumVotes) external onlyOwner {
+        if (newVotingPeriod == 0 || newVotingPeriod > MAX_VOTING_PERIOD) revert InvalidParameter();
+        votingPeriod = newVotingPeriod;
+        quorumVotes = newQuorumVotes;
+        emit GovernanceParametersUpdated(newVotingPeriod, newQuorumVotes);
+    }
+
+    /// @notice State of a proposal, reporting Ended for one whose voting closed but whose tally is not requested yet.
+    function proposalState(uint256 proposalId) public view returns (ProposalState) {
+        Proposal storage proposal = _proposal(proposalId);
+        if (proposal.state == ProposalState.Active && block.timestamp >= proposal.endTime) {
+            return ProposalState.Ended;
+        }
+        return proposal.state;
+    }
+
+    /// @notice Opens a vote on calling `target` with `callData` once the proposal passes.
+    function propose(
+        address target,
+        bytes calldata callData,
+        string calldata description
+    ) external onlyMember returns (uint256 proposalId) {
+        if (target == address(0) || bytes(description).length == 0) revert InvalidParameter();
+
+        proposalId = ++proposalCount;
+        Proposal storage proposal = proposals[proposalId];
+        proposal.proposer = msg.sender;
+        proposal.target = target;
+        proposal.endTime = uint64(block.timestamp + votingPeriod);
+        proposal.description = description;
+        proposal.callData = callData;
+        proposal.encryptedFor = FHE.asEuint64(0);
+        proposal.encryptedAgainst = FHE.asEuint64(0);
+        FHE.allowThis(proposal.encryptedFor);
+        FHE.allowThis(proposal.encryptedAgainst);
+
+        emit ProposalCreated(proposalId, msg.sender, target, proposal.endTime, description);
+    }
+
+    /// @notice Casts an encrypted ballot. A ballot whose weights add up to more than the caller's voting power
+    /// counts as nothing; nobody, including the contract, learns which way it went.
+    function castVote(
+        uint256 proposalId,
+        externalEuint32 forWeight,
+        externalEuint32 againstWeight,
+        bytes calldata inputProof
+    ) external onlyMember {
+        if (proposalState(proposalId) != ProposalState.Active) revert VotingClosed();
+        if (hasVoted[proposalId][msg.sender]) revert AlreadyVoted();
+
+        euint64 votesFor = FHE.asEuint64(FHE.fromExternal(forWeight, inputProof));
+        euint64 votesAgainst = FHE.asEuint64(FHE.fromExternal(againstWeight, inputProof));
+        ebool valid = votesFor.add(votesAgainst).le(uint64(votingPower[msg.sender]));
+        euint64 zero = FHE.asEuint64(0);
+
+        Proposal storage proposal = proposals[proposalId];
+        proposal.encryptedFor = proposal.encryptedFor.add(FHE.select(valid, votesFor, zero));
+        proposal.encryptedAgainst = proposal.encryptedAgainst.add(FHE.select(valid, votesAgainst, zero));
+        FHE.allowThis(proposal.encryptedFor);
+        FHE.allowThis(proposal.encryptedAgainst);
+
+        hasVoted[proposalId][msg.sender] = true;
+        proposal.voterCount++;
+        emit VoteCast(proposalId, msg.sender);
+    }
+
+    /// @notice Asks the decryption oracle for the final tallies of a proposal whose voting has ended.
+    function requestTally(uint256 proposalId) external {
+        ProposalState state = proposalState(proposalId);
+        if (state == ProposalState.Active) revert VotingNotEnded();
+        if (state != ProposalState.Ended) revert TallyAlreadyRequested();
+
+        bytes32[] memory cts = _tallyCiphertexts(proposals[proposalId]);
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.tallyCallback.selector);
+
+        decryptionContexts[requestId] = DecryptionContext({ proposalId: proposalId, stateHash: stateHash, processed: false });
+        proposals[proposalId].state = ProposalState.Tallying;
+
+        emit TallyRequested(requestId, proposalId, stateHash);
+    }
+
+    function tallyCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage context = decryptionContexts[requestId];
+        if (context.proposalId == 0) revert UnknownProposal();
+        if (context.processed) revert ReplayAttempt();
+
+        Proposal storage proposal = proposals[context.proposalId];
+        if (_hashCiphertexts(_tallyCiphertexts(proposal)) != context.stateHash) {
+            revert StateMismatch();
+        }
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (uint256 votesFor, uint256 votesAgainst) = abi.decode(cleartexts, (uint256, uint256));
+        context.processed = true;
+        proposal.forVotes = uint64(votesFor);
+        proposal.againstVotes = uint64(votesAgainst);
+        bool succeeded = votesFor > votesAgainst && votesFor + votesAgainst >= quorumVotes;
+        proposal.state = succeeded ? ProposalState.Succeeded : ProposalState.Defeated;
+
+        emit ProposalTallied(context.proposalId, proposal.forVotes, proposal.againstVotes, succeeded);
+    }
+
+    /// @notice Runs the call of a proposal that passed. Anyone may trigger it, once.
+    function execute(uint256 proposalId) external {
+        if (proposalState(proposalId) != ProposalState.Succeeded) revert NotSucceeded();
+        Proposal storage proposal = proposals[proposalId];
+        proposal.state = ProposalState.Executed;
+
+        (bool ok, ) = proposal.target.call(proposal.callData);
+        if (!ok) revert ExecutionFailed();
+        emit ProposalExecuted(proposalId);
+    }
+
+    function _checkOwner() internal view {
+        if (msg.sender != owner) revert NotOwner();
+    }
+
+    function _checkMember() internal view {
+        if (votingPower[msg.sender] == 0) revert NotMember();
+    }
+
+    function _proposal(uint256 proposalId) internal view returns (Proposal storage) {
+        if (proposalId == 0 || proposalId > proposalCount) revert UnknownProposal();
+        return proposals[proposalId];
+    }
+
+    function _tallyCiphertexts(Proposal storage proposal) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(proposal.encryptedFor);
+        cts[1] = FHE.toBytes32(proposal.encryptedAgainst);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+}
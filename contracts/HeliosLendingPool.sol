@@ -0,0 +1,554 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IHeliosNetFHE } from "./interfaces/IHeliosNetFHE.sol";
+
+// Lenders pool ETH for shares; providers borrow against the encrypted energy they produced in closed
+// HeliosNetFHE batches. Collateral never leaves the ciphertext domain: a borrow only decrypts whether the
+// new debt fits under the credit limit.
+//
+// Providers can also pledge the output they project for a batch that is still open. Once it closes, anyone
+// may settle the projection: the shortfall of actual against projected production is taken out of the
+// collateral homomorphically. Keepers then run health checks that decrypt a single bit (is the debt above
+// the liquidation threshold of the collateral?) and liquidate flagged positions without ever seeing the
+// production figures.
+contract HeliosLendingPool is SepoliaConfig {
+    using FHE for euint64;
+
+    uint256 private constant INDEX_SCALE = 1e18;
+    uint256 private constant BPS = 10_000;
+    uint256 private constant YEAR = 365 days;
+    uint256 public constant MAX_LOAN_TO_VALUE_BPS = 9_000;
+    uint256 public constant MAX_BORROW_RATE_BPS = 10_000;
+    uint256 public constant MAX_KEEPER_REWARD_BPS = 1_000;
+
+    IHeliosNetFHE public immutable heliosNet;
+
+    address public owner;
+    bool public paused;
+
+    // Credit per unit of submitted energy (0.1 kWh in the dashboard), and the share of it that can be borrowed.
+    uint64 public creditPerUnitGwei;
+    uint256 public loanToValueBps;
+    uint256 public borrowRateBps;
+    // Share of the collateral's credit value that debt may reach before the position can be liquidated, and
+    // the share of the written-off debt paid to the keeper that liquidates it.
+    uint256 public liquidationThresholdBps;
+    uint256 public keeperRewardBps;
+    // The most one batch can add to a provider's collateral, whether pledged after it closed or projected while
+    // it was open. Submissions are self-reported, so larger figures are capped homomorphically.
+    uint32 public maxBatchUnits;
+
+    uint256 public totalShares;
+    mapping(address => uint256) public sharesOf;
+    mapping(address => uint256) public depositedOf;
+
+    // Debt is stored scaled down by the borrow index, so interest accrues to every loan at once.
+    uint256 public borrowIndex;
+    uint256 public lastAccrualTime;
+    uint256 public totalScaledDebt;
+    mapping(address => uint256) public scaledDebtOf;
+    mapping(address => uint256) public principalOf;
+
+    mapping(address => euint64) public collateralEnergy;
+    mapping(address => mapping(uint256 => bool)) public isBatchPledged;
+    mapping(address => uint256) public pledgedBatchCount;
+
+    mapping(address => mapping(uint256 => euint64)) public projectedEnergy;
+    mapping(address => mapping(uint256 => bool)) public isProjectionSettled;
+    // Whether the batch came in below its projection; readable by the borrower only.
+    mapping(address => mapping(uint256 => ebool)) public projectionShortfall;
+    // Collateral taken from liquidated positions, for the owner to recover off chain.
+    euint64 public seizedEnergy;
+    // ETH set aside for keeper rewards. It is not lender liquidity, so liquidations never pay keepers out of
+    // deposits that are already losing the written-off debt.
+    uint256 public keeperReserve;
+
+    struct BorrowRequest {
+        address borrower;
+        uint256 amount;
+        bool processed;
+    }
+    mapping(uint256 => BorrowRequest) public borrowRequests;
+    // Request ids start at zero, so a pending request is marked by its (non-zero) amount.
+    mapping(address => uint256) public pendingBorrowAmount;
+
+    struct HealthCheck {
+        address borrower;
+        bool processed;
+    }
+    mapping(uint256 => HealthCheck) public healthChecks;
+    mapping(address => bool) public isHealthCheckPending;
+    // Set by the latest health check; only a flagged position can be liquidated.
+    mapping(address => bool) public isUndercollateralized;
+
+    uint256 private locked = 1;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event ContractPaused();
+    event ContractUnpaused();
+    event RiskParametersUpdated(uint64 creditPerUnitGwei, uint256 loanToValueBps);
+    event BorrowRateUpdated(uint256 oldBorrowRateBps, uint256 newBorrowRateBps);
+    event LiquidationParametersUpdated(uint256 liquidationThresholdBps, uint256 keeperRewardBps);
+    event MaxBatchUnitsUpdated(uint32 maxBatchUnits);
+    event Deposited(address indexed lender, uint256 amount, uint256 shares);
+    event Withdrawn(address indexed lender, uint256 amount, uint256 shares);
+    event CollateralPledged(address indexed borrower, uint256 indexed batchId);
+    event ProjectionPledged(address indexed borrower, uint256 indexed batchId);
+    event ProjectionSettled(address indexed borrower, uint256 indexed batchId);
+    event BorrowRequested(uint256 indexed requestId, address indexed borrower, uint256 amount);
+    event BorrowExecuted(uint256 indexed requestId, address indexed borrower, uint256 amount);
+    event BorrowRejected(uint256 indexed requestId, address indexed borrower, uint256 amount);
+    event Repaid(address indexed borrower, uint256 amount, uint256 remainingDebt);
+    event HealthCheckRequested(uint256 indexed requestId, address indexed borrower);
+    event HealthChecked(uint256 indexed requestId, address indexed borrower, bool undercollateralized);
+    event Liquidated(address indexed borrower, address indexed keeper, uint256 debtWrittenOff, uint256 keeperReward);
+    event KeeperReserveFunded(address indexed funder, uint256 amount);
+
+    error NotOwner();
+    error NotProvider();
+    error Paused();
+    error Reentrancy();
+    error InvalidAmount();
+    error InvalidParameter();
+    error InsufficientShares();
+    error InsufficientLiquidity();
+    error BatchNotClosed();
+    error BatchAlreadyPledged();
+    error CollateralNotShared();
+    error NoCollateral();
+    error BorrowPending();
+    error UnknownRequest();
+    error ReplayAttempt();
+    error NoDebt();
+    error TransferFailed();
+    error NotInitialized();
+    error BatchAlreadyClosed();
+    error BatchNotOpen();
+    error NoProjection();
+    error ProjectionAlreadySettled();
+    error HealthCheckPending();
+    error PositionUndercollateralized();
+    error NotLiquidatable();
+    error SelfLiquidation();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier whenNotPaused() {
+        if (paused) revert Paused();
+        _;
+    }
+
+    modifier nonReentrant() {
+        if (locked != 1) revert Reentrancy();
+        locked = 2;
+        _;
+        locked = 1;
+    }
+
+    constructor(address heliosNetAddress) {
+        heliosNet = IHeliosNetFHE(heliosNetAddress);
+        owner = msg.sender;
+        creditPerUnitGwei = 100_000; // 0.001 ETH per kWh
+        loanToValueBps = 5_000;
+        borrowRateBps = 800;
+        liquidationThresholdBps = 7_500;
+        keeperRewardBps = 200;
+        maxBatchUnits = 5_000; // 500 kWh
+        borrowIndex = INDEX_SCALE;
+        lastAccrualTime = block.timestamp;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        address previousOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(previousOwner, newOwner);
+    }
+
+    function pause() external onlyOwner whenNotPaused {
+        paused = true;
+        emit ContractPaused();
+    }
+
+    function unpause() external onlyOwner {
+        if (!paused) revert Paused();
+        paused = false;
+        emit ContractUnpaused();
+    }
+
+    function setRiskParameters(uint64 newCreditPerUnitGwei, uint256 newLoanToValueBps) external onlyOwner {
+        if (newLoanToValueBps > MAX_LOAN_TO_VALUE_BPS || newLoanToValueBps > liquidationThresholdBps) {
+            revert InvalidParameter();
+        }
+        creditPerUnitGwei = newCreditPerUnitGwei;
+        loanToValueBps = newLoanToValueBps;
+        emit RiskParametersUpdated(newCreditPerUnitGwei, newLoanToValueBps);
+    }
+
+    function setLiquidationParameters(uint256 newLiquidationThresholdBps, uint256 newKeeperRewardBps) external onlyOwner {
+        if (
+            newLiquidationThresholdBps < loanToValueBps ||
+            newLiquidationThresholdBps > BPS ||
+            newKeeperRewardBps > MAX_KEEPER_REWARD_BPS
+        ) revert InvalidParameter();
+        liquidationThresholdBps = newLiquidationThresholdBps;
+        keeperRewardBps = newKeeperRewardBps;
+        emit LiquidationParametersUpdated(newLiquidationThresholdBps, newKeeperRewardBps);
+    }
+
+    function setMaxBatchUnits(uint32 newMaxBatchUnits) external onlyOwner {
+        if (newMaxBatchUnits == 0) revert InvalidParameter();
+        maxBatchUnits = newMaxBatchUnits;
+        emit MaxBatchUnitsUpdated(newMaxBatchUnits);
+    }
+
+    function setBorrowRateBps(uint256 newBorrowRateBps) external onlyOwner {
+        if (newBorrowRateBps > MAX_BORROW_RATE_BPS) revert InvalidParameter();
+        _accrue();
+        uint256 oldBorrowRateBps = borrowRateBps;
+        borrowRateBps = newBorrowRateBps;
+        emit BorrowRateUpdated(oldBorrowRateBps, newBorrowRateBps);
+    }
+
+    // ---- Views ----
+
+    function currentBorrowIndex() public view returns (uint256) {
+        uint256 elapsed = block.timestamp - lastAccrualTime;
+        return borrowIndex + (borrowIndex * borrowRateBps * elapsed) / (BPS * YEAR);
+    }
+
+    function totalBorrows() public view returns (uint256) {
+        return (totalScaledDebt * currentBorrowIndex()) / INDEX_SCALE;
+    }
+
+    function availableLiquidity() public view returns (uint256) {
+        return address(this).balance - keeperReserve;
+    }
+
+    // Cash plus outstanding debt, interest included: what all shares together are worth.
+    function totalAssets() public view returns (uint256) {
+        return availableLiquidity() + totalBorrows();
+    }
+
+    function balanceOf(address lender) external view returns (uint256) {
+        return totalShares == 0 ? 0 : (sharesOf[lender] * totalAssets()) / totalShares;
+    }
+
+    function debtOf(address borrower) public view returns (uint256) {
+        return _ceilDiv(scaledDebtOf[borrower] * currentBorrowIndex(), INDEX_SCALE);
+    }
+
+    function utilizationBps() external view returns (uint256) {
+        uint256 assets = totalAssets();
+        return assets == 0 ? 0 : (totalBorrows() * BPS) / assets;
+    }
+
+    // ---- Lenders ----
+
+    function deposit() external payable whenNotPaused nonReentrant {
+        if (msg.value == 0) revert InvalidAmount();
+        _accrue();
+        uint256 assetsBefore = totalAssets() - msg.value;
+        uint256 shares = totalShares == 0 || assetsBefore == 0 ? msg.value : (msg.value * totalShares) / assetsBefore;
+        if (shares == 0) revert InvalidAmount();
+
+        totalShares += shares;
+        sharesOf[msg.sender] += shares;
+        depositedOf[msg.sender] += msg.value;
+        emit Deposited(msg.sender, msg.value, shares);
+    }
+
+    function withdraw(uint256 shares) external nonReentrant {
+        if (shares == 0) revert InvalidAmount();
+        uint256 lenderShares = sharesOf[msg.sender];
+        if (shares > lenderShares) revert InsufficientShares();
+        _accrue();
+        uint256 amount = (shares * totalAssets()) / totalShares;
+        if (amount > availableLiquidity()) revert InsufficientLiquidity();
+
+        // Principal leaves in proportion to the shares redeemed; the rest of the payout is earned interest.
+        depositedOf[msg.sender] -= (depositedOf[msg.sender] * shares) / lenderShares;
+        sharesOf[msg.sender] = lenderShares - shares;
+        totalShares -= shares;
+        _send(msg.sender, amount);
+        emit Withdrawn(msg.sender, amount, shares);
+    }
+
+    // ---- Borrowers ----
+
+    /// @notice Adds the caller's energy from a closed batch to their collateral, capped at `maxBatchUnits`.
+    /// The caller must first call HeliosNetFHE.grantEnergyAccess(batchId, pool) so the pool can read the
+    /// ciphertext.
+    function pledgeBatch(uint256 batchId) external whenNotPaused {
+        if (!heliosNet.isProvider(msg.sender)) revert NotProvider();
+        if (batchId == 0 || batchId > heliosNet.currentBatchId() || heliosNet.isBatchOpen(batchId)) {
+            revert BatchNotClosed();
+        }
+        if (isBatchPledged[msg.sender][batchId]) revert BatchAlreadyPledged();
+
+        euint32 energy = heliosNet.userEncryptedEnergyInBatch(batchId, msg.sender);
+        if (!FHE.isInitialized(energy)) revert NotInitialized();
+        if (!FHE.isAllowed(energy, address(this))) revert CollateralNotShared();
+
+        _addCollateral(msg.sender, batchId, FHE.asEuint64(FHE.min(energy, maxBatchUnits)));
+        emit CollateralPledged(msg.sender, batchId);
+    }
+
+    /// @notice Pledges the output the caller projects for the batch that is currently open, capped at
+    /// `maxBatchUnits`. It counts as collateral right away; once the batch closes, settleProjection
+    /// replaces it with what was produced.
+    function pledgeProjection(
+        uint256 batchId,
+        externalEuint32 encryptedProjection,
+        bytes calldata inputProof
+    ) external whenNotPaused {
+        if (!heliosNet.isProvider(msg.sender)) revert NotProvider();
+        uint256 currentBatchId = heliosNet.currentBatchId();
+        // Only the open batch: a later one could not be settled until it closes, so its projection would
+        // back a loan indefinitely.
+        if (batchId > currentBatchId) revert BatchNotOpen();
+        if (batchId < currentBatchId || !heliosNet.isBatchOpen(batchId)) revert BatchAlreadyClosed();
+        if (isBatchPledged[msg.sender][batchId]) revert BatchAlreadyPledged();
+
+        euint32 projected = FHE.fromExternal(encryptedProjection, inputProof);
+        euint64 projection = FHE.asEuint64(FHE.min(projected, maxBatchUnits));
+        FHE.allowThis(projection);
+        FHE.allow(projection, msg.sender);
+        projectedEnergy[msg.sender][batchId] = projection;
+
+        _addCollateral(msg.sender, batchId, projection);
+        emit ProjectionPledged(msg.sender, batchId);
+    }
+
+    /// @notice Asks the decryption oracle whether debt plus `amount` stays within the caller's credit limit.
+    /// The loan is paid out (or rejected) in borrowCallback.
+    function requestBorrow(uint256 amount) external whenNotPaused nonReentrant {
+        if (amount == 0) revert InvalidAmount();
+        if (pendingBorrowAmount[msg.sender] != 0) revert BorrowPending();
+        if (pledgedBatchCount[msg.sender] == 0) revert NoCollateral();
+        if (isUndercollateralized[msg.sender]) revert PositionUndercollateralized();
+        _accrue();
+        if (amount > availableLiquidity()) revert InsufficientLiquidity();
+
+        uint256 requiredGwei = _ceilDiv(debtOf(msg.sender) + amount, 1 gwei);
+        if (requiredGwei > type(uint64).max) revert InvalidAmount();
+
+        // Only whether the limit holds is decrypted; the collateral and limit stay encrypted.
+        uint64 creditPerUnit = uint64((uint256(creditPerUnitGwei) * loanToValueBps) / BPS);
+        euint64 creditLimit = collateralEnergy[msg.sender].mul(creditPerUnit);
+        ebool withinLimit = creditLimit.ge(uint64(requiredGwei));
+        FHE.allowThis(withinLimit);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(withinLimit);
+        uint256 requestId = FHE.requestDecryption(cts, this.borrowCallback.selector);
+
+        borrowRequests[requestId] = BorrowRequest({ borrower: msg.sender, amount: amount, processed: false });
+        pendingBorrowAmount[msg.sender] = amount;
+        emit BorrowRequested(requestId, msg.sender, amount);
+    }
+
+    function borrowCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public nonReentrant {
+        BorrowRequest storage request = borrowRequests[requestId];
+        if (request.borrower == address(0)) revert UnknownRequest();
+        if (request.processed) revert ReplayAttempt();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool withinLimit = abi.decode(cleartexts, (bool));
+        request.processed = true;
+        pendingBorrowAmount[request.borrower] = 0;
+        _accrue();
+
+        // Liquidity may have been withdrawn while the oracle was answering.
+        if (!withinLimit || paused || request.amount > availableLiquidity()) {
+            emit BorrowRejected(requestId, request.borrower, request.amount);
+            return;
+        }
+
+        uint256 scaled = _ceilDiv(request.amount * INDEX_SCALE, borrowIndex);
+        scaledDebtOf[request.borrower] += scaled;
+        totalScaledDebt += scaled;
+        principalOf[request.borrower] += request.amount;
+
+        // A borrower that refuses the payout must not leave the request stuck, so the loan is undone instead.
+        (bool sent, ) = payable(request.borrower).call{ value: request.amount }("");
+        if (!sent) {
+            scaledDebtOf[request.borrower] -= scaled;
+            totalScaledDebt -= scaled;
+            principalOf[request.borrower] -= request.amount;
+            emit BorrowRejected(requestId, request.borrower, request.amount);
+            return;
+        }
+        emit BorrowExecuted(requestId, request.borrower, request.amount);
+    }
+
+    /// @notice Repays up to the caller's current debt, interest first; any excess is refunded.
+    function repay() external payable nonReentrant {
+        _accrue();
+        uint256 debt = debtOf(msg.sender);
+        if (debt == 0) revert NoDebt();
+        if (msg.value == 0) revert InvalidAmount();
+
+        uint256 payment = msg.value > debt ? debt : msg.value;
+        uint256 interest = debt - principalOf[msg.sender];
+        if (payment > interest) principalOf[msg.sender] -= payment - interest;
+
+        uint256 scaled = payment == debt ? scaledDebtOf[msg.sender] : (payment * INDEX_SCALE) / borrowIndex;
+        scaledDebtOf[msg.sender] -= scaled;
+        totalScaledDebt -= scaled;
+        if (scaledDebtOf[msg.sender] == 0) {
+            principalOf[msg.sender] = 0;
+            isUndercollateralized[msg.sender] = false;
+        }
+
+        if (msg.value > payment) _send(msg.sender, msg.value - payment);
+        emit Repaid(msg.sender, payment, debtOf(msg.sender));
+    }
+
+    // ---- Keepers ----
+
+    /// @notice Compares a closed batch's production with what the borrower projected for it and removes any
+    /// shortfall from their collateral. Production that was never submitted, or never shared with the pool
+    /// through HeliosNetFHE.grantEnergyAccess, counts as zero.
+    function settleProjection(address borrower, uint256 batchId) external {
+        euint64 projection = projectedEnergy[borrower][batchId];
+        if (!FHE.isInitialized(projection)) revert NoProjection();
+        if (isProjectionSettled[borrower][batchId]) revert ProjectionAlreadySettled();
+        uint256 currentBatchId = heliosNet.currentBatchId();
+        if (batchId > currentBatchId || (batchId == currentBatchId && heliosNet.isBatchOpen(batchId))) {
+            revert BatchNotClosed();
+        }
+
+        euint32 energy = heliosNet.userEncryptedEnergyInBatch(batchId, borrower);
+        euint64 actual = FHE.isInitialized(energy) && FHE.isAllowed(energy, address(this))
+            ? FHE.asEuint64(energy)
+            : FHE.asEuint64(0);
+
+        ebool shortfall = actual.lt(projection);
+        euint64 deficit = FHE.select(shortfall, projection.sub(actual), FHE.asEuint64(0));
+        // Saturates at zero: a liquidation may already have seized the collateral this projection was part of.
+        euint64 collateral = collateralEnergy[borrower];
+        collateral = collateral.sub(deficit.min(collateral));
+        FHE.allowThis(collateral);
+        FHE.allow(collateral, borrower);
+        collateralEnergy[borrower] = collateral;
+
+        FHE.allowThis(shortfall);
+        FHE.allow(shortfall, borrower);
+        projectionShortfall[borrower][batchId] = shortfall;
+        isProjectionSettled[borrower][batchId] = true;
+        emit ProjectionSettled(borrower, batchId);
+    }
+
+    /// @notice Asks the decryption oracle whether `borrower`'s debt exceeds the liquidation threshold of their
+    /// collateral. Only that bit is decrypted, in healthCheckCallback. Anyone may ask, including the borrower
+    /// after pledging more collateral to clear a flag.
+    function requestHealthCheck(address borrower) external nonReentrant {
+        if (isHealthCheckPending[borrower]) revert HealthCheckPending();
+        _accrue();
+        uint256 debtGwei = _ceilDiv(debtOf(borrower), 1 gwei);
+        if (debtGwei == 0) revert NoDebt();
+        if (debtGwei > type(uint64).max) revert InvalidAmount();
+
+        uint64 thresholdPerUnit = uint64((uint256(creditPerUnitGwei) * liquidationThresholdBps) / BPS);
+        ebool undercollateralized = collateralEnergy[borrower].mul(thresholdPerUnit).lt(uint64(debtGwei));
+        FHE.allowThis(undercollateralized);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(undercollateralized);
+        uint256 requestId = FHE.requestDecryption(cts, this.healthCheckCallback.selector);
+
+        healthChecks[requestId] = HealthCheck({ borrower: borrower, processed: false });
+        isHealthCheckPending[borrower] = true;
+        emit HealthCheckRequested(requestId, borrower);
+    }
+
+    function healthCheckCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        HealthCheck storage check = healthChecks[requestId];
+        if (check.borrower == address(0)) revert UnknownRequest();
+        if (check.processed) revert ReplayAttempt();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool undercollateralized = abi.decode(cleartexts, (bool));
+        check.processed = true;
+        isHealthCheckPending[check.borrower] = false;
+        // The debt may have been repaid while the oracle was answering.
+        isUndercollateralized[check.borrower] = undercollateralized && scaledDebtOf[check.borrower] != 0;
+        emit HealthChecked(requestId, check.borrower, isUndercollateralized[check.borrower]);
+    }
+
+    /// @notice Adds ETH to the keeper reserve that liquidation rewards are paid from.
+    function fundKeeperReserve() external payable {
+        if (msg.value == 0) revert InvalidAmount();
+        keeperReserve += msg.value;
+        emit KeeperReserveFunded(msg.sender, msg.value);
+    }
+
+    /// @notice Liquidates a position flagged by its latest health check: the debt is written off against the
+    /// pool, the collateral is seized and the caller earns `keeperRewardBps` of the debt from the keeper
+    /// reserve, as far as the reserve covers it. Borrowers cannot liquidate themselves.
+    function liquidate(address borrower) external nonReentrant {
+        if (msg.sender == borrower) revert SelfLiquidation();
+        if (!isUndercollateralized[borrower]) revert NotLiquidatable();
+        // A pending loan was approved against collateral that is about to be seized.
+        if (pendingBorrowAmount[borrower] != 0) revert BorrowPending();
+        _accrue();
+        uint256 debt = debtOf(borrower);
+
+        totalScaledDebt -= scaledDebtOf[borrower];
+        scaledDebtOf[borrower] = 0;
+        principalOf[borrower] = 0;
+        isUndercollateralized[borrower] = false;
+
+        euint64 seized = seizedEnergy.add(collateralEnergy[borrower]);
+        FHE.allowThis(seized);
+        FHE.allow(seized, owner);
+        seizedEnergy = seized;
+        // Pledged batches stay marked as pledged: their energy now belongs to the pool.
+        euint64 cleared = FHE.asEuint64(0);
+        FHE.allowThis(cleared);
+        FHE.allow(cleared, borrower);
+        collateralEnergy[borrower] = cleared;
+        pledgedBatchCount[borrower] = 0;
+
+        uint256 reward = (debt * keeperRewardBps) / BPS;
+        if (reward > keeperReserve) reward = keeperReserve;
+        keeperReserve -= reward;
+        if (reward != 0) _send(msg.sender, reward);
+        emit Liquidated(borrower, msg.sender, debt, reward);
+    }
+
+    // ---- Internal ----
+
+    function _addCollateral(address borrower, uint256 batchId, euint64 energy) internal {
+        euint64 collateral = collateralEnergy[borrower].add(energy);
+        FHE.allowThis(collateral);
+        FHE.allow(collateral, borrower);
+        collateralEnergy[borrower] = collateral;
+
+        isBatchPledged[borrower][batchId] = true;
+        pledgedBatchCount[borrower]++;
+    }
+
+    function _accrue() internal {
+        if (block.timestamp == lastAccrualTime) return;
+        borrowIndex = currentBorrowIndex();
+        lastAccrualTime = block.timestamp;
+    }
+
+    function _send(address to, uint256 amount) internal {
+        (bool ok, ) = payable(to).call{ value: amount }("");
+        if (!ok) revert TransferFailed();
+    }
+
+    function _ceilDiv(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a == 0 ? 0 : (a - 1) / b + 1;
+    }
+}
@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+// Confidential reward token paid out by HeliosRewards. Balances and amounts are encrypted, so holding or
+// moving rewards never reveals how much energy a provider contributed. Only the minter can create tokens.
+contract HeliosRewardToken is SepoliaConfig {
+    using FHE for euint64;
+
+    string public constant name = "Helios Reward";
+    string public constant symbol = "HELR";
+    uint8 public constant decimals = 6;
+
+    address public immutable minter;
+
+    mapping(address => euint64) private balances;
+
+    // Amounts stay encrypted; holders decrypt their own balance.
+    event Transfer(address indexed from, address indexed to);
+
+    error NotMinter();
+    error InvalidRecipient();
+    error UnauthorizedAmount();
+
+    constructor(address minterAddress) {
+        minter = minterAddress;
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return balances[account];
+    }
+
+    /// @notice Credits an encrypted amount the minter is allowed to use.
+    function mint(address to, euint64 amount) external {
+        if (msg.sender != minter) revert NotMinter();
+        if (to == address(0)) revert InvalidRecipient();
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedAmount();
+        _credit(to, amount);
+        emit Transfer(address(0), to);
+    }
+
+    /// @notice Moves an encrypted amount to `to`. More than the sender holds moves nothing, without revealing it.
+    function transfer(address to, externalEuint64 encryptedAmount, bytes calldata inputProof) external returns (ebool) {
+        if (to == address(0)) revert InvalidRecipient();
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        ebool sufficient = amount.le(balances[msg.sender]);
+        euint64 transferred = FHE.select(sufficient, amount, FHE.asEuint64(0));
+
+        euint64 remaining = balances[msg.sender].sub(transferred);
+        FHE.allowThis(remaining);
+        FHE.allow(remaining, msg.sender);
+        balances[msg.sender] = remaining;
+        _credit(to, transferred);
+
+        FHE.allow(sufficient, msg.sender);
+        emit Transfer(msg.sender, to);
+        return sufficient;
+    }
+
+    function _credit(address account, euint64 amount) internal {
+        euint64 balance = balances[account].add(amount);
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+        balances[account] = balance;
+    }
+}
@@ -0,0 +1,189 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IHeliosNetFHE } from "./interfaces/IHeliosNetFHE.sol";
+import { HeliosRewardToken } from "./HeliosRewardToken.sol";
+
+// Pays every closed HeliosNetFHE batch (an epoch) a fixed amount of HeliosRewardToken, split between the
+// providers in proportion to the energy they contributed. Finalizing an epoch decrypts the batch total
+// through the oracle callback; each provider's share is then computed on their encrypted contribution and
+// minted as an encrypted amount, so individual output is never revealed.
+//
+// The owner can decrypt, per epoch, the encrypted sums of claimed rewards and claimed energy, which lets an
+// accounting report reconcile what was paid out against the decrypted batch totals.
+contract HeliosRewards is SepoliaConfig {
+    using FHE for euint64;
+
+    // Keeps reward * contribution within 64 bits for any euint32 contribution.
+    uint64 public constant MAX_EPOCH_REWARD = 4_000_000_000;
+
+    IHeliosNetFHE public immutable heliosNet;
+    HeliosRewardToken public immutable rewardToken;
+
+    address public owner;
+    // Token base units (6 decimals) split among the providers of each epoch whose finalization is requested from now on.
+    uint64 public rewardPerEpoch;
+
+    struct Epoch {
+        uint64 reward;
+        uint64 totalEnergy;
+        bool finalized;
+        uint256 claimCount;
+        euint64 claimedReward;
+        euint64 claimedEnergy;
+    }
+    mapping(uint256 => Epoch) public epochs;
+    mapping(uint256 => bool) public isFinalizationPending;
+    mapping(uint256 => mapping(address => bool)) public hasClaimed;
+
+    struct DecryptionContext {
+        uint256 batchId;
+        bytes32 stateHash;
+        uint64 reward;
+        bool processed;
+    }
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RewardPerEpochUpdated(uint64 rewardPerEpoch);
+    event EpochFinalizationRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash);
+    event EpochFinalized(uint256 indexed batchId, uint64 totalEnergy, uint64 reward);
+    event RewardClaimed(uint256 indexed batchId, address indexed provider, euint64 amount);
+
+    error NotOwner();
+    error InvalidParameter();
+    error BatchNotClosed();
+    error EmptyBatch();
+    error TotalNotShared();
+    error EpochAlreadyFinalized();
+    error FinalizationPending();
+    error EpochNotFinalized();
+    error NoContribution();
+    error EnergyNotShared();
+    error AlreadyClaimed();
+    error UnknownRequest();
+    error ReplayAttempt();
+    error StateMismatch();
+
+    modifier onlyOwner() {
+        _checkOwner();
+        _;
+    }
+
+    constructor(address heliosNetAddress) {
+        heliosNet = IHeliosNetFHE(heliosNetAddress);
+        rewardToken = new HeliosRewardToken(address(this));
+        owner = msg.sender;
+        rewardPerEpoch = 1_000_000_000; // 1,000 HELR per batch
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        address previousOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(previousOwner, newOwner);
+    }
+
+    function setRewardPerEpoch(uint64 newRewardPerEpoch) external onlyOwner {
+        if (newRewardPerEpoch == 0 || newRewardPerEpoch > MAX_EPOCH_REWARD) revert InvalidParameter();
+        rewardPerEpoch = newRewardPerEpoch;
+        emit RewardPerEpochUpdated(newRewardPerEpoch);
+    }
+
+    /// @notice Decrypts a closed batch's total through the oracle and fixes its reward at the current rate,
+    /// so a rate change while the decryption is pending does not apply to it.
+    /// The HeliosNetFHE owner must first share the total via grantBatchTotalAccess(batchId, rewards).
+    function finalizeEpoch(uint256 batchId) external {
+        if (batchId == 0 || batchId > heliosNet.currentBatchId() || heliosNet.isBatchOpen(batchId)) {
+            revert BatchNotClosed();
+        }
+        if (epochs[batchId].finalized) revert EpochAlreadyFinalized();
+        if (isFinalizationPending[batchId]) revert FinalizationPending();
+        euint32 batchTotal = heliosNet.totalEncryptedEnergyInBatch(batchId);
+        if (!FHE.isInitialized(batchTotal)) revert EmptyBatch();
+        if (!FHE.isAllowed(batchTotal, address(this))) revert TotalNotShared();
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(batchTotal);
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.finalizeCallback.selector);
+
+        decryptionContexts[requestId] = DecryptionContext({
+            batchId: batchId,
+            stateHash: stateHash,
+            reward: rewardPerEpoch,
+            processed: false
+        });
+        isFinalizationPending[batchId] = true;
+        emit EpochFinalizationRequested(requestId, batchId, stateHash);
+    }
+
+    function finalizeCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        DecryptionContext storage context = decryptionContexts[requestId];
+        if (context.batchId == 0) revert UnknownRequest();
+        if (context.processed) revert ReplayAttempt();
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(heliosNet.totalEncryptedEnergyInBatch(context.batchId));
+        if (_hashCiphertexts(cts) != context.stateHash) revert StateMismatch();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint256 totalEnergy = abi.decode(cleartexts, (uint256));
+        context.processed = true;
+        isFinalizationPending[context.batchId] = false;
+
+        Epoch storage epoch = epochs[context.batchId];
+        epoch.finalized = true;
+        epoch.totalEnergy = uint64(totalEnergy);
+        epoch.reward = context.reward;
+        epoch.claimedReward = FHE.asEuint64(0);
+        epoch.claimedEnergy = FHE.asEuint64(0);
+        _allowAudit(epoch);
+
+        emit EpochFinalized(context.batchId, epoch.totalEnergy, epoch.reward);
+    }
+
+    /// @notice Mints the caller's share of a finalized epoch: reward * contribution / total, rounded down.
+    /// The contribution must first be shared via HeliosNetFHE.grantEnergyAccess(batchId, rewards).
+    function claim(uint256 batchId) external returns (euint64 amount) {
+        Epoch storage epoch = epochs[batchId];
+        if (!epoch.finalized) revert EpochNotFinalized();
+        if (hasClaimed[batchId][msg.sender]) revert AlreadyClaimed();
+        euint32 contribution = heliosNet.userEncryptedEnergyInBatch(batchId, msg.sender);
+        if (!FHE.isInitialized(contribution)) revert NoContribution();
+        if (!FHE.isAllowed(contribution, address(this))) revert EnergyNotShared();
+        // Only reachable when every submission to the batch was zero, so nobody has a share.
+        if (epoch.totalEnergy == 0) revert NoContribution();
+
+        euint64 energy = FHE.asEuint64(contribution);
+        amount = energy.mul(epoch.reward).div(epoch.totalEnergy);
+        hasClaimed[batchId][msg.sender] = true;
+        epoch.claimCount++;
+        epoch.claimedReward = epoch.claimedReward.add(amount);
+        epoch.claimedEnergy = epoch.claimedEnergy.add(energy);
+        _allowAudit(epoch);
+
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        FHE.allowTransient(amount, address(rewardToken));
+        rewardToken.mint(msg.sender, amount);
+        emit RewardClaimed(batchId, msg.sender, amount);
+    }
+
+    function _allowAudit(Epoch storage epoch) internal {
+        FHE.allowThis(epoch.claimedReward);
+        FHE.allowThis(epoch.claimedEnergy);
+        FHE.allow(epoch.claimedReward, owner);
+        FHE.allow(epoch.claimedEnergy, owner);
+    }
+
+    function _checkOwner() internal view {
+        if (msg.sender != owner) revert NotOwner();
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+}
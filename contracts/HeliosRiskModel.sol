@@ -0,0 +1,158 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IHeliosNetFHE } from "./interfaces/IHeliosNetFHE.sol";
+
+// Scores a provider on their encrypted per-batch energy totals from HeliosNetFHE and derives an encrypted
+// credit limit that only the provider can decrypt. Nothing about the history is ever decrypted on chain.
+//
+// Over the most recent closed batches the model computes, homomorphically:
+//   - the average output per batch,
+//   - the worst batch in the window (minimum),
+//   - a downside-deviation proxy: every batch is capped at the average, so shortfalls below it pull the
+//     capped total down while surpluses above it earn nothing,
+//   - the spread between the best and worst batch, which flags erratic output.
+// Dependable output per batch is the mean of the capped average and the worst batch. The limit lends
+// against that output for `horizonBatches` future batches, cut by `volatilityHaircutBps` when the spread
+// exceeds the average.
+//
+// The limit is advisory: HeliosLendingPool does not read it and keeps enforcing its own collateral-based
+// credit check, so an assessment never changes how much a provider can borrow there.
+contract HeliosRiskModel is SepoliaConfig {
+    using FHE for euint64;
+
+    uint256 private constant BPS = 10_000;
+    uint256 public constant MIN_WINDOW = 2;
+    // Keeps the sequential FHE work of one assessment under the coprocessor's per-transaction depth limit.
+    uint256 public constant MAX_WINDOW = 8;
+    // Bounds that keep the encrypted limit far from wrapping around 64 bits for any realistic output.
+    uint64 public constant MAX_CREDIT_PER_UNIT_GWEI = 10_000_000;
+    uint64 public constant MAX_HORIZON_BATCHES = 52;
+
+    IHeliosNetFHE public immutable heliosNet;
+
+    address public owner;
+
+    uint64 public creditPerUnitGwei;
+    uint64 public horizonBatches;
+    uint64 public volatilityHaircutBps;
+
+    struct Assessment {
+        euint64 creditLimitGwei;
+        uint256 firstBatchId;
+        uint256 lastBatchId;
+        uint256 assessedAt;
+    }
+    mapping(address => Assessment) public assessments;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event ModelParametersUpdated(uint64 creditPerUnitGwei, uint64 horizonBatches, uint64 volatilityHaircutBps);
+    event RiskAssessed(address indexed provider, uint256 firstBatchId, uint256 lastBatchId, euint64 creditLimitGwei);
+
+    error NotOwner();
+    error NotProvider();
+    error InvalidParameter();
+    error InvalidWindow();
+    error EnergyNotShared();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor(address heliosNetAddress) {
+        heliosNet = IHeliosNetFHE(heliosNetAddress);
+        owner = msg.sender;
+        creditPerUnitGwei = 50_000; // 0.0005 ETH per kWh of dependable output
+        horizonBatches = 4;
+        volatilityHaircutBps = 5_000;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        address previousOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(previousOwner, newOwner);
+    }
+
+    function setModelParameters(
+        uint64 newCreditPerUnitGwei,
+        uint64 newHorizonBatches,
+        uint64 newVolatilityHaircutBps
+    ) external onlyOwner {
+        if (
+            newCreditPerUnitGwei > MAX_CREDIT_PER_UNIT_GWEI ||
+            newHorizonBatches == 0 ||
+            newHorizonBatches > MAX_HORIZON_BATCHES ||
+            newVolatilityHaircutBps > BPS
+        ) revert InvalidParameter();
+        creditPerUnitGwei = newCreditPerUnitGwei;
+        horizonBatches = newHorizonBatches;
+        volatilityHaircutBps = newVolatilityHaircutBps;
+        emit ModelParametersUpdated(newCreditPerUnitGwei, newHorizonBatches, newVolatilityHaircutBps);
+    }
+
+    /// @notice The most recent batch that no longer accepts submissions (0 if none has closed yet).
+    function latestClosedBatchId() public view returns (uint256) {
+        uint256 latest = heliosNet.currentBatchId();
+        return latest != 0 && heliosNet.isBatchOpen(latest) ? latest - 1 : latest;
+    }
+
+    /// @notice Scores the caller over the last `window` closed batches and stores an advisory encrypted credit
+    /// limit (in gwei) that only the caller may decrypt. Batches the caller skipped count as zero output; every
+    /// batch they did submit to must first be shared via HeliosNetFHE.grantEnergyAccess(batchId, model).
+    function assessRisk(uint256 window) external returns (euint64) {
+        if (!heliosNet.isProvider(msg.sender)) revert NotProvider();
+        if (window < MIN_WINDOW || window > MAX_WINDOW) revert InvalidWindow();
+        uint256 lastBatchId = latestClosedBatchId();
+        if (lastBatchId < window) revert InvalidWindow();
+        uint256 firstBatchId = lastBatchId - window + 1;
+
+        euint64[] memory energy = new euint64[](window);
+        for (uint256 i = 0; i < window; i++) {
+            energy[i] = _batchEnergy(firstBatchId + i, msg.sender);
+        }
+
+        euint64 total = energy[0];
+        euint64 lowest = energy[0];
+        euint64 highest = energy[0];
+        for (uint256 i = 1; i < window; i++) {
+            total = total.add(energy[i]);
+            lowest = lowest.min(energy[i]);
+            highest = highest.max(energy[i]);
+        }
+        euint64 average = total.div(uint64(window));
+
+        // Sum of min(batch, average) == total minus the shortfall of every below-average batch.
+        euint64 capped = energy[0].min(average);
+        for (uint256 i = 1; i < window; i++) {
+            capped = capped.add(energy[i].min(average));
+        }
+
+        // (capped / window + lowest) / 2 units per batch; the division is folded into the plaintext rate.
+        euint64 dependable = capped.add(lowest.mul(uint64(window)));
+        uint64 perUnit = uint64((uint256(creditPerUnitGwei) * horizonBatches) / (2 * window));
+        uint64 haircutPerUnit = uint64((uint256(perUnit) * (BPS - volatilityHaircutBps)) / BPS);
+        ebool erratic = highest.sub(lowest).gt(average);
+        euint64 creditLimit = FHE.select(erratic, dependable.mul(haircutPerUnit), dependable.mul(perUnit));
+
+        FHE.allowThis(creditLimit);
+        FHE.allow(creditLimit, msg.sender);
+        assessments[msg.sender] = Assessment({
+            creditLimitGwei: creditLimit,
+            firstBatchId: firstBatchId,
+            lastBatchId: lastBatchId,
+            assessedAt: block.timestamp
+        });
+        emit RiskAssessed(msg.sender, firstBatchId, lastBatchId, creditLimit);
+        return creditLimit;
+    }
+
+    function _batchEnergy(uint256 batchId, address provider) internal returns (euint64) {
+        euint32 energy = heliosNet.userEncryptedEnergyInBatch(batchId, provider);
+        if (!FHE.isInitialized(energy)) return FHE.asEuint64(0);
+        if (!FHE.isAllowed(energy, address(this))) revert EnergyNotShared();
+        return FHE.asEuint64(energy);
+    }
+}
@@ -1,6 +1,7 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 
@@ -17,8 +18,8 @@ contract HeliosNetFHE is SepoliaConfig {
 
     uint256 public currentBatchId;
     mapping(uint256 => bool) public isBatchOpen;
-    mapping(uint256 => uint256) public totalEncryptedEnergyInBatch;
-    mapping(uint256 => mapping(address => uint256)) public userEncryptedEnergyInBatch;
+    mapping(uint256 => euint32) public totalEncryptedEnergyInBatch;
+    mapping(uint256 => mapping(address => euint32)) public userEncryptedEnergyInBatch;
 
     struct DecryptionContext {
         uint256 batchId;
@@ -38,6 +39,8 @@ contract HeliosNetFHE is SepoliaConfig {
     event EnergySubmitted(address indexed provider, uint256 indexed batchId, euint32 encryptedEnergy);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalEnergy);
+    event EnergyAccessGranted(address indexed provider, uint256 indexed batchId, address indexed grantee);
+    event BatchTotalAccessGranted(uint256 indexed batchId, address indexed grantee);
 
     error NotOwner();
     error NotProvider();
@@ -48,6 +51,7 @@ contract HeliosNetFHE is SepoliaConfig {
     error StateMismatch();
     error InvalidBatchId();
     error NotInitialized();
+    error BatchStillOpen();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -67,17 +71,10 @@ contract HeliosNetFHE is SepoliaConfig {
     constructor() {
         owner = msg.sender;
         cooldownSeconds = 60; 
-        _initIfNeeded();
     }
 
-    function _initIfNeeded() internal {
-        if (!FHE.isInitialized()) {
-            FHE.initialize();
-        }
-    }
-
-    function _requireInitialized() internal view {
-        if (!FHE.isInitialized()) {
+    function _requireInitialized(euint32 value) internal pure {
+        if (!FHE.isInitialized(value)) {
             revert NotInitialized();
         }
     }
@@ -122,7 +119,6 @@ contract HeliosNetFHE is SepoliaConfig {
     function openBatch() external onlyOwner whenNotPaused {
         currentBatchId++;
         isBatchOpen[currentBatchId] = true;
-        totalEncryptedEnergyInBatch[currentBatchId] = 0;
         emit BatchOpened(currentBatchId);
     }
 
@@ -132,19 +128,46 @@ contract HeliosNetFHE is SepoliaConfig {
         emit BatchClosed(currentBatchId);
     }
 
-    function submitEnergy(euint32 encryptedEnergy) external onlyProvider whenNotPaused {
+    function submitEnergy(externalEuint32 encryptedEnergy, bytes calldata inputProof) external onlyProvider whenNotPaused {
         if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
             revert CooldownActive();
         }
         if (!isBatchOpen[currentBatchId]) revert BatchClosedOrInvalid();
 
-        _initIfNeeded();
+        euint32 energy = FHE.fromExternal(encryptedEnergy, inputProof);
+        FHE.allowThis(energy);
+        FHE.allow(energy, msg.sender);
 
         lastSubmissionTime[msg.sender] = block.timestamp;
-        totalEncryptedEnergyInBatch[currentBatchId] = totalEncryptedEnergyInBatch[currentBatchId].add(encryptedEnergy);
-        userEncryptedEnergyInBatch[currentBatchId][msg.sender] = userEncryptedEnergyInBatch[currentBatchId][msg.sender].add(encryptedEnergy);
 
-        emit EnergySubmitted(msg.sender, currentBatchId, encryptedEnergy);
+        euint32 batchTotal = totalEncryptedEnergyInBatch[currentBatchId].add(energy);
+        FHE.allowThis(batchTotal);
+        totalEncryptedEnergyInBatch[currentBatchId] = batchTotal;
+
+        euint32 userTotal = userEncryptedEnergyInBatch[currentBatchId][msg.sender].add(energy);
+        FHE.allowThis(userTotal);
+        FHE.allow(userTotal, msg.sender);
+        userEncryptedEnergyInBatch[currentBatchId][msg.sender] = userTotal;
+
+        emit EnergySubmitted(msg.sender, currentBatchId, energy);
+    }
+
+    // Lets another contract (e.g. the lending pool) compute on the caller's encrypted energy for a batch.
+    function grantEnergyAccess(uint256 batchId, address grantee) external {
+        euint32 userTotal = userEncryptedEnergyInBatch[batchId][msg.sender];
+        _requireInitialized(userTotal);
+        FHE.allow(userTotal, grantee);
+        emit EnergyAccessGranted(msg.sender, batchId, grantee);
+    }
+
+    // Lets another contract (e.g. the reward distributor) compute on a closed batch's encrypted total.
+    function grantBatchTotalAccess(uint256 batchId, address grantee) external onlyOwner {
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatchId();
+        if (isBatchOpen[batchId]) revert BatchStillOpen();
+        euint32 batchTotal = totalEncryptedEnergyInBatch[batchId];
+        _requireInitialized(batchTotal);
+        FHE.allow(batchTotal, grantee);
+        emit BatchTotalAccessGranted(batchId, grantee);
     }
 
     function requestTotalEnergyDecryption(uint256 batchId) external onlyOwner whenNotPaused {
@@ -153,9 +176,9 @@ contract HeliosNetFHE is SepoliaConfig {
             revert CooldownActive();
         }
 
-        _requireInitialized();
+        euint32 encryptedTotalEnergy = totalEncryptedEnergyInBatch[batchId];
+        _requireInitialized(encryptedTotalEnergy);
 
-        euint32 encryptedTotalEnergy = FHE.asEuint32(totalEncryptedEnergyInBatch[batchId]);
         bytes32[] memory cts = new bytes32[](1);
         cts[0] = FHE.toBytes32(encryptedTotalEnergy);
 
@@ -171,7 +194,7 @@ contract HeliosNetFHE is SepoliaConfig {
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
         if (decryptionContexts[requestId].processed) revert ReplayAttempt();
 
-        euint32 encryptedTotalEnergy = FHE.asEuint32(totalEncryptedEnergyInBatch[decryptionContexts[requestId].batchId]);
+        euint32 encryptedTotalEnergy = totalEncryptedEnergyInBatch[decryptionContexts[requestId].batchId];
         bytes32[] memory cts = new bytes32[](1);
         cts[0] = FHE.toBytes32(encryptedTotalEnergy);
 
@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+contract UniversalAdapter {
+    mapping(string => bytes) private store;
+    mapping(string => string[]) private keyIndex;
+    mapping(bytes32 => bool) private indexedKeys;
+    mapping(string => address) private keyOwners;
+    // May copy records from an older adapter under their original owners, until it calls finishImport.
+    address public importer;
+
+    event DataStored(address indexed sender, string key, bytes value);
+    event DataImported(address indexed owner, string key, bytes value);
+    event KeyIndexed(string namespace, uint256 indexed position, string key);
+    event ImportFinished();
+
+    error KeyNotStored();
+    error NotKeyOwner(address owner);
+    error NotImporter();
+
+    constructor() {
+        importer = msg.sender;
+    }
+
+    /// @notice Stores `value` under `key`. The first writer of a key owns it; later writes from anyone else revert.
+    function setData(string calldata key, bytes calldata value) external {
+        _store(key, value);
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return store[key];
+    }
+
+    /// @notice The account allowed to write `key`, or the zero address while the key is unclaimed.
+    function keyOwner(string calldata key) external view returns (address) {
+        return keyOwners[key];
+    }
+
+    function isAvailable() external pure returns (bool) {
+        return true;
+    }
+
+    /// @notice Stores `value` under `key` and appends `key` to the `namespace` index in one transaction,
+    /// so concurrent writers never overwrite each other's index entries.
+    function setIndexedData(string calldata namespace, string calldata key, bytes calldata value) external {
+        _store(key, value);
+        _indexKey(namespace, key);
+    }
+
+    /// @notice Appends an already stored `key` to the `namespace` index. Used to migrate legacy key lists.
+    function indexKey(string calldata namespace, string calldata key) external {
+        if (store[key].length == 0) revert KeyNotStored();
+        _indexKey(namespace, key);
+    }
+
+    /// @notice Copies a record from an older adapter, keeping the account that wrote it there as its owner, and
+    /// indexes it under `namespace`. Only the importer may call it, and only for keys nobody owns yet.
+    function importData(
+        string calldata namespace,
+        string calldata key,
+        bytes calldata value,
+        address owner
+    ) external {
+        if (msg.sender != importer) revert NotImporter();
+        address current = keyOwners[key];
+        if (current != address(0)) revert NotKeyOwner(current);
+        keyOwners[key] = owner;
+        store[key] = value;
+        emit DataImported(owner, key, value);
+        _indexKey(namespace, key);
+    }
+
+    /// @notice Gives up the import right for good, so no account can be assigned a key any more.
+    function finishImport() external {
+        if (msg.sender != importer) revert NotImporter();
+        importer = address(0);
+        emit ImportFinished();
+    }
+
+    function keyCount(string calldata namespace) external view returns (uint256) {
+        return keyIndex[namespace].length;
+    }
+
+    function isIndexed(string calldata namespace, string calldata key) external view returns (bool) {
+        return indexedKeys[_indexId(namespace, key)];
+    }
+
+    function getKeys(
+        string calldata namespace,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (string[] memory keys) {
+        string[] storage all = keyIndex[namespace];
+        if (offset >= all.length) return new string[](0);
+        uint256 end = offset + limit > all.length ? all.length : offset + limit;
+        keys = new string[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            keys[i - offset] = all[i];
+        }
+    }
+
+    function _store(string calldata key, bytes calldata value) internal {
+        address owner = keyOwners[key];
+        if (owner == address(0)) {
+            keyOwners[key] = msg.sender;
+        } else if (owner != msg.sender) {
+            revert NotKeyOwner(owner);
+        }
+        store[key] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    function _indexKey(string calldata namespace, string calldata key) internal {
+        bytes32 id = _indexId(namespace, key);
+        if (indexedKeys[id]) return;
+        indexedKeys[id] = true;
+        keyIndex[namespace].push(key);
+        emit KeyIndexed(namespace, keyIndex[namespace].length - 1, key);
+    }
+
+    function _indexId(string calldata namespace, string calldata key) internal pure returns (bytes32) {
+        return keccak256(abi.encode(namespace, key));
+    }
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { euint32 } from "@fhevm/solidity/lib/FHE.sol";
+
+// The part of HeliosNetFHE that the lending pool, the risk model and the rewards distributor read.
+interface IHeliosNetFHE {
+    function isProvider(address provider) external view returns (bool);
+    function currentBatchId() external view returns (uint256);
+    function isBatchOpen(uint256 batchId) external view returns (bool);
+    function userEncryptedEnergyInBatch(uint256 batchId, address provider) external view returns (euint32);
+    function totalEncryptedEnergyInBatch(uint256 batchId) external view returns (euint32);
+}
@@ -0,0 +1,106 @@
+// deploy/deployments.ts
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export interface ContractDeployment {
+  address: string;
+  deployer: string;
+  transactionHash: string;
+  blockNumber: number;
+  args: unknown[];
+  deployedAt: string;
+}
+
+export interface NetworkDeployments {
+  network: string;
+  chainId: number;
+  contracts: Record<string, ContractDeployment>;
+}
+
+export const DEFAULT_CONTRACTS = [
+  "UniversalAdapter",
+  "HeliosNetFHE",
+  "HeliosLendingPool",
+  "HeliosRiskModel",
+  "HeliosDAO",
+  "HeliosRewards",
+];
+// Contracts whose only constructor argument is the HeliosNetFHE address.
+const HELIOS_DEPENDENTS = [
+  "HeliosLendingPool",
+  "HeliosRiskModel",
+  "HeliosRewards",
+];
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export const deploymentsPath = (network: string) =>
+  path.join(DEPLOYMENTS_DIR, `${network}.json`);
+
+export function readDeployments(
+  network: string,
+  chainId: number,
+): NetworkDeployments {
+  const file = deploymentsPath(network);
+  if (!fs.existsSync(file)) return { network, chainId, contracts: {} };
+  const deployments = JSON.parse(
+    fs.readFileSync(file, "utf-8"),
+  ) as NetworkDeployments;
+  if (deployments.chainId !== chainId) {
+    throw new Error(
+      `${file} was written for chain ${deployments.chainId}, but network "${network}" is chain ${chainId}`,
+    );
+  }
+  return deployments;
+}
+
+export function writeDeployments(deployments: NetworkDeployments) {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(
+    deploymentsPath(deployments.network),
+    JSON.stringify(deployments, null, 2) + "\n",
+  );
+}
+
+/** Constructor arguments that point at other contracts, resolved from what is already deployed on the network. */
+export function constructorArgs(
+  name: string,
+  deployments: NetworkDeployments,
+): unknown[] {
+  if (!HELIOS_DEPENDENTS.includes(name)) return [];
+  const helios = deployments.contracts.HeliosNetFHE;
+  if (!helios) {
+    throw new Error(
+      `${name} needs HeliosNetFHE: deploy it first or list it before ${name}`,
+    );
+  }
+  return [helios.address];
+}
+
+/** Deploys `name` with the first signer configured for the selected network. */
+export async function deployContract(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  args: unknown[] = [],
+): Promise<ContractDeployment> {
+  const [deployer] = await hre.ethers.getSigners();
+  if (!deployer) {
+    throw new Error(
+      `No deployer account configured for network "${hre.network.name}". Set DEPLOYER_PRIVATE_KEY.`,
+    );
+  }
+
+  const factory = await hre.ethers.getContractFactory(name, deployer);
+  const contract = await factory.deploy(...args);
+  const receipt = await contract.deploymentTransaction()!.wait();
+
+  return {
+    address: await contract.getAddress(),
+    deployer: deployer.address,
+    transactionHash: receipt!.hash,
+    blockNumber: receipt!.blockNumber,
+    args,
+    deployedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,123 @@
+// deploy/manifest.ts
+import fs from "fs";
+import path from "path";
+import { getBytes, hexlify, keccak256, toUtf8Bytes } from "ethers";
+import type { Artifact, HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { DEPLOYMENTS_DIR, NetworkDeployments } from "./deployments";
+
+export interface ArtifactFingerprint {
+  sourceName: string;
+  /** keccak256 of the JSON-serialized ABI, as written to the frontend. */
+  abiHash: string;
+  bytecodeHash: string;
+  deployedBytecodeHash: string;
+  solcVersion: string | null;
+  buildInfoId: string | null;
+}
+
+export interface ManifestContract extends ArtifactFingerprint {
+  address: string;
+  blockNumber: number;
+}
+
+export interface FrontendManifest {
+  /** This chain's entry in frontend/web/src/deployments.json */
+  registry: Record<string, unknown>;
+  /** ABI file path (relative to frontend/web/src) -> abiHash */
+  abiFiles: Record<string, string>;
+}
+
+export interface DeployManifest {
+  network: string;
+  chainId: number;
+  contracts: Record<string, ManifestContract>;
+  frontend: FrontendManifest | null;
+}
+
+export const manifestPath = (network: string) =>
+  path.join(DEPLOYMENTS_DIR, `${network}.manifest.json`);
+
+export const hashAbi = (abi: unknown) =>
+  keccak256(toUtf8Bytes(JSON.stringify(abi)));
+
+export const hashBytecode = (bytecode: string) =>
+  keccak256(bytecode === "" ? "0x" : bytecode);
+
+/**
+ * Zeroes the immutable slots of deployed code. The compiler leaves them zero-filled in `deployedBytecode` and
+ * the constructor fills them in, so on-chain code only hashes like the artifact once they are masked again.
+ */
+export async function maskImmutables(
+  hre: HardhatRuntimeEnvironment,
+  artifact: Artifact,
+  code: string,
+): Promise<string> {
+  const buildInfo = await hre.artifacts.getBuildInfo(
+    `${artifact.sourceName}:${artifact.contractName}`,
+  );
+  const references =
+    buildInfo?.output.contracts[artifact.sourceName]?.[artifact.contractName]
+      ?.evm.deployedBytecode.immutableReferences ?? {};
+  const bytes = getBytes(code === "" ? "0x" : code);
+  for (const slots of Object.values(references)) {
+    for (const { start, length } of slots) {
+      bytes.fill(0, start, start + length);
+    }
+  }
+  return hexlify(bytes);
+}
+
+export async function fingerprintArtifact(
+  hre: HardhatRuntimeEnvironment,
+  artifact: Artifact,
+): Promise<ArtifactFingerprint> {
+  const buildInfo = await hre.artifacts.getBuildInfo(
+    `${artifact.sourceName}:${artifact.contractName}`,
+  );
+  return {
+    sourceName: artifact.sourceName,
+    abiHash: hashAbi(artifact.abi),
+    bytecodeHash: hashBytecode(artifact.bytecode),
+    deployedBytecodeHash: hashBytecode(artifact.deployedBytecode),
+    solcVersion: buildInfo?.solcLongVersion ?? null,
+    buildInfoId: buildInfo?.id ?? null,
+  };
+}
+
+export async function buildManifest(
+  hre: HardhatRuntimeEnvironment,
+  deployments: NetworkDeployments,
+  frontend: FrontendManifest | null,
+): Promise<DeployManifest> {
+  const contracts: Record<string, ManifestContract> = {};
+  for (const [name, deployment] of Object.entries(deployments.contracts)) {
+    const artifact = await hre.artifacts.readArtifact(name);
+    contracts[name] = {
+      address: deployment.address,
+      blockNumber: deployment.blockNumber,
+      ...(await fingerprintArtifact(hre, artifact)),
+    };
+  }
+  return {
+    network: deployments.network,
+    chainId: deployments.chainId,
+    contracts,
+    frontend,
+  };
+}
+
+export function readManifest(network: string): DeployManifest | null {
+  const file = manifestPath(network);
+  return fs.existsSync(file)
+    ? (JSON.parse(fs.readFileSync(file, "utf-8")) as DeployManifest)
+    : null;
+}
+
+export function writeManifest(manifest: DeployManifest) {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(
+    manifestPath(manifest.network),
+    JSON.stringify(manifest, null, 2) + "\n",
+  );
+}
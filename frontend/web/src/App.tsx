@@ -3,9 +3,29 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { getContractReadOnly, getContractWithSigner, getSigner } from "./contract";
+import { DEFAULT_CHAIN_ID, isSupportedChain, setActiveChainId } from "./registry";
+import { decryptEnergyOutput, isLegacyCiphertext, decodeLegacyCiphertext } from "./fhevm";
+import { assertRecordWriter, loadRecordIds, loadRecordWriters, RecordIntegrity, recordIntegrity, recordStorageKey, storeIndexedRecord } from "./recordIndex";
+import { getDeployBlock, syncRecordEvents, RecordRevision } from "./recordEvents";
+import { batchCall } from "./batchReads";
+import { decodeRecord, encodeRecord, PanelMetadata, RecordStatus, StoredSolarRecord } from "./recordSchema";
+import { getBatchStatus, getHeliosAddress, submitEncryptedEnergy, BatchStatus } from "./heliosNet";
+import BatchPanel from "./components/BatchPanel";
+import AdminConsole from "./components/AdminConsole";
+import UnsupportedNetwork from "./components/UnsupportedNetwork";
+import RpcDiagnostics from "./components/RpcDiagnostics";
+import QuarantinePanel, { QuarantinedRecord } from "./components/QuarantinePanel";
+import NodeMap from "./components/NodeMap";
+import ActivityFeed from "./components/ActivityFeed";
+import LendingPool from "./components/LendingPool";
+import Governance from "./components/Governance";
+import Rewards from "./components/Rewards";
+import { Coordinates, geocodeLocation } from "./geocode";
+import { describeError } from "./errors";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
+import { Link, Route, Routes, useLocation } from 'react-router-dom';
 
 // Randomly selected styles:
 // Colors: High contrast (Blue+Orange)
@@ -21,138 +41,133 @@ import { useAccount, useSignMessage } from 'wagmi';
 
 interface SolarRecord {
   id: string;
-  encryptedOutput: string; // kWh encrypted with FHE
+  encryptedOutput?: string; // ciphertext handle of the kWh output
   timestamp: number;
   owner: string;
   location: string;
-  status: "active" | "inactive";
+  status: RecordStatus;
+  batchId?: number;
+  capacityKw?: number;
+  panel?: PanelMetadata;
+  coordinates?: Coordinates;
+  history?: RecordRevision[];
+  integrity: RecordIntegrity;
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
+const toSolarRecord = (id: string, stored: StoredSolarRecord, writer?: string): SolarRecord => ({
+  id,
+  encryptedOutput: stored.output,
+  timestamp: stored.timestamp,
+  owner: stored.owner,
+  location: stored.location,
+  status: stored.status,
+  batchId: stored.batchId,
+  capacityKw: stored.capacityKw,
+  panel: stored.panel,
+  coordinates: stored.coordinates,
+  integrity: recordIntegrity(stored.owner, writer)
+});
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
+const revisionStatus = (revision: RecordRevision): string => {
+  const decoded = decodeRecord(revision.value);
+  return decoded.ok ? decoded.record.status : "unreadable";
 };
 
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'increase10%':
-      result = value * 1.1;
-      break;
-    case 'decrease10%':
-      result = value * 0.9;
-      break;
-    case 'double':
-      result = value * 2;
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
-};
+const emptyRecordForm = { location: "", capacityKw: 0, panelModel: "", panelCount: 0, latitude: "", longitude: "" };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+// Coordinates typed into the form win; otherwise the location is geocoded against the offline table.
+const formCoordinates = (form: typeof emptyRecordForm): Coordinates | undefined => {
+  if (form.latitude !== "" && form.longitude !== "") return { lat: parseFloat(form.latitude), lon: parseFloat(form.longitude) };
+  const match = geocodeLocation(form.location);
+  return match ? { lat: match.lat, lon: match.lon } : undefined;
+};
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId } = useAccount();
+  const location = useLocation();
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<SolarRecord[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newRecordData, setNewRecordData] = useState({ location: "", output: 0 });
+  const [newRecordData, setNewRecordData] = useState(emptyRecordForm);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
   const [showIntro, setShowIntro] = useState(true);
   const [selectedRecord, setSelectedRecord] = useState<SolarRecord | null>(null);
   const [decryptedValue, setDecryptedValue] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
-  const [feedMessages, setFeedMessages] = useState<string[]>([]);
+  const [batchStatus, setBatchStatus] = useState<BatchStatus | null>(null);
+  const [submittingEnergy, setSubmittingEnergy] = useState(false);
   const activeCount = records.filter(r => r.status === "active").length;
   const inactiveCount = records.filter(r => r.status === "inactive").length;
+  const encryptedCount = records.filter(r => r.encryptedOutput && !isLegacyCiphertext(r.encryptedOutput)).length;
+  const unsupportedChain = isConnected && chainId !== undefined && !isSupportedChain(chainId);
+  const isHeliosOwner = !!batchStatus && !!address && batchStatus.owner.toLowerCase() === address.toLowerCase();
 
   useEffect(() => {
+    setActiveChainId(chainId);
     loadRecords().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
+  }, [chainId]);
 
-    // Simulate feed updates
-    const feedInterval = setInterval(() => {
-      const messages = [
-        "New solar node added in Taipei",
-        "FHE computation completed for 12 nodes",
-        "DAO voting round started for network upgrade",
-        "3 new lenders joined the DeFi pool",
-        "Network capacity increased by 15%"
-      ];
-      setFeedMessages(prev => [messages[Math.floor(Math.random() * messages.length)], ...prev.slice(0, 4)]);
-    }, 8000);
-    return () => clearInterval(feedInterval);
-  }, []);
+  useEffect(() => {
+    loadBatchStatus();
+  }, [address, chainId]);
+
+  const loadBatchStatus = async () => {
+    try {
+      setBatchStatus(await getBatchStatus(address));
+    } catch (e) { console.error("Error loading batch status:", e); }
+  };
+
+  const showTransaction = (status: "pending" | "success" | "error", message: string) => {
+    setTransactionStatus({ visible: true, status, message });
+    if (status !== "pending") {
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), status === "error" ? 4000 : 2000);
+    }
+  };
 
   const loadRecords = async () => {
     setIsRefreshing(true);
     try {
       const contract = await getContractReadOnly();
-      if (!contract) return;
+      if (!contract) { setRecords([]); setQuarantined([]); return; }
       
       const isAvailable = await contract.isAvailable();
       if (!isAvailable) return;
       
-      const keysBytes = await contract.getData("solar_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing solar keys:", e); }
-      }
-      
       const list: SolarRecord[] = [];
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`solar_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({ 
-                id: key, 
-                encryptedOutput: recordData.output, 
-                timestamp: recordData.timestamp, 
-                owner: recordData.owner, 
-                location: recordData.location,
-                status: recordData.status || "active"
-              });
-            } catch (e) { console.error(`Error parsing record data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading record ${key}:`, e); }
+      const quarantine: QuarantinedRecord[] = [];
+      // The writer is the account bound to the key on-chain; on adapters without key ownership it falls back
+      // to whoever first wrote the key, which is only known from event history.
+      const addRecord = (id: string, recordBytes: string, writer?: string, history?: RecordRevision[]) => {
+        if (ethers.dataLength(recordBytes) === 0) return;
+        const decoded = decodeRecord(recordBytes);
+        if (decoded.ok) list.push({ ...toSolarRecord(id, decoded.record, writer), history });
+        else quarantine.push({ id, reason: decoded.reason, raw: decoded.raw });
+      };
+      const deployBlock = getDeployBlock();
+      if (deployBlock !== null) {
+        const entries = await syncRecordEvents(contract, deployBlock);
+        const writers = await loadRecordWriters(contract, entries.map(entry => entry.id));
+        for (const entry of entries) {
+          addRecord(entry.id, entry.latest.value, writers.get(entry.id) ?? entry.history[0]?.sender, entry.history);
+        }
+      } else {
+        const keys = await loadRecordIds(contract);
+        const [results, writers] = await Promise.all([
+          batchCall<string>(contract, "getData", new Map(keys.map(key => [key, [recordStorageKey(key)]]))),
+          loadRecordWriters(contract, keys)
+        ]);
+        for (const key of keys) {
+          const result = results.get(key)!;
+          if (!result.ok) { console.error(`Error loading record ${key}:`, result.error); continue; }
+          addRecord(key, result.value, writers.get(key));
+        }
       }
       list.sort((a, b) => b.timestamp - a.timestamp);
       setRecords(list);
+      setQuarantined(quarantine);
     } catch (e) { console.error("Error loading records:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
@@ -160,58 +175,73 @@ const App: React.FC = () => {
   const submitRecord = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setCreating(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting solar output with Zama FHE..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Registering solar node..." });
     try {
-      const encryptedOutput = FHEEncryptNumber(newRecordData.output);
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
       const recordId = `solar-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const recordData = { 
-        output: encryptedOutput, 
+      const recordData = encodeRecord({ 
         timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
+        owner: address!, 
         location: newRecordData.location,
-        status: "active"
-      };
-      
-      await contract.setData(`solar_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(recordData)));
+        status: "active",
+        capacityKw: newRecordData.capacityKw || undefined,
+        panel: newRecordData.panelModel || newRecordData.panelCount ? {
+          model: newRecordData.panelModel || undefined,
+          panelCount: newRecordData.panelCount || undefined
+        } : undefined,
+        coordinates: formCoordinates(newRecordData)
+      });
       
-      const keysBytes = await contract.getData("solar_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(recordId);
-      await contract.setData("solar_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      await storeIndexedRecord(contract, recordId, recordData, address!);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Solar data encrypted and stored!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Solar node registered!" });
       await loadRecords();
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewRecordData({ location: "", output: 0 });
+        setNewRecordData(emptyRecordForm);
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Submission failed: " + (e.message || "Unknown error");
-      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTransactionStatus({ visible: true, status: "error", message: describeError(e, "Submission") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const submitEnergyToBatch = async (kWh: number) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setSubmittingEnergy(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting energy and submitting to batch..." });
+    try {
+      const submission = await submitEncryptedEnergy(kWh, address);
+      setTransactionStatus({ visible: true, status: "success", message: `Encrypted energy added to batch #${submission.batchId}` });
+      await loadBatchStatus();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: describeError(e, "Batch submission") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { setSubmittingEnergy(false); }
+  };
+
+  const decryptWithSignature = async (record: SolarRecord): Promise<number | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
+    if (record.encryptedOutput && isLegacyCiphertext(record.encryptedOutput)) return decodeLegacyCiphertext(record.encryptedOutput);
+    const heliosAddress = getHeliosAddress();
+    if (!record.encryptedOutput || record.batchId === undefined || !heliosAddress) {
+      alert("This record was not submitted to an energy batch, so no contract grants decryption access to it");
+      return null;
+    }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
-    } catch (e) { console.error("Decryption failed:", e); return null; } 
+      const signer = await getSigner();
+      return await decryptEnergyOutput(record.encryptedOutput, heliosAddress, signer);
+    } catch (e) { 
+      console.error("Decryption failed:", e); 
+      showTransaction("error", describeError(e, "Decryption"));
+      return null; 
+    } 
     finally { setIsDecrypting(false); }
   };
 
@@ -222,14 +252,17 @@ const App: React.FC = () => {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
-      const recordBytes = await contract.getData(`solar_${recordId}`);
-      if (recordBytes.length === 0) throw new Error("Record not found");
+      const recordBytes = await contract.getData(recordStorageKey(recordId));
+      if (ethers.dataLength(recordBytes) === 0) throw new Error("Record not found");
       
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      const newStatus = recordData.status === "active" ? "inactive" : "active";
+      const decoded = decodeRecord(recordBytes);
+      if (!decoded.ok) throw new Error(`Record is malformed: ${decoded.reason}`);
+      await assertRecordWriter(contract, recordId, decoded.record.owner);
+      const newStatus = decoded.record.status === "active" ? "inactive" : "active";
       
-      const updatedRecord = { ...recordData, status: newStatus };
-      await contract.setData(`solar_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(updatedRecord)));
+      // Re-encoding also upgrades records written under an older schema version.
+      const updatedRecord = encodeRecord({ ...decoded.record, status: newStatus });
+      await contract.setData(recordStorageKey(recordId), updatedRecord);
       
       setTransactionStatus({ 
         visible: true, 
@@ -242,7 +275,7 @@ const App: React.FC = () => {
       setTransactionStatus({ 
         visible: true, 
         status: "error", 
-        message: "Update failed: " + (e.message || "Unknown error") 
+        message: describeError(e, "Update") 
       });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
@@ -250,43 +283,6 @@ const App: React.FC = () => {
 
   const isOwner = (recordAddress: string) => address?.toLowerCase() === recordAddress.toLowerCase();
 
-  const renderMapVisualization = () => {
-    // Simulated map with random node locations
-    const locations = [
-      { x: 20, y: 30, active: true },
-      { x: 70, y: 45, active: false },
-      { x: 40, y: 70, active: true },
-      { x: 80, y: 20, active: true },
-      { x: 30, y: 50, active: false }
-    ];
-    
-    return (
-      <div className="map-container">
-        <div className="world-map">
-          {locations.map((loc, i) => (
-            <div 
-              key={i} 
-              className={`map-node ${loc.active ? 'active' : 'inactive'}`}
-              style={{ left: `${loc.x}%`, top: `${loc.y}%` }}
-            >
-              <div className="node-pulse"></div>
-            </div>
-          ))}
-        </div>
-        <div className="map-legend">
-          <div className="legend-item">
-            <div className="node-sample active"></div>
-            <span>Active Nodes</span>
-          </div>
-          <div className="legend-item">
-            <div className="node-sample inactive"></div>
-            <span>Inactive Nodes</span>
-          </div>
-        </div>
-      </div>
-    );
-  };
-
   if (loading) return (
     <div className="loading-screen">
       <div className="metal-spinner"></div>
@@ -307,9 +303,22 @@ const App: React.FC = () => {
           <h1>Helios<span>Network</span></h1>
         </div>
         <div className="header-actions">
+          {location.pathname === "/" ? (
+            <>
+              <Link to="/pool" className="metal-button">DeFi Pool</Link>
+              <Link to="/rewards" className="metal-button">Rewards</Link>
+              <Link to="/dao" className="metal-button">DAO</Link>
+            </>
+          ) : (
+            <Link to="/" className="metal-button">Dashboard</Link>
+          )}
+          {isHeliosOwner && location.pathname !== "/admin" && (
+            <Link to="/admin" className="metal-button">Admin</Link>
+          )}
           <button 
             onClick={() => setShowCreateModal(true)} 
             className="create-record-btn metal-button"
+            disabled={unsupportedChain}
           >
             <div className="add-icon"></div>Add Solar Node
           </button>
@@ -319,152 +328,186 @@ const App: React.FC = () => {
         </div>
       </header>
 
-      <div className="main-content radial-layout">
-        <div className="center-panel">
-          {showIntro ? (
-            <div className="intro-panel metal-card">
-              <h2>Helios Network</h2>
-              <p className="subtitle">A DePIN for Solar Energy with DeFi Lending</p>
+      {unsupportedChain ? (
+        <div className="main-content">
+          <UnsupportedNetwork chainId={chainId!} />
+        </div>
+      ) : (
+        <Routes>
+          <Route path="/admin" element={
+            <div className="main-content radial-layout">
+              <AdminConsole 
+                status={batchStatus} 
+                account={address} 
+                onChanged={loadBatchStatus} 
+                onTransaction={showTransaction}
+              />
+            </div>
+          } />
+          <Route path="/pool" element={
+            <div className="main-content radial-layout">
+              <LendingPool account={address} onTransaction={showTransaction} />
+            </div>
+          } />
+          <Route path="/dao" element={
+            <div className="main-content radial-layout">
+              <Governance account={address} onTransaction={showTransaction} />
+            </div>
+          } />
+          <Route path="/rewards" element={
+            <div className="main-content radial-layout">
+              <Rewards account={address} onTransaction={showTransaction} />
+            </div>
+          } />
+          <Route path="*" element={
+            <div className="main-content radial-layout">
+              <div className="center-panel">
+                {showIntro ? (
+                  <div className="intro-panel metal-card">
+                    <h2>Helios Network</h2>
+                    <p className="subtitle">A DePIN for Solar Energy with DeFi Lending</p>
               
-              <div className="intro-content">
-                <div className="intro-feature">
-                  <div className="feature-icon">🔒</div>
-                  <h3>FHE Encrypted Data</h3>
-                  <p>Solar generation data is encrypted using Zama FHE technology before being stored on-chain</p>
-                </div>
+                    <div className="intro-content">
+                      <div className="intro-feature">
+                        <div className="feature-icon">🔒</div>
+                        <h3>FHE Encrypted Data</h3>
+                        <p>Solar generation data is encrypted using Zama FHE technology before being stored on-chain</p>
+                      </div>
                 
-                <div className="intro-feature">
-                  <div className="feature-icon">⚡</div>
-                  <h3>DeFi Collateral</h3>
-                  <p>Use your encrypted future solar output as collateral for private loans in our DeFi pool</p>
-                </div>
+                      <div className="intro-feature">
+                        <div className="feature-icon">⚡</div>
+                        <h3>DeFi Collateral</h3>
+                        <p>Use your encrypted future solar output as collateral for private loans in our DeFi pool</p>
+                      </div>
                 
-                <div className="intro-feature">
-                  <div className="feature-icon">🌐</div>
-                  <h3>DAO Governance</h3>
-                  <p>Network upgrades and rewards are determined through private DAO voting</p>
-                </div>
-              </div>
+                      <div className="intro-feature">
+                        <div className="feature-icon">🌐</div>
+                        <h3>DAO Governance</h3>
+                        <p>Network upgrades and rewards are determined through private DAO voting</p>
+                      </div>
+                    </div>
               
-              <button 
-                className="metal-button primary"
-                onClick={() => setShowIntro(false)}
-              >
-                Enter Dashboard
-              </button>
-            </div>
-          ) : (
-            <>
-              <div className="stats-panel metal-card">
-                <div className="stat-item">
-                  <div className="stat-value">{records.length}</div>
-                  <div className="stat-label">Total Nodes</div>
-                </div>
-                <div className="stat-item">
-                  <div className="stat-value">{activeCount}</div>
-                  <div className="stat-label">Active</div>
-                </div>
-                <div className="stat-item">
-                  <div className="stat-value">{inactiveCount}</div>
-                  <div className="stat-label">Inactive</div>
-                </div>
-                <div className="stat-item">
-                  <div className="stat-value">
-                    {records.length > 0 
-                      ? Math.round(records.reduce((sum, r) => sum + FHEDecryptNumber(r.encryptedOutput), 0) / records.length)
-                      : 0}
+                    <button 
+                      className="metal-button primary"
+                      onClick={() => setShowIntro(false)}
+                    >
+                      Enter Dashboard
+                    </button>
                   </div>
-                  <div className="stat-label">Avg Output (kWh)</div>
-                </div>
-              </div>
+                ) : (
+                  <>
+                    <div className="stats-panel metal-card">
+                      <div className="stat-item">
+                        <div className="stat-value">{records.length}</div>
+                        <div className="stat-label">Total Nodes</div>
+                      </div>
+                      <div className="stat-item">
+                        <div className="stat-value">{activeCount}</div>
+                        <div className="stat-label">Active</div>
+                      </div>
+                      <div className="stat-item">
+                        <div className="stat-value">{inactiveCount}</div>
+                        <div className="stat-label">Inactive</div>
+                      </div>
+                      <div className="stat-item">
+                        <div className="stat-value">{encryptedCount}</div>
+                        <div className="stat-label">FHE Encrypted</div>
+                      </div>
+                    </div>
               
-              <div className="map-panel metal-card">
-                <h3>Global Node Distribution</h3>
-                {renderMapVisualization()}
-              </div>
+                    {getHeliosAddress() && (
+                      <BatchPanel 
+                        status={batchStatus} 
+                        isConnected={isConnected} 
+                        submitting={submittingEnergy} 
+                        onRefresh={loadBatchStatus} 
+                        onSubmit={submitEnergyToBatch}
+                      />
+                    )}
               
-              <div className="feed-panel metal-card">
-                <h3>Network Activity</h3>
-                <div className="feed-container">
-                  {feedMessages.length > 0 ? (
-                    feedMessages.map((msg, i) => (
-                      <div key={i} className="feed-item">
-                        <div className="feed-bullet"></div>
-                        <div className="feed-message">{msg}</div>
-                        <div className="feed-time">Just now</div>
-                      </div>
-                    ))
-                  ) : (
-                    <div className="empty-feed">Loading network activity...</div>
-                  )}
-                </div>
+                    <div className="map-panel metal-card">
+                      <h3>Global Node Distribution</h3>
+                      <NodeMap nodes={records} onSelect={id => setSelectedRecord(records.find(record => record.id === id) ?? null)} />
+                    </div>
+              
+                    <ActivityFeed chainId={chainId ?? DEFAULT_CHAIN_ID} />
+                  </>
+                )}
               </div>
-            </>
-          )}
-        </div>
         
-        <div className="side-panel">
-          <div className="records-panel metal-card">
-            <div className="panel-header">
-              <h3>Solar Nodes</h3>
-              <button 
-                onClick={loadRecords} 
-                className="refresh-btn metal-button" 
-                disabled={isRefreshing}
-              >
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
-            </div>
+              <div className="side-panel">
+                <div className="records-panel metal-card">
+                  <div className="panel-header">
+                    <h3>Solar Nodes</h3>
+                    <button 
+                      onClick={loadRecords} 
+                      className="refresh-btn metal-button" 
+                      disabled={isRefreshing}
+                    >
+                      {isRefreshing ? "Refreshing..." : "Refresh"}
+                    </button>
+                  </div>
             
-            <div className="records-list">
-              {records.length === 0 ? (
-                <div className="no-records">
-                  <div className="no-records-icon"></div>
-                  <p>No solar nodes registered</p>
-                  <button 
-                    className="metal-button primary" 
-                    onClick={() => setShowCreateModal(true)}
-                  >
-                    Register First Node
-                  </button>
-                </div>
-              ) : (
-                records.map(record => (
-                  <div 
-                    key={record.id} 
-                    className={`record-item ${record.status}`}
-                    onClick={() => setSelectedRecord(record)}
-                  >
-                    <div className="record-icon">
-                      <div className={`status-indicator ${record.status}`}></div>
-                    </div>
-                    <div className="record-details">
-                      <div className="record-location">{record.location}</div>
-                      <div className="record-meta">
-                        <span>#{record.id.substring(0, 6)}</span>
-                        <span>{new Date(record.timestamp * 1000).toLocaleDateString()}</span>
-                      </div>
-                    </div>
-                    <div className="record-actions">
-                      {isOwner(record.owner) && (
+                  <div className="records-list">
+                    {records.length === 0 ? (
+                      <div className="no-records">
+                        <div className="no-records-icon"></div>
+                        <p>No solar nodes registered</p>
                         <button 
-                          className="status-toggle metal-button small"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            toggleRecordStatus(record.id);
-                          }}
+                          className="metal-button primary" 
+                          onClick={() => setShowCreateModal(true)}
                         >
-                          {record.status === "active" ? "Deactivate" : "Activate"}
+                          Register First Node
                         </button>
-                      )}
-                    </div>
+                      </div>
+                    ) : (
+                      records.map(record => (
+                        <div 
+                          key={record.id} 
+                          className={`record-item ${record.status}`}
+                          onClick={() => setSelectedRecord(record)}
+                        >
+                          <div className="record-icon">
+                            <div className={`status-indicator ${record.status}`}></div>
+                          </div>
+                          <div className="record-details">
+                            <div className="record-location">{record.location}</div>
+                            <div className="record-meta">
+                              <span>#{record.id.substring(0, 6)}</span>
+                              <span>{new Date(record.timestamp * 1000).toLocaleDateString()}</span>
+                              {record.integrity === "tampered" && (
+                                <span className="status-badge tampered" title="The claimed owner did not write this record">Tampered</span>
+                              )}
+                            </div>
+                          </div>
+                          <div className="record-actions">
+                            {isOwner(record.owner) && record.integrity !== "tampered" && (
+                              <button 
+                                className="status-toggle metal-button small"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  toggleRecordStatus(record.id);
+                                }}
+                              >
+                                {record.status === "active" ? "Deactivate" : "Activate"}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))
+                    )}
                   </div>
-                ))
-              )}
+                </div>
+            
+                {quarantined.length > 0 && <QuarantinePanel records={quarantined} />}
+            
+                <RpcDiagnostics chainId={chainId ?? DEFAULT_CHAIN_ID} />
+              </div>
             </div>
-          </div>
-        </div>
-      </div>
+      
+          } />
+        </Routes>
+      )}
       
       {showCreateModal && (
         <ModalCreate 
@@ -511,8 +554,9 @@ const App: React.FC = () => {
           </div>
           <div className="footer-links">
             <a href="#" className="footer-link">Documentation</a>
-            <a href="#" className="footer-link">DAO Governance</a>
-            <a href="#" className="footer-link">DeFi Pool</a>
+            <Link to="/dao" className="footer-link">DAO Governance</Link>
+            <Link to="/pool" className="footer-link">DeFi Pool</Link>
+            <Link to="/rewards" className="footer-link">Provider Rewards</Link>
           </div>
         </div>
         <div className="footer-bottom">
@@ -548,13 +592,19 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
   };
 
   const handleSubmit = () => {
-    if (!recordData.location || !recordData.output) { 
+    if (!recordData.location) { 
       alert("Please fill required fields"); 
       return; 
     }
+    if ((recordData.latitude === "") !== (recordData.longitude === "")) {
+      alert("Enter both latitude and longitude, or leave both empty");
+      return;
+    }
     onSubmit();
   };
 
+  const geocoded = recordData.location ? geocodeLocation(recordData.location) : null;
+
   return (
     <div className="modal-overlay">
       <div className="create-modal metal-card">
@@ -567,7 +617,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             <div className="notice-icon">🔒</div>
             <div>
               <strong>FHE Encryption Notice</strong>
-              <p>Your solar output data will be encrypted with Zama FHE before submission</p>
+              <p>Registration stores no output. Submit energy from the Energy Batch panel, where it is encrypted with Zama FHE for the HeliosNetFHE contract</p>
             </div>
           </div>
           
@@ -583,36 +633,81 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             />
           </div>
           
+          <div className="form-row coordinates-row">
+            <div className="form-group">
+              <label>Latitude</label>
+              <input 
+                type="number" 
+                name="latitude" 
+                value={recordData.latitude} 
+                onChange={handleChange} 
+                placeholder={geocoded ? geocoded.lat.toFixed(2) : "e.g. 25.03"}
+                className="metal-input"
+                step="0.0001"
+                min="-90"
+                max="90"
+              />
+            </div>
+            <div className="form-group">
+              <label>Longitude</label>
+              <input 
+                type="number" 
+                name="longitude" 
+                value={recordData.longitude} 
+                onChange={handleChange} 
+                placeholder={geocoded ? geocoded.lon.toFixed(2) : "e.g. 121.57"}
+                className="metal-input"
+                step="0.0001"
+                min="-180"
+                max="180"
+              />
+            </div>
+          </div>
+          <div className="form-hint">
+            {recordData.latitude !== "" || recordData.longitude !== "" ? "Using the coordinates entered above" :
+              geocoded ? `Placed on the map at ${geocoded.name} (${geocoded.region}) unless coordinates are entered` :
+              recordData.location ? "Location not recognised; enter coordinates to place this node on the map" :
+              "Coordinates are optional for well-known places"}
+          </div>
+          
           <div className="form-group">
-            <label>Estimated Daily Output (kWh) *</label>
+            <label>Installed Capacity (kW)</label>
             <input 
               type="number" 
-              name="output" 
-              value={recordData.output} 
+              name="capacityKw" 
+              value={recordData.capacityKw || ""} 
               onChange={handleValueChange} 
-              placeholder="Enter estimated kWh output"
+              placeholder="e.g. 5.2"
               className="metal-input"
               step="0.1"
               min="0"
             />
           </div>
           
-          <div className="encryption-preview">
-            <h4>Encryption Preview</h4>
-            <div className="preview-container">
-              <div className="plain-data">
-                <span>Plain Value:</span>
-                <div>{recordData.output || '0'} kWh</div>
-              </div>
-              <div className="encryption-arrow">→</div>
-              <div className="encrypted-data">
-                <span>Encrypted Data:</span>
-                <div>
-                  {recordData.output ? 
-                    FHEEncryptNumber(recordData.output).substring(0, 30) + '...' : 
-                    'No value entered'}
-                </div>
-              </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Panel Model</label>
+              <input 
+                type="text" 
+                name="panelModel" 
+                value={recordData.panelModel} 
+                onChange={handleChange} 
+                placeholder="e.g. Maxeon 6 AC"
+                className="metal-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Panel Count</label>
+              <input 
+                type="number" 
+                name="panelCount" 
+                value={recordData.panelCount || ""} 
+                onChange={handleValueChange} 
+                placeholder="e.g. 12"
+                className="metal-input"
+                step="1"
+                min="0"
+              />
             </div>
           </div>
         </div>
@@ -625,7 +720,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             disabled={creating} 
             className="submit-btn metal-button primary"
           >
-            {creating ? "Encrypting with FHE..." : "Register Node"}
+            {creating ? "Registering..." : "Register Node"}
           </button>
         </div>
       </div>
@@ -639,7 +734,7 @@ interface RecordDetailModalProps {
   decryptedValue: number | null;
   setDecryptedValue: (value: number | null) => void;
   isDecrypting: boolean;
-  decryptWithSignature: (encryptedData: string) => Promise<number | null>;
+  decryptWithSignature: (record: SolarRecord) => Promise<number | null>;
 }
 
 const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ 
@@ -655,7 +750,7 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
       setDecryptedValue(null); 
       return; 
     }
-    const decrypted = await decryptWithSignature(record.encryptedOutput);
+    const decrypted = await decryptWithSignature(record);
     if (decrypted !== null) setDecryptedValue(decrypted);
   };
 
@@ -672,6 +767,12 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               <span>Location:</span>
               <strong>{record.location}</strong>
             </div>
+            {record.coordinates && (
+              <div className="info-item">
+                <span>Coordinates:</span>
+                <strong>{record.coordinates.lat.toFixed(4)}, {record.coordinates.lon.toFixed(4)}</strong>
+              </div>
+            )}
             <div className="info-item">
               <span>Owner:</span>
               <strong>
@@ -684,6 +785,37 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
                 {record.status}
               </strong>
             </div>
+            <div className="info-item">
+              <span>Integrity:</span>
+              <strong className={`status-badge ${record.integrity}`}>
+                {record.integrity}
+              </strong>
+            </div>
+            {record.integrity === "tampered" && (
+              <div className="batch-blocker">
+                This record claims an owner that did not write it. Its contents cannot be trusted.
+              </div>
+            )}
+            {record.batchId !== undefined && (
+              <div className="info-item">
+                <span>Energy Batch:</span>
+                <strong>#{record.batchId}</strong>
+              </div>
+            )}
+            {record.capacityKw !== undefined && (
+              <div className="info-item">
+                <span>Capacity:</span>
+                <strong>{record.capacityKw} kW</strong>
+              </div>
+            )}
+            {record.panel && (
+              <div className="info-item">
+                <span>Panels:</span>
+                <strong>
+                  {[record.panel.panelCount && `${record.panel.panelCount} ×`, record.panel.manufacturer, record.panel.model].filter(Boolean).join(" ") || "—"}
+                </strong>
+              </div>
+            )}
             <div className="info-item">
               <span>Registered:</span>
               <strong>
@@ -692,8 +824,27 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
             </div>
           </div>
           
+          {record.history && record.history.length > 1 && (
+            <div className="record-history">
+              <h3>History</h3>
+              {record.history.map(revision => (
+                <div key={`${revision.txHash}-${revision.logIndex}`} className="history-item">
+                  <span>Block #{revision.blockNumber}</span>
+                  <span className={`status-badge ${revisionStatus(revision)}`}>{revisionStatus(revision)}</span>
+                  <span>{revision.sender.substring(0, 6)}...{revision.sender.substring(38)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          
           <div className="encrypted-data-section">
             <h3>Encrypted Output</h3>
+            {!record.encryptedOutput ? (
+              <div className="form-hint">
+                No output is stored with this node. Energy is encrypted and submitted to the open batch from the Energy Batch panel.
+              </div>
+            ) : (
+            <>
             <div className="encrypted-data">
               {record.encryptedOutput.substring(0, 50)}...
             </div>
@@ -714,6 +865,8 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
                 "Decrypt with Wallet Signature"
               )}
             </button>
+            </>
+            )}
           </div>
           
           {decryptedValue !== null && (
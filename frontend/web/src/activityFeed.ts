@@ -0,0 +1,167 @@
+// activityFeed.ts
+import { ethers } from "ethers";
+import { ABI, getReadProvider } from "./contract";
+import { HELIOS_ABI } from "./heliosNet";
+import { decodeRecord } from "./recordSchema";
+import { getActiveChainId, getContractAddress, getContractDeployBlock } from "./registry";
+import { recordIdFromStorageKey, RECORD_NAMESPACE } from "./recordIndex";
+
+export type ActivityKind =
+  | "record-created"
+  | "record-updated"
+  | "energy-submitted"
+  | "batch-opened"
+  | "batch-closed"
+  | "decryption-completed";
+
+export const ACTIVITY_LABELS: Record<ActivityKind, string> = {
+  "record-created": "New nodes",
+  "record-updated": "Status changes",
+  "energy-submitted": "Energy",
+  "batch-opened": "Batch opened",
+  "batch-closed": "Batch closed",
+  "decryption-completed": "Decryptions",
+};
+
+export interface ActivityEvent {
+  id: string; // txHash:logIndex
+  kind: ActivityKind;
+  message: string;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp: number | null; // seconds, once the block has been fetched
+}
+
+export interface ActivityPage {
+  events: ActivityEvent[]; // newest first
+  lastBlock: number;
+}
+
+const LOG_RANGE = 5000;
+// First load only looks this far back; later polls continue from the last block seen.
+const LOOKBACK_BLOCKS = 20000;
+export const MAX_ACTIVITY_EVENTS = 100;
+
+const adapterInterface = new ethers.Interface(ABI);
+const heliosInterface = new ethers.Interface(HELIOS_ABI);
+
+const ADAPTER_EVENTS = ["DataStored", "DataImported", "KeyIndexed"];
+const HELIOS_EVENTS = ["EnergySubmitted", "BatchOpened", "BatchClosed", "DecryptionCompleted"];
+
+// Block timestamps never change once a block is final, so they are cached per chain for the session.
+const blockTimestamps = new Map<string, number>();
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const isRecordKey = (key: string) => key.startsWith(`${RECORD_NAMESPACE}_`);
+
+const importMessage = (key: string, value: string) => {
+  const decoded = decodeRecord(value);
+  return decoded.ok
+    ? `Solar node in ${decoded.record.location} migrated`
+    : `Node #${recordIdFromStorageKey(key).substring(0, 10)} migrated`;
+};
+
+const recordMessage = (key: string, value: string, created: boolean) => {
+  const decoded = decodeRecord(value);
+  if (!decoded.ok) return created ? `New solar node #${recordIdFromStorageKey(key).substring(0, 10)} registered` : `Node #${recordIdFromStorageKey(key).substring(0, 10)} updated`;
+  return created
+    ? `New solar node registered in ${decoded.record.location}`
+    : `Node in ${decoded.record.location} marked ${decoded.record.status}`;
+};
+
+const toActivity = (log: ethers.Log, parsed: ethers.LogDescription, createdKeys: Set<string>): ActivityEvent | null => {
+  const base = { id: `${log.transactionHash}:${log.index}`, blockNumber: log.blockNumber, logIndex: log.index, txHash: log.transactionHash, timestamp: null };
+  switch (parsed.name) {
+    case "DataStored": {
+      const key: string = parsed.args.key;
+      if (!isRecordKey(key)) return null;
+      // setIndexedData indexes a key in the same transaction that first stores it; later writes are updates.
+      const created = createdKeys.has(`${log.transactionHash}:${key}`);
+      return { ...base, kind: created ? "record-created" : "record-updated", message: recordMessage(key, parsed.args.value, created) };
+    }
+    case "DataImported": {
+      const key: string = parsed.args.key;
+      if (!isRecordKey(key)) return null;
+      // A migration re-creates records that already existed on the previous adapter.
+      return { ...base, kind: "record-created", message: importMessage(key, parsed.args.value) };
+    }
+    case "EnergySubmitted":
+      return { ...base, kind: "energy-submitted", message: `Encrypted energy submitted to batch #${parsed.args.batchId} by ${shortAddress(parsed.args.provider)}` };
+    case "BatchOpened":
+      return { ...base, kind: "batch-opened", message: `Energy batch #${parsed.args.batchId} opened` };
+    case "BatchClosed":
+      return { ...base, kind: "batch-closed", message: `Energy batch #${parsed.args.batchId} closed` };
+    case "DecryptionCompleted":
+      return { ...base, kind: "decryption-completed", message: `Batch #${parsed.args.batchId} total decrypted: ${parsed.args.totalEnergy} kWh` };
+    default:
+      return null;
+  }
+};
+
+const fillTimestamps = async (provider: ethers.Provider, chainId: number, events: ActivityEvent[]) => {
+  const missing = [...new Set(events.map(event => event.blockNumber))].filter(block => !blockTimestamps.has(`${chainId}:${block}`));
+  // Requests issued in the same tick go out as one JSON-RPC batch.
+  const blocks = await Promise.all(missing.map(block => provider.getBlock(block).catch(() => null)));
+  for (const block of blocks) {
+    if (block) blockTimestamps.set(`${chainId}:${block.number}`, block.timestamp);
+  }
+  for (const event of events) event.timestamp = blockTimestamps.get(`${chainId}:${event.blockNumber}`) ?? null;
+};
+
+/**
+ * Reads record, energy, batch and decryption events of the registered contracts on the active chain.
+ * Without `fromBlock` it scans the last LOOKBACK_BLOCKS (never before the earliest deploy block); pass the
+ * previous page's `lastBlock + 1` to fetch only what happened since.
+ */
+export async function loadActivity(fromBlock?: number): Promise<ActivityPage> {
+  const chainId = getActiveChainId();
+  const adapterAddress = getContractAddress("UniversalAdapter", chainId);
+  const heliosAddress = getContractAddress("HeliosNetFHE", chainId);
+  const provider = await getReadProvider(chainId);
+  const latestBlock = await provider.getBlockNumber();
+
+  const addresses = [adapterAddress, heliosAddress].filter((address): address is string => !!address);
+  if (addresses.length === 0) return { events: [], lastBlock: latestBlock };
+
+  const deployBlocks = [getContractDeployBlock("UniversalAdapter", chainId), getContractDeployBlock("HeliosNetFHE", chainId)]
+    .filter((block): block is number => block !== null);
+  const start = fromBlock ?? Math.max(latestBlock - LOOKBACK_BLOCKS, deployBlocks.length ? Math.min(...deployBlocks) : 0, 0);
+
+  const topics = [
+    ...ADAPTER_EVENTS.map(name => adapterInterface.getEvent(name)!.topicHash),
+    ...HELIOS_EVENTS.map(name => heliosInterface.getEvent(name)!.topicHash),
+  ];
+  const logs: ethers.Log[] = [];
+  for (let from = start; from <= latestBlock; from += LOG_RANGE) {
+    const to = Math.min(from + LOG_RANGE - 1, latestBlock);
+    logs.push(...await provider.getLogs({ address: addresses, topics: [topics], fromBlock: from, toBlock: to }));
+  }
+
+  const parse = (log: ethers.Log) => {
+    const iface = log.address.toLowerCase() === adapterAddress?.toLowerCase() ? adapterInterface : heliosInterface;
+    try { return iface.parseLog(log); } catch { return null; }
+  };
+  const parsed = logs.map(log => ({ log, parsed: parse(log) }));
+  const createdKeys = new Set(
+    parsed.filter(({ parsed }) => parsed?.name === "KeyIndexed").map(({ log, parsed }) => `${log.transactionHash}:${parsed!.args.key}`)
+  );
+
+  const events = parsed
+    .map(({ log, parsed }) => (parsed ? toActivity(log, parsed, createdKeys) : null))
+    .filter((event): event is ActivityEvent => event !== null)
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+    .slice(0, MAX_ACTIVITY_EVENTS);
+  await fillTimestamps(provider, chainId, events);
+  return { events, lastBlock: latestBlock };
+}
+
+export function formatRelativeTime(timestamp: number, now = Date.now() / 1000): string {
+  const seconds = Math.max(0, Math.floor(now - timestamp));
+  if (seconds < 10) return "just now";
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
@@ -0,0 +1,72 @@
+// batchReads.ts
+import { ethers } from "ethers";
+
+// Public RPCs commonly cap JSON-RPC batches somewhere between 50 and 100 calls.
+const BATCH_CHUNK_SIZE = 50;
+// Chunks in flight at once; more mostly buys rate limiting on public endpoints.
+const PARALLEL_CHUNKS = 4;
+
+export type BatchCallResult<T> = { ok: true; value: T } | { ok: false; error: Error };
+
+const decodeResult = (contract: ethers.Contract, fragment: ethers.FunctionFragment, data: string) => {
+  const decoded = contract.interface.decodeFunctionResult(fragment, data);
+  // Same shape as calling the method on the contract: single outputs are unwrapped.
+  return decoded.length === 1 ? decoded[0] : decoded;
+};
+
+/**
+ * Calls the view `method` once per entry of `calls` (key -> arguments) and returns the decoded result per key.
+ *
+ * On a JSON-RPC provider the calls go out as eth_call batches of BATCH_CHUNK_SIZE, all pinned to the same
+ * block so the results form one consistent snapshot. A revert or a failed chunk only fails its own keys.
+ */
+export async function batchCall<T = unknown>(contract: ethers.Contract, method: string, calls: Map<string, unknown[]>): Promise<Map<string, BatchCallResult<T>>> {
+  const results = new Map<string, BatchCallResult<T>>();
+  const entries = [...calls];
+  if (entries.length === 0) return results;
+
+  const provider = contract.runner?.provider;
+  if (!(provider instanceof ethers.JsonRpcApiProvider)) {
+    await Promise.all(entries.map(async ([key, args]) => {
+      try { results.set(key, { ok: true, value: await contract[method](...args) }); }
+      catch (e) { results.set(key, { ok: false, error: e as Error }); }
+    }));
+    return results;
+  }
+
+  const fragment = contract.interface.getFunction(method)!;
+  const to = await contract.getAddress();
+  const blockTag = ethers.toQuantity(await provider.getBlockNumber());
+
+  const sendChunk = async (chunk: [string, unknown[]][]) => {
+    const payload: ethers.JsonRpcPayload[] = chunk.map(([, args], i) => ({
+      method: "eth_call",
+      params: [{ to, data: contract.interface.encodeFunctionData(fragment, args) }, blockTag],
+      id: i + 1,
+      jsonrpc: "2.0",
+    }));
+    try {
+      const responses: (ethers.JsonRpcResult | ethers.JsonRpcError)[] = await provider._send(payload);
+      const byId = new Map(responses.map(response => [response.id, response]));
+      chunk.forEach(([key], i) => {
+        const response = byId.get(i + 1);
+        try {
+          if (!response) throw new Error(`No response for ${method} call ${key}`);
+          if ("error" in response) throw provider.getRpcError(payload[i], response);
+          results.set(key, { ok: true, value: decodeResult(contract, fragment, response.result) as T });
+        } catch (e) {
+          results.set(key, { ok: false, error: e as Error });
+        }
+      });
+    } catch (e) {
+      chunk.forEach(([key]) => results.set(key, { ok: false, error: e as Error }));
+    }
+  };
+
+  const chunks: [string, unknown[]][][] = [];
+  for (let i = 0; i < entries.length; i += BATCH_CHUNK_SIZE) chunks.push(entries.slice(i, i + BATCH_CHUNK_SIZE));
+  for (let i = 0; i < chunks.length; i += PARALLEL_CHUNKS) {
+    await Promise.all(chunks.slice(i, i + PARALLEL_CHUNKS).map(sendChunk));
+  }
+  return results;
+}
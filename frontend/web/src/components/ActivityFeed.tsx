@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityEvent, ActivityKind, ACTIVITY_LABELS, formatRelativeTime, loadActivity, MAX_ACTIVITY_EVENTS } from '../activityFeed';
+import { explorerTxUrl } from '../registry';
+
+interface ActivityFeedProps {
+  chainId: number;
+}
+
+const POLL_INTERVAL_MS = 20000;
+const CLOCK_INTERVAL_MS = 15000;
+const ALL_KINDS = Object.keys(ACTIVITY_LABELS) as ActivityKind[];
+
+export default function ActivityFeed({ chainId }: ActivityFeedProps) {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [kinds, setKinds] = useState<Set<ActivityKind>>(new Set(ALL_KINDS));
+  const [now, setNow] = useState(Date.now() / 1000);
+
+  useEffect(() => {
+    let cancelled = false;
+    let lastBlock: number | null = null;
+    setEvents([]);
+    setLoading(true);
+
+    const poll = async () => {
+      try {
+        const page = await loadActivity(lastBlock === null ? undefined : lastBlock + 1);
+        if (cancelled) return;
+        lastBlock = page.lastBlock;
+        setEvents(prev => {
+          const seen = new Set(prev.map(event => event.id));
+          return [...page.events.filter(event => !seen.has(event.id)), ...prev].slice(0, MAX_ACTIVITY_EVENTS);
+        });
+        setError('');
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message || 'Failed to load network activity');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => { cancelled = true; clearInterval(timer); };
+  }, [chainId]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() / 1000), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const toggleKind = (kind: ActivityKind) => {
+    const next = new Set(kinds);
+    if (next.has(kind)) next.delete(kind);
+    else next.add(kind);
+    setKinds(next);
+  };
+
+  const visible = events.filter(event => kinds.has(event.kind));
+
+  return (
+    <div className="feed-panel metal-card">
+      <h3>Network Activity</h3>
+      <div className="feed-filters">
+        <button
+          className={`feed-filter ${kinds.size === ALL_KINDS.length ? 'selected' : ''}`}
+          onClick={() => setKinds(new Set(ALL_KINDS))}
+        >
+          All
+        </button>
+        {ALL_KINDS.map(kind => (
+          <button
+            key={kind}
+            className={`feed-filter ${kind} ${kinds.has(kind) ? 'selected' : ''}`}
+            onClick={() => toggleKind(kind)}
+          >
+            {ACTIVITY_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+      <div className="feed-container">
+        {visible.length > 0 ? (
+          visible.map(event => {
+            const txUrl = explorerTxUrl(event.txHash, chainId);
+            return (
+              <div key={event.id} className="feed-item">
+                <div className={`feed-bullet ${event.kind}`}></div>
+                <div className="feed-message">
+                  {event.message}
+                  <div className="feed-tx">
+                    {txUrl ? (
+                      <a href={txUrl} target="_blank" rel="noopener noreferrer">{event.txHash.substring(0, 10)}...</a>
+                    ) : (
+                      <span>{event.txHash.substring(0, 10)}...</span>
+                    )}
+                  </div>
+                </div>
+                <div className="feed-time" title={event.timestamp !== null ? new Date(event.timestamp * 1000).toLocaleString() : undefined}>
+                  {event.timestamp !== null ? formatRelativeTime(event.timestamp, now) : `block #${event.blockNumber}`}
+                </div>
+              </div>
+            );
+          })
+        ) : (
+          <div className="empty-feed">
+            {loading ? 'Loading network activity...' : error || (events.length > 0 ? 'No activity matches the selected filters' : 'No recent activity on this network')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
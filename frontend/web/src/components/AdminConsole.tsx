@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { describeError } from '../errors';
+import {
+  getHeliosContractReadOnly,
+  listProviders,
+  sendHeliosAdminTx,
+  BatchStatus,
+  HeliosAdminMethod,
+} from '../heliosNet';
+import { trackDecryptionRequest } from '../decryptionTracker';
+import { awaitLocalDecryptionOracle, isLocalChain } from '../localChain';
+import { getActiveChainId } from '../registry';
+import DecryptionTracker from './DecryptionTracker';
+
+interface AdminConsoleProps {
+  status: BatchStatus | null;
+  account?: string;
+  onChanged: () => Promise<void>;
+  onTransaction: (status: 'pending' | 'success' | 'error', message: string) => void;
+}
+
+interface PendingAction {
+  method: HeliosAdminMethod;
+  args: unknown[];
+  title: string;
+  description: string;
+}
+
+export default function AdminConsole({ status, account, onChanged, onTransaction }: AdminConsoleProps) {
+  const [providers, setProviders] = useState<string[]>([]);
+  const [loadingProviders, setLoadingProviders] = useState(false);
+  const [providerInput, setProviderInput] = useState('');
+  const [cooldownInput, setCooldownInput] = useState('');
+  const [decryptBatchInput, setDecryptBatchInput] = useState('');
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [running, setRunning] = useState(false);
+  const [trackerRefresh, setTrackerRefresh] = useState(0);
+
+  const isOwner = !!status && !!account && status.owner.toLowerCase() === account.toLowerCase();
+
+  const loadProviders = async () => {
+    setLoadingProviders(true);
+    try {
+      const contract = await getHeliosContractReadOnly();
+      setProviders(contract ? await listProviders(contract) : []);
+    } catch (e) { console.error('Error loading providers:', e); }
+    finally { setLoadingProviders(false); }
+  };
+
+  useEffect(() => {
+    loadProviders();
+  }, []);
+
+  if (!status) {
+    return (
+      <div className="admin-console metal-card">
+        <h2>Admin Console</h2>
+        <div className="empty-feed">HeliosNetFHE is not deployed on this network</div>
+      </div>
+    );
+  }
+
+  const confirmAction = async () => {
+    if (!pending) return;
+    const action = pending;
+    setPending(null);
+    setRunning(true);
+    onTransaction('pending', `${action.title}...`);
+    try {
+      const receipt = await sendHeliosAdminTx(action.method, action.args);
+      onTransaction('success', `${action.title} confirmed`);
+      await onChanged();
+      if (action.method === 'addProvider' || action.method === 'removeProvider') await loadProviders();
+      if (action.method === 'requestTotalEnergyDecryption') {
+        const contract = await getHeliosContractReadOnly();
+        if (contract) await trackDecryptionRequest(contract, receipt);
+        if (isLocalChain(getActiveChainId())) await awaitLocalDecryptionOracle();
+        setTrackerRefresh(n => n + 1);
+      }
+    } catch (e: any) {
+      onTransaction('error', describeError(e, action.title));
+    } finally { setRunning(false); }
+  };
+
+  const askProviderChange = (method: 'addProvider' | 'removeProvider', address: string) => {
+    if (!ethers.isAddress(address)) { onTransaction('error', 'Enter a valid provider address'); return; }
+    const adding = method === 'addProvider';
+    setPending({
+      method,
+      args: [ethers.getAddress(address)],
+      title: adding ? 'Add provider' : 'Remove provider',
+      description: adding
+        ? `${address} will be able to submit encrypted energy to open batches.`
+        : `${address} will no longer be able to submit energy.`,
+    });
+  };
+
+  const askCooldown = () => {
+    const seconds = Number(cooldownInput);
+    if (!Number.isInteger(seconds) || seconds < 0) { onTransaction('error', 'Cooldown must be a whole number of seconds'); return; }
+    setPending({
+      method: 'setCooldownSeconds',
+      args: [seconds],
+      title: 'Set cooldown',
+      description: `Providers and decryption requests will wait ${seconds}s between calls (currently ${status.cooldownSeconds}s).`,
+    });
+  };
+
+  const askDecryption = () => {
+    const batchId = decryptBatchInput ? Number(decryptBatchInput) : status.batchId;
+    if (!Number.isInteger(batchId) || batchId <= 0) { onTransaction('error', 'Enter a valid batch id'); return; }
+    setPending({
+      method: 'requestTotalEnergyDecryption',
+      args: [batchId],
+      title: `Request decryption of batch #${batchId}`,
+      description: 'The relayer will publicly decrypt the batch total and post it back through the callback.',
+    });
+  };
+
+  return (
+    <div className="admin-console">
+      <div className="admin-panel metal-card">
+        <div className="panel-header">
+          <h2>Admin Console</h2>
+          <button className="metal-button small" onClick={onChanged}>Refresh</button>
+        </div>
+        {!isOwner && (
+          <div className="batch-blocker">
+            Read-only: only the owner {status.owner.substring(0, 6)}...{status.owner.substring(38)} can run these actions
+          </div>
+        )}
+        <div className="batch-grid">
+          <div className="info-item">
+            <span>Current batch:</span>
+            <strong>#{status.batchId}</strong>
+          </div>
+          <div className="info-item">
+            <span>Batch:</span>
+            <strong className={`status-badge ${status.isOpen ? 'active' : 'inactive'}`}>
+              {status.isOpen ? 'open' : 'closed'}
+            </strong>
+          </div>
+          <div className="info-item">
+            <span>Network:</span>
+            <strong className={`status-badge ${status.paused ? 'inactive' : 'active'}`}>
+              {status.paused ? 'paused' : 'running'}
+            </strong>
+          </div>
+          <div className="info-item">
+            <span>Cooldown:</span>
+            <strong>{status.cooldownSeconds}s</strong>
+          </div>
+        </div>
+        <div className="admin-actions">
+          <button
+            className="metal-button primary"
+            disabled={!isOwner || running || status.paused}
+            onClick={() => setPending({
+              method: 'openBatch',
+              args: [],
+              title: `Open batch #${status.batchId + 1}`,
+              description: status.isOpen
+                ? `Batch #${status.batchId} is still open; new submissions will go to batch #${status.batchId + 1}.`
+                : 'Providers will be able to submit encrypted energy to the new batch.',
+            })}
+          >
+            Open Batch
+          </button>
+          <button
+            className="metal-button"
+            disabled={!isOwner || running || status.paused || !status.isOpen}
+            onClick={() => setPending({
+              method: 'closeBatch',
+              args: [],
+              title: `Close batch #${status.batchId}`,
+              description: 'No further submissions will be accepted and the batch can no longer be decrypted.',
+            })}
+          >
+            Close Batch
+          </button>
+          <button
+            className="metal-button"
+            disabled={!isOwner || running}
+            onClick={() => setPending(status.paused
+              ? { method: 'unpause', args: [], title: 'Unpause network', description: 'Submissions and batch actions resume.' }
+              : { method: 'pause', args: [], title: 'Pause network', description: 'All submissions and batch actions are blocked until unpaused.' })}
+          >
+            {status.paused ? 'Unpause' : 'Pause'}
+          </button>
+        </div>
+        <div className="admin-form">
+          <input
+            type="number"
+            className="metal-input"
+            placeholder={`Cooldown seconds (now ${status.cooldownSeconds})`}
+            min="0"
+            value={cooldownInput}
+            onChange={(e) => setCooldownInput(e.target.value)}
+          />
+          <button className="metal-button" disabled={!isOwner || running || cooldownInput === ''} onClick={askCooldown}>
+            Set Cooldown
+          </button>
+        </div>
+        <div className="admin-form">
+          <input
+            type="number"
+            className="metal-input"
+            placeholder={`Batch id (default #${status.batchId})`}
+            min="1"
+            value={decryptBatchInput}
+            onChange={(e) => setDecryptBatchInput(e.target.value)}
+          />
+          <button className="metal-button" disabled={!isOwner || running || status.paused} onClick={askDecryption}>
+            Request Decryption
+          </button>
+        </div>
+      </div>
+
+      <div className="admin-panel metal-card">
+        <div className="panel-header">
+          <h3>Providers</h3>
+          <button className="metal-button small" onClick={loadProviders} disabled={loadingProviders}>
+            {loadingProviders ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+        <div className="admin-form">
+          <input
+            type="text"
+            className="metal-input"
+            placeholder="Provider address (0x...)"
+            value={providerInput}
+            onChange={(e) => setProviderInput(e.target.value.trim())}
+          />
+          <button className="metal-button primary" disabled={!isOwner || running || !providerInput} onClick={() => askProviderChange('addProvider', providerInput)}>
+            Add
+          </button>
+        </div>
+        {providers.length === 0 ? (
+          <div className="empty-feed">{loadingProviders ? 'Loading providers...' : 'No registered providers found'}</div>
+        ) : (
+          providers.map(provider => (
+            <div key={provider} className="history-item">
+              <span>{provider}</span>
+              <button
+                className="metal-button small"
+                disabled={!isOwner || running}
+                onClick={() => askProviderChange('removeProvider', provider)}
+              >
+                Remove
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <DecryptionTracker refreshKey={trackerRefresh} />
+
+      {pending && (
+        <div className="modal-overlay">
+          <div className="create-modal metal-card">
+            <div className="modal-header">
+              <h2>{pending.title}?</h2>
+              <button onClick={() => setPending(null)} className="close-modal">&times;</button>
+            </div>
+            <div className="modal-body">
+              <p>{pending.description}</p>
+            </div>
+            <div className="modal-footer">
+              <button onClick={() => setPending(null)} className="cancel-btn metal-button">Cancel</button>
+              <button onClick={confirmAction} className="submit-btn metal-button primary">Confirm</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
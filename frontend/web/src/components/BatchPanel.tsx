@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import type { BatchStatus } from '../heliosNet';
+
+interface BatchPanelProps {
+  status: BatchStatus | null;
+  isConnected: boolean;
+  submitting: boolean;
+  onRefresh: () => void;
+  onSubmit: (kWh: number) => void;
+}
+
+const describeBlocker = (status: BatchStatus): string | null => {
+  if (status.paused) return 'Network is paused by the owner';
+  if (!status.isOpen) return 'No batch is currently open';
+  if (!status.isProvider) return 'Your wallet is not a registered provider';
+  if (!status.canSubmit) return `Cooldown active until ${new Date(status.nextSubmissionAt * 1000).toLocaleTimeString()}`;
+  return null;
+};
+
+export default function BatchPanel({ status, isConnected, submitting, onRefresh, onSubmit }: BatchPanelProps) {
+  const [amount, setAmount] = useState<number>(0);
+
+  if (!status) {
+    return (
+      <div className="batch-panel metal-card">
+        <h3>Energy Batch</h3>
+        <div className="empty-feed">HeliosNetFHE is not deployed on this network</div>
+      </div>
+    );
+  }
+
+  const blocker = isConnected ? describeBlocker(status) : 'Connect wallet to submit energy';
+
+  return (
+    <div className="batch-panel metal-card">
+      <div className="panel-header">
+        <h3>Energy Batch #{status.batchId}</h3>
+        <button className="metal-button small" onClick={onRefresh}>Refresh</button>
+      </div>
+      <div className="batch-grid">
+        <div className="info-item">
+          <span>Batch:</span>
+          <strong className={`status-badge ${status.isOpen ? 'active' : 'inactive'}`}>
+            {status.isOpen ? 'open' : 'closed'}
+          </strong>
+        </div>
+        <div className="info-item">
+          <span>Network:</span>
+          <strong className={`status-badge ${status.paused ? 'inactive' : 'active'}`}>
+            {status.paused ? 'paused' : 'running'}
+          </strong>
+        </div>
+        <div className="info-item">
+          <span>Provider:</span>
+          <strong>{status.isProvider ? 'Registered' : 'Not registered'}</strong>
+        </div>
+        <div className="info-item">
+          <span>Cooldown:</span>
+          <strong>{status.cooldownSeconds}s</strong>
+        </div>
+      </div>
+      <div className="batch-submit">
+        <input
+          type="number"
+          className="metal-input"
+          placeholder="Energy produced (kWh)"
+          step="0.1"
+          min="0"
+          value={amount || ''}
+          onChange={(e) => setAmount(parseFloat(e.target.value))}
+        />
+        <button
+          className="metal-button primary"
+          disabled={!!blocker || submitting || !amount}
+          onClick={() => onSubmit(amount)}
+        >
+          {submitting ? 'Encrypting...' : 'Submit Encrypted'}
+        </button>
+      </div>
+      {blocker && <div className="batch-blocker">{blocker}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { getHeliosContractReadOnly } from '../heliosNet';
+import { refreshDecryptions, TrackedDecryption } from '../decryptionTracker';
+
+interface DecryptionTrackerProps {
+  refreshKey: number;
+}
+
+const POLL_INTERVAL_MS = 15000;
+
+const stateBadge = (entry: TrackedDecryption) => {
+  switch (entry.state) {
+    case 'completed': return 'active';
+    case 'pending': return 'pending';
+    default: return 'inactive';
+  }
+};
+
+export default function DecryptionTracker({ refreshKey }: DecryptionTrackerProps) {
+  const [entries, setEntries] = useState<TrackedDecryption[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      const contract = await getHeliosContractReadOnly();
+      setEntries(contract ? await refreshDecryptions(contract) : []);
+    } catch (e) { console.error('Error refreshing decryptions:', e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  const hasUnfinished = entries.some(entry => entry.state === 'pending' || entry.state === 'timeout');
+  useEffect(() => {
+    if (!hasUnfinished) return;
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasUnfinished]);
+
+  return (
+    <div className="admin-panel metal-card">
+      <div className="panel-header">
+        <h3>Batch Decryptions</h3>
+        <button className="metal-button small" onClick={refresh} disabled={loading}>
+          {loading ? 'Checking...' : 'Refresh'}
+        </button>
+      </div>
+      {entries.length === 0 ? (
+        <div className="empty-feed">No decryption requests yet</div>
+      ) : (
+        entries.map(entry => (
+          <div key={entry.requestId} className="decryption-item">
+            <div className="history-item">
+              <span>Batch #{entry.batchId}</span>
+              <span>Request {entry.requestId.length > 10 ? `${entry.requestId.substring(0, 10)}...` : entry.requestId}</span>
+              <span className={`status-badge ${stateBadge(entry)}`}>{entry.state}</span>
+              <strong>{entry.totalEnergy !== undefined ? `${entry.totalEnergy} kWh` : '—'}</strong>
+            </div>
+            {entry.error && entry.state !== 'completed' && (
+              <div className="batch-blocker">{entry.error}</div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
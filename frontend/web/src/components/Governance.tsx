@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  castVote,
+  createProposal,
+  DaoInfo,
+  describeProposalCall,
+  encodeProposalCall,
+  executeProposal,
+  getDaoInfo,
+  getProposals,
+  GOVERNABLE_CONTRACTS,
+  governableMethods,
+  Proposal,
+  ProposalState,
+  requestTally,
+} from '../dao';
+import { describeError } from '../errors';
+import { ContractName, getContractAddress } from '../registry';
+
+interface GovernanceProps {
+  account?: string;
+  onTransaction: (status: 'pending' | 'success' | 'error', message: string) => void;
+}
+
+interface Ballot {
+  votesFor: string;
+  votesAgainst: string;
+}
+
+const CUSTOM_TARGET = 'custom';
+
+const STATE_BADGES: Record<ProposalState, string> = {
+  active: 'active',
+  ended: 'pending',
+  tallying: 'pending',
+  succeeded: 'verified',
+  defeated: 'inactive',
+  executed: 'unverified',
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatDuration = (seconds: number) => {
+  if (seconds >= 86400) return `${Math.floor(seconds / 86400)}d ${Math.floor((seconds % 86400) / 3600)}h`;
+  if (seconds >= 3600) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  return `${Math.max(1, Math.ceil(seconds / 60))}m`;
+};
+
+const parseVotes = (value: string): number | null => {
+  const votes = Number(value.trim() === '' ? '0' : value);
+  return Number.isInteger(votes) && votes >= 0 ? votes : null;
+};
+
+export default function Governance({ account, onTransaction }: GovernanceProps) {
+  const [info, setInfo] = useState<DaoInfo | null>(null);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [now, setNow] = useState(Date.now() / 1000);
+  const [ballots, setBallots] = useState<Record<number, Ballot>>({});
+  const [targetName, setTargetName] = useState<string>('HeliosNetFHE');
+  const [method, setMethod] = useState('');
+  const [argsInput, setArgsInput] = useState('');
+  const [customTarget, setCustomTarget] = useState('');
+  const [customCallData, setCustomCallData] = useState('');
+  const [description, setDescription] = useState('');
+
+  const load = async () => {
+    try {
+      const nextInfo = await getDaoInfo(account);
+      setInfo(nextInfo);
+      setProposals(nextInfo ? await getProposals(nextInfo.proposalCount, account) : []);
+    } catch (e) { console.error('Error loading proposals:', e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    load();
+  }, [account]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() / 1000), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="lending-pool">
+        <div className="pool-panel metal-card">
+          <h2>DAO Governance</h2>
+          <div className="empty-feed">Loading proposals...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!info) {
+    return (
+      <div className="lending-pool">
+        <div className="pool-panel metal-card">
+          <h2>DAO Governance</h2>
+          <div className="empty-feed">HeliosDAO is not deployed on this network</div>
+        </div>
+      </div>
+    );
+  }
+
+  const isMember = info.votingPower > 0;
+  const targets = (Object.keys(GOVERNABLE_CONTRACTS) as ContractName[]).filter(name => getContractAddress(name));
+  const methods = targetName === CUSTOM_TARGET ? [] : governableMethods(targetName as ContractName);
+
+  const run = async (title: string, action: () => Promise<string | void>) => {
+    setRunning(true);
+    onTransaction('pending', `${title}...`);
+    try {
+      const message = await action();
+      onTransaction('success', message || `${title} confirmed`);
+      await load();
+    } catch (e: any) {
+      onTransaction('error', describeError(e, title));
+    } finally { setRunning(false); }
+  };
+
+  const submitProposal = () => {
+    if (!description.trim()) { onTransaction('error', 'Describe what the proposal changes'); return; }
+    let target: string;
+    let callData: string;
+    try {
+      if (targetName === CUSTOM_TARGET) {
+        if (!ethers.isAddress(customTarget)) throw new Error('Enter a valid target address');
+        if (!ethers.isHexString(customCallData)) throw new Error('Call data must be a 0x-prefixed hex string');
+        target = customTarget;
+        callData = customCallData;
+      } else {
+        if (!method) throw new Error('Pick the method the proposal calls');
+        target = getContractAddress(targetName as ContractName)!;
+        callData = encodeProposalCall(targetName as ContractName, method, argsInput);
+      }
+    } catch (e: any) {
+      onTransaction('error', e.message);
+      return;
+    }
+    run('Proposal', async () => {
+      const id = await createProposal(target, callData, description.trim());
+      setDescription('');
+      setArgsInput('');
+      return `Proposal #${id} is open for ${formatDuration(info.votingPeriod)}`;
+    });
+  };
+
+  const submitVote = (proposal: Proposal) => {
+    const ballot = ballots[proposal.id] ?? { votesFor: '', votesAgainst: '' };
+    const votesFor = parseVotes(ballot.votesFor);
+    const votesAgainst = parseVotes(ballot.votesAgainst);
+    if (votesFor === null || votesAgainst === null || votesFor + votesAgainst === 0) {
+      onTransaction('error', 'Enter whole numbers of votes for and/or against');
+      return;
+    }
+    run(`Vote on #${proposal.id}`, async () => {
+      await castVote(proposal.id, votesFor, votesAgainst, info.votingPower);
+      setBallots(current => ({ ...current, [proposal.id]: { votesFor: '', votesAgainst: '' } }));
+      return `Encrypted ballot cast on proposal #${proposal.id}`;
+    });
+  };
+
+  const submitTally = (proposal: Proposal) =>
+    run(`Tally of #${proposal.id}`, async () => {
+      await requestTally(proposal.id);
+      return 'Tally requested; the decryption oracle will publish the result shortly';
+    });
+
+  const submitExecute = (proposal: Proposal) =>
+    run(`Execute #${proposal.id}`, async () => { await executeProposal(proposal.id); });
+
+  const updateBallot = (id: number, field: keyof Ballot, value: string) =>
+    setBallots(current => ({ ...current, [id]: { ...(current[id] ?? { votesFor: '', votesAgainst: '' }), [field]: value } }));
+
+  return (
+    <div className="lending-pool">
+      <div className="pool-panel metal-card">
+        <div className="panel-header">
+          <h2>DAO Governance</h2>
+          <button className="metal-button small" onClick={load} disabled={running}>Refresh</button>
+        </div>
+        <p className="risk-note">
+          Ballots are encrypted in your browser and added up homomorphically, so neither your vote nor the running
+          totals are ever visible. Only the final for/against totals are decrypted once voting ends.
+        </p>
+        <div className="pool-grid">
+          <div className="info-item">
+            <span>Voting period:</span>
+            <strong>{formatDuration(info.votingPeriod)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Quorum:</span>
+            <strong>{info.quorumVotes.toString()} votes</strong>
+          </div>
+          <div className="info-item">
+            <span>Total voting power:</span>
+            <strong>{info.totalVotingPower.toString()}</strong>
+          </div>
+          <div className="info-item">
+            <span>Your voting power:</span>
+            <strong>{account ? info.votingPower : '-'}</strong>
+          </div>
+        </div>
+        {account && !isMember && (
+          <div className="batch-blocker">Your wallet has no voting power; the DAO owner ({shortAddress(info.owner)}) grants it</div>
+        )}
+      </div>
+
+      {isMember && (
+        <div className="pool-panel metal-card">
+          <h3>New proposal</h3>
+          <div className="admin-form">
+            <select className="metal-input" value={targetName} onChange={(e) => { setTargetName(e.target.value); setMethod(''); }}>
+              {targets.map(name => <option key={name} value={name}>{name}</option>)}
+              <option value={CUSTOM_TARGET}>Custom target</option>
+            </select>
+            {targetName === CUSTOM_TARGET ? (
+              <input
+                type="text"
+                className="metal-input"
+                placeholder="Target address (0x...)"
+                value={customTarget}
+                onChange={(e) => setCustomTarget(e.target.value)}
+              />
+            ) : (
+              <select className="metal-input" value={method} onChange={(e) => setMethod(e.target.value)}>
+                <option value="">Method...</option>
+                {methods.map(signature => <option key={signature} value={signature}>{signature}</option>)}
+              </select>
+            )}
+          </div>
+          <div className="admin-form">
+            {targetName === CUSTOM_TARGET ? (
+              <input
+                type="text"
+                className="metal-input"
+                placeholder="Call data (0x...)"
+                value={customCallData}
+                onChange={(e) => setCustomCallData(e.target.value)}
+              />
+            ) : (
+              <input
+                type="text"
+                className="metal-input"
+                placeholder="Arguments, comma separated"
+                value={argsInput}
+                onChange={(e) => setArgsInput(e.target.value)}
+              />
+            )}
+          </div>
+          <div className="admin-form">
+            <input
+              type="text"
+              className="metal-input"
+              placeholder="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+            <button className="metal-button primary" disabled={running || !description.trim()} onClick={submitProposal}>
+              Propose
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="pool-panel metal-card">
+        <h3>Proposals</h3>
+        {proposals.length === 0 ? (
+          <div className="empty-feed">No proposals yet</div>
+        ) : (
+          proposals.map(proposal => {
+            const ballot = ballots[proposal.id] ?? { votesFor: '', votesAgainst: '' };
+            const tallied = proposal.state === 'succeeded' || proposal.state === 'defeated' || proposal.state === 'executed';
+            return (
+              <div key={proposal.id} className="proposal-item">
+                <div className="panel-header">
+                  <strong>#{proposal.id} {proposal.description}</strong>
+                  <span className={`status-badge ${STATE_BADGES[proposal.state]}`}>{proposal.state}</span>
+                </div>
+                <div className="proposal-call">{describeProposalCall(proposal.target, proposal.callData)}</div>
+                <div className="proposal-meta">
+                  <span>by {shortAddress(proposal.proposer)}</span>
+                  <span>{proposal.voterCount} ballot(s)</span>
+                  <span title={new Date(proposal.endTime * 1000).toLocaleString()}>
+                    {proposal.endTime > now ? `ends in ${formatDuration(proposal.endTime - now)}` : 'voting closed'}
+                  </span>
+                  {tallied && <span>{proposal.forVotes.toString()} for / {proposal.againstVotes.toString()} against</span>}
+                </div>
+                {proposal.state === 'active' && isMember && !proposal.hasVoted && (
+                  <div className="admin-form">
+                    <input
+                      type="number"
+                      className="metal-input"
+                      placeholder="For"
+                      min="0"
+                      step="1"
+                      value={ballot.votesFor}
+                      onChange={(e) => updateBallot(proposal.id, 'votesFor', e.target.value)}
+                    />
+                    <input
+                      type="number"
+                      className="metal-input"
+                      placeholder="Against"
+                      min="0"
+                      step="1"
+                      value={ballot.votesAgainst}
+                      onChange={(e) => updateBallot(proposal.id, 'votesAgainst', e.target.value)}
+                    />
+                    <button className="metal-button primary" disabled={running} onClick={() => submitVote(proposal)}>
+                      Vote
+                    </button>
+                  </div>
+                )}
+                {proposal.state === 'active' && proposal.hasVoted && (
+                  <div className="empty-feed">Your encrypted ballot is counted</div>
+                )}
+                {proposal.state === 'ended' && account && (
+                  <button className="metal-button" disabled={running} onClick={() => submitTally(proposal)}>
+                    Request tally
+                  </button>
+                )}
+                {proposal.state === 'succeeded' && account && (
+                  <button className="metal-button primary" disabled={running} onClick={() => submitExecute(proposal)}>
+                    Execute
+                  </button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
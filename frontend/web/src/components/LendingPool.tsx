@@ -0,0 +1,461 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getSigner } from '../contract';
+import { describeError } from '../errors';
+import { fromEnergyUnits } from '../fhevm';
+import {
+  BorrowerPosition,
+  creditLimit,
+  creditPerKwh,
+  decryptCollateral,
+  deposit,
+  getBorrowerPosition,
+  getLenderPosition,
+  getPoolStats,
+  LenderPosition,
+  pledgeBatch,
+  pledgeProjection,
+  PoolStats,
+  projectDebt,
+  projectLenderValue,
+  repay,
+  repayAllAmount,
+  requestBorrow,
+  requestHealthCheck,
+  sharesForAmount,
+  supplyRateBps,
+  withdraw,
+} from '../lendingPool';
+import RiskAssessment from './RiskAssessment';
+
+interface LendingPoolProps {
+  account?: string;
+  onTransaction: (status: 'pending' | 'success' | 'error', message: string) => void;
+}
+
+// Debt is polled while a borrow request waits for the decryption oracle.
+const PENDING_POLL_MS = 15000;
+
+const formatEth = (wei: bigint, digits = 6) => `${Number(ethers.formatEther(wei)).toFixed(digits)} ETH`;
+const formatBps = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+const parseEth = (value: string): bigint | null => {
+  try {
+    const wei = ethers.parseEther(value.trim());
+    return wei > 0n ? wei : null;
+  } catch {
+    return null;
+  }
+};
+
+export default function LendingPool({ account, onTransaction }: LendingPoolProps) {
+  const [stats, setStats] = useState<PoolStats | null>(null);
+  const [lender, setLender] = useState<LenderPosition | null>(null);
+  const [borrower, setBorrower] = useState<BorrowerPosition | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [now, setNow] = useState(Date.now() / 1000);
+  const [collateralKwh, setCollateralKwh] = useState<number | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [depositInput, setDepositInput] = useState('');
+  const [withdrawInput, setWithdrawInput] = useState('');
+  const [borrowInput, setBorrowInput] = useState('');
+  const [repayInput, setRepayInput] = useState('');
+  const [projectionInput, setProjectionInput] = useState('');
+
+  const load = async () => {
+    try {
+      const nextStats = await getPoolStats();
+      setStats(nextStats);
+      if (nextStats && account) {
+        const [nextLender, nextBorrower] = await Promise.all([getLenderPosition(account), getBorrowerPosition(account)]);
+        setLender(nextLender);
+        setBorrower(nextBorrower);
+      } else {
+        setLender(null);
+        setBorrower(null);
+      }
+    } catch (e) { console.error('Error loading lending pool:', e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    setCollateralKwh(null);
+    load();
+  }, [account]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() / 1000), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!borrower || borrower.pendingAmount === 0n) return;
+    const timer = setInterval(load, PENDING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [borrower?.pendingAmount]);
+
+  if (loading) {
+    return (
+      <div className="lending-pool">
+        <div className="pool-panel metal-card">
+          <h2>DeFi Pool</h2>
+          <div className="empty-feed">Loading lending pool...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!stats) {
+    return (
+      <div className="lending-pool">
+        <div className="pool-panel metal-card">
+          <h2>DeFi Pool</h2>
+          <div className="empty-feed">HeliosLendingPool is not deployed on this network</div>
+        </div>
+      </div>
+    );
+  }
+
+  const run = async (title: string, action: () => Promise<string | void>) => {
+    setRunning(true);
+    onTransaction('pending', `${title}...`);
+    try {
+      const message = await action();
+      onTransaction('success', message || `${title} confirmed`);
+      await load();
+    } catch (e: any) {
+      onTransaction('error', describeError(e, title));
+    } finally { setRunning(false); }
+  };
+
+  const submitDeposit = () => {
+    const amount = parseEth(depositInput);
+    if (!amount) { onTransaction('error', 'Enter an amount of ETH to deposit'); return; }
+    run('Deposit', async () => { await deposit(amount); setDepositInput(''); });
+  };
+
+  const submitWithdraw = (all: boolean) => {
+    if (!lender) return;
+    const amount = all ? null : parseEth(withdrawInput);
+    if (!all && !amount) { onTransaction('error', 'Enter an amount of ETH to withdraw'); return; }
+    const shares = all ? lender.shares : sharesForAmount(amount!, lender, stats);
+    if (shares === 0n) { onTransaction('error', 'Nothing to withdraw'); return; }
+    run('Withdraw', async () => { await withdraw(shares); setWithdrawInput(''); });
+  };
+
+  const submitPledge = (batchId: number) =>
+    run(`Pledge batch #${batchId}`, async () => { await pledgeBatch(batchId); setCollateralKwh(null); });
+
+  const submitProjection = (batchId: number) => {
+    const kWh = Number(projectionInput);
+    if (!projectionInput || !Number.isFinite(kWh) || kWh <= 0) { onTransaction('error', 'Enter the output you expect in kWh'); return; }
+    run(`Projection for batch #${batchId}`, async () => {
+      await pledgeProjection(batchId, kWh, account!);
+      setProjectionInput('');
+      setCollateralKwh(null);
+    });
+  };
+
+  const submitHealthCheck = () =>
+    run('Health check', async () => {
+      const flagged = await requestHealthCheck(account!);
+      if (flagged === null) return 'Health check requested; the decryption oracle will answer shortly';
+      return flagged ? 'Your position is still under-collateralized' : 'Your position is healthy';
+    });
+
+  const submitBorrow = () => {
+    const amount = parseEth(borrowInput);
+    if (!amount) { onTransaction('error', 'Enter an amount of ETH to borrow'); return; }
+    run('Borrow request', async () => {
+      const outcome = await requestBorrow(amount);
+      setBorrowInput('');
+      if (outcome === 'rejected') throw new Error('Borrow rejected: the loan would exceed your collateral limit or the pool lacked liquidity');
+      return outcome === 'executed'
+        ? `Borrowed ${formatEth(amount)}`
+        : 'Borrow requested; the decryption oracle will approve or reject it shortly';
+    });
+  };
+
+  const submitRepay = (all: boolean) => {
+    if (!borrower) return;
+    const amount = all ? repayAllAmount(projectDebt(borrower.debt, stats, now), stats) : parseEth(repayInput);
+    if (!amount) { onTransaction('error', 'Enter an amount of ETH to repay'); return; }
+    run('Repay', async () => { await repay(amount); setRepayInput(''); });
+  };
+
+  const revealCollateral = async () => {
+    if (!borrower) return;
+    setDecrypting(true);
+    try {
+      setCollateralKwh(await decryptCollateral(borrower.collateralHandle, await getSigner()));
+    } catch (e: any) {
+      onTransaction('error', describeError(e, 'Collateral decryption'));
+    } finally { setDecrypting(false); }
+  };
+
+  // Borrows accrue interest between reads, and what borrowers owe is what lenders are owed.
+  const borrowed = projectDebt(stats.totalBorrows, stats, now);
+  const supplied = stats.totalAssets + borrowed - stats.totalBorrows;
+  const lenderValue = lender ? projectLenderValue(lender, stats, now) : 0n;
+  const lenderEarned = lender && lenderValue > lender.deposited ? lenderValue - lender.deposited : 0n;
+  const debt = borrower ? projectDebt(borrower.debt, stats, now) : 0n;
+  const interest = borrower && debt > borrower.principal ? debt - borrower.principal : 0n;
+  const limit = collateralKwh !== null ? creditLimit(collateralKwh, stats) : null;
+
+  return (
+    <div className="lending-pool">
+      <div className="pool-panel metal-card">
+        <div className="panel-header">
+          <h2>DeFi Pool</h2>
+          <button className="metal-button small" onClick={load} disabled={running}>Refresh</button>
+        </div>
+        {stats.paused && (
+          <div className="batch-blocker">The pool is paused: deposits, pledges and new loans are disabled</div>
+        )}
+        <div className="pool-grid">
+          <div className="info-item">
+            <span>Total supplied:</span>
+            <strong>{formatEth(supplied, 4)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Borrowed:</span>
+            <strong>{formatEth(borrowed, 4)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Available:</span>
+            <strong>{formatEth(stats.availableLiquidity, 4)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Utilization:</span>
+            <strong>{formatBps(stats.utilizationBps)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Borrow APR:</span>
+            <strong>{formatBps(stats.borrowRateBps)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Supply APR:</span>
+            <strong>{formatBps(supplyRateBps(stats))}</strong>
+          </div>
+          <div className="info-item">
+            <span>Credit per kWh:</span>
+            <strong>{formatEth(creditPerKwh(stats))}</strong>
+          </div>
+          <div className="info-item">
+            <span>Loan-to-value:</span>
+            <strong>{formatBps(stats.loanToValueBps)}</strong>
+          </div>
+        </div>
+      </div>
+
+      {!account ? (
+        <div className="pool-panel metal-card">
+          <div className="empty-feed">Connect a wallet to lend or borrow</div>
+        </div>
+      ) : (
+        <div className="pool-positions">
+          <div className="pool-panel metal-card">
+            <h3>Lend</h3>
+            <div className="pool-grid">
+              <div className="info-item">
+                <span>Your balance:</span>
+                <strong>{formatEth(lenderValue)}</strong>
+              </div>
+              <div className="info-item">
+                <span>Deposited:</span>
+                <strong>{formatEth(lender?.deposited ?? 0n)}</strong>
+              </div>
+              <div className="info-item">
+                <span>Interest earned:</span>
+                <strong className="pool-accrual">{formatEth(lenderEarned, 9)}</strong>
+              </div>
+            </div>
+            <div className="admin-form">
+              <input
+                type="number"
+                className="metal-input"
+                placeholder="Amount (ETH)"
+                min="0"
+                step="0.01"
+                value={depositInput}
+                onChange={(e) => setDepositInput(e.target.value)}
+              />
+              <button className="metal-button primary" disabled={running || stats.paused || !depositInput} onClick={submitDeposit}>
+                Deposit
+              </button>
+            </div>
+            <div className="admin-form">
+              <input
+                type="number"
+                className="metal-input"
+                placeholder="Amount (ETH)"
+                min="0"
+                step="0.01"
+                value={withdrawInput}
+                onChange={(e) => setWithdrawInput(e.target.value)}
+              />
+              <button className="metal-button" disabled={running || !withdrawInput || !lender?.shares} onClick={() => submitWithdraw(false)}>
+                Withdraw
+              </button>
+              <button className="metal-button" disabled={running || !lender?.shares} onClick={() => submitWithdraw(true)}>
+                All
+              </button>
+            </div>
+          </div>
+
+          <div className="pool-panel metal-card">
+            <h3>Borrow</h3>
+            {!borrower?.isProvider && (
+              <div className="batch-blocker">Only registered energy providers can borrow against their production</div>
+            )}
+            <div className="pool-grid">
+              <div className="info-item">
+                <span>Debt:</span>
+                <strong>{formatEth(debt)}</strong>
+              </div>
+              <div className="info-item">
+                <span>Principal:</span>
+                <strong>{formatEth(borrower?.principal ?? 0n)}</strong>
+              </div>
+              <div className="info-item">
+                <span>Accrued interest:</span>
+                <strong className="pool-accrual">{formatEth(interest, 9)}</strong>
+              </div>
+              <div className="info-item">
+                <span>Collateral:</span>
+                {collateralKwh !== null ? (
+                  <strong>{collateralKwh.toFixed(1)} kWh</strong>
+                ) : (
+                  <button
+                    className="metal-button small"
+                    disabled={decrypting || !borrower?.pledgedBatches.length}
+                    onClick={revealCollateral}
+                  >
+                    {decrypting ? 'Decrypting...' : 'Decrypt'}
+                  </button>
+                )}
+              </div>
+              {limit !== null && (
+                <div className="info-item">
+                  <span>Credit limit:</span>
+                  <strong>{formatEth(limit)}</strong>
+                </div>
+              )}
+            </div>
+            {borrower?.undercollateralized && (
+              <div className="batch-blocker">
+                A health check found your debt above the liquidation threshold of your collateral: keepers can liquidate this position
+                until you repay it in full, or until a new health check passes after you pledge more collateral or repay part of it
+              </div>
+            )}
+            {borrower && (debt > 0n || borrower.healthCheckPending) && (
+              <div className="admin-form">
+                <button className="metal-button" disabled={running || borrower.healthCheckPending} onClick={submitHealthCheck}>
+                  {borrower.healthCheckPending ? 'Health check pending...' : 'Request health check'}
+                </button>
+              </div>
+            )}
+            {borrower && borrower.pendingAmount > 0n && (
+              <div className="batch-blocker">
+                <span className="status-badge pending">pending</span> Borrow of {formatEth(borrower.pendingAmount)} is waiting for the decryption oracle
+              </div>
+            )}
+            <div className="admin-form">
+              <input
+                type="number"
+                className="metal-input"
+                placeholder="Amount (ETH)"
+                min="0"
+                step="0.001"
+                value={borrowInput}
+                onChange={(e) => setBorrowInput(e.target.value)}
+              />
+              <button
+                className="metal-button primary"
+                disabled={running || stats.paused || !borrowInput || !borrower?.pledgedBatches.length || (borrower?.pendingAmount ?? 0n) > 0n || borrower?.undercollateralized}
+                onClick={submitBorrow}
+              >
+                Borrow
+              </button>
+            </div>
+            <div className="admin-form">
+              <input
+                type="number"
+                className="metal-input"
+                placeholder="Amount (ETH)"
+                min="0"
+                step="0.001"
+                value={repayInput}
+                onChange={(e) => setRepayInput(e.target.value)}
+              />
+              <button className="metal-button" disabled={running || !repayInput || debt === 0n} onClick={() => submitRepay(false)}>
+                Repay
+              </button>
+              <button className="metal-button" disabled={running || debt === 0n} onClick={() => submitRepay(true)}>
+                All
+              </button>
+            </div>
+
+            <h3>Collateral batches</h3>
+            {borrower && borrower.projectableBatch !== null && (
+              <>
+                <div className="history-item">
+                  <span>Batch #{borrower.projectableBatch} (open)</span>
+                  <span>Pledge your expected output, up to {fromEnergyUnits(stats.maxBatchUnits).toFixed(1)} kWh</span>
+                </div>
+                <div className="admin-form">
+                  <input
+                    type="number"
+                    className="metal-input"
+                    placeholder="Projected output (kWh)"
+                    min="0"
+                    step="0.1"
+                    value={projectionInput}
+                    onChange={(e) => setProjectionInput(e.target.value)}
+                  />
+                  <button
+                    className="metal-button"
+                    disabled={running || stats.paused || !borrower.isProvider || !projectionInput}
+                    onClick={() => submitProjection(borrower.projectableBatch!)}
+                  >
+                    Pledge projection
+                  </button>
+                </div>
+                <div className="empty-feed">
+                  Once the batch closes, any shortfall against the energy you submitted and shared with the pool is removed from your collateral
+                </div>
+              </>
+            )}
+            {borrower && borrower.pledgedBatches.length + borrower.pledgeableBatches.length > 0 ? (
+              <>
+                {borrower.pledgedBatches.map(batchId => (
+                  <div key={`pledged-${batchId}`} className="history-item">
+                    <span>Batch #{batchId}</span>
+                    <span className="status-badge active">pledged</span>
+                  </div>
+                ))}
+                {borrower.pledgeableBatches.map(batchId => (
+                  <div key={`open-${batchId}`} className="history-item">
+                    <span>Batch #{batchId}</span>
+                    <button
+                      className="metal-button small"
+                      disabled={running || stats.paused || !borrower.isProvider}
+                      onClick={() => submitPledge(batchId)}
+                    >
+                      Pledge
+                    </button>
+                  </div>
+                ))}
+              </>
+            ) : (!borrower || borrower.projectableBatch === null) && (
+              <div className="empty-feed">No closed batches with your energy yet</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {account && <RiskAssessment account={account} isProvider={!!borrower?.isProvider} onTransaction={onTransaction} />}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { aggregateRegions, clusterNodes, fitView, MapNode, NodeCluster, placeNodes, project, ringPath, ViewBox, WORLD_VIEW } from '../nodeMap';
+import { LAND_OUTLINES, WATER_OUTLINES } from '../worldOutline';
+
+interface NodeMapProps {
+  nodes: MapNode[];
+  onSelect: (id: string) => void;
+}
+
+const LAND_PATH = LAND_OUTLINES.map(ringPath).join('');
+const WATER_PATH = WATER_OUTLINES.map(ringPath).join('');
+const GRATICULE = [-60, -30, 0, 30, 60];
+
+const formatCapacity = (kw: number) => (kw >= 1000 ? `${(kw / 1000).toFixed(1)} MW` : `${kw.toFixed(1)} kW`);
+
+export default function NodeMap({ nodes, onSelect }: NodeMapProps) {
+  const [view, setView] = useState<ViewBox>(WORLD_VIEW);
+  const [expanded, setExpanded] = useState<NodeCluster | null>(null);
+
+  const { placed, unplaced } = useMemo(() => placeNodes(nodes), [nodes]);
+  const regions = useMemo(() => aggregateRegions(placed), [placed]);
+  const clusters = useMemo(() => clusterNodes(placed, view), [placed, view]);
+
+  useEffect(() => setExpanded(null), [view, nodes]);
+
+  // Markers keep the same on-screen size at any zoom level.
+  const scale = view.width / WORLD_VIEW.width;
+  const zoomed = view !== WORLD_VIEW;
+
+  const openCluster = (cluster: NodeCluster) => {
+    if (cluster.nodes.length === 1) { onSelect(cluster.nodes[0].id); return; }
+    const next = fitView(cluster.nodes);
+    // Nodes at the same spot never split apart by zooming, so list them instead.
+    if (next.width >= view.width * 0.95) setExpanded(cluster);
+    else setView(next);
+  };
+
+  return (
+    <div className="node-map">
+      <div className="map-container">
+        <svg
+          className="world-map"
+          viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+          preserveAspectRatio="xMidYMid meet"
+        >
+          <rect className="map-sea" x={0} y={0} width={WORLD_VIEW.width} height={WORLD_VIEW.height} />
+          {GRATICULE.map(lat => (
+            <line key={`lat${lat}`} className="map-graticule" x1={0} x2={WORLD_VIEW.width} y1={project({ lat, lon: 0 }).y} y2={project({ lat, lon: 0 }).y} />
+          ))}
+          {GRATICULE.map(lon => (
+            <line key={`lon${lon}`} className="map-graticule" x1={project({ lat: 0, lon }).x} x2={project({ lat: 0, lon }).x} y1={0} y2={WORLD_VIEW.height} />
+          ))}
+          <path className="map-land" d={LAND_PATH} />
+          <path className="map-water" d={WATER_PATH} />
+          {clusters.map(cluster => (
+            <g
+              key={cluster.id}
+              className={`map-cluster ${cluster.status}`}
+              transform={`translate(${cluster.x} ${cluster.y}) scale(${scale})`}
+              onClick={() => openCluster(cluster)}
+            >
+              <title>
+                {cluster.nodes.length === 1
+                  ? cluster.nodes[0].location
+                  : `${cluster.nodes.length} nodes: ${[...new Set(cluster.nodes.map(node => node.location))].slice(0, 5).join('; ')}`}
+              </title>
+              <circle r={cluster.nodes.length === 1 ? 2.5 : 3 + Math.sqrt(cluster.nodes.length) * 1.5} />
+              {cluster.nodes.length > 1 && <text dy="1.3">{cluster.nodes.length}</text>}
+            </g>
+          ))}
+        </svg>
+        {zoomed && (
+          <button className="metal-button small map-reset" onClick={() => setView(WORLD_VIEW)}>
+            World view
+          </button>
+        )}
+      </div>
+
+      <div className="map-legend">
+        <div className="legend-item">
+          <div className="node-sample active"></div>
+          <span>Active Nodes</span>
+        </div>
+        <div className="legend-item">
+          <div className="node-sample inactive"></div>
+          <span>Inactive Nodes</span>
+        </div>
+        <div className="legend-item">
+          <div className="node-sample mixed"></div>
+          <span>Mixed Cluster</span>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="cluster-list">
+          {expanded.nodes.map(node => (
+            <div key={node.id} className="history-item" onClick={() => onSelect(node.id)}>
+              <span>{node.location}</span>
+              <span className={`status-badge ${node.status}`}>{node.status}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {regions.length > 0 && (
+        <div className="region-aggregates">
+          <div className="history-item region-header">
+            <span>Region</span>
+            <span>Nodes</span>
+            <span>Active</span>
+            <span>Capacity</span>
+          </div>
+          {regions.map(aggregate => (
+            <div
+              key={aggregate.region}
+              className="history-item region-row"
+              onClick={() => setView(fitView(aggregate.nodes))}
+            >
+              <span>{aggregate.region}</span>
+              <span>{aggregate.nodes.length}</span>
+              <span>{aggregate.active}</span>
+              <span>{aggregate.capacityKw > 0 ? formatCapacity(aggregate.capacityKw) : '—'}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {unplaced.length > 0 && (
+        <div className="batch-blocker">
+          {unplaced.length} node{unplaced.length === 1 ? '' : 's'} could not be placed: no coordinates and an unrecognised location
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+
+export interface QuarantinedRecord {
+  id: string;
+  reason: string;
+  raw: string;
+}
+
+interface QuarantinePanelProps {
+  records: QuarantinedRecord[];
+}
+
+const RAW_PREVIEW_LENGTH = 160;
+
+export default function QuarantinePanel({ records }: QuarantinePanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div className="quarantine-panel metal-card">
+      <div className="panel-header">
+        <h3>Quarantined Records</h3>
+        <span className="status-badge inactive">{records.length}</span>
+      </div>
+      <p className="quarantine-note">
+        These on-chain entries do not match the solar record schema, so they are left out of the dashboard.
+      </p>
+      {records.map(record => (
+        <div key={record.id} className="quarantine-item">
+          <div className="history-item">
+            <span>#{record.id.length > 24 ? `${record.id.substring(0, 24)}...` : record.id}</span>
+            <button
+              className="metal-button small"
+              onClick={() => setExpanded(expanded === record.id ? null : record.id)}
+            >
+              {expanded === record.id ? 'Hide' : 'Inspect'}
+            </button>
+          </div>
+          <div className="batch-blocker">{record.reason}</div>
+          {expanded === record.id && (
+            <pre className="quarantine-raw">
+              {record.raw.length > RAW_PREVIEW_LENGTH ? `${record.raw.substring(0, RAW_PREVIEW_LENGTH)}...` : record.raw}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { getSigner } from '../contract';
+import { describeError } from '../errors';
+import {
+  claimReward,
+  decryptRewardBalance,
+  EpochStatus,
+  finalizeEpoch,
+  formatRewardAmount,
+  getRewardEpochs,
+  getRewardsInfo,
+  RewardEpoch,
+  RewardsInfo,
+} from '../rewards';
+
+interface RewardsProps {
+  account?: string;
+  onTransaction: (status: 'pending' | 'success' | 'error', message: string) => void;
+}
+
+const STATUS_BADGES: Record<EpochStatus, string> = {
+  unfinalized: 'unverified',
+  finalizing: 'pending',
+  finalized: 'verified',
+};
+
+export default function Rewards({ account, onTransaction }: RewardsProps) {
+  const [info, setInfo] = useState<RewardsInfo | null>(null);
+  const [epochs, setEpochs] = useState<RewardEpoch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [decrypting, setDecrypting] = useState(false);
+  // Decrypted in this browser only, for the connected wallet; cleared after every claim.
+  const [balance, setBalance] = useState<bigint | null>(null);
+
+  const load = async () => {
+    try {
+      const [nextInfo, nextEpochs] = await Promise.all([getRewardsInfo(), getRewardEpochs(account)]);
+      setInfo(nextInfo);
+      setEpochs(nextEpochs);
+    } catch (e) { console.error('Error loading rewards:', e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    setBalance(null);
+    load();
+  }, [account]);
+
+  if (loading) {
+    return (
+      <div className="lending-pool">
+        <div className="pool-panel metal-card">
+          <h2>Provider Rewards</h2>
+          <div className="empty-feed">Loading rewards...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!info) {
+    return (
+      <div className="lending-pool">
+        <div className="pool-panel metal-card">
+          <h2>Provider Rewards</h2>
+          <div className="empty-feed">HeliosRewards is not deployed on this network</div>
+        </div>
+      </div>
+    );
+  }
+
+  const run = async (title: string, action: () => Promise<string | void>) => {
+    setRunning(true);
+    onTransaction('pending', `${title}...`);
+    try {
+      const message = await action();
+      onTransaction('success', message || `${title} confirmed`);
+      await load();
+    } catch (e: any) {
+      onTransaction('error', describeError(e, title));
+    } finally { setRunning(false); }
+  };
+
+  const submitFinalize = (epoch: RewardEpoch) =>
+    run(`Finalize batch #${epoch.batchId}`, async () => {
+      await finalizeEpoch(epoch.batchId, info, account!);
+      return `Batch #${epoch.batchId} total requested; rewards open once the oracle answers`;
+    });
+
+  const submitClaim = (epoch: RewardEpoch) =>
+    run(`Claim batch #${epoch.batchId}`, async () => {
+      await claimReward(epoch.batchId);
+      setBalance(null);
+      return `Claimed your share of batch #${epoch.batchId}; decrypt your balance to see it`;
+    });
+
+  const revealBalance = async () => {
+    setDecrypting(true);
+    try {
+      setBalance(await decryptRewardBalance(info, await getSigner()));
+    } catch (e: any) {
+      onTransaction('error', describeError(e, 'Balance decryption'));
+    } finally { setDecrypting(false); }
+  };
+
+  const isHeliosOwner = !!account && account.toLowerCase() === info.heliosOwner.toLowerCase();
+  const claimable = epochs.filter(epoch => epoch.status === 'finalized' && epoch.contributed && !epoch.claimed);
+
+  return (
+    <div className="lending-pool">
+      <div className="pool-panel metal-card">
+        <div className="panel-header">
+          <h2>Provider Rewards</h2>
+          <button className="metal-button small" onClick={load} disabled={running}>Refresh</button>
+        </div>
+        <p className="risk-note">
+          Every closed batch pays {formatRewardAmount(info.rewardPerEpoch, info)} split in proportion to each
+          provider's energy. Only the batch total is decrypted; your share is computed and paid out encrypted, so
+          neither your output nor your reward is visible on chain.
+        </p>
+        <div className="pool-grid">
+          <div className="info-item">
+            <span>Reward per batch:</span>
+            <strong>{formatRewardAmount(info.rewardPerEpoch, info)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Claimable batches:</span>
+            <strong>{account ? claimable.length : '-'}</strong>
+          </div>
+          <div className="info-item">
+            <span>Your balance:</span>
+            {balance !== null ? (
+              <strong>{formatRewardAmount(balance, info)}</strong>
+            ) : (
+              <button className="metal-button small" disabled={decrypting || !account} onClick={revealBalance}>
+                {decrypting ? 'Decrypting...' : 'Decrypt'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="pool-panel metal-card">
+        <h3>Epochs</h3>
+        {epochs.length === 0 ? (
+          <div className="empty-feed">No closed batches yet</div>
+        ) : (
+          epochs.map(epoch => (
+            <div key={epoch.batchId} className="history-item">
+              <span>Batch #{epoch.batchId}</span>
+              <span className={`status-badge ${STATUS_BADGES[epoch.status]}`}>{epoch.status}</span>
+              <span>
+                {epoch.status === 'finalized'
+                  ? `${epoch.totalKwh.toFixed(1)} kWh, ${formatRewardAmount(epoch.reward, info)}, ${epoch.claimCount} claim(s)`
+                  : '-'}
+              </span>
+              {epoch.status === 'unfinalized' && account && (
+                <button
+                  className="metal-button small"
+                  disabled={running}
+                  title={isHeliosOwner ? undefined : 'Needs the network owner to share the batch total first'}
+                  onClick={() => submitFinalize(epoch)}
+                >
+                  Finalize
+                </button>
+              )}
+              {epoch.status === 'finalized' && epoch.contributed && (
+                epoch.claimed ? (
+                  <span className="status-badge active">claimed</span>
+                ) : (
+                  <button className="metal-button small primary" disabled={running} onClick={() => submitClaim(epoch)}>
+                    Claim
+                  </button>
+                )
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { formatRelativeTime } from '../activityFeed';
+import { getSigner } from '../contract';
+import { describeError } from '../errors';
+import {
+  assessRisk,
+  creditPerDependableKwh,
+  decryptCreditLimit,
+  getRiskAssessment,
+  getRiskModelParams,
+  RiskAssessment as Assessment,
+  RiskModelParams,
+} from '../riskModel';
+
+interface RiskAssessmentProps {
+  account: string;
+  isProvider: boolean;
+  onTransaction: (status: 'pending' | 'success' | 'error', message: string) => void;
+}
+
+const DEFAULT_WINDOW = 4;
+
+const formatEth = (wei: bigint, digits = 6) => `${Number(ethers.formatEther(wei)).toFixed(digits)} ETH`;
+
+export default function RiskAssessment({ account, isProvider, onTransaction }: RiskAssessmentProps) {
+  const [params, setParams] = useState<RiskModelParams | null>(null);
+  const [assessment, setAssessment] = useState<Assessment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [decrypting, setDecrypting] = useState(false);
+  const [windowInput, setWindowInput] = useState(String(DEFAULT_WINDOW));
+  // Decrypted in this browser only, for the connected wallet; cleared whenever the assessment changes.
+  const [limitWei, setLimitWei] = useState<bigint | null>(null);
+
+  const load = async () => {
+    try {
+      const [nextParams, nextAssessment] = await Promise.all([getRiskModelParams(), getRiskAssessment(account)]);
+      setParams(nextParams);
+      setAssessment(nextAssessment);
+    } catch (e) { console.error('Error loading risk assessment:', e); }
+    finally { setLoading(false); }
+  };
+
+  useEffect(() => {
+    setLimitWei(null);
+    load();
+  }, [account]);
+
+  if (loading) {
+    return (
+      <div className="pool-panel metal-card">
+        <h3>Risk Assessment</h3>
+        <div className="empty-feed">Loading risk model...</div>
+      </div>
+    );
+  }
+
+  if (!params) {
+    return (
+      <div className="pool-panel metal-card">
+        <h3>Risk Assessment</h3>
+        <div className="empty-feed">HeliosRiskModel is not deployed on this network</div>
+      </div>
+    );
+  }
+
+  const windowSize = Number(windowInput);
+  const validWindow = Number.isInteger(windowSize) && windowSize >= params.minWindow && windowSize <= params.maxWindow;
+
+  const submitAssessment = async () => {
+    if (!validWindow) {
+      onTransaction('error', `Pick a window of ${params.minWindow} to ${params.maxWindow} batches`);
+      return;
+    }
+    setRunning(true);
+    onTransaction('pending', 'Risk assessment...');
+    try {
+      const next = await assessRisk(windowSize, message => onTransaction('pending', `${message}...`));
+      setAssessment(next);
+      setLimitWei(null);
+      onTransaction('success', `Scored batches #${next.firstBatchId}-#${next.lastBatchId}; decrypt the result to see your limit`);
+    } catch (e: any) {
+      onTransaction('error', describeError(e, 'Risk assessment'));
+    } finally { setRunning(false); }
+  };
+
+  const revealLimit = async () => {
+    if (!assessment) return;
+    setDecrypting(true);
+    try {
+      setLimitWei(await decryptCreditLimit(assessment.creditLimitHandle, await getSigner()));
+    } catch (e: any) {
+      onTransaction('error', describeError(e, 'Credit limit decryption'));
+    } finally { setDecrypting(false); }
+  };
+
+  return (
+    <div className="pool-panel metal-card">
+      <div className="panel-header">
+        <h3>Risk Assessment</h3>
+        <button className="metal-button small" onClick={load} disabled={running}>Refresh</button>
+      </div>
+      <p className="risk-note">
+        Your encrypted output in recent batches is scored without decrypting it: the average, the worst batch and
+        shortfalls below the average set your dependable output, and erratic production is discounted
+        by {(params.volatilityHaircutBps / 100).toFixed(0)}%. Only your wallet can decrypt the resulting limit. It
+        is advisory: the pool does not use it, and borrowing stays bound by the credit of your pledged collateral.
+      </p>
+      <div className="pool-grid">
+        <div className="info-item">
+          <span>Credit per dependable kWh:</span>
+          <strong>{formatEth(creditPerDependableKwh(params))}</strong>
+        </div>
+        <div className="info-item">
+          <span>Horizon:</span>
+          <strong>{params.horizonBatches} batches</strong>
+        </div>
+        <div className="info-item">
+          <span>Scored batches:</span>
+          <strong>{assessment ? `#${assessment.firstBatchId}-#${assessment.lastBatchId}` : 'Not assessed'}</strong>
+        </div>
+        <div className="info-item">
+          <span>Assessed:</span>
+          <strong title={assessment ? new Date(assessment.assessedAt * 1000).toLocaleString() : undefined}>
+            {assessment ? formatRelativeTime(assessment.assessedAt) : '-'}
+          </strong>
+        </div>
+        <div className="info-item">
+          <span>Risk-based limit:</span>
+          {limitWei !== null ? (
+            <strong>{formatEth(limitWei)}</strong>
+          ) : (
+            <button className="metal-button small" disabled={decrypting || !assessment} onClick={revealLimit}>
+              {decrypting ? 'Decrypting...' : 'Decrypt'}
+            </button>
+          )}
+        </div>
+      </div>
+      {assessment && assessment.lastBatchId < params.latestClosedBatchId && (
+        <div className="batch-blocker">
+          Batches up to #{params.latestClosedBatchId} have closed since your last assessment; assess again to include them
+        </div>
+      )}
+      <div className="admin-form">
+        <input
+          type="number"
+          className="metal-input"
+          placeholder={`Batches (${params.minWindow}-${params.maxWindow})`}
+          min={params.minWindow}
+          max={params.maxWindow}
+          step="1"
+          value={windowInput}
+          onChange={(e) => setWindowInput(e.target.value)}
+        />
+        <button className="metal-button primary" disabled={running || !isProvider || !validWindow} onClick={submitAssessment}>
+          {running ? 'Assessing...' : 'Assess risk'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { getProviderPool } from '../contract';
+import { EndpointStatus } from '../providerPool';
+import { chainLabel } from '../registry';
+
+interface RpcDiagnosticsProps {
+  chainId: number;
+}
+
+// Only the host is shown, so keys embedded in an RPC path never end up on screen.
+const endpointHost = (url: string) => {
+  try { return new URL(url).host; } catch { return url; }
+};
+
+const endpointState = (endpoint: EndpointStatus, chainId: number) => {
+  if (endpoint.chainId !== null && endpoint.chainId !== chainId) return { badge: 'inactive', label: 'wrong chain' };
+  if (endpoint.healthy) return { badge: 'active', label: 'healthy' };
+  return endpoint.lastCheckedAt === null ? { badge: 'pending', label: 'checking' } : { badge: 'inactive', label: 'down' };
+};
+
+export default function RpcDiagnostics({ chainId }: RpcDiagnosticsProps) {
+  const pool = getProviderPool(chainId);
+  const [endpoints, setEndpoints] = useState<EndpointStatus[]>(pool.getStatus());
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    setEndpoints(pool.getStatus());
+    return pool.onStatusChange(() => setEndpoints(pool.getStatus()));
+  }, [pool]);
+
+  const recheck = async () => {
+    setChecking(true);
+    try { await pool.checkHealth(); }
+    finally { setChecking(false); }
+  };
+
+  return (
+    <div className="rpc-diagnostics metal-card">
+      <div className="panel-header">
+        <h3>RPC Endpoints · {chainLabel(chainId)}</h3>
+        <button className="metal-button small" onClick={recheck} disabled={checking}>
+          {checking ? 'Checking...' : 'Recheck'}
+        </button>
+      </div>
+      {endpoints.length === 0 ? (
+        <div className="empty-feed">No RPC endpoints configured for this network</div>
+      ) : (
+        endpoints.map(endpoint => {
+          const state = endpointState(endpoint, chainId);
+          return (
+            <div key={endpoint.url} className="endpoint-item">
+              <div className="history-item">
+                <span>{endpointHost(endpoint.url)}</span>
+                <span>{endpoint.latencyMs !== null ? `${endpoint.latencyMs} ms` : '—'}</span>
+                <span>{endpoint.blockNumber !== null ? `#${endpoint.blockNumber}` : '—'}</span>
+                <span className={`status-badge ${state.badge}`}>{state.label}</span>
+              </div>
+              {endpoint.lastError && (
+                <div className="batch-blocker">
+                  {endpoint.lastError}{endpoint.failures > 1 ? ` (${endpoint.failures} failures)` : ''}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useSwitchChain } from 'wagmi';
+import { listSupportedChains } from '../registry';
+
+interface UnsupportedNetworkProps {
+  chainId: number;
+}
+
+export default function UnsupportedNetwork({ chainId }: UnsupportedNetworkProps) {
+  const { chains, switchChain, isPending } = useSwitchChain();
+  const supported = listSupportedChains();
+
+  return (
+    <div className="unsupported-network metal-card">
+      <h2>Unsupported Network</h2>
+      <p>
+        Helios Network has no contracts registered for chain {chainId}. Switch your wallet to one of the
+        networks below to use the dashboard.
+      </p>
+      <div className="network-list">
+        {supported.map(chain => (
+          <div key={chain.chainId} className="history-item">
+            <span>{chain.name} ({chain.chainId})</span>
+            {chains.some(c => c.id === chain.chainId) && (
+              <button
+                className="metal-button small primary"
+                onClick={() => switchChain({ chainId: chain.chainId })}
+                disabled={isPending}
+              >
+                {isPending ? 'Switching...' : 'Switch'}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
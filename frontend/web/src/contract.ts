@@ -1,10 +1,11 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { getLocalRpcUrl, isLocalChain } from "./localChain";
+import { ProviderPool } from "./providerPool";
+import { chainLabel, getActiveChainId, getContractAddress, getRegisteredChain, ContractName } from "./registry";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,63 +19,84 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+const SEPOLIA_CHAIN_ID = 11155111;
+const SEPOLIA_RPC_URLS = [
+  "https://rpc.sepolia.org",
+  "https://rpc2.sepolia.org",
+  "https://eth-sepolia.public.blastapi.io"
+];
+
+const pools = new Map<number, ProviderPool>();
+
+// Long-lived, health-checked pool for `chainId`: the registry's RPC plus the public Sepolia fallbacks, or the
+// local node's loopback URL.
+export function getProviderPool(chainId = getActiveChainId()): ProviderPool {
+  let pool = pools.get(chainId);
+  if (!pool) {
+    const chain = getRegisteredChain(chainId);
+    const rpcUrls = isLocalChain(chainId)
+      ? [getLocalRpcUrl()]
+      : [
+          ...(chain?.rpcUrl ? [chain.rpcUrl] : []),
+          ...(chainId === SEPOLIA_CHAIN_ID ? SEPOLIA_RPC_URLS : [])
+        ];
+    pool = new ProviderPool(chainId, chain?.name.toLowerCase() ?? "unknown", rpcUrls);
+    pools.set(chainId, pool);
   }
-  
-  throw new Error("All RPC providers failed");
+  return pool;
+}
+
+export const getReadProvider = async (chainId = getActiveChainId()) => {
+  const pool = getProviderPool(chainId);
+  await pool.ensureHealthy();
+  return pool;
 };
 
-export async function getContractReadOnly() {
+// Returns null when `name` is not registered (or has no code) on the active chain.
+export async function getRegisteredContractReadOnly(name: ContractName, abi: ethers.InterfaceAbi) {
+  const chainId = getActiveChainId();
+  const address = getContractAddress(name, chainId);
+  if (!address) return null;
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const provider = await getReadProvider(chainId);
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
     
-    return contract;
+    return new ethers.Contract(address, abi, provider);
   } catch (error) {
-    console.error("Failed to create read-only contract:", error);
+    console.error(`Failed to create read-only ${name} contract:`, error);
     return null;
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractReadOnly() {
+  return getRegisteredContractReadOnly("UniversalAdapter", ABI);
+}
+
+export async function getSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+// Resolves `name` on the chain the wallet is connected to, which is where the transaction will land.
+export async function getRegisteredContractWithSigner(name: ContractName, abi: ethers.InterfaceAbi) {
+  const signer = await getSigner();
+  const chainId = Number((await signer.provider.getNetwork()).chainId);
+  const address = getContractAddress(name, chainId);
+  if (!address) {
+    throw new Error(`${name} is not deployed on ${chainLabel(chainId)}`);
+  }
+  return new ethers.Contract(address, abi, signer);
+}
+
+export async function getContractWithSigner() {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return await getRegisteredContractWithSigner("UniversalAdapter", ABI);
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
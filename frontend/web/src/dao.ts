@@ -0,0 +1,202 @@
+// dao.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/HeliosDAO.json";
+import { batchCall } from "./batchReads";
+import { getRegisteredContractReadOnly, getRegisteredContractWithSigner, getSigner } from "./contract";
+import { encryptUint32Values } from "./fhevm";
+import { HELIOS_ABI } from "./heliosNet";
+import { POOL_ABI } from "./lendingPool";
+import { awaitLocalDecryptionOracle, isLocalChain } from "./localChain";
+import { getActiveChainId, getContractAddress, ContractName } from "./registry";
+import { REWARDS_ABI } from "./rewards";
+import { RISK_MODEL_ABI } from "./riskModel";
+
+export const DAO_ABI = (abiJson as any).abi || abiJson;
+
+// Same order as HeliosDAO.ProposalState.
+export const PROPOSAL_STATES = ["active", "ended", "tallying", "succeeded", "defeated", "executed"] as const;
+export type ProposalState = (typeof PROPOSAL_STATES)[number];
+
+export interface DaoInfo {
+  owner: string;
+  votingPeriod: number; // seconds
+  quorumVotes: bigint;
+  totalVotingPower: bigint;
+  proposalCount: number;
+  votingPower: number; // of the connected account, 0 when not a member
+}
+
+export interface Proposal {
+  id: number;
+  proposer: string;
+  target: string;
+  callData: string;
+  description: string;
+  endTime: number; // seconds
+  state: ProposalState;
+  forVotes: bigint; // only meaningful once tallied
+  againstVotes: bigint;
+  voterCount: number;
+  hasVoted: boolean;
+}
+
+// Contracts a proposal can target by name; ownership of each has to be transferred to the DAO first.
+export const GOVERNABLE_CONTRACTS: Partial<Record<ContractName, ethers.InterfaceAbi>> = {
+  HeliosNetFHE: HELIOS_ABI,
+  HeliosLendingPool: POOL_ABI,
+  HeliosRiskModel: RISK_MODEL_ABI,
+  HeliosRewards: REWARDS_ABI,
+  HeliosDAO: DAO_ABI,
+};
+
+// Only the most recent proposals are listed.
+const MAX_LISTED_PROPOSALS = 50;
+
+export function getDaoAddress(): string | null {
+  return getContractAddress("HeliosDAO");
+}
+
+export async function getDaoContractReadOnly() {
+  return getRegisteredContractReadOnly("HeliosDAO", DAO_ABI);
+}
+
+export async function getDaoContractWithSigner() {
+  return getRegisteredContractWithSigner("HeliosDAO", DAO_ABI);
+}
+
+export async function getDaoInfo(account?: string): Promise<DaoInfo | null> {
+  const contract = await getDaoContractReadOnly();
+  if (!contract) return null;
+  const [owner, votingPeriod, quorumVotes, totalVotingPower, proposalCount, votingPower] = await Promise.all([
+    contract.owner(),
+    contract.votingPeriod(),
+    contract.quorumVotes(),
+    contract.totalVotingPower(),
+    contract.proposalCount(),
+    account ? contract.votingPower(account) : 0n,
+  ]);
+  return {
+    owner,
+    votingPeriod: Number(votingPeriod),
+    quorumVotes,
+    totalVotingPower,
+    proposalCount: Number(proposalCount),
+    votingPower: Number(votingPower),
+  };
+}
+
+/** The most recent proposals, newest first. */
+export async function getProposals(proposalCount: number, account?: string): Promise<Proposal[]> {
+  const contract = await getDaoContractReadOnly();
+  if (!contract || proposalCount === 0) return [];
+  const ids = Array.from({ length: Math.min(proposalCount, MAX_LISTED_PROPOSALS) }, (_, i) => proposalCount - i);
+  const [records, states, votes] = await Promise.all([
+    batchCall<any>(contract, "proposals", new Map(ids.map(id => [String(id), [id]]))),
+    batchCall<bigint>(contract, "proposalState", new Map(ids.map(id => [String(id), [id]]))),
+    account
+      ? batchCall<boolean>(contract, "hasVoted", new Map(ids.map(id => [String(id), [id, account]])))
+      : Promise.resolve(new Map()),
+  ]);
+
+  const proposals: Proposal[] = [];
+  for (const id of ids) {
+    const record = records.get(String(id));
+    const state = states.get(String(id));
+    if (!record?.ok || !state?.ok) continue;
+    const voted = votes.get(String(id));
+    proposals.push({
+      id,
+      proposer: record.value.proposer,
+      target: record.value.target,
+      callData: record.value.callData,
+      description: record.value.description,
+      endTime: Number(record.value.endTime),
+      state: PROPOSAL_STATES[Number(state.value)],
+      forVotes: record.value.forVotes,
+      againstVotes: record.value.againstVotes,
+      voterCount: Number(record.value.voterCount),
+      hasVoted: !!(voted?.ok && voted.value),
+    });
+  }
+  return proposals;
+}
+
+/** State-changing methods of a governable contract, as `name(types)` signatures. */
+export function governableMethods(name: ContractName): string[] {
+  const abi = GOVERNABLE_CONTRACTS[name];
+  if (!abi) return [];
+  const methods: string[] = [];
+  new ethers.Interface(abi).forEachFunction(fragment => {
+    if (!fragment.constant && !fragment.name.endsWith("Callback")) methods.push(fragment.format("sighash"));
+  });
+  return methods.sort();
+}
+
+// Arguments are comma separated; booleans are the only values ethers does not coerce from strings.
+export function encodeProposalCall(name: ContractName, method: string, argsText: string): string {
+  const abi = GOVERNABLE_CONTRACTS[name];
+  if (!abi) throw new Error(`${name} cannot be governed by the DAO`);
+  const iface = new ethers.Interface(abi);
+  const fragment = iface.getFunction(method);
+  if (!fragment) throw new Error(`${name} has no method ${method}`);
+  const raw = argsText.trim() === "" ? [] : argsText.split(",").map(arg => arg.trim());
+  if (raw.length !== fragment.inputs.length) {
+    throw new Error(`${fragment.format("sighash")} takes ${fragment.inputs.length} argument(s)`);
+  }
+  const args = raw.map((arg, i) => (fragment.inputs[i].type === "bool" ? arg === "true" : arg));
+  return iface.encodeFunctionData(fragment, args);
+}
+
+/** Human-readable form of a proposal's call, e.g. `HeliosNetFHE.setCooldownSeconds(60)`. */
+export function describeProposalCall(target: string, callData: string): string {
+  for (const [name, abi] of Object.entries(GOVERNABLE_CONTRACTS)) {
+    const address = getContractAddress(name as ContractName);
+    if (!address || address.toLowerCase() !== target.toLowerCase()) continue;
+    const parsed = new ethers.Interface(abi!).parseTransaction({ data: callData });
+    if (parsed) return `${name}.${parsed.name}(${parsed.args.map(arg => String(arg)).join(", ")})`;
+  }
+  return `${target} ${callData.slice(0, 10)}`;
+}
+
+// Simulates first so a revert surfaces its custom error before the wallet prompt.
+async function sendDaoTx(method: string, args: unknown[] = []) {
+  const contract = await getDaoContractWithSigner();
+  await contract[method].staticCall(...args);
+  const tx = await contract[method](...args);
+  return tx.wait();
+}
+
+export async function createProposal(target: string, callData: string, description: string): Promise<number> {
+  const receipt = await sendDaoTx("propose", [target, callData, description]);
+  const contract = await getDaoContractReadOnly();
+  const created = receipt.logs
+    .map((log: ethers.Log) => { try { return contract?.interface.parseLog(log); } catch { return null; } })
+    .find((parsed: ethers.LogDescription | null) => parsed?.name === "ProposalCreated");
+  return created ? Number(created.args.proposalId) : 0;
+}
+
+/**
+ * Casts an encrypted ballot splitting up to the account's voting power between for and against. The
+ * contract silently counts an oversized ballot as nothing, so the split is checked here first.
+ */
+export async function castVote(proposalId: number, votesFor: number, votesAgainst: number, votingPower: number) {
+  if (votesFor + votesAgainst > votingPower) {
+    throw new Error(`Your ballot can carry at most ${votingPower} votes`);
+  }
+  const daoAddress = getDaoAddress();
+  if (!daoAddress) throw new Error("HeliosDAO is not deployed on this network");
+  const account = await (await getSigner()).getAddress();
+  const { handles, inputProof } = await encryptUint32Values([votesFor, votesAgainst], daoAddress, account);
+  return sendDaoTx("castVote", [proposalId, handles[0], handles[1], inputProof]);
+}
+
+/** Requests the tally; on the local node the mock oracle is asked to answer right away. */
+export async function requestTally(proposalId: number) {
+  const receipt = await sendDaoTx("requestTally", [proposalId]);
+  if (isLocalChain(getActiveChainId())) await awaitLocalDecryptionOracle();
+  return receipt;
+}
+
+export async function executeProposal(proposalId: number) {
+  return sendDaoTx("execute", [proposalId]);
+}
@@ -0,0 +1,119 @@
+// decryptionTracker.ts
+import { ethers } from "ethers";
+import { fromEnergyUnits } from "./fhevm";
+import { queryHeliosLogs } from "./heliosNet";
+
+export type DecryptionState = "pending" | "completed" | "timeout" | "failed";
+
+export interface TrackedDecryption {
+  requestId: string;
+  batchId: number;
+  stateHash: string;
+  blockNumber: number;
+  txHash: string;
+  requestedAt: number; // ms
+  state: DecryptionState;
+  totalEnergy?: number; // kWh
+  completedTxHash?: string;
+  error?: string;
+}
+
+// The oracle usually answers within a few blocks; after this the request is flagged but still polled.
+export const DECRYPTION_TIMEOUT_MS = 15 * 60 * 1000;
+
+const storageKey = (chainId: bigint, contractAddress: string) =>
+  `helios:decryptions:${chainId}:${contractAddress.toLowerCase()}`;
+
+const loadTracked = (key: string): Record<string, TrackedDecryption> => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || "{}");
+  } catch {
+    localStorage.removeItem(key);
+    return {};
+  }
+};
+
+const getStorageKey = async (contract: ethers.Contract) => {
+  const { chainId } = await contract.runner!.provider!.getNetwork();
+  return storageKey(chainId, await contract.getAddress());
+};
+
+// Mirrors HeliosNetFHE._hashCiphertexts for a single handle.
+const hashBatchTotal = (handle: string, contractAddress: string) =>
+  ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes32[]", "address"], [[handle], contractAddress]));
+
+const fromRequestLog = (log: ethers.EventLog | ethers.LogDescription, blockNumber: number, txHash: string, requestedAt: number): TrackedDecryption => ({
+  requestId: log.args.requestId.toString(),
+  batchId: Number(log.args.batchId),
+  stateHash: log.args.stateHash,
+  blockNumber,
+  txHash,
+  requestedAt,
+  state: "pending",
+});
+
+const sortTracked = (tracked: Record<string, TrackedDecryption>) =>
+  Object.values(tracked).sort((a, b) => b.blockNumber - a.blockNumber);
+
+// Starts tracking the request emitted by a requestTotalEnergyDecryption receipt.
+export async function trackDecryptionRequest(contract: ethers.Contract, receipt: ethers.TransactionReceipt): Promise<TrackedDecryption | null> {
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name !== "DecryptionRequested") continue;
+    const key = await getStorageKey(contract);
+    const tracked = loadTracked(key);
+    const entry = fromRequestLog(parsed, receipt.blockNumber, receipt.hash, Date.now());
+    tracked[entry.requestId] = entry;
+    localStorage.setItem(key, JSON.stringify(tracked));
+    return entry;
+  }
+  return null;
+}
+
+// Picks up requests made elsewhere, then resolves every unfinished one against the chain.
+export async function refreshDecryptions(contract: ethers.Contract): Promise<TrackedDecryption[]> {
+  const key = await getStorageKey(contract);
+  const tracked = loadTracked(key);
+  const provider = contract.runner!.provider!;
+
+  const requested = await queryHeliosLogs(contract, contract.filters.DecryptionRequested());
+  for (const log of requested) {
+    const requestId = log.args.requestId.toString();
+    if (tracked[requestId]) continue;
+    const block = await provider.getBlock(log.blockNumber);
+    tracked[requestId] = fromRequestLog(log, log.blockNumber, log.transactionHash, (block?.timestamp ?? 0) * 1000);
+  }
+
+  const unfinished = Object.values(tracked).filter(entry => entry.state !== "completed");
+  if (unfinished.length === 0) {
+    localStorage.setItem(key, JSON.stringify(tracked));
+    return sortTracked(tracked);
+  }
+
+  const completedLogs = await queryHeliosLogs(contract, contract.filters.DecryptionCompleted());
+  const completions = new Map(completedLogs.map(log => [log.args.requestId.toString(), log]));
+  const address = await contract.getAddress();
+  for (const entry of unfinished) {
+    const event = completions.get(entry.requestId);
+    if (event) {
+      entry.state = "completed";
+      entry.totalEnergy = fromEnergyUnits(event.args.totalEnergy);
+      entry.completedTxHash = event.transactionHash;
+      entry.error = undefined;
+      continue;
+    }
+
+    // myCallback reverts with StateMismatch once the batch total no longer matches the requested snapshot.
+    const currentTotal: string = await contract.totalEncryptedEnergyInBatch(entry.batchId);
+    if (hashBatchTotal(currentTotal, address) !== entry.stateHash) {
+      entry.state = "failed";
+      entry.error = "StateMismatch: the batch total changed after the request; request decryption again";
+    } else if (Date.now() - entry.requestedAt > DECRYPTION_TIMEOUT_MS) {
+      entry.state = "timeout";
+      entry.error = "No oracle callback yet";
+    }
+  }
+
+  localStorage.setItem(key, JSON.stringify(tracked));
+  return sortTracked(tracked);
+}
@@ -0,0 +1,23 @@
+// errors.ts
+import { ethers } from "ethers";
+import { decodeContractError, formatContractError } from "../../../src/shared/contractErrors";
+import { ABI } from "./contract";
+import { DAO_ABI } from "./dao";
+import { HELIOS_ABI } from "./heliosNet";
+import { POOL_ABI } from "./lendingPool";
+import { REWARD_TOKEN_ABI, REWARDS_ABI } from "./rewards";
+import { RISK_MODEL_ABI } from "./riskModel";
+
+const parsers = [
+  new ethers.Interface(HELIOS_ABI),
+  new ethers.Interface(POOL_ABI),
+  new ethers.Interface(RISK_MODEL_ABI),
+  new ethers.Interface(DAO_ABI),
+  new ethers.Interface(REWARDS_ABI),
+  new ethers.Interface(REWARD_TOKEN_ABI),
+  new ethers.Interface(ABI),
+];
+
+export const decodeError = (e: unknown) => decodeContractError(e, parsers);
+
+export const describeError = (e: unknown, action?: string) => formatContractError(e, parsers, action);
@@ -0,0 +1,190 @@
+// fhevm.ts
+import { ethers } from "ethers";
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance, HandleContractPair, DecryptedResults } from "@zama-fhe/relayer-sdk/bundle";
+import { createLocalFhevmInstance, isLocalChain } from "./localChain";
+import { getActiveChainId } from "./registry";
+
+export type { FhevmInstance };
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+export interface DecryptionAuthorization {
+  userAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// Energy values are encrypted as euint32 in tenths of a kWh, matching the 0.1 step of the form input.
+export const ENERGY_SCALE = 10;
+
+// How long a signed user-decryption keypair stays valid before the wallet is asked to sign again.
+export const DECRYPTION_DURATION_DAYS = 30;
+
+const LEGACY_PREFIX = "FHE-";
+const AUTHORIZATION_STORAGE_PREFIX = "helios:fhe-decrypt:";
+
+// One instance per chain: Sepolia goes through the Zama relayer, the local Hardhat node through its mock.
+const instancePromises = new Map<number, Promise<FhevmInstance>>();
+let instanceOverride: FhevmInstance | null = null;
+
+const createRelayerInstance = async (): Promise<FhevmInstance> => {
+  await initSDK();
+  return createInstance({
+    ...SepoliaConfig,
+    network: window.ethereum ?? SepoliaConfig.network,
+  });
+};
+
+// Lets a test harness (or any other relayer stand-in) replace the per-chain instances.
+export function setFhevmInstance(instance: FhevmInstance | null) {
+  instanceOverride = instance;
+  instancePromises.clear();
+}
+
+export async function getFhevmInstance(chainId = getActiveChainId()): Promise<FhevmInstance> {
+  if (instanceOverride) return instanceOverride;
+  let instancePromise = instancePromises.get(chainId);
+  if (!instancePromise) {
+    instancePromise = (isLocalChain(chainId) ? createLocalFhevmInstance() : createRelayerInstance()).catch((e) => {
+      instancePromises.delete(chainId);
+      throw e;
+    });
+    instancePromises.set(chainId, instancePromise);
+  }
+  return instancePromise;
+}
+
+export async function encryptUint32(value: number | bigint, contractAddress: string, userAddress: string): Promise<EncryptedInput> {
+  const { handles, inputProof } = await encryptUint32Values([value], contractAddress, userAddress);
+  return { handle: handles[0], inputProof };
+}
+
+// Several values under one input proof, for calls that take more than one encrypted argument.
+export async function encryptUint32Values(values: (number | bigint)[], contractAddress: string, userAddress: string): Promise<EncryptedInputs> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(ethers.getAddress(contractAddress), ethers.getAddress(userAddress));
+  for (const value of values) input.add32(value);
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(handle => ethers.hexlify(handle)),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
+
+export function toEnergyUnits(kWh: number): number {
+  const units = Math.round(kWh * ENERGY_SCALE);
+  if (!Number.isFinite(units) || units < 0 || units > 0xffffffff) {
+    throw new Error(`Energy output out of range: ${kWh} kWh`);
+  }
+  return units;
+}
+
+export function fromEnergyUnits(units: number | bigint): number {
+  return Number(units) / ENERGY_SCALE;
+}
+
+export async function encryptEnergyOutput(kWh: number, contractAddress: string, userAddress: string): Promise<EncryptedInput> {
+  return encryptUint32(toEnergyUnits(kWh), contractAddress, userAddress);
+}
+
+const authorizationStorageKey = (chainId: bigint, userAddress: string, contractAddresses: string[]) =>
+  `${AUTHORIZATION_STORAGE_PREFIX}${chainId}:${userAddress.toLowerCase()}:${contractAddresses.map(a => a.toLowerCase()).sort().join(",")}`;
+
+const loadAuthorization = (key: string): DecryptionAuthorization | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    const authorization = JSON.parse(raw) as DecryptionAuthorization;
+    const expiresAt = authorization.startTimestamp + authorization.durationDays * 86400;
+    // Leave a minute of slack so a request in flight does not race the expiry.
+    if (expiresAt - 60 <= Math.floor(Date.now() / 1000)) {
+      localStorage.removeItem(key);
+      return null;
+    }
+    return authorization;
+  } catch {
+    localStorage.removeItem(key);
+    return null;
+  }
+};
+
+export async function getDecryptionAuthorization(signer: ethers.Signer, contractAddresses: string[]): Promise<DecryptionAuthorization> {
+  const userAddress = await signer.getAddress();
+  const { chainId } = await signer.provider!.getNetwork();
+  const addresses = contractAddresses.map(a => ethers.getAddress(a));
+  const key = authorizationStorageKey(chainId, userAddress, addresses);
+
+  const cached = loadAuthorization(key);
+  if (cached) return cached;
+
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(publicKey, addresses, startTimestamp, DECRYPTION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const authorization: DecryptionAuthorization = {
+    userAddress,
+    publicKey,
+    privateKey,
+    signature,
+    contractAddresses: addresses,
+    startTimestamp,
+    durationDays: DECRYPTION_DURATION_DAYS,
+  };
+  localStorage.setItem(key, JSON.stringify(authorization));
+  return authorization;
+}
+
+export async function userDecryptHandles(handles: HandleContractPair[], signer: ethers.Signer): Promise<DecryptedResults> {
+  const contractAddresses = [...new Set(handles.map(h => ethers.getAddress(h.contractAddress)))];
+  const authorization = await getDecryptionAuthorization(signer, contractAddresses);
+  const instance = await getFhevmInstance();
+  return instance.userDecrypt(
+    handles,
+    authorization.privateKey,
+    authorization.publicKey,
+    authorization.signature.replace("0x", ""),
+    authorization.contractAddresses,
+    authorization.userAddress,
+    authorization.startTimestamp,
+    authorization.durationDays
+  );
+}
+
+export async function decryptUint32(handle: string, contractAddress: string, signer: ethers.Signer): Promise<bigint> {
+  const results = await userDecryptHandles([{ handle, contractAddress }], signer);
+  const entry = Object.entries(results).find(([key]) => key.toLowerCase() === handle.toLowerCase());
+  if (!entry) throw new Error(`Relayer returned no cleartext for handle ${handle}`);
+  return BigInt(entry[1] as bigint | string);
+}
+
+export async function decryptEnergyOutput(handle: string, contractAddress: string, signer: ethers.Signer): Promise<number> {
+  return fromEnergyUnits(await decryptUint32(handle, contractAddress, signer));
+}
+
+// Records written before the relayer integration hold `FHE-<base64>` strings instead of ciphertext handles.
+export function isLegacyCiphertext(value: string): boolean {
+  return value.startsWith(LEGACY_PREFIX);
+}
+
+export function decodeLegacyCiphertext(value: string): number {
+  return parseFloat(atob(value.substring(LEGACY_PREFIX.length)));
+}
@@ -0,0 +1,287 @@
+// geocode.ts
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+export type GeoRegion =
+  | "North America"
+  | "South America"
+  | "Europe"
+  | "Africa"
+  | "Middle East"
+  | "Central & North Asia"
+  | "South Asia"
+  | "East Asia"
+  | "Southeast Asia"
+  | "Oceania";
+
+interface GeoPlace {
+  names: string[]; // lowercase, without diacritics
+  lat: number;
+  lon: number;
+  region: GeoRegion;
+}
+
+export interface GeocodeMatch extends Coordinates {
+  name: string; // the table entry that matched
+  region: GeoRegion;
+}
+
+// Offline table of common place names, so free-text locations can be placed without a geocoding service.
+// Countries and states sit at a rough centroid; that is enough for a world map and its clusters.
+const PLACES: GeoPlace[] = [
+  // East Asia
+  { names: ["taipei"], lat: 25.03, lon: 121.57, region: "East Asia" },
+  { names: ["kaohsiung"], lat: 22.63, lon: 120.3, region: "East Asia" },
+  { names: ["taichung"], lat: 24.15, lon: 120.67, region: "East Asia" },
+  { names: ["tainan"], lat: 23.0, lon: 120.2, region: "East Asia" },
+  { names: ["taiwan"], lat: 23.7, lon: 121.0, region: "East Asia" },
+  { names: ["tokyo"], lat: 35.68, lon: 139.69, region: "East Asia" },
+  { names: ["osaka"], lat: 34.69, lon: 135.5, region: "East Asia" },
+  { names: ["japan"], lat: 36.2, lon: 138.25, region: "East Asia" },
+  { names: ["seoul"], lat: 37.57, lon: 126.98, region: "East Asia" },
+  { names: ["busan"], lat: 35.18, lon: 129.08, region: "East Asia" },
+  { names: ["south korea", "korea"], lat: 36.5, lon: 127.8, region: "East Asia" },
+  { names: ["beijing"], lat: 39.9, lon: 116.41, region: "East Asia" },
+  { names: ["shanghai"], lat: 31.23, lon: 121.47, region: "East Asia" },
+  { names: ["shenzhen"], lat: 22.54, lon: 114.06, region: "East Asia" },
+  { names: ["guangzhou"], lat: 23.13, lon: 113.26, region: "East Asia" },
+  { names: ["hong kong"], lat: 22.32, lon: 114.17, region: "East Asia" },
+  { names: ["china"], lat: 35.0, lon: 104.2, region: "East Asia" },
+  { names: ["ulaanbaatar", "mongolia"], lat: 47.92, lon: 106.92, region: "East Asia" },
+  // Southeast Asia
+  { names: ["singapore"], lat: 1.35, lon: 103.82, region: "Southeast Asia" },
+  { names: ["bangkok"], lat: 13.76, lon: 100.5, region: "Southeast Asia" },
+  { names: ["thailand"], lat: 15.87, lon: 100.99, region: "Southeast Asia" },
+  { names: ["hanoi"], lat: 21.03, lon: 105.85, region: "Southeast Asia" },
+  { names: ["ho chi minh city", "saigon"], lat: 10.82, lon: 106.63, region: "Southeast Asia" },
+  { names: ["vietnam", "viet nam"], lat: 14.06, lon: 108.28, region: "Southeast Asia" },
+  { names: ["manila"], lat: 14.6, lon: 120.98, region: "Southeast Asia" },
+  { names: ["philippines"], lat: 12.88, lon: 121.77, region: "Southeast Asia" },
+  { names: ["jakarta"], lat: -6.21, lon: 106.85, region: "Southeast Asia" },
+  { names: ["indonesia"], lat: -2.5, lon: 118.0, region: "Southeast Asia" },
+  { names: ["kuala lumpur"], lat: 3.14, lon: 101.69, region: "Southeast Asia" },
+  { names: ["malaysia"], lat: 4.21, lon: 101.98, region: "Southeast Asia" },
+  // South Asia
+  { names: ["new delhi", "delhi"], lat: 28.61, lon: 77.21, region: "South Asia" },
+  { names: ["mumbai", "bombay"], lat: 19.08, lon: 72.88, region: "South Asia" },
+  { names: ["bangalore", "bengaluru"], lat: 12.97, lon: 77.59, region: "South Asia" },
+  { names: ["chennai"], lat: 13.08, lon: 80.27, region: "South Asia" },
+  { names: ["india"], lat: 21.0, lon: 78.0, region: "South Asia" },
+  { names: ["karachi"], lat: 24.86, lon: 67.0, region: "South Asia" },
+  { names: ["pakistan"], lat: 30.38, lon: 69.35, region: "South Asia" },
+  { names: ["dhaka", "bangladesh"], lat: 23.81, lon: 90.41, region: "South Asia" },
+  { names: ["colombo"], lat: 6.93, lon: 79.86, region: "South Asia" },
+  { names: ["sri lanka"], lat: 7.87, lon: 80.77, region: "South Asia" },
+  { names: ["kathmandu", "nepal"], lat: 27.72, lon: 85.32, region: "South Asia" },
+  // Middle East
+  { names: ["dubai"], lat: 25.2, lon: 55.27, region: "Middle East" },
+  { names: ["abu dhabi"], lat: 24.45, lon: 54.38, region: "Middle East" },
+  { names: ["united arab emirates", "uae"], lat: 23.4, lon: 53.8, region: "Middle East" },
+  { names: ["riyadh"], lat: 24.71, lon: 46.68, region: "Middle East" },
+  { names: ["saudi arabia"], lat: 23.89, lon: 45.08, region: "Middle East" },
+  { names: ["doha", "qatar"], lat: 25.29, lon: 51.53, region: "Middle East" },
+  { names: ["tel aviv"], lat: 32.09, lon: 34.78, region: "Middle East" },
+  { names: ["israel"], lat: 31.05, lon: 34.85, region: "Middle East" },
+  { names: ["amman"], lat: 31.95, lon: 35.93, region: "Middle East" },
+  { names: ["jordan"], lat: 30.59, lon: 36.24, region: "Middle East" },
+  { names: ["istanbul"], lat: 41.01, lon: 28.98, region: "Middle East" },
+  { names: ["ankara"], lat: 39.93, lon: 32.86, region: "Middle East" },
+  { names: ["turkey", "turkiye"], lat: 38.96, lon: 35.24, region: "Middle East" },
+  { names: ["tehran"], lat: 35.69, lon: 51.39, region: "Middle East" },
+  { names: ["iran"], lat: 32.43, lon: 53.69, region: "Middle East" },
+  { names: ["muscat"], lat: 23.59, lon: 58.41, region: "Middle East" },
+  { names: ["oman"], lat: 21.5, lon: 55.9, region: "Middle East" },
+  // Central & North Asia
+  { names: ["russia", "russian federation"], lat: 61.5, lon: 105.3, region: "Central & North Asia" },
+  { names: ["novosibirsk"], lat: 55.01, lon: 82.93, region: "Central & North Asia" },
+  { names: ["kazakhstan"], lat: 48.02, lon: 66.92, region: "Central & North Asia" },
+  { names: ["almaty"], lat: 43.24, lon: 76.89, region: "Central & North Asia" },
+  { names: ["tashkent", "uzbekistan"], lat: 41.3, lon: 69.24, region: "Central & North Asia" },
+  // Europe
+  { names: ["london"], lat: 51.51, lon: -0.13, region: "Europe" },
+  { names: ["united kingdom", "uk", "great britain", "england"], lat: 52.4, lon: -1.5, region: "Europe" },
+  { names: ["paris"], lat: 48.86, lon: 2.35, region: "Europe" },
+  { names: ["france"], lat: 46.6, lon: 2.2, region: "Europe" },
+  { names: ["berlin"], lat: 52.52, lon: 13.4, region: "Europe" },
+  { names: ["munich"], lat: 48.14, lon: 11.58, region: "Europe" },
+  { names: ["germany"], lat: 51.17, lon: 10.45, region: "Europe" },
+  { names: ["madrid"], lat: 40.42, lon: -3.7, region: "Europe" },
+  { names: ["barcelona"], lat: 41.39, lon: 2.17, region: "Europe" },
+  { names: ["seville", "sevilla"], lat: 37.39, lon: -5.98, region: "Europe" },
+  { names: ["spain"], lat: 40.46, lon: -3.75, region: "Europe" },
+  { names: ["lisbon"], lat: 38.72, lon: -9.14, region: "Europe" },
+  { names: ["portugal"], lat: 39.4, lon: -8.22, region: "Europe" },
+  { names: ["rome"], lat: 41.9, lon: 12.5, region: "Europe" },
+  { names: ["milan"], lat: 45.46, lon: 9.19, region: "Europe" },
+  { names: ["italy"], lat: 41.87, lon: 12.57, region: "Europe" },
+  { names: ["amsterdam"], lat: 52.37, lon: 4.9, region: "Europe" },
+  { names: ["netherlands"], lat: 52.13, lon: 5.29, region: "Europe" },
+  { names: ["brussels"], lat: 50.85, lon: 4.35, region: "Europe" },
+  { names: ["belgium"], lat: 50.5, lon: 4.47, region: "Europe" },
+  { names: ["vienna"], lat: 48.21, lon: 16.37, region: "Europe" },
+  { names: ["austria"], lat: 47.52, lon: 14.55, region: "Europe" },
+  { names: ["zurich"], lat: 47.38, lon: 8.54, region: "Europe" },
+  { names: ["switzerland"], lat: 46.82, lon: 8.23, region: "Europe" },
+  { names: ["copenhagen"], lat: 55.68, lon: 12.57, region: "Europe" },
+  { names: ["denmark"], lat: 56.26, lon: 9.5, region: "Europe" },
+  { names: ["stockholm"], lat: 59.33, lon: 18.07, region: "Europe" },
+  { names: ["sweden"], lat: 62.0, lon: 15.0, region: "Europe" },
+  { names: ["oslo"], lat: 59.91, lon: 10.75, region: "Europe" },
+  { names: ["norway"], lat: 60.47, lon: 8.47, region: "Europe" },
+  { names: ["helsinki"], lat: 60.17, lon: 24.94, region: "Europe" },
+  { names: ["finland"], lat: 61.92, lon: 25.75, region: "Europe" },
+  { names: ["warsaw"], lat: 52.23, lon: 21.01, region: "Europe" },
+  { names: ["poland"], lat: 51.92, lon: 19.15, region: "Europe" },
+  { names: ["prague", "czech republic", "czechia"], lat: 50.08, lon: 14.44, region: "Europe" },
+  { names: ["athens"], lat: 37.98, lon: 23.73, region: "Europe" },
+  { names: ["greece"], lat: 39.07, lon: 21.82, region: "Europe" },
+  { names: ["dublin"], lat: 53.35, lon: -6.26, region: "Europe" },
+  { names: ["ireland"], lat: 53.41, lon: -8.24, region: "Europe" },
+  { names: ["kyiv", "kiev"], lat: 50.45, lon: 30.52, region: "Europe" },
+  { names: ["ukraine"], lat: 48.38, lon: 31.17, region: "Europe" },
+  { names: ["moscow"], lat: 55.76, lon: 37.62, region: "Europe" },
+  // Africa
+  { names: ["cairo"], lat: 30.04, lon: 31.24, region: "Africa" },
+  { names: ["egypt"], lat: 26.82, lon: 30.8, region: "Africa" },
+  { names: ["casablanca"], lat: 33.57, lon: -7.59, region: "Africa" },
+  { names: ["marrakesh", "marrakech"], lat: 31.63, lon: -8.0, region: "Africa" },
+  { names: ["morocco"], lat: 31.79, lon: -7.09, region: "Africa" },
+  { names: ["algiers"], lat: 36.75, lon: 3.06, region: "Africa" },
+  { names: ["algeria"], lat: 28.03, lon: 1.66, region: "Africa" },
+  { names: ["tunis", "tunisia"], lat: 36.81, lon: 10.18, region: "Africa" },
+  { names: ["lagos"], lat: 6.52, lon: 3.38, region: "Africa" },
+  { names: ["nigeria"], lat: 9.08, lon: 8.68, region: "Africa" },
+  { names: ["accra"], lat: 5.6, lon: -0.19, region: "Africa" },
+  { names: ["ghana"], lat: 7.95, lon: -1.02, region: "Africa" },
+  { names: ["dakar"], lat: 14.72, lon: -17.47, region: "Africa" },
+  { names: ["senegal"], lat: 14.5, lon: -14.45, region: "Africa" },
+  { names: ["kinshasa"], lat: -4.44, lon: 15.27, region: "Africa" },
+  { names: ["nairobi"], lat: -1.29, lon: 36.82, region: "Africa" },
+  { names: ["kenya"], lat: 0.02, lon: 37.91, region: "Africa" },
+  { names: ["addis ababa"], lat: 9.03, lon: 38.74, region: "Africa" },
+  { names: ["ethiopia"], lat: 9.15, lon: 40.49, region: "Africa" },
+  { names: ["dar es salaam"], lat: -6.79, lon: 39.21, region: "Africa" },
+  { names: ["tanzania"], lat: -6.37, lon: 34.89, region: "Africa" },
+  { names: ["windhoek"], lat: -22.56, lon: 17.08, region: "Africa" },
+  { names: ["namibia"], lat: -22.96, lon: 18.49, region: "Africa" },
+  { names: ["johannesburg"], lat: -26.2, lon: 28.05, region: "Africa" },
+  { names: ["cape town"], lat: -33.92, lon: 18.42, region: "Africa" },
+  { names: ["south africa"], lat: -30.56, lon: 22.94, region: "Africa" },
+  // North America
+  { names: ["new york", "new york city", "nyc"], lat: 40.71, lon: -74.01, region: "North America" },
+  { names: ["los angeles"], lat: 34.05, lon: -118.24, region: "North America" },
+  { names: ["san francisco"], lat: 37.77, lon: -122.42, region: "North America" },
+  { names: ["san diego"], lat: 32.72, lon: -117.16, region: "North America" },
+  { names: ["phoenix"], lat: 33.45, lon: -112.07, region: "North America" },
+  { names: ["las vegas"], lat: 36.17, lon: -115.14, region: "North America" },
+  { names: ["denver"], lat: 39.74, lon: -104.99, region: "North America" },
+  { names: ["austin"], lat: 30.27, lon: -97.74, region: "North America" },
+  { names: ["houston"], lat: 29.76, lon: -95.37, region: "North America" },
+  { names: ["dallas"], lat: 32.78, lon: -96.8, region: "North America" },
+  { names: ["chicago"], lat: 41.88, lon: -87.63, region: "North America" },
+  { names: ["miami"], lat: 25.76, lon: -80.19, region: "North America" },
+  { names: ["atlanta"], lat: 33.75, lon: -84.39, region: "North America" },
+  { names: ["seattle"], lat: 47.61, lon: -122.33, region: "North America" },
+  { names: ["boston"], lat: 42.36, lon: -71.06, region: "North America" },
+  { names: ["washington dc", "washington d.c."], lat: 38.91, lon: -77.04, region: "North America" },
+  { names: ["honolulu", "hawaii"], lat: 21.31, lon: -157.86, region: "North America" },
+  { names: ["california"], lat: 36.78, lon: -119.42, region: "North America" },
+  { names: ["texas"], lat: 31.97, lon: -99.9, region: "North America" },
+  { names: ["arizona"], lat: 34.05, lon: -111.09, region: "North America" },
+  { names: ["nevada"], lat: 38.8, lon: -116.42, region: "North America" },
+  { names: ["florida"], lat: 27.66, lon: -81.52, region: "North America" },
+  { names: ["united states", "united states of america", "usa", "us"], lat: 39.8, lon: -98.6, region: "North America" },
+  { names: ["toronto"], lat: 43.65, lon: -79.38, region: "North America" },
+  { names: ["montreal"], lat: 45.5, lon: -73.57, region: "North America" },
+  { names: ["vancouver"], lat: 49.28, lon: -123.12, region: "North America" },
+  { names: ["canada"], lat: 56.13, lon: -106.35, region: "North America" },
+  { names: ["mexico city"], lat: 19.43, lon: -99.13, region: "North America" },
+  { names: ["monterrey"], lat: 25.69, lon: -100.32, region: "North America" },
+  { names: ["mexico"], lat: 23.63, lon: -102.55, region: "North America" },
+  { names: ["havana"], lat: 23.11, lon: -82.37, region: "North America" },
+  { names: ["cuba"], lat: 21.52, lon: -77.78, region: "North America" },
+  { names: ["san juan", "puerto rico"], lat: 18.47, lon: -66.11, region: "North America" },
+  { names: ["costa rica"], lat: 9.75, lon: -83.75, region: "North America" },
+  { names: ["panama", "panama city"], lat: 8.98, lon: -79.52, region: "North America" },
+  // South America
+  { names: ["sao paulo"], lat: -23.55, lon: -46.63, region: "South America" },
+  { names: ["rio de janeiro"], lat: -22.91, lon: -43.17, region: "South America" },
+  { names: ["brazil", "brasil"], lat: -14.24, lon: -51.93, region: "South America" },
+  { names: ["buenos aires"], lat: -34.6, lon: -58.38, region: "South America" },
+  { names: ["argentina"], lat: -38.42, lon: -63.62, region: "South America" },
+  { names: ["santiago"], lat: -33.45, lon: -70.67, region: "South America" },
+  { names: ["atacama"], lat: -24.5, lon: -69.25, region: "South America" },
+  { names: ["chile"], lat: -35.68, lon: -71.54, region: "South America" },
+  { names: ["lima"], lat: -12.05, lon: -77.04, region: "South America" },
+  { names: ["peru"], lat: -9.19, lon: -75.02, region: "South America" },
+  { names: ["bogota"], lat: 4.71, lon: -74.07, region: "South America" },
+  { names: ["colombia"], lat: 4.57, lon: -74.3, region: "South America" },
+  { names: ["quito"], lat: -0.18, lon: -78.47, region: "South America" },
+  { names: ["ecuador"], lat: -1.83, lon: -78.18, region: "South America" },
+  { names: ["montevideo"], lat: -34.9, lon: -56.16, region: "South America" },
+  { names: ["uruguay"], lat: -32.52, lon: -55.77, region: "South America" },
+  { names: ["caracas"], lat: 10.48, lon: -66.9, region: "South America" },
+  { names: ["venezuela"], lat: 6.42, lon: -66.59, region: "South America" },
+  // Oceania
+  { names: ["sydney"], lat: -33.87, lon: 151.21, region: "Oceania" },
+  { names: ["melbourne"], lat: -37.81, lon: 144.96, region: "Oceania" },
+  { names: ["brisbane"], lat: -27.47, lon: 153.03, region: "Oceania" },
+  { names: ["perth"], lat: -31.95, lon: 115.86, region: "Oceania" },
+  { names: ["adelaide"], lat: -34.93, lon: 138.6, region: "Oceania" },
+  { names: ["darwin"], lat: -12.46, lon: 130.84, region: "Oceania" },
+  { names: ["australia"], lat: -25.27, lon: 133.78, region: "Oceania" },
+  { names: ["auckland"], lat: -36.85, lon: 174.76, region: "Oceania" },
+  { names: ["wellington"], lat: -41.29, lon: 174.78, region: "Oceania" },
+  { names: ["new zealand"], lat: -40.9, lon: 174.89, region: "Oceania" },
+  { names: ["fiji"], lat: -17.71, lon: 178.07, region: "Oceania" },
+];
+
+const normalizeName = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim();
+
+const PLACES_BY_NAME = new Map<string, GeoPlace>(
+  PLACES.flatMap(place => place.names.map(name => [name, place] as [string, GeoPlace]))
+);
+
+const toMatch = (place: GeoPlace): GeocodeMatch => ({
+  name: place.names[0].replace(/\b\w/g, c => c.toUpperCase()), lat: place.lat, lon: place.lon, region: place.region,
+});
+
+/**
+ * Resolves a free-text location such as "Taipei, Taiwan" against the offline table.
+ * The whole text is tried first, then each comma-separated part from the most specific (first) one,
+ * so "Kaohsiung, Taiwan" lands on the city and "Somewhere, Taiwan" falls back to the country.
+ */
+export function geocodeLocation(location: string): GeocodeMatch | null {
+  const whole = PLACES_BY_NAME.get(normalizeName(location));
+  if (whole) return toMatch(whole);
+  for (const part of location.split(",")) {
+    const place = PLACES_BY_NAME.get(normalizeName(part));
+    if (place) return toMatch(place);
+  }
+  return null;
+}
+
+// Approximate distance in degrees, with longitude scaled by latitude and wrapped across the antimeridian.
+const degreeDistance = (a: Coordinates, b: Coordinates) => {
+  const dLon = Math.abs(a.lon - b.lon);
+  const wrapped = Math.min(dLon, 360 - dLon) * Math.cos(((a.lat + b.lat) / 2) * Math.PI / 180);
+  return Math.hypot(a.lat - b.lat, wrapped);
+};
+
+// Explicit coordinates carry no region, so they take the region of the nearest known place.
+export function regionForCoordinates(coordinates: Coordinates): GeoRegion {
+  let nearest = PLACES[0];
+  for (const place of PLACES) {
+    if (degreeDistance(coordinates, place) < degreeDistance(coordinates, nearest)) nearest = place;
+  }
+  return nearest.region;
+}
+
+export const isValidCoordinates = (value: unknown): value is Coordinates =>
+  typeof value === "object" && value !== null &&
+  typeof (value as Coordinates).lat === "number" && Math.abs((value as Coordinates).lat) <= 90 &&
+  typeof (value as Coordinates).lon === "number" && Math.abs((value as Coordinates).lon) <= 180;
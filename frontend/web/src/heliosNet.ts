@@ -0,0 +1,143 @@
+// heliosNet.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/HeliosNetFHE.json";
+import { getRegisteredContractReadOnly, getRegisteredContractWithSigner } from "./contract";
+import { encryptEnergyOutput } from "./fhevm";
+import { getContractAddress, getContractDeployBlock } from "./registry";
+
+export const HELIOS_ABI = (abiJson as any).abi || abiJson;
+
+export interface BatchStatus {
+  owner: string;
+  batchId: number;
+  isOpen: boolean;
+  paused: boolean;
+  cooldownSeconds: number;
+  isProvider: boolean;
+  nextSubmissionAt: number;
+  canSubmit: boolean;
+}
+
+export interface EnergySubmission {
+  txHash: string;
+  batchId: number;
+  handle: string;
+}
+
+export type HeliosAdminMethod =
+  | "addProvider"
+  | "removeProvider"
+  | "setCooldownSeconds"
+  | "pause"
+  | "unpause"
+  | "openBatch"
+  | "closeBatch"
+  | "requestTotalEnergyDecryption";
+
+const LOG_RANGE = 5000;
+// Without a configured deploy block only the most recent blocks are scanned for events.
+const LOOKBACK_BLOCKS = 50000;
+
+export function getHeliosAddress(): string | null {
+  return getContractAddress("HeliosNetFHE");
+}
+
+export async function getHeliosContractReadOnly() {
+  return getRegisteredContractReadOnly("HeliosNetFHE", HELIOS_ABI);
+}
+
+export async function getHeliosContractWithSigner() {
+  return getRegisteredContractWithSigner("HeliosNetFHE", HELIOS_ABI);
+}
+
+export function getHeliosDeployBlock(): number | null {
+  return getContractDeployBlock("HeliosNetFHE");
+}
+
+// Queries HeliosNetFHE logs from the deploy block (or the lookback window) in RPC-friendly ranges.
+export async function queryHeliosLogs(contract: ethers.Contract, filter: ethers.DeferredTopicFilter): Promise<ethers.EventLog[]> {
+  const provider = contract.runner!.provider!;
+  const latestBlock = await provider.getBlockNumber();
+  const fromBlock = getHeliosDeployBlock() ?? Math.max(0, latestBlock - LOOKBACK_BLOCKS);
+
+  const events: ethers.EventLog[] = [];
+  for (let start = fromBlock; start <= latestBlock; start += LOG_RANGE) {
+    const end = Math.min(start + LOG_RANGE - 1, latestBlock);
+    const logs = await contract.queryFilter(filter, start, end);
+    for (const log of logs) {
+      if (log instanceof ethers.EventLog) events.push(log);
+    }
+  }
+  return events;
+}
+
+// Collects ProviderAdded addresses and keeps the ones that are still registered.
+export async function listProviders(contract: ethers.Contract): Promise<string[]> {
+  const logs = await queryHeliosLogs(contract, contract.filters.ProviderAdded());
+  const candidates = [...new Set(logs.map(log => ethers.getAddress(log.args.provider)))];
+  const flags: boolean[] = await Promise.all(candidates.map(address => contract.isProvider(address)));
+  return candidates.filter((_, i) => flags[i]);
+}
+
+export async function sendHeliosAdminTx(method: HeliosAdminMethod, args: unknown[] = []) {
+  const contract = await getHeliosContractWithSigner();
+  // Simulate first so a revert surfaces its custom error before the wallet prompt.
+  await contract[method].staticCall(...args);
+  const tx = await contract[method](...args);
+  return tx.wait();
+}
+
+export async function getBatchStatus(account?: string): Promise<BatchStatus | null> {
+  const contract = await getHeliosContractReadOnly();
+  if (!contract) return null;
+
+  const [owner, currentBatchId, paused, cooldownSeconds] = await Promise.all([
+    contract.owner(),
+    contract.currentBatchId(),
+    contract.paused(),
+    contract.cooldownSeconds(),
+  ]);
+  const batchId = Number(currentBatchId);
+  const isOpen = batchId > 0 ? await contract.isBatchOpen(batchId) : false;
+
+  let isProvider = false;
+  let nextSubmissionAt = 0;
+  if (account) {
+    const [providerFlag, lastSubmission] = await Promise.all([
+      contract.isProvider(account),
+      contract.lastSubmissionTime(account),
+    ]);
+    isProvider = providerFlag;
+    nextSubmissionAt = lastSubmission > 0n ? Number(lastSubmission + cooldownSeconds) : 0;
+  }
+
+  return {
+    owner,
+    batchId,
+    isOpen,
+    paused,
+    cooldownSeconds: Number(cooldownSeconds),
+    isProvider,
+    nextSubmissionAt,
+    canSubmit: isProvider && isOpen && !paused && nextSubmissionAt <= Math.floor(Date.now() / 1000),
+  };
+}
+
+export async function submitEncryptedEnergy(kWh: number, account: string): Promise<EnergySubmission> {
+  const contract = await getHeliosContractWithSigner();
+  const encrypted = await encryptEnergyOutput(kWh, await contract.getAddress(), account);
+  const tx = await contract.submitEnergy(encrypted.handle, encrypted.inputProof);
+  const receipt = await tx.wait();
+
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "EnergySubmitted") {
+      return {
+        txHash: receipt.hash,
+        batchId: Number(parsed.args.batchId),
+        handle: parsed.args.encryptedEnergy,
+      };
+    }
+  }
+  throw new Error("EnergySubmitted event not found in receipt");
+}
@@ -0,0 +1,274 @@
+// lendingPool.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/HeliosLendingPool.json";
+import { batchCall } from "./batchReads";
+import { getRegisteredContractReadOnly, getRegisteredContractWithSigner } from "./contract";
+import { ENERGY_SCALE, encryptEnergyOutput, fromEnergyUnits, userDecryptHandles } from "./fhevm";
+import { getHeliosContractReadOnly, getHeliosContractWithSigner } from "./heliosNet";
+import { awaitLocalDecryptionOracle, isLocalChain } from "./localChain";
+import { getActiveChainId, getContractAddress } from "./registry";
+
+export const POOL_ABI = (abiJson as any).abi || abiJson;
+
+export interface PoolStats {
+  owner: string;
+  paused: boolean;
+  totalAssets: bigint;
+  totalBorrows: bigint;
+  totalShares: bigint;
+  availableLiquidity: bigint;
+  utilizationBps: number;
+  borrowRateBps: number;
+  loanToValueBps: number;
+  creditPerUnitGwei: bigint;
+  maxBatchUnits: number; // cap on what one pledged or projected batch adds, in tenths of a kWh
+  readAt: number; // seconds, when the snapshot was taken
+}
+
+export interface LenderPosition {
+  shares: bigint;
+  value: bigint;
+  deposited: bigint;
+}
+
+export interface BorrowerPosition {
+  isProvider: boolean;
+  debt: bigint;
+  principal: bigint;
+  pendingAmount: bigint;
+  undercollateralized: boolean; // flagged by the latest health check, so keepers may liquidate it
+  healthCheckPending: boolean;
+  projectableBatch: number | null; // the open batch, while no projection is pledged for it
+  pledgedBatches: number[];
+  pledgeableBatches: number[]; // closed batches with the account's energy that are not pledged yet
+  collateralHandle: string;
+}
+
+export type BorrowOutcome = "executed" | "rejected" | "pending";
+
+const BPS = 10_000n;
+const YEAR_SECONDS = 365n * 24n * 60n * 60n;
+// Only the most recent batches are scanned for pledged or pledgeable energy.
+const MAX_SCANNED_BATCHES = 200;
+// "Repay all" covers this much extra interest so the loan is cleared even if the tx lands a little later.
+const REPAY_ALL_SLACK_SECONDS = 3600n;
+
+export function getPoolAddress(): string | null {
+  return getContractAddress("HeliosLendingPool");
+}
+
+export async function getPoolContractReadOnly() {
+  return getRegisteredContractReadOnly("HeliosLendingPool", POOL_ABI);
+}
+
+export async function getPoolContractWithSigner() {
+  return getRegisteredContractWithSigner("HeliosLendingPool", POOL_ABI);
+}
+
+export async function getPoolStats(): Promise<PoolStats | null> {
+  const contract = await getPoolContractReadOnly();
+  if (!contract) return null;
+  const [owner, paused, totalAssets, totalBorrows, totalShares, availableLiquidity, utilizationBps, borrowRateBps, loanToValueBps, creditPerUnitGwei, maxBatchUnits] =
+    await Promise.all([
+      contract.owner(),
+      contract.paused(),
+      contract.totalAssets(),
+      contract.totalBorrows(),
+      contract.totalShares(),
+      contract.availableLiquidity(),
+      contract.utilizationBps(),
+      contract.borrowRateBps(),
+      contract.loanToValueBps(),
+      contract.creditPerUnitGwei(),
+      contract.maxBatchUnits(),
+    ]);
+  return {
+    owner,
+    paused,
+    totalAssets,
+    totalBorrows,
+    totalShares,
+    availableLiquidity,
+    utilizationBps: Number(utilizationBps),
+    borrowRateBps: Number(borrowRateBps),
+    loanToValueBps: Number(loanToValueBps),
+    creditPerUnitGwei,
+    maxBatchUnits: Number(maxBatchUnits),
+    readAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+export async function getLenderPosition(account: string): Promise<LenderPosition | null> {
+  const contract = await getPoolContractReadOnly();
+  if (!contract) return null;
+  const [shares, value, deposited] = await Promise.all([
+    contract.sharesOf(account),
+    contract.balanceOf(account),
+    contract.depositedOf(account),
+  ]);
+  return { shares, value, deposited };
+}
+
+export async function getBorrowerPosition(account: string): Promise<BorrowerPosition | null> {
+  const [pool, helios] = await Promise.all([getPoolContractReadOnly(), getHeliosContractReadOnly()]);
+  if (!pool || !helios) return null;
+
+  const [isProvider, debt, principal, pendingAmount, undercollateralized, healthCheckPending, collateralHandle, currentBatchId] = await Promise.all([
+    helios.isProvider(account),
+    pool.debtOf(account),
+    pool.principalOf(account),
+    pool.pendingBorrowAmount(account),
+    pool.isUndercollateralized(account),
+    pool.isHealthCheckPending(account),
+    pool.collateralEnergy(account),
+    helios.currentBatchId(),
+  ]);
+
+  const latest = Number(currentBatchId);
+  const batchIds = Array.from({ length: Math.min(latest, MAX_SCANNED_BATCHES) }, (_, i) => latest - i);
+  const [pledged, energy, open] = await Promise.all([
+    batchCall<boolean>(pool, "isBatchPledged", new Map(batchIds.map(id => [String(id), [account, id]]))),
+    batchCall<string>(helios, "userEncryptedEnergyInBatch", new Map(batchIds.map(id => [String(id), [id, account]]))),
+    batchCall<boolean>(helios, "isBatchOpen", new Map(batchIds.map(id => [String(id), [id]]))),
+  ]);
+
+  const pledgedBatches: number[] = [];
+  const pledgeableBatches: number[] = [];
+  for (const id of batchIds) {
+    const key = String(id);
+    const isPledged = pledged.get(key);
+    if (isPledged?.ok && isPledged.value) { pledgedBatches.push(id); continue; }
+    const handle = energy.get(key);
+    const isOpen = open.get(key);
+    if (handle?.ok && handle.value !== ethers.ZeroHash && isOpen?.ok && !isOpen.value) pledgeableBatches.push(id);
+  }
+
+  const isCurrentOpen = open.get(String(latest));
+  const projectableBatch = isCurrentOpen?.ok && isCurrentOpen.value && !pledgedBatches.includes(latest) ? latest : null;
+
+  return { isProvider, debt, principal, pendingAmount, undercollateralized, healthCheckPending, projectableBatch, pledgedBatches, pledgeableBatches, collateralHandle };
+}
+
+// Interest accrues every second on chain; these project a snapshot forward at the pool's simple rate.
+export function projectDebt(debt: bigint, stats: PoolStats, now: number): bigint {
+  const elapsed = BigInt(Math.max(0, Math.floor(now) - stats.readAt));
+  return debt + (debt * BigInt(stats.borrowRateBps) * elapsed) / (BPS * YEAR_SECONDS);
+}
+
+export function projectLenderValue(position: LenderPosition, stats: PoolStats, now: number): bigint {
+  if (stats.totalShares === 0n) return position.value;
+  const interest = projectDebt(stats.totalBorrows, stats, now) - stats.totalBorrows;
+  return position.value + (interest * position.shares) / stats.totalShares;
+}
+
+// Lenders earn the borrow rate on the share of the pool that is lent out.
+export const supplyRateBps = (stats: PoolStats) => Math.floor((stats.borrowRateBps * stats.utilizationBps) / Number(BPS));
+
+// Wei of credit per kWh of pledged energy, before the loan-to-value haircut.
+export const creditPerKwh = (stats: PoolStats) => stats.creditPerUnitGwei * BigInt(ENERGY_SCALE) * 10n ** 9n;
+
+export function creditLimit(collateralKwh: number, stats: PoolStats): bigint {
+  const units = BigInt(Math.round(collateralKwh * ENERGY_SCALE));
+  const perUnit = (stats.creditPerUnitGwei * BigInt(stats.loanToValueBps)) / BPS;
+  return units * perUnit * 10n ** 9n;
+}
+
+export async function decryptCollateral(handle: string, signer: ethers.Signer): Promise<number> {
+  if (handle === ethers.ZeroHash) return 0;
+  const contractAddress = getPoolAddress();
+  if (!contractAddress) throw new Error("HeliosLendingPool is not deployed on this network");
+  const results = await userDecryptHandles([{ handle, contractAddress }], signer);
+  const entry = Object.entries(results).find(([key]) => key.toLowerCase() === handle.toLowerCase());
+  if (!entry) throw new Error(`Relayer returned no cleartext for handle ${handle}`);
+  return fromEnergyUnits(BigInt(entry[1] as bigint | string));
+}
+
+// Simulates first so a revert surfaces its custom error before the wallet prompt.
+async function sendPoolTx(method: string, args: unknown[] = [], value?: bigint) {
+  const contract = await getPoolContractWithSigner();
+  const overrides = value === undefined ? [] : [{ value }];
+  await contract[method].staticCall(...args, ...overrides);
+  const tx = await contract[method](...args, ...overrides);
+  return tx.wait();
+}
+
+export async function deposit(amount: bigint) {
+  return sendPoolTx("deposit", [], amount);
+}
+
+export async function withdraw(shares: bigint) {
+  return sendPoolTx("withdraw", [shares]);
+}
+
+// Shares to redeem for `amount` wei, capped at what the lender holds.
+export function sharesForAmount(amount: bigint, position: LenderPosition, stats: PoolStats): bigint {
+  if (stats.totalAssets === 0n) return 0n;
+  const shares = (amount * stats.totalShares) / stats.totalAssets;
+  return shares > position.shares ? position.shares : shares;
+}
+
+/** Shares the caller's energy for `batchId` with the pool (a HeliosNetFHE transaction), then pledges it. */
+export async function pledgeBatch(batchId: number) {
+  const poolAddress = getPoolAddress();
+  if (!poolAddress) throw new Error("HeliosLendingPool is not deployed on this network");
+  const helios = await getHeliosContractWithSigner();
+  await helios.grantEnergyAccess.staticCall(batchId, poolAddress);
+  await (await helios.grantEnergyAccess(batchId, poolAddress)).wait();
+  return sendPoolTx("pledgeBatch", [batchId]);
+}
+
+/**
+ * Pledges `kWh` of projected output for the open batch. The pool caps it at its per-batch limit and, once the
+ * batch closes, settles it against the energy shared with it for that batch.
+ */
+export async function pledgeProjection(batchId: number, kWh: number, account: string) {
+  const poolAddress = getPoolAddress();
+  if (!poolAddress) throw new Error("HeliosLendingPool is not deployed on this network");
+  const { handle, inputProof } = await encryptEnergyOutput(kWh, poolAddress, account);
+  return sendPoolTx("pledgeProjection", [batchId, handle, inputProof]);
+}
+
+/**
+ * Asks for a fresh health check of `borrower`, e.g. after pledging more collateral to clear a flag. Returns
+ * whether the position is flagged, or null while the decryption oracle has not answered yet.
+ */
+export async function requestHealthCheck(borrower: string): Promise<boolean | null> {
+  await sendPoolTx("requestHealthCheck", [borrower]);
+  if (isLocalChain(getActiveChainId())) await awaitLocalDecryptionOracle();
+  const contract = await getPoolContractReadOnly();
+  if (!contract || (await contract.isHealthCheckPending(borrower))) return null;
+  return contract.isUndercollateralized(borrower);
+}
+
+/**
+ * Requests a loan and reports how the decryption oracle answered. On Sepolia the answer usually arrives
+ * after this returns, in which case the outcome is "pending" until the position is reloaded.
+ */
+export async function requestBorrow(amount: bigint): Promise<BorrowOutcome> {
+  const receipt = await sendPoolTx("requestBorrow", [amount]);
+  const contract = await getPoolContractReadOnly();
+  if (!contract) return "pending";
+  const requested = receipt.logs
+    .map((log: ethers.Log) => { try { return contract.interface.parseLog(log); } catch { return null; } })
+    .find((parsed: ethers.LogDescription | null) => parsed?.name === "BorrowRequested");
+  if (!requested) return "pending";
+
+  if (isLocalChain(getActiveChainId())) await awaitLocalDecryptionOracle();
+  const requestId = requested.args.requestId;
+  const [executed, rejected] = await Promise.all([
+    contract.queryFilter(contract.filters.BorrowExecuted(requestId), receipt.blockNumber),
+    contract.queryFilter(contract.filters.BorrowRejected(requestId), receipt.blockNumber),
+  ]);
+  if (executed.length > 0) return "executed";
+  if (rejected.length > 0) return "rejected";
+  return "pending";
+}
+
+export async function repay(amount: bigint) {
+  return sendPoolTx("repay", [], amount);
+}
+
+// The contract refunds whatever exceeds the debt at execution time.
+export function repayAllAmount(debt: bigint, stats: PoolStats): bigint {
+  return debt + (debt * BigInt(stats.borrowRateBps) * REPAY_ALL_SLACK_SECONDS) / (BPS * YEAR_SECONDS) + 1n;
+}
@@ -0,0 +1,53 @@
+// localChain.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { getRegisteredChain } from "./registry";
+
+// `npx hardhat node` with the fhevm plugin: the node itself plays the coprocessor, KMS and relayer.
+export const LOCAL_CHAIN_ID = 31337;
+const DEFAULT_LOCAL_RPC_URL = "http://127.0.0.1:8545";
+
+export const isLocalChain = (chainId: number) => chainId === LOCAL_CHAIN_ID;
+
+// Deploys only publish an explicit FRONTEND_RPC_URL, so a local chain entry usually has none.
+export const getLocalRpcUrl = () => getRegisteredChain(LOCAL_CHAIN_ID)?.rpcUrl ?? DEFAULT_LOCAL_RPC_URL;
+
+// The wallet does not forward the node's fhevm_* methods, so the mock relayer talks to the node directly.
+const getLocalRelayerProvider = () =>
+  new ethers.JsonRpcProvider(getLocalRpcUrl(), LOCAL_CHAIN_ID, { staticNetwork: true });
+
+export async function createLocalFhevmInstance(): Promise<FhevmInstance> {
+  return createMockFhevmInstance(getLocalRelayerProvider()).catch((e) => {
+    throw new Error(`No fhevm mock node at ${getLocalRpcUrl()}. Start one with \`npx hardhat node\`.`, { cause: e });
+  });
+}
+
+// The mock relayer talks to the node over JSON-RPC, as JsonRpcProvider and Hardhat's provider both can.
+type MockNodeProvider = ethers.Provider & { send(method: string, params: unknown[]): Promise<unknown> };
+
+// A mock relayer instance for any provider whose node runs the fhevm mock, e.g. Hardhat's in-process network.
+export async function createMockFhevmInstance(provider: MockNodeProvider): Promise<FhevmInstance> {
+  // Loaded on demand so the mock never ends up in the Sepolia code path.
+  const { MockFhevmInstance, contracts, relayer } = await import("@fhevm/mock-utils");
+  const metadata = await relayer.requestRelayerMetadata(provider);
+  const [inputVerifier, kmsVerifier] = await Promise.all([
+    contracts.InputVerifier.create(provider, metadata.InputVerifierAddress),
+    contracts.KMSVerifier.create(provider, metadata.KMSVerifierAddress),
+  ]);
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressInputVerification: inputVerifier.gatewayInputVerificationAddress,
+    verifyingContractAddressDecryption: kmsVerifier.gatewayDecryptionAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+  });
+  return instance as unknown as FhevmInstance;
+}
+
+// The mock decryption oracle only answers when asked; on Sepolia the real oracle does this on its own.
+export async function awaitLocalDecryptionOracle() {
+  const { relayer } = await import("@fhevm/mock-utils");
+  await relayer.requestFhevmAwaitDecryptionOracle(getLocalRelayerProvider());
+}
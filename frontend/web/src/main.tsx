@@ -5,15 +5,17 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
 import { BrowserRouter } from 'react-router-dom';
+import { isSupportedChain } from './registry';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+// The local Hardhat chain is offered once `npx hardhat run deploy/deploy.ts --network localhost` has registered it.
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: isSupportedChain(hardhat.id) ? [sepolia, hardhat] : [sepolia],
 });
 
 const queryClient = new QueryClient();
@@ -0,0 +1,126 @@
+// nodeMap.ts
+import { Coordinates, GeoRegion, geocodeLocation, isValidCoordinates, regionForCoordinates } from "./geocode";
+import { RecordStatus } from "./recordSchema";
+import { Ring } from "./worldOutline";
+
+export interface MapNode {
+  id: string;
+  location: string;
+  status: RecordStatus;
+  capacityKw?: number;
+  coordinates?: Coordinates;
+}
+
+export interface PlacedNode extends MapNode {
+  position: Coordinates;
+  region: GeoRegion;
+  x: number;
+  y: number;
+}
+
+export interface NodeCluster {
+  id: string;
+  nodes: PlacedNode[];
+  x: number;
+  y: number;
+  status: RecordStatus | "mixed";
+}
+
+export interface RegionAggregate {
+  region: GeoRegion;
+  nodes: PlacedNode[];
+  active: number;
+  capacityKw: number;
+}
+
+export interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Equirectangular projection, one unit per degree, cropped to the latitudes that have solar installations.
+const MAX_LAT = 84;
+const MIN_LAT = -58;
+export const WORLD_VIEW: ViewBox = { x: 0, y: 0, width: 360, height: MAX_LAT - MIN_LAT };
+
+// Narrowest view a zoom can reach, in degrees of longitude.
+const MIN_VIEW_WIDTH = 24;
+// Cluster radius as a share of the view width, so clusters split apart as the map zooms in.
+const CLUSTER_RADIUS_RATIO = 0.035;
+
+export const project = ({ lat, lon }: Coordinates) => ({
+  x: lon + 180,
+  y: MAX_LAT - Math.max(MIN_LAT, Math.min(MAX_LAT, lat)),
+});
+
+export const ringPath = (ring: Ring) =>
+  ring.map(([lon, lat], i) => {
+    const { x, y } = project({ lat, lon });
+    return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join("") + "Z";
+
+// Explicit coordinates win over the geocoded location text; nodes with neither cannot be placed.
+export function placeNodes(nodes: MapNode[]): { placed: PlacedNode[]; unplaced: MapNode[] } {
+  const placed: PlacedNode[] = [];
+  const unplaced: MapNode[] = [];
+  for (const node of nodes) {
+    const explicit = isValidCoordinates(node.coordinates) ? node.coordinates : null;
+    const match = explicit ? null : geocodeLocation(node.location);
+    const position = explicit ?? match;
+    if (!position) { unplaced.push(node); continue; }
+    const region = match ? match.region : regionForCoordinates(position);
+    placed.push({ ...node, position: { lat: position.lat, lon: position.lon }, region, ...project(position) });
+  }
+  return { placed, unplaced };
+}
+
+// Greedy clustering in projected space: each node joins the first cluster whose centre is within the radius.
+export function clusterNodes(nodes: PlacedNode[], view: ViewBox): NodeCluster[] {
+  const radius = view.width * CLUSTER_RADIUS_RATIO;
+  const clusters: NodeCluster[] = [];
+  for (const node of nodes) {
+    const cluster = clusters.find(c => Math.hypot(c.x - node.x, c.y - node.y) <= radius);
+    if (!cluster) {
+      clusters.push({ id: node.id, nodes: [node], x: node.x, y: node.y, status: node.status });
+      continue;
+    }
+    cluster.nodes.push(node);
+    cluster.x += (node.x - cluster.x) / cluster.nodes.length;
+    cluster.y += (node.y - cluster.y) / cluster.nodes.length;
+    if (cluster.status !== node.status) cluster.status = "mixed";
+  }
+  return clusters;
+}
+
+export function aggregateRegions(nodes: PlacedNode[]): RegionAggregate[] {
+  const byRegion = new Map<GeoRegion, RegionAggregate>();
+  for (const node of nodes) {
+    const aggregate = byRegion.get(node.region) ?? { region: node.region, nodes: [], active: 0, capacityKw: 0 };
+    aggregate.nodes.push(node);
+    if (node.status === "active") aggregate.active++;
+    aggregate.capacityKw += node.capacityKw ?? 0;
+    byRegion.set(node.region, aggregate);
+  }
+  return [...byRegion.values()].sort((a, b) => b.nodes.length - a.nodes.length);
+}
+
+// Smallest view with the world map's aspect ratio that holds every node, with some margin around them.
+export function fitView(nodes: { x: number; y: number }[]): ViewBox {
+  if (nodes.length === 0) return WORLD_VIEW;
+  const xs = nodes.map(node => node.x);
+  const ys = nodes.map(node => node.y);
+  const aspect = WORLD_VIEW.height / WORLD_VIEW.width;
+  const width = Math.min(WORLD_VIEW.width, Math.max(MIN_VIEW_WIDTH, (Math.max(...xs) - Math.min(...xs)) * 1.4,
+    ((Math.max(...ys) - Math.min(...ys)) * 1.4) / aspect));
+  const height = width * aspect;
+  const centerX = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const centerY = (Math.max(...ys) + Math.min(...ys)) / 2;
+  return {
+    x: Math.max(0, Math.min(WORLD_VIEW.width - width, centerX - width / 2)),
+    y: Math.max(0, Math.min(WORLD_VIEW.height - height, centerY - height / 2)),
+    width,
+    height,
+  };
+}
@@ -0,0 +1,186 @@
+// providerPool.ts
+import { ethers } from "ethers";
+
+export interface EndpointStatus {
+  url: string;
+  healthy: boolean;
+  latencyMs: number | null; // moving average over probes and routed requests
+  blockNumber: number | null;
+  chainId: number | null; // as reported by the endpoint
+  failures: number;
+  lastError?: string;
+  lastCheckedAt: number | null; // ms
+}
+
+const HEALTH_INTERVAL_MS = 30000;
+const REQUEST_TIMEOUT_MS = 8000;
+// Endpoints further than this behind the best known head are only used when nothing better is left.
+const MAX_BLOCK_LAG = 5;
+// Weight of the newest sample in the latency moving average.
+const LATENCY_WEIGHT = 0.3;
+// JSON-RPC "limit exceeded": the endpoint answered, but is throttling us.
+const RATE_LIMITED_CODE = -32005;
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e)).substring(0, 200);
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`RPC timeout after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+class Endpoint {
+  readonly provider: ethers.JsonRpcProvider;
+  status: EndpointStatus;
+
+  constructor(readonly url: string, network: ethers.Network) {
+    this.provider = new ethers.JsonRpcProvider(url, network, { staticNetwork: network });
+    this.status = { url, healthy: false, latencyMs: null, blockNumber: null, chainId: null, failures: 0, lastCheckedAt: null };
+  }
+
+  recordLatency(ms: number) {
+    const previous = this.status.latencyMs;
+    this.status.latencyMs = previous === null ? ms : Math.round(previous * (1 - LATENCY_WEIGHT) + ms * LATENCY_WEIGHT);
+  }
+
+  recordSuccess(ms: number) {
+    this.recordLatency(ms);
+    // A wrong-chain endpoint stays unhealthy until a probe sees it on the right chain again.
+    this.status.healthy = this.status.chainId === null || BigInt(this.status.chainId) === this.provider._network.chainId;
+    this.status.lastError = undefined;
+  }
+
+  recordFailure(error: unknown) {
+    this.status.healthy = false;
+    this.status.failures++;
+    this.status.lastError = errorMessage(error);
+  }
+}
+
+/**
+ * A read-only provider that spreads requests over several RPC endpoints of one chain.
+ *
+ * Endpoints are probed in the background for chainId, block height and latency. Each request goes to the
+ * healthiest endpoint and fails over to the next one on transport errors, timeouts or rate limiting, so a
+ * dead RPC in the middle of a session only costs a retry.
+ */
+export class ProviderPool extends ethers.JsonRpcApiProvider {
+  readonly expectedChainId: number;
+  private readonly endpoints: Endpoint[];
+  private healthCheck: Promise<void> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private statusListeners = new Set<() => void>();
+
+  constructor(chainId: number, name: string, urls: string[]) {
+    const network = new ethers.Network(name, chainId);
+    super(network, { staticNetwork: network });
+    this.expectedChainId = chainId;
+    this.endpoints = [...new Set(urls)].map(url => new Endpoint(url, network));
+  }
+
+  getStatus(): EndpointStatus[] {
+    return this.endpoints.map(endpoint => ({ ...endpoint.status }));
+  }
+
+  onStatusChange(listener: () => void): () => void {
+    this.statusListeners.add(listener);
+    return () => { this.statusListeners.delete(listener); };
+  }
+
+  private notify() {
+    this.statusListeners.forEach(listener => listener());
+  }
+
+  // Starts the background probes, and re-probes right away when no endpoint is currently healthy.
+  async ensureHealthy(): Promise<void> {
+    if (!this.timer) {
+      this.timer = setInterval(() => { this.checkHealth(); }, HEALTH_INTERVAL_MS);
+    }
+    const hasHealthy = () => this.endpoints.some(endpoint => endpoint.status.healthy);
+    if (!hasHealthy()) await this.checkHealth();
+    if (!hasHealthy()) {
+      const errors = this.endpoints.map(endpoint => `${endpoint.url}: ${endpoint.status.lastError ?? "unhealthy"}`);
+      throw new Error(`No healthy RPC endpoint for chain ${this.expectedChainId} (${errors.join("; ") || "none configured"})`);
+    }
+  }
+
+  checkHealth(): Promise<void> {
+    if (!this.healthCheck) {
+      this.healthCheck = Promise.all(this.endpoints.map(endpoint => this.probe(endpoint)))
+        .then(() => this.notify())
+        .finally(() => { this.healthCheck = null; });
+    }
+    return this.healthCheck;
+  }
+
+  private async probe(endpoint: Endpoint) {
+    const started = Date.now();
+    try {
+      const results = await withTimeout(endpoint.provider._send([
+        { method: "eth_chainId", params: [], id: 1, jsonrpc: "2.0" },
+        { method: "eth_blockNumber", params: [], id: 2, jsonrpc: "2.0" },
+      ]), REQUEST_TIMEOUT_MS);
+      const chainIdResult = results.find(result => result.id === 1);
+      const blockResult = results.find(result => result.id === 2);
+      if (chainIdResult?.result === undefined || blockResult?.result === undefined) {
+        throw new Error("Health probe returned a JSON-RPC error");
+      }
+      endpoint.status.chainId = Number(chainIdResult.result);
+      endpoint.status.blockNumber = Number(blockResult.result);
+      if (endpoint.status.chainId !== this.expectedChainId) {
+        endpoint.recordFailure(new Error(`Endpoint is on chain ${endpoint.status.chainId}, expected ${this.expectedChainId}`));
+      } else {
+        endpoint.recordSuccess(Date.now() - started);
+      }
+    } catch (e) {
+      endpoint.recordFailure(e);
+    } finally {
+      endpoint.status.lastCheckedAt = Date.now();
+    }
+  }
+
+  // Healthy endpoints near the chain head first, fastest first; unhealthy ones last as a final resort.
+  private ranked(): Endpoint[] {
+    const onChain = this.endpoints.filter(endpoint => endpoint.status.chainId === null || endpoint.status.chainId === this.expectedChainId);
+    const head = Math.max(0, ...onChain.map(endpoint => endpoint.status.blockNumber ?? 0));
+    const score = (endpoint: Endpoint) => {
+      const lagging = head - (endpoint.status.blockNumber ?? 0) > MAX_BLOCK_LAG;
+      return (endpoint.status.healthy ? 0 : 2) + (lagging ? 1 : 0);
+    };
+    return onChain.sort((a, b) =>
+      score(a) - score(b) || (a.status.latencyMs ?? Infinity) - (b.status.latencyMs ?? Infinity)
+    );
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<(ethers.JsonRpcResult | ethers.JsonRpcError)[]> {
+    let lastError: unknown = new Error(`No RPC endpoint configured for chain ${this.expectedChainId}`);
+    for (const endpoint of this.ranked()) {
+      const started = Date.now();
+      try {
+        // JsonRpcProvider types its results as successes only, but JSON-RPC errors come back in the same array.
+        const results: (ethers.JsonRpcResult | ethers.JsonRpcError)[] = await withTimeout(endpoint.provider._send(payload), REQUEST_TIMEOUT_MS);
+        const throttled = results.find(result => "error" in result && result.error.code === RATE_LIMITED_CODE);
+        if (throttled && "error" in throttled) throw new Error(throttled.error.message || "Rate limited");
+        const recovered = !endpoint.status.healthy;
+        endpoint.recordSuccess(Date.now() - started);
+        if (recovered) this.notify();
+        return results;
+      } catch (e) {
+        endpoint.recordFailure(e);
+        lastError = e;
+        this.notify();
+      }
+    }
+    throw lastError;
+  }
+
+  destroy() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.statusListeners.clear();
+    super.destroy();
+  }
+}
@@ -0,0 +1,134 @@
+// recordEvents.ts
+import { ethers } from "ethers";
+import { getContractDeployBlock } from "./registry";
+import { LEGACY_KEYS_KEY, RECORD_NAMESPACE, recordIdFromStorageKey } from "./recordIndex";
+
+export interface RecordRevision {
+  sender: string;
+  value: string;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface RecordEntry {
+  id: string;
+  latest: RecordRevision;
+  history: RecordRevision[];
+}
+
+interface Checkpoint {
+  id: string;
+  lastBlock: number;
+  entries: Record<string, RecordEntry>;
+}
+
+const DB_NAME = "helios-records";
+const STORE_NAME = "checkpoints";
+const BLOCK_RANGE = 5000;
+// Blocks re-scanned on every refresh so a shallow reorg cannot leave stale revisions behind.
+const REORG_DEPTH = 12;
+
+export function getDeployBlock(): number | null {
+  return getContractDeployBlock("UniversalAdapter");
+}
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readCheckpoint = async (id: string): Promise<Checkpoint | null> => {
+  const db = await openDb();
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(id);
+      request.onsuccess = () => resolve((request.result as Checkpoint) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const writeCheckpoint = async (checkpoint: Checkpoint): Promise<void> => {
+  const db = await openDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      tx.objectStore(STORE_NAME).put(checkpoint);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const isRecordKey = (key: string) => key.startsWith(`${RECORD_NAMESPACE}_`) && key !== LEGACY_KEYS_KEY;
+
+const applyEvent = (entries: Record<string, RecordEntry>, log: ethers.EventLog) => {
+  const key: string = log.args.key;
+  if (!isRecordKey(key)) return;
+
+  const revision: RecordRevision = {
+    // A record migrated from an older adapter keeps the account that wrote it there as its sender.
+    sender: log.eventName === "DataImported" ? log.args.owner : log.args.sender,
+    value: log.args.value,
+    blockNumber: log.blockNumber,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+  };
+  const id = recordIdFromStorageKey(key);
+  const entry = entries[id];
+  if (!entry) {
+    entries[id] = { id, latest: revision, history: [revision] };
+    return;
+  }
+  if (entry.history.some(r => r.txHash === revision.txHash && r.logIndex === revision.logIndex)) return;
+  entry.history.push(revision);
+  entry.history.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  entry.latest = entry.history[entry.history.length - 1];
+};
+
+const dropRevisionsAfter = (entries: Record<string, RecordEntry>, block: number) => {
+  for (const [id, entry] of Object.entries(entries)) {
+    entry.history = entry.history.filter(r => r.blockNumber <= block);
+    if (entry.history.length === 0) delete entries[id];
+    else entry.latest = entry.history[entry.history.length - 1];
+  }
+};
+
+// Rebuilds the record set from DataStored and DataImported logs, resuming from the IndexedDB checkpoint so a refresh only fetches new blocks.
+export async function syncRecordEvents(contract: ethers.Contract, deployBlock: number): Promise<RecordEntry[]> {
+  const provider = contract.runner!.provider!;
+  const { chainId } = await provider.getNetwork();
+  const checkpointId = `${chainId}:${(await contract.getAddress()).toLowerCase()}`;
+
+  const checkpoint: Checkpoint = (await readCheckpoint(checkpointId)) ?? { id: checkpointId, lastBlock: deployBlock - 1, entries: {} };
+  const fromBlock = Math.max(deployBlock, checkpoint.lastBlock - REORG_DEPTH + 1);
+  dropRevisionsAfter(checkpoint.entries, fromBlock - 1);
+
+  const latestBlock = await provider.getBlockNumber();
+  const filters = [contract.filters.DataStored(), contract.filters.DataImported()];
+  for (let start = fromBlock; start <= latestBlock; start += BLOCK_RANGE) {
+    const end = Math.min(start + BLOCK_RANGE - 1, latestBlock);
+    const logs = (await Promise.all(filters.map(filter => contract.queryFilter(filter, start, end))))
+      .flat()
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of logs) {
+      if (log instanceof ethers.EventLog) applyEvent(checkpoint.entries, log);
+    }
+    checkpoint.lastBlock = end;
+    await writeCheckpoint(checkpoint);
+  }
+
+  return Object.values(checkpoint.entries);
+}
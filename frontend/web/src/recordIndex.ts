@@ -0,0 +1,113 @@
+// recordIndex.ts
+import { ethers } from "ethers";
+import { batchCall } from "./batchReads";
+
+export const RECORD_NAMESPACE = "solar";
+export const LEGACY_KEYS_KEY = "solar_keys";
+
+const KEY_PAGE_SIZE = 200;
+
+export const recordStorageKey = (recordId: string) => `${RECORD_NAMESPACE}_${recordId}`;
+
+export const recordIdFromStorageKey = (key: string) => key.substring(RECORD_NAMESPACE.length + 1);
+
+// Adapters deployed before the key index was added revert on keyCount.
+export async function hasKeyIndex(contract: ethers.Contract): Promise<boolean> {
+  try {
+    await contract.keyCount(RECORD_NAMESPACE);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Adapters deployed before key ownership was added revert on keyOwner; any account could overwrite their records.
+export async function hasKeyOwners(contract: ethers.Contract): Promise<boolean> {
+  try {
+    await contract.keyOwner(recordStorageKey(""));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Record id -> the account bound to the record's key. Unclaimed keys and failed lookups are left out.
+export async function loadRecordWriters(contract: ethers.Contract, recordIds: string[]): Promise<Map<string, string>> {
+  const writers = new Map<string, string>();
+  if (!(await hasKeyOwners(contract))) return writers;
+  const results = await batchCall<string>(contract, "keyOwner", new Map(recordIds.map(id => [id, [recordStorageKey(id)]])));
+  for (const [id, result] of results) {
+    if (result.ok && result.value !== ethers.ZeroAddress) writers.set(id, result.value);
+    else if (!result.ok) console.error(`Error loading owner of record ${id}:`, result.error);
+  }
+  return writers;
+}
+
+// "verified": the payload's owner is the account that wrote the key. "tampered": someone else wrote it.
+// "unverified": the writer is unknown (an old adapter read without event history).
+export type RecordIntegrity = "verified" | "tampered" | "unverified";
+
+export function recordIntegrity(claimedOwner: string, writer?: string): RecordIntegrity {
+  if (!writer) return "unverified";
+  return claimedOwner.toLowerCase() === writer.toLowerCase() ? "verified" : "tampered";
+}
+
+export async function loadIndexedRecordIds(contract: ethers.Contract): Promise<string[]> {
+  const count = Number(await contract.keyCount(RECORD_NAMESPACE));
+  const pages = new Map<string, unknown[]>();
+  for (let offset = 0; offset < count; offset += KEY_PAGE_SIZE) {
+    pages.set(String(offset), [RECORD_NAMESPACE, offset, KEY_PAGE_SIZE]);
+  }
+  const results = await batchCall<string[]>(contract, "getKeys", pages);
+  const ids: string[] = [];
+  for (const offset of pages.keys()) {
+    const result = results.get(offset)!;
+    if (!result.ok) throw result.error;
+    ids.push(...result.value.map(recordIdFromStorageKey));
+  }
+  return ids;
+}
+
+export async function loadLegacyRecordIds(contract: ethers.Contract): Promise<string[]> {
+  const keysBytes = await contract.getData(LEGACY_KEYS_KEY);
+  if (ethers.dataLength(keysBytes) === 0) return [];
+  try {
+    const keysStr = ethers.toUtf8String(keysBytes);
+    return keysStr.trim() !== "" ? JSON.parse(keysStr) : [];
+  } catch (e) {
+    console.error("Error parsing legacy solar keys:", e);
+    return [];
+  }
+}
+
+// Indexed keys come first; legacy keys that have not been migrated yet are appended so nothing disappears mid-migration.
+export async function loadRecordIds(contract: ethers.Contract): Promise<string[]> {
+  const legacy = await loadLegacyRecordIds(contract);
+  if (!(await hasKeyIndex(contract))) return legacy;
+  const indexed = await loadIndexedRecordIds(contract);
+  return [...new Set([...indexed, ...legacy])];
+}
+
+// Refuses to write a payload whose claimed owner is not the sending account, since readers would flag it as tampered.
+export async function assertRecordWriter(contract: ethers.Contract, recordId: string, claimedOwner: string) {
+  const runner = contract.runner as ethers.Signer | null;
+  const sender = runner && "getAddress" in runner ? await runner.getAddress() : null;
+  if (!sender || recordIntegrity(claimedOwner, sender) !== "verified") {
+    throw new Error(`Record ${recordId} is owned by ${claimedOwner}; switch to that account to modify it`);
+  }
+  if (await hasKeyOwners(contract)) {
+    const keyOwner: string = await contract.keyOwner(recordStorageKey(recordId));
+    if (keyOwner !== ethers.ZeroAddress && recordIntegrity(keyOwner, sender) !== "verified") {
+      throw new Error(`Record ${recordId} was written by ${keyOwner}; only that account can modify it`);
+    }
+  }
+}
+
+export async function storeIndexedRecord(contract: ethers.Contract, recordId: string, value: Uint8Array, claimedOwner: string) {
+  if (!(await hasKeyIndex(contract))) {
+    throw new Error("This UniversalAdapter predates the record index; redeploy it and run task:migrate-solar-keys");
+  }
+  await assertRecordWriter(contract, recordId, claimedOwner);
+  const tx = await contract.setIndexedData(RECORD_NAMESPACE, recordStorageKey(recordId), value);
+  return tx.wait();
+}
@@ -0,0 +1,155 @@
+// recordSchema.ts
+import { ethers } from "ethers";
+import { isLegacyCiphertext } from "./fhevm";
+import { Coordinates, isValidCoordinates } from "./geocode";
+
+export const RECORD_SCHEMA_VERSION = 1;
+
+export type RecordStatus = "active" | "inactive";
+
+export interface PanelMetadata {
+  manufacturer?: string;
+  model?: string;
+  panelCount?: number;
+  tiltDegrees?: number;
+  azimuthDegrees?: number;
+}
+
+// Payload stored under `solar_<id>` in UniversalAdapter, at RECORD_SCHEMA_VERSION.
+export interface StoredSolarRecord {
+  version: typeof RECORD_SCHEMA_VERSION;
+  output?: string; // energy-batch ciphertext handle, or a legacy `FHE-<base64>` value; new nodes register without one
+  inputProof?: string;
+  batchId?: number;
+  timestamp: number; // seconds
+  owner: string;
+  location: string;
+  status: RecordStatus;
+  capacityKw?: number;
+  panel?: PanelMetadata;
+  coordinates?: Coordinates; // WGS84 degrees; when absent the map geocodes `location`
+}
+
+export type RecordInput = Omit<StoredSolarRecord, "version">;
+
+export type RecordDecodeResult =
+  | { ok: true; record: StoredSolarRecord; migratedFrom: number | null }
+  | { ok: false; reason: string; raw: string };
+
+const MAX_LOCATION_LENGTH = 200;
+const MAX_TEXT_LENGTH = 100;
+
+// Upgrades a payload from the keyed version to the next one. Payloads without `version` are version 0:
+// everything written before the schema existed, which may lack `status`.
+const MIGRATIONS: Record<number, (payload: any) => any> = {
+  0: (payload) => ({ ...payload, version: 1, status: payload.status ?? "active" }),
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optional = <T>(value: T | undefined | null, check: (value: T) => boolean) =>
+  value === undefined || value === null || check(value);
+
+const isText = (max: number) => (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" && value.length <= max;
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+const isNumberIn = (min: number, max: number) => (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+const validatePanel = (panel: unknown): string[] => {
+  if (!isObject(panel)) return ["panel must be an object"];
+  const errors: string[] = [];
+  if (!optional(panel.manufacturer, isText(MAX_TEXT_LENGTH))) errors.push("panel.manufacturer must be a short string");
+  if (!optional(panel.model, isText(MAX_TEXT_LENGTH))) errors.push("panel.model must be a short string");
+  if (!optional(panel.panelCount, isCount)) errors.push("panel.panelCount must be a positive integer");
+  if (!optional(panel.tiltDegrees, isNumberIn(0, 90))) errors.push("panel.tiltDegrees must be between 0 and 90");
+  if (!optional(panel.azimuthDegrees, isNumberIn(0, 360))) errors.push("panel.azimuthDegrees must be between 0 and 360");
+  return errors;
+};
+
+// Returns the problems with a current-version payload; an empty list means it is a valid StoredSolarRecord.
+export function validateRecord(payload: unknown): string[] {
+  if (!isObject(payload)) return ["record is not a JSON object"];
+  const errors: string[] = [];
+  if (payload.version !== RECORD_SCHEMA_VERSION) errors.push(`version must be ${RECORD_SCHEMA_VERSION}`);
+  if (!optional(payload.output, (output) => typeof output === "string" && (ethers.isHexString(output, 32) || isLegacyCiphertext(output)))) {
+    errors.push("output must be a 32-byte ciphertext handle");
+  }
+  if (!optional(payload.inputProof, (proof) => ethers.isHexString(proof))) errors.push("inputProof must be hex");
+  if (!optional(payload.batchId, isCount)) errors.push("batchId must be a positive integer");
+  if (!isCount(payload.timestamp)) errors.push("timestamp must be a positive integer (seconds)");
+  if (typeof payload.owner !== "string" || !ethers.isAddress(payload.owner)) errors.push("owner must be an address");
+  if (!isText(MAX_LOCATION_LENGTH)(payload.location)) errors.push("location must be a non-empty string");
+  if (payload.status !== "active" && payload.status !== "inactive") errors.push("status must be active or inactive");
+  if (!optional(payload.capacityKw, isNumberIn(Number.MIN_VALUE, Number.MAX_SAFE_INTEGER))) errors.push("capacityKw must be a positive number");
+  if (payload.panel !== undefined) errors.push(...validatePanel(payload.panel));
+  if (!optional(payload.coordinates, isValidCoordinates)) errors.push("coordinates must be { lat, lon } in degrees");
+  return errors;
+}
+
+// Keeps only the schema's fields so unknown keys from old writers are not carried into new writes.
+const normalize = (payload: Record<string, any>): StoredSolarRecord => {
+  const record: StoredSolarRecord = {
+    version: RECORD_SCHEMA_VERSION,
+    timestamp: payload.timestamp,
+    owner: ethers.getAddress(payload.owner),
+    location: payload.location,
+    status: payload.status,
+  };
+  if (payload.output != null) record.output = payload.output;
+  if (payload.inputProof != null) record.inputProof = payload.inputProof;
+  if (payload.batchId != null) record.batchId = payload.batchId;
+  if (payload.capacityKw != null) record.capacityKw = payload.capacityKw;
+  if (payload.panel != null) record.panel = payload.panel;
+  if (payload.coordinates != null) record.coordinates = { lat: payload.coordinates.lat, lon: payload.coordinates.lon };
+  return record;
+};
+
+export function migrateRecord(payload: unknown): { payload: unknown; migratedFrom: number | null } {
+  if (!isObject(payload)) return { payload, migratedFrom: null };
+  const from = payload.version === undefined ? 0 : payload.version;
+  let current: any = payload;
+  let version = from;
+  while (typeof version === "number" && version < RECORD_SCHEMA_VERSION && MIGRATIONS[version]) {
+    current = MIGRATIONS[version](current);
+    version = current.version;
+  }
+  return { payload: current, migratedFrom: from === RECORD_SCHEMA_VERSION ? null : from };
+}
+
+// Decodes on-chain record bytes, upgrading older schema versions. Anything that fails is returned with a reason
+// instead of throwing, so the caller can quarantine it.
+export function decodeRecord(bytes: ethers.BytesLike): RecordDecodeResult {
+  let raw: string;
+  try {
+    raw = ethers.toUtf8String(bytes);
+  } catch {
+    return { ok: false, reason: "not valid UTF-8", raw: ethers.hexlify(bytes) };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, reason: "not valid JSON", raw };
+  }
+  if (isObject(parsed) && typeof parsed.version === "number" && parsed.version > RECORD_SCHEMA_VERSION) {
+    return { ok: false, reason: `written with schema version ${parsed.version}, this app reads up to ${RECORD_SCHEMA_VERSION}`, raw };
+  }
+
+  const { payload, migratedFrom } = migrateRecord(parsed);
+  const errors = validateRecord(payload);
+  if (errors.length > 0) return { ok: false, reason: errors.join("; "), raw };
+  return { ok: true, record: normalize(payload as Record<string, any>), migratedFrom };
+}
+
+// Validates and serializes a record at the current schema version; throws rather than writing a bad payload.
+export function encodeRecord(input: RecordInput): Uint8Array {
+  const payload = { ...input, version: RECORD_SCHEMA_VERSION };
+  const errors = validateRecord(payload);
+  if (errors.length > 0) throw new Error(`Invalid solar record: ${errors.join("; ")}`);
+  return ethers.toUtf8Bytes(JSON.stringify(normalize(payload)));
+}
@@ -0,0 +1,72 @@
+// registry.ts
+import { ethers } from "ethers";
+import registryJson from "./deployments.json";
+
+export type ContractName = "UniversalAdapter" | "HeliosNetFHE" | "HeliosLendingPool" | "HeliosRiskModel" | "HeliosDAO" | "HeliosRewards";
+
+export interface RegisteredContract {
+  address: string;
+  deployer?: string;
+  deployBlock?: number;
+}
+
+export interface RegisteredChain {
+  name: string;
+  rpcUrl?: string;
+  explorerUrl?: string; // block explorer base URL, e.g. https://sepolia.etherscan.io
+  contracts: Partial<Record<ContractName, RegisteredContract>>;
+}
+
+// chainId -> chain entry, written by deploy/deploy.ts for every network it deploys to.
+const registry = registryJson as Record<string, RegisteredChain>;
+
+export const DEFAULT_CHAIN_ID = 11155111;
+
+let activeChainId = DEFAULT_CHAIN_ID;
+
+export const getActiveChainId = () => activeChainId;
+
+// Follows the wallet's chain; without a connected wallet reads fall back to the default chain.
+export function setActiveChainId(chainId?: number) {
+  activeChainId = chainId ?? DEFAULT_CHAIN_ID;
+}
+
+export function getRegisteredChain(chainId = activeChainId): RegisteredChain | null {
+  return registry[String(chainId)] ?? null;
+}
+
+export function getRegisteredContract(name: ContractName, chainId = activeChainId): RegisteredContract | null {
+  const entry = getRegisteredChain(chainId)?.contracts[name];
+  return entry && ethers.isAddress(entry.address) ? entry : null;
+}
+
+export function getContractAddress(name: ContractName, chainId = activeChainId): string | null {
+  return getRegisteredContract(name, chainId)?.address ?? null;
+}
+
+export function getContractDeployBlock(name: ContractName, chainId = activeChainId): number | null {
+  const block = getRegisteredContract(name, chainId)?.deployBlock;
+  return typeof block === "number" && block >= 0 ? block : null;
+}
+
+export function isSupportedChain(chainId: number): boolean {
+  const chain = getRegisteredChain(chainId);
+  return !!chain && (Object.keys(chain.contracts) as ContractName[]).some(name => getContractAddress(name, chainId));
+}
+
+export function listSupportedChains(): { chainId: number; name: string }[] {
+  return Object.keys(registry)
+    .map(Number)
+    .filter(isSupportedChain)
+    .map(chainId => ({ chainId, name: registry[String(chainId)].name }));
+}
+
+export function chainLabel(chainId: number): string {
+  return getRegisteredChain(chainId)?.name ?? `chain ${chainId}`;
+}
+
+// Link to `txHash` on the chain's block explorer, or null for chains without one (such as a local node).
+export function explorerTxUrl(txHash: string, chainId = activeChainId): string | null {
+  const base = getRegisteredChain(chainId)?.explorerUrl;
+  return base ? `${base.replace(/\/+$/, "")}/tx/${txHash}` : null;
+}
@@ -0,0 +1,157 @@
+// rewards.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/HeliosRewards.json";
+import tokenAbiJson from "./abi/HeliosRewardToken.json";
+import { batchCall } from "./batchReads";
+import { getReadProvider, getRegisteredContractReadOnly, getRegisteredContractWithSigner, getSigner } from "./contract";
+import { fromEnergyUnits, userDecryptHandles } from "./fhevm";
+import { getHeliosContractReadOnly, getHeliosContractWithSigner, queryHeliosLogs } from "./heliosNet";
+import { awaitLocalDecryptionOracle, isLocalChain } from "./localChain";
+import { getActiveChainId, getContractAddress } from "./registry";
+
+export const REWARDS_ABI = (abiJson as any).abi || abiJson;
+export const REWARD_TOKEN_ABI = (tokenAbiJson as any).abi || tokenAbiJson;
+
+export interface RewardsInfo {
+  owner: string;
+  heliosOwner: string;
+  rewardPerEpoch: bigint; // token base units
+  tokenAddress: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+}
+
+export type EpochStatus = "unfinalized" | "finalizing" | "finalized";
+
+export interface RewardEpoch {
+  batchId: number;
+  status: EpochStatus;
+  totalKwh: number; // decrypted batch total, 0 until finalized
+  reward: bigint;
+  claimCount: number;
+  contributed: boolean; // the account submitted energy to the batch
+  claimed: boolean;
+}
+
+// Only the most recent closed batches are listed.
+const MAX_LISTED_EPOCHS = 50;
+
+export function getRewardsAddress(): string | null {
+  return getContractAddress("HeliosRewards");
+}
+
+export async function getRewardsContractReadOnly() {
+  return getRegisteredContractReadOnly("HeliosRewards", REWARDS_ABI);
+}
+
+export async function getRewardsContractWithSigner() {
+  return getRegisteredContractWithSigner("HeliosRewards", REWARDS_ABI);
+}
+
+export async function getRewardsInfo(): Promise<RewardsInfo | null> {
+  const [contract, helios] = await Promise.all([getRewardsContractReadOnly(), getHeliosContractReadOnly()]);
+  if (!contract || !helios) return null;
+  const [owner, heliosOwner, rewardPerEpoch, tokenAddress] = await Promise.all([
+    contract.owner(),
+    helios.owner(),
+    contract.rewardPerEpoch(),
+    contract.rewardToken(),
+  ]);
+  const token = new ethers.Contract(tokenAddress, REWARD_TOKEN_ABI, await getReadProvider());
+  const [tokenSymbol, tokenDecimals] = await Promise.all([token.symbol(), token.decimals()]);
+  return { owner, heliosOwner, rewardPerEpoch, tokenAddress, tokenSymbol, tokenDecimals: Number(tokenDecimals) };
+}
+
+export const formatRewardAmount = (amount: bigint, info: RewardsInfo) =>
+  `${Number(ethers.formatUnits(amount, info.tokenDecimals)).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${info.tokenSymbol}`;
+
+/** Closed batches, newest first, with their reward state and the account's claim. */
+export async function getRewardEpochs(account?: string): Promise<RewardEpoch[]> {
+  const [contract, helios] = await Promise.all([getRewardsContractReadOnly(), getHeliosContractReadOnly()]);
+  if (!contract || !helios) return [];
+  const currentBatchId = Number(await helios.currentBatchId());
+  const latestClosed = currentBatchId > 0 && (await helios.isBatchOpen(currentBatchId)) ? currentBatchId - 1 : currentBatchId;
+  if (latestClosed === 0) return [];
+  const ids = Array.from({ length: Math.min(latestClosed, MAX_LISTED_EPOCHS) }, (_, i) => latestClosed - i);
+  const byId = (args: (id: number) => unknown[]) => new Map(ids.map(id => [String(id), args(id)]));
+
+  const [epochs, pending, claims, energy] = await Promise.all([
+    batchCall<any>(contract, "epochs", byId(id => [id])),
+    batchCall<boolean>(contract, "isFinalizationPending", byId(id => [id])),
+    account ? batchCall<boolean>(contract, "hasClaimed", byId(id => [id, account])) : Promise.resolve(new Map()),
+    account ? batchCall<string>(helios, "userEncryptedEnergyInBatch", byId(id => [id, account])) : Promise.resolve(new Map()),
+  ]);
+
+  return ids.flatMap((id): RewardEpoch[] => {
+    const epoch = epochs.get(String(id));
+    if (!epoch?.ok) return [];
+    const handle = energy.get(String(id));
+    const claimed = claims.get(String(id));
+    const finalizing = pending.get(String(id));
+    const finalized: boolean = epoch.value.finalized;
+    return [{
+      batchId: id,
+      status: finalized ? "finalized" : finalizing?.ok && finalizing.value ? "finalizing" : "unfinalized",
+      totalKwh: fromEnergyUnits(epoch.value.totalEnergy),
+      reward: epoch.value.reward,
+      claimCount: Number(epoch.value.claimCount),
+      contributed: !!(handle?.ok && handle.value !== ethers.ZeroHash),
+      claimed: !!(claimed?.ok && claimed.value),
+    }];
+  });
+}
+
+// Simulates first so a revert surfaces its custom error before the wallet prompt.
+async function sendRewardsTx(method: string, args: unknown[] = []) {
+  const contract = await getRewardsContractWithSigner();
+  await contract[method].staticCall(...args);
+  const tx = await contract[method](...args);
+  return tx.wait();
+}
+
+/**
+ * Finalizes a closed batch. When the connected wallet owns HeliosNetFHE and has not shared the batch total
+ * with the distributor yet, that grant is sent first. On the local node the mock oracle answers right away.
+ */
+export async function finalizeEpoch(batchId: number, info: RewardsInfo, account: string) {
+  const rewardsAddress = getRewardsAddress();
+  if (!rewardsAddress) throw new Error("HeliosRewards is not deployed on this network");
+  if (info.heliosOwner.toLowerCase() === account.toLowerCase()) {
+    const helios = await getHeliosContractReadOnly();
+    const grants = await queryHeliosLogs(helios!, helios!.filters.BatchTotalAccessGranted(batchId, rewardsAddress));
+    if (grants.length === 0) {
+      const writer = await getHeliosContractWithSigner();
+      await writer.grantBatchTotalAccess.staticCall(batchId, rewardsAddress);
+      await (await writer.grantBatchTotalAccess(batchId, rewardsAddress)).wait();
+    }
+  }
+  const receipt = await sendRewardsTx("finalizeEpoch", [batchId]);
+  if (isLocalChain(getActiveChainId())) await awaitLocalDecryptionOracle();
+  return receipt;
+}
+
+/** Shares the account's energy for `batchId` with the distributor if needed, then claims its share. */
+export async function claimReward(batchId: number) {
+  const rewardsAddress = getRewardsAddress();
+  if (!rewardsAddress) throw new Error("HeliosRewards is not deployed on this network");
+  const account = await (await getSigner()).getAddress();
+  const helios = await getHeliosContractReadOnly();
+  const grants = await queryHeliosLogs(helios!, helios!.filters.EnergyAccessGranted(account, batchId, rewardsAddress));
+  if (grants.length === 0) {
+    const writer = await getHeliosContractWithSigner();
+    await writer.grantEnergyAccess.staticCall(batchId, rewardsAddress);
+    await (await writer.grantEnergyAccess(batchId, rewardsAddress)).wait();
+  }
+  return sendRewardsTx("claim", [batchId]);
+}
+
+/** Decrypts the connected account's reward token balance; the ACL refuses every other account. */
+export async function decryptRewardBalance(info: RewardsInfo, signer: ethers.Signer): Promise<bigint> {
+  const token = new ethers.Contract(info.tokenAddress, REWARD_TOKEN_ABI, await getReadProvider());
+  const handle: string = await token.confidentialBalanceOf(await signer.getAddress());
+  if (handle === ethers.ZeroHash) return 0n;
+  const results = await userDecryptHandles([{ handle, contractAddress: info.tokenAddress }], signer);
+  const entry = Object.entries(results).find(([key]) => key.toLowerCase() === handle.toLowerCase());
+  if (!entry) throw new Error(`Relayer returned no cleartext for handle ${handle}`);
+  return BigInt(entry[1] as bigint | string);
+}
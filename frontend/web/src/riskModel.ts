@@ -0,0 +1,136 @@
+// riskModel.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/HeliosRiskModel.json";
+import { batchCall } from "./batchReads";
+import { getRegisteredContractReadOnly, getRegisteredContractWithSigner, getSigner } from "./contract";
+import { ENERGY_SCALE, userDecryptHandles } from "./fhevm";
+import { getHeliosContractReadOnly, getHeliosContractWithSigner, queryHeliosLogs } from "./heliosNet";
+import { getContractAddress } from "./registry";
+
+export const RISK_MODEL_ABI = (abiJson as any).abi || abiJson;
+
+export interface RiskModelParams {
+  creditPerUnitGwei: bigint;
+  horizonBatches: number;
+  volatilityHaircutBps: number;
+  minWindow: number;
+  maxWindow: number;
+  latestClosedBatchId: number;
+}
+
+export interface RiskAssessment {
+  creditLimitHandle: string;
+  firstBatchId: number;
+  lastBatchId: number;
+  assessedAt: number; // seconds
+}
+
+export function getRiskModelAddress(): string | null {
+  return getContractAddress("HeliosRiskModel");
+}
+
+export async function getRiskModelContractReadOnly() {
+  return getRegisteredContractReadOnly("HeliosRiskModel", RISK_MODEL_ABI);
+}
+
+export async function getRiskModelContractWithSigner() {
+  return getRegisteredContractWithSigner("HeliosRiskModel", RISK_MODEL_ABI);
+}
+
+export async function getRiskModelParams(): Promise<RiskModelParams | null> {
+  const contract = await getRiskModelContractReadOnly();
+  if (!contract) return null;
+  const [creditPerUnitGwei, horizonBatches, volatilityHaircutBps, minWindow, maxWindow, latestClosedBatchId] = await Promise.all([
+    contract.creditPerUnitGwei(),
+    contract.horizonBatches(),
+    contract.volatilityHaircutBps(),
+    contract.MIN_WINDOW(),
+    contract.MAX_WINDOW(),
+    contract.latestClosedBatchId(),
+  ]);
+  return {
+    creditPerUnitGwei,
+    horizonBatches: Number(horizonBatches),
+    volatilityHaircutBps: Number(volatilityHaircutBps),
+    minWindow: Number(minWindow),
+    maxWindow: Number(maxWindow),
+    latestClosedBatchId: Number(latestClosedBatchId),
+  };
+}
+
+/** The account's latest assessment, or null if it was never scored. */
+export async function getRiskAssessment(account: string): Promise<RiskAssessment | null> {
+  const contract = await getRiskModelContractReadOnly();
+  if (!contract) return null;
+  const assessment = await contract.assessments(account);
+  if (assessment.assessedAt === 0n) return null;
+  return {
+    creditLimitHandle: assessment.creditLimitGwei,
+    firstBatchId: Number(assessment.firstBatchId),
+    lastBatchId: Number(assessment.lastBatchId),
+    assessedAt: Number(assessment.assessedAt),
+  };
+}
+
+// Wei of credit per kWh of dependable output over the whole horizon, before any volatility haircut.
+export const creditPerDependableKwh = (params: RiskModelParams) =>
+  params.creditPerUnitGwei * BigInt(ENERGY_SCALE) * BigInt(params.horizonBatches) * 10n ** 9n;
+
+// Batches in the window holding the account's energy that the model has not been granted access to yet.
+async function findUnsharedBatches(account: string, modelAddress: string, batchIds: number[]): Promise<number[]> {
+  const helios = await getHeliosContractReadOnly();
+  if (!helios) throw new Error("HeliosNetFHE is not deployed on this network");
+  const [energy, grants] = await Promise.all([
+    batchCall<string>(helios, "userEncryptedEnergyInBatch", new Map(batchIds.map(id => [String(id), [id, account]]))),
+    queryHeliosLogs(helios, helios.filters.EnergyAccessGranted(account, null, modelAddress)),
+  ]);
+  const granted = new Set(grants.map(log => Number(log.args.batchId)));
+  return batchIds.filter(id => {
+    const handle = energy.get(String(id));
+    return handle?.ok && handle.value !== ethers.ZeroHash && !granted.has(id);
+  });
+}
+
+/**
+ * Scores the connected provider over the last `window` closed batches. Each batch in the window that the
+ * model cannot read yet is first shared through HeliosNetFHE (one transaction per batch).
+ */
+export async function assessRisk(window: number, onProgress?: (message: string) => void): Promise<RiskAssessment> {
+  const modelAddress = getRiskModelAddress();
+  const params = await getRiskModelParams();
+  if (!modelAddress || !params) throw new Error("HeliosRiskModel is not deployed on this network");
+  const account = await (await getSigner()).getAddress();
+
+  // Too short a history is left for the contract to reject with InvalidWindow.
+  const firstBatchId = params.latestClosedBatchId - window + 1;
+  if (firstBatchId >= 1) {
+    const batchIds = Array.from({ length: window }, (_, i) => firstBatchId + i);
+    const unshared = await findUnsharedBatches(account, modelAddress, batchIds);
+    if (unshared.length > 0) {
+      const helios = await getHeliosContractWithSigner();
+      for (const [i, batchId] of unshared.entries()) {
+        onProgress?.(`Sharing batch #${batchId} with the risk model (${i + 1}/${unshared.length})`);
+        await helios.grantEnergyAccess.staticCall(batchId, modelAddress);
+        await (await helios.grantEnergyAccess(batchId, modelAddress)).wait();
+      }
+    }
+  }
+
+  onProgress?.("Scoring your encrypted energy history");
+  const contract = await getRiskModelContractWithSigner();
+  await contract.assessRisk.staticCall(window);
+  await (await contract.assessRisk(window)).wait();
+  const assessment = await getRiskAssessment(account);
+  if (!assessment) throw new Error("The assessment was not recorded");
+  return assessment;
+}
+
+/** Decrypts the credit limit for its owner; the ACL refuses every other account. Returns wei. */
+export async function decryptCreditLimit(handle: string, signer: ethers.Signer): Promise<bigint> {
+  const contractAddress = getRiskModelAddress();
+  if (!contractAddress) throw new Error("HeliosRiskModel is not deployed on this network");
+  const results = await userDecryptHandles([{ handle, contractAddress }], signer);
+  const entry = Object.entries(results).find(([key]) => key.toLowerCase() === handle.toLowerCase());
+  if (!entry) throw new Error(`Relayer returned no cleartext for handle ${handle}`);
+  return BigInt(entry[1] as bigint | string) * 10n ** 9n;
+}
@@ -0,0 +1,141 @@
+// worldOutline.ts
+
+// [lon, lat] rings of hand-simplified coastlines, accurate to a degree or two. They are bundled so the node
+// map renders offline, without a tile server. Antarctica is left out; the map is cropped above it.
+export type Ring = [number, number][];
+
+export const LAND_OUTLINES: Ring[] = [
+  // North America
+  [[-168, 66], [-162, 70], [-156, 71.3], [-141, 69.6], [-128, 70], [-117, 69], [-108, 68.5], [-95, 68], [-88, 66],
+    [-94, 59], [-92.5, 57], [-82, 55], [-79.5, 51.5], [-78.5, 55], [-77, 60.5], [-78, 62.5], [-73, 62], [-64.5, 60.3],
+    [-61, 56], [-56, 52], [-64, 48.5], [-61, 45.5], [-66, 44], [-70, 43.5], [-70, 41.7], [-74, 40.5], [-76, 37],
+    [-75.5, 35.2], [-81, 31.5], [-80, 26.5], [-80.5, 25.2], [-82.5, 27.5], [-84, 30], [-89, 30.3], [-94, 29.5],
+    [-97.5, 26], [-97.5, 22], [-96, 19], [-91, 18.5], [-90.5, 21], [-87, 21.5], [-88, 16], [-83.5, 15], [-83.5, 11],
+    [-79.5, 9], [-77.5, 8.5], [-80, 7.3], [-85.7, 10], [-87.5, 13], [-92, 14.5], [-96, 15.7], [-105.5, 20],
+    [-105.7, 22.5], [-109, 26], [-112.8, 31.3], [-114.8, 31.8], [-112.5, 29], [-110, 24.2], [-109.5, 23], [-112, 25],
+    [-114.5, 28], [-117.2, 32.5], [-120.6, 34.5], [-122.5, 37.5], [-124, 40.5], [-124.1, 46], [-124.7, 48.4],
+    [-123, 49], [-127, 50.5], [-130, 54.5], [-134, 58], [-140, 59.8], [-146, 60.7], [-152, 59], [-154, 57.5],
+    [-158, 56], [-164, 54.6], [-157.5, 58.5], [-162, 60], [-165, 61.5], [-166, 64]],
+  // Baffin Island
+  [[-80, 73.5], [-70, 70], [-62, 66.5], [-65, 62.5], [-72, 63.5], [-78, 65], [-85, 70]],
+  // Newfoundland
+  [[-59.4, 47.6], [-55.8, 51.6], [-55.5, 49.9], [-53, 49.5], [-52.7, 47], [-53.5, 46.7], [-56, 47.6]],
+  // Greenland
+  [[-73, 78], [-60, 82], [-30, 83.5], [-18, 81.5], [-20, 76], [-22, 70], [-32, 68], [-40, 65], [-43, 60], [-48, 61],
+    [-52, 65], [-54, 70], [-58, 75.5]],
+  // Cuba
+  [[-85, 21.9], [-82.5, 23.1], [-80, 23.1], [-77, 21.6], [-74.2, 20.2], [-77.7, 19.9], [-79, 21.5], [-81.8, 22.2]],
+  // Hispaniola
+  [[-74.4, 19.8], [-72.8, 19.9], [-70, 19.7], [-68.4, 18.6], [-71.6, 17.8], [-74.4, 18.4]],
+  // South America
+  [[-77.5, 8.5], [-75.5, 10.5], [-72, 12], [-68, 10.6], [-62, 10.7], [-60, 8.5], [-57, 6], [-52, 5], [-50, 2],
+    [-48, -1], [-44, -2.5], [-39, -3.5], [-35, -5.5], [-35, -9], [-38.5, -13], [-39, -17.5], [-41, -22],
+    [-44.5, -23.3], [-48.5, -26], [-48.7, -28.5], [-52, -32], [-54, -34.8], [-57.5, -35.5], [-57, -38], [-62, -39],
+    [-65, -41], [-63.5, -42.5], [-65.5, -45], [-67.5, -46.5], [-66, -48], [-68.5, -50.5], [-68.5, -52.5], [-70, -55],
+    [-74, -52.5], [-75.5, -48], [-74, -44], [-73.5, -37], [-71.5, -30], [-70.3, -18.5], [-75.5, -15], [-79, -8],
+    [-81.3, -5], [-80, -1], [-80, 1], [-78.5, 3], [-77.5, 7]],
+  // Iceland
+  [[-22.5, 65], [-24, 65.5], [-22.5, 66.4], [-16.3, 66.5], [-13.6, 65.3], [-15, 64.3], [-18.7, 63.4], [-22.5, 63.8]],
+  // Great Britain
+  [[-5.7, 50], [1.4, 51.2], [1.7, 52.7], [0.2, 53.5], [-1.6, 55.6], [-2, 57.6], [-3.3, 58.6], [-5, 58.6],
+    [-6.2, 56.8], [-5.6, 55.3], [-4.7, 54.8], [-3, 54], [-3.1, 53.3], [-4.6, 53.3], [-4.2, 52.3], [-5.3, 51.7],
+    [-3.1, 51.2]],
+  // Ireland
+  [[-6, 52], [-6.2, 53.9], [-5.7, 54.6], [-7.3, 55.4], [-8.5, 54.5], [-10, 54.2], [-9.9, 53.4], [-10.3, 51.8],
+    [-8, 51.6]],
+  // Eurasia
+  [[-5.6, 36], [-2, 36.7], [0.2, 38.7], [-0.3, 39.5], [0.9, 41], [3.2, 41.9], [3, 43.2], [4.8, 43.4], [6.5, 43.1],
+    [8.7, 44.4], [10.3, 43.8], [12.3, 41.7], [15.7, 40], [16, 38], [17, 39], [18.5, 40.1], [16, 41.5], [14, 42.6],
+    [12.3, 44.3], [12.4, 45.4], [13.8, 45.6], [15.3, 44.3], [17.5, 43], [19.5, 41.8], [19.4, 40.3], [21, 38],
+    [22.5, 36.5], [23, 38], [22.9, 40.5], [26, 40.8], [26.2, 39.5], [27.3, 37], [28.3, 36.7], [30.5, 36.3],
+    [32.7, 36.1], [36, 36.8], [35.9, 35.2], [35, 33], [34.2, 31.3], [34.9, 29.5], [36.5, 26], [39, 21.5], [41, 17],
+    [43.3, 12.6], [45, 12.8], [48.5, 14], [52.2, 15.6], [55, 17], [57, 18.8], [59.8, 22.4], [58.6, 23.6],
+    [56.3, 26.2], [54.3, 24.3], [51.6, 24.6], [50.8, 24.8], [50, 26.7], [48.5, 28.5], [48, 30], [50, 30.2],
+    [51.5, 27.9], [54.7, 26.5], [57.3, 25.8], [61.5, 25.2], [66.5, 25.4], [67.4, 24], [68.8, 23.3], [70.3, 21],
+    [72.8, 21.1], [73, 18], [74.1, 14.9], [75.7, 11.3], [77.5, 8.1], [80.2, 13], [80.3, 15.9], [82.3, 16.6],
+    [85, 19.4], [87, 21.5], [88.9, 21.7], [90.5, 22.7], [92, 21.3], [94.2, 18.7], [94.3, 16], [97.6, 16.5],
+    [98.5, 13], [98.3, 8], [100.3, 5.5], [101.3, 2.8], [103.5, 1.3], [104.2, 1.4], [103.4, 4.4], [102.2, 6.2],
+    [100.3, 8.4], [100, 13.5], [100.9, 12.7], [102.3, 12.2], [105, 8.6], [106.8, 10.4], [109.2, 11.7], [109.3, 13.8],
+    [108.7, 15.5], [106.6, 17.5], [105.7, 18.9], [106.6, 20.3], [108, 21.5], [111, 21.5], [113.5, 22.2], [116.7, 23],
+    [119.5, 25.5], [121.7, 28.4], [122, 30], [121, 30.8], [122, 31.7], [120.8, 33.2], [119.2, 35.2], [120.6, 36.1],
+    [122.5, 37], [120.7, 37.8], [119, 37.2], [117.8, 38.5], [119.3, 39.4], [121.5, 40.9], [121.2, 39], [122.7, 40],
+    [124.3, 39.9], [125.5, 38.2], [126.3, 34.5], [128.5, 34.9], [129.4, 35.6], [129.5, 36.8], [128.4, 38.6],
+    [127.5, 39.8], [129.7, 40.9], [130.7, 42.5], [133, 42.8], [135.5, 43.9], [138.2, 46.5], [140.5, 48.5],
+    [141.4, 52.2], [140.5, 53.5], [137.5, 54], [135.2, 54.7], [138, 56.4], [142, 59.2], [146, 59.4], [151.5, 59.2],
+    [155, 59.5], [156.5, 57.5], [156.7, 51], [158.7, 52.9], [161, 56], [162.2, 56.2], [163.3, 58], [170.3, 60],
+    [174, 61.8], [179, 62.8], [180, 64.8], [180, 68.9], [176, 69.8], [170, 70], [160.5, 69.6], [150, 71.6],
+    [140, 72.5], [128.5, 72.8], [125, 73.6], [113.5, 73.6], [110, 76.6], [104.3, 77.7], [100, 76.3], [89, 75.5],
+    [80.5, 73.6], [75, 72.5], [72.5, 66.5], [69, 68.5], [66.5, 70.5], [60, 68.9], [54.5, 68.2], [44, 68.5],
+    [40, 66.2], [33, 69.4], [28.7, 70.9], [25.5, 71.1], [19, 70], [14, 67.5], [12.5, 65.7], [10.5, 64.3], [5, 62],
+    [5.3, 59.3], [6, 58], [8.1, 58.1], [10.5, 59.5], [11.2, 58.5], [12.7, 56], [14.3, 55.6], [16, 56.2],
+    [16.5, 57.8], [18.6, 59.3], [17.3, 61], [17.8, 62.5], [21.5, 64.5], [22.3, 65.8], [25.4, 65.1], [24.5, 64.2],
+    [21.5, 62.7], [21.4, 61], [23, 60], [25.5, 60.3], [28.7, 60.5], [29.9, 59.9], [28, 59.5], [23.5, 59.2],
+    [23.5, 58.2], [24.3, 57.2], [21.5, 57.5], [21, 56.8], [21.2, 55.2], [19.6, 54.4], [18.5, 54.8], [14.3, 53.9],
+    [12, 54.2], [10.9, 54], [10, 54.9], [10.6, 57.7], [8.6, 57.1], [8.1, 56], [8.7, 55], [8.6, 53.9], [7, 53.5],
+    [4.8, 53], [4, 51.8], [2.5, 51.1], [1.6, 50.3], [-1, 49.4], [-1.9, 49.7], [-1.6, 48.7], [-4.7, 48.5],
+    [-2.2, 47.2], [-1.2, 46], [-1.5, 43.4], [-3.8, 43.4], [-8, 43.7], [-9.3, 42.9], [-8.7, 40.5], [-9.5, 38.8],
+    [-8.8, 37.1], [-7.4, 37.2], [-6, 36.4]],
+  // Africa
+  [[-5.9, 35.8], [3, 36.9], [10, 37.2], [11, 35.2], [10.2, 34.2], [11.5, 33], [15.2, 32.3], [19.8, 30.4], [21, 32.8],
+    [25, 31.7], [29.5, 31.1], [32.3, 31.3], [32.6, 30], [33.5, 27], [35.7, 23.5], [37.3, 18.8], [39, 16], [41.7, 13.5],
+    [43.3, 12.5], [44, 10.5], [51.2, 11.8], [51, 10.4], [49, 6], [46, 2], [41.5, -2], [39.2, -4.7], [39.5, -7],
+    [40.5, -10.5], [40.7, -15], [35, -20], [35.5, -24], [32.8, -26], [32, -29], [28, -33], [25.6, -34], [20, -34.8],
+    [18.4, -34], [18, -32], [15.3, -27], [14.5, -22.5], [11.8, -17], [13.7, -11], [12.2, -6], [9.3, -1], [9.5, 3.5],
+    [8.5, 4.5], [6, 4.3], [3, 6.4], [-1.5, 5], [-4, 5.2], [-7.5, 4.4], [-11.5, 6.9], [-13.3, 9], [-15, 11],
+    [-17.2, 14.7], [-16.5, 19.5], [-17, 21], [-14.8, 26], [-11.5, 28], [-9.8, 29.8], [-9.7, 32], [-8.5, 33.3],
+    [-6.8, 34]],
+  // Madagascar
+  [[49.3, -12], [50.5, -15.5], [49.5, -17.5], [48, -22], [47, -25], [45, -25.5], [43.7, -23.5], [43.5, -21],
+    [44.4, -17], [46.5, -15.7], [48, -13.5]],
+  // Sri Lanka
+  [[80.2, 9.8], [81.9, 7.5], [81.3, 6.2], [80.1, 6], [79.8, 8.2]],
+  // Taiwan
+  [[121, 25.1], [122, 25], [121.8, 24], [121, 22.7], [120.8, 21.9], [120.2, 22.7], [120.1, 23.7]],
+  // Honshu, Shikoku and Kyushu
+  [[130.9, 34], [133, 35.6], [135.7, 35.5], [136.8, 37.3], [138.5, 37.8], [140, 39.8], [140, 41.2], [141.5, 41.3],
+    [142, 39.5], [141, 38.3], [140.9, 36.9], [140.3, 35.1], [139, 34.7], [137, 34.6], [135.5, 33.5], [132.5, 32.9],
+    [131.5, 31.4], [130.2, 31.2], [129.7, 33]],
+  // Hokkaido
+  [[140, 42], [140.5, 43.3], [141.7, 45.4], [143.5, 44.2], [145.5, 43.3], [143.3, 42], [141, 41.8]],
+  // Luzon
+  [[120, 18.5], [122.2, 18.5], [122, 16.3], [121.5, 14.3], [124, 13], [121, 13.5], [120.6, 14.5], [119.8, 16.4]],
+  // Mindanao
+  [[122, 7], [123.5, 7.7], [125.4, 9.7], [126.5, 7.3], [125.5, 5.8], [124, 6.2]],
+  // Sumatra
+  [[95.3, 5.6], [98, 4], [100.5, 2], [104, -1], [106, -3], [105.8, -5.8], [104.5, -5.9], [102.3, -4], [100.5, -1],
+    [98.7, 1.7]],
+  // Java
+  [[105.2, -6.8], [106, -6], [108.3, -6.3], [110.5, -6.9], [112.6, -6.9], [114.5, -7.8], [112, -8.4], [108.5, -7.8]],
+  // Borneo
+  [[109, 1.5], [110, 1.7], [111.5, 2.7], [113, 3.2], [115.4, 5], [117.2, 7], [119.3, 5.3], [118, 4.3], [118, 2.3],
+    [117.5, 0.8], [116.6, -1.5], [116.3, -3.9], [114.5, -4], [111.7, -3.2], [110.2, -2.9], [109, -0.5]],
+  // New Guinea
+  [[131, -1.2], [134, -1], [137.5, -1.5], [141, -2.6], [145, -4.5], [147.5, -6], [147.5, -8], [150, -10.5],
+    [146, -8.5], [143.5, -9.3], [141, -9.1], [138, -8.3], [137.5, -5], [134, -3.7], [132, -2.9]],
+  // Australia
+  [[113.5, -22], [114.2, -26.3], [115, -30], [115, -33.5], [116.5, -35], [118, -35], [121.5, -33.8], [124, -33],
+    [126, -32.3], [131, -31.5], [134.2, -32.6], [135.6, -34.8], [137.8, -33.2], [137.5, -35], [139.5, -35.8],
+    [140.6, -38], [143.5, -38.8], [146.3, -39.1], [148.3, -37.8], [150, -37.5], [150.8, -34.5], [152.5, -32.5],
+    [153.6, -28.7], [153, -25], [150.8, -22.5], [149, -20.5], [146.2, -19], [145.4, -16], [144, -14.3],
+    [143.5, -12.5], [142.5, -10.7], [141.6, -13], [141.6, -16.5], [140.8, -17.4], [139.2, -17.3], [137, -15.8],
+    [135.5, -14.8], [136.8, -12.3], [135, -12], [132.5, -11.5], [131, -12.2], [129.5, -14.9], [127.5, -14],
+    [125.5, -14.5], [124, -16.3], [122.2, -18], [121, -19.5], [117, -20.6], [114.5, -21.8]],
+  // Tasmania
+  [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146.9, -43.6], [145.2, -42.3]],
+  // New Zealand, North Island
+  [[172.6, -34.4], [174.5, -36], [175.8, -36.7], [178.5, -37.7], [177.9, -39.2], [176.9, -39.6], [175.3, -41.6],
+    [174.6, -41.2], [174, -39.3], [174.6, -38]],
+  // New Zealand, South Island
+  [[172.7, -40.5], [174.3, -41.7], [173.4, -43], [172.8, -43.8], [171.2, -44.4], [170.6, -45.9], [169, -46.6],
+    [166.5, -46], [166.9, -45.1], [168.4, -44], [170.8, -42.8], [172.1, -41]],
+];
+
+// Inland seas cut out of the land rings above.
+export const WATER_OUTLINES: Ring[] = [
+  // Black Sea
+  [[27.5, 42.5], [28.6, 44.2], [30.7, 46.5], [33.5, 44.5], [36.5, 45.3], [38.2, 47.1], [39.6, 47], [37.7, 44.6],
+    [41.6, 41.6], [36, 41.7], [31.2, 41.1], [28.9, 41.2]],
+  // Caspian Sea
+  [[47.2, 44.9], [46.7, 44.5], [47.5, 43], [49.4, 40.2], [48.8, 38.4], [50.3, 37.2], [53.9, 36.9], [53.9, 40.6],
+    [52.8, 42], [52.5, 42.8], [51.3, 43.2], [51.3, 44.8], [53.1, 45.3], [53.2, 46.6], [51.2, 47.1], [49.2, 46.4]],
+];
@@ -1,8 +1,14 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // contractErrors.ts is shared with the Hardhat tasks in the repo root
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../src/shared"]
+    }
+  },
   define: {
     'process.env': process.env
   },
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\module-fixture-frontend\simple-serializer-upload.py
-// Generated at: 2025-10-19T15:11:43.984Z
\ No newline at end of file
@@ -0,0 +1,132 @@
+import http from "node:http";
+
+import { IndexerDatabase } from "./db";
+
+const DEFAULT_EVENT_LIMIT = 100;
+const MAX_EVENT_LIMIT = 1000;
+
+type Handler = (
+  params: string[],
+  query: URLSearchParams,
+) => unknown | undefined;
+
+interface Route {
+  pattern: RegExp;
+  handler: Handler;
+}
+
+function optionalInt(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read-only JSON API over the indexed data. Routes:
+ *
+ *   GET /health
+ *   GET /batches
+ *   GET /batches/:id                      (includes submissions and decryptions)
+ *   GET /providers/:address/submissions
+ *   GET /decryptions?batchId=
+ *   GET /records?prefix=solar_
+ *   GET /records/:key/history
+ *   GET /events?name=&fromBlock=&limit=
+ */
+export function createApiServer(
+  db: IndexerDatabase,
+  cursors: () => Record<string, number | null>,
+): http.Server {
+  const routes: Route[] = [
+    {
+      pattern: /^\/health$/,
+      handler: () => ({ ok: true, cursors: cursors() }),
+    },
+    { pattern: /^\/batches$/, handler: () => db.listBatches() },
+    {
+      pattern: /^\/batches\/(\d+)$/,
+      handler: ([id]) => {
+        const batchId = Number(id);
+        const batch = db.getBatch(batchId);
+        if (!batch) return undefined;
+        return {
+          ...batch,
+          submissions: db.listSubmissions({ batchId }),
+          decryptions: db.listDecryptions(batchId),
+        };
+      },
+    },
+    {
+      pattern: /^\/providers\/(0x[0-9a-fA-F]{40})\/submissions$/,
+      handler: ([provider], query) =>
+        db.listSubmissions({
+          provider,
+          batchId: optionalInt(query.get("batchId")),
+        }),
+    },
+    {
+      pattern: /^\/decryptions$/,
+      handler: (_, query) =>
+        db.listDecryptions(optionalInt(query.get("batchId"))),
+    },
+    {
+      pattern: /^\/records$/,
+      handler: (_, query) => db.listRecords(query.get("prefix") ?? ""),
+    },
+    {
+      pattern: /^\/records\/([^/]+)\/history$/,
+      handler: ([key]) => db.getRecordHistory(key),
+    },
+    {
+      pattern: /^\/events$/,
+      handler: (_, query) =>
+        db.listEvents({
+          name: query.get("name") || undefined,
+          fromBlock: optionalInt(query.get("fromBlock")),
+          limit: Math.min(
+            optionalInt(query.get("limit")) ?? DEFAULT_EVENT_LIMIT,
+            MAX_EVENT_LIMIT,
+          ),
+        }),
+    },
+  ];
+
+  return http.createServer((req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, OPTIONS",
+      });
+      res.end();
+      return;
+    }
+    if (req.method !== "GET") {
+      send(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    for (const route of routes) {
+      const match = route.pattern.exec(url.pathname);
+      if (!match) continue;
+      try {
+        const params = match.slice(1).map(decodeURIComponent);
+        const body = route.handler(params, url.searchParams);
+        if (body === undefined) send(res, 404, { error: "Not found" });
+        else send(res, 200, body);
+      } catch (e) {
+        send(res, 500, { error: (e as Error).message });
+      }
+      return;
+    }
+    send(res, 404, { error: "Not found" });
+  });
+}
@@ -0,0 +1,51 @@
+import "dotenv/config";
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  heliosAddress?: string;
+  adapterAddress?: string;
+  dbPath: string;
+  host: string;
+  port: number;
+  startBlock: number;
+  blockRange: number;
+  confirmations: number;
+  pollIntervalMs: number;
+}
+
+function readInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number.parseInt(raw, 10);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Reads the indexer settings from the environment (or a `.env` file).
+ * Defaults target a local `npx hardhat node`, except the confirmation depth, which is sized for a live chain.
+ */
+export function loadIndexerConfig(): IndexerConfig {
+  const config: IndexerConfig = {
+    rpcUrl: process.env.INDEXER_RPC_URL || "http://127.0.0.1:8545",
+    heliosAddress: process.env.HELIOS_ADDRESS || undefined,
+    adapterAddress: process.env.ADAPTER_ADDRESS || undefined,
+    dbPath: process.env.INDEXER_DB_PATH || "indexer.sqlite",
+    // Loopback only by default; the API answers any origin, so expose it deliberately.
+    host: process.env.INDEXER_HOST || "127.0.0.1",
+    port: readInt("INDEXER_PORT", 4000),
+    startBlock: readInt("INDEXER_START_BLOCK", 0),
+    blockRange: readInt("INDEXER_BLOCK_RANGE", 2000),
+    // Logs are never rolled back once applied, so only index blocks this far below the head.
+    confirmations: readInt("INDEXER_CONFIRMATIONS", 12),
+    pollIntervalMs: readInt("INDEXER_POLL_MS", 4000),
+  };
+  if (!config.heliosAddress && !config.adapterAddress) {
+    throw new Error(
+      "Set HELIOS_ADDRESS and/or ADAPTER_ADDRESS to choose what to index",
+    );
+  }
+  return config;
+}
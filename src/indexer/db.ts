@@ -0,0 +1,325 @@
+import Database from "better-sqlite3";
+
+export interface StoredEvent {
+  contract: string;
+  name: string;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  args: Record<string, string>;
+}
+
+export interface BatchRow {
+  batchId: number;
+  status: "open" | "closed";
+  openedBlock: number | null;
+  closedBlock: number | null;
+  submissionCount: number;
+}
+
+export interface SubmissionRow {
+  provider: string;
+  batchId: number;
+  handle: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface DecryptionRow {
+  requestId: string;
+  batchId: number;
+  stateHash: string;
+  requestedBlock: number;
+  completedBlock: number | null;
+  totalEnergy: string | null;
+}
+
+export interface RecordRow {
+  key: string;
+  sender: string;
+  value: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS cursors (
+    contract TEXT PRIMARY KEY,
+    last_block INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    args TEXT NOT NULL,
+    UNIQUE (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_name ON events (name, block_number);
+  CREATE TABLE IF NOT EXISTS batches (
+    batch_id INTEGER PRIMARY KEY,
+    status TEXT NOT NULL,
+    opened_block INTEGER,
+    closed_block INTEGER,
+    submission_count INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE TABLE IF NOT EXISTS submissions (
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    provider TEXT NOT NULL,
+    batch_id INTEGER NOT NULL,
+    handle TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS submissions_by_provider ON submissions (provider, batch_id);
+  CREATE TABLE IF NOT EXISTS decryptions (
+    request_id TEXT PRIMARY KEY,
+    batch_id INTEGER NOT NULL,
+    state_hash TEXT NOT NULL,
+    requested_block INTEGER NOT NULL,
+    completed_block INTEGER,
+    total_energy TEXT
+  );
+  CREATE TABLE IF NOT EXISTS records (
+    key TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    value TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS records_by_key ON records (key, block_number);
+`;
+
+/**
+ * SQLite persistence for the Helios indexer. Every write for a block range goes through
+ * {@link IndexerDatabase.transaction} together with the cursor update, so a crash never
+ * leaves half a range applied.
+ */
+export class IndexerDatabase {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  getCursor(contract: string): number | null {
+    const row = this.db
+      .prepare("SELECT last_block FROM cursors WHERE contract = ?")
+      .get(contract.toLowerCase()) as { last_block: number } | undefined;
+    return row ? row.last_block : null;
+  }
+
+  setCursor(contract: string, lastBlock: number): void {
+    this.db
+      .prepare(
+        "INSERT INTO cursors (contract, last_block) VALUES (?, ?) ON CONFLICT (contract) DO UPDATE SET last_block = excluded.last_block",
+      )
+      .run(contract.toLowerCase(), lastBlock);
+  }
+
+  /** Returns false when the log was already stored, so handlers can skip re-applying it. */
+  insertEvent(event: StoredEvent): boolean {
+    const result = this.db
+      .prepare(
+        "INSERT OR IGNORE INTO events (contract, name, block_number, tx_hash, log_index, args) VALUES (?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        event.contract.toLowerCase(),
+        event.name,
+        event.blockNumber,
+        event.txHash,
+        event.logIndex,
+        JSON.stringify(event.args),
+      );
+    return result.changes > 0;
+  }
+
+  openBatch(batchId: number, blockNumber: number): void {
+    this.db
+      .prepare(
+        "INSERT INTO batches (batch_id, status, opened_block) VALUES (?, 'open', ?) ON CONFLICT (batch_id) DO UPDATE SET status = 'open', opened_block = excluded.opened_block",
+      )
+      .run(batchId, blockNumber);
+  }
+
+  closeBatch(batchId: number, blockNumber: number): void {
+    this.db
+      .prepare(
+        "INSERT INTO batches (batch_id, status, closed_block) VALUES (?, 'closed', ?) ON CONFLICT (batch_id) DO UPDATE SET status = 'closed', closed_block = excluded.closed_block",
+      )
+      .run(batchId, blockNumber);
+  }
+
+  addSubmission(row: SubmissionRow & { logIndex: number }): void {
+    this.db
+      .prepare(
+        "INSERT OR IGNORE INTO submissions (tx_hash, log_index, provider, batch_id, handle, block_number) VALUES (?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        row.txHash,
+        row.logIndex,
+        row.provider.toLowerCase(),
+        row.batchId,
+        row.handle,
+        row.blockNumber,
+      );
+    this.db
+      .prepare(
+        "INSERT INTO batches (batch_id, status, submission_count) VALUES (?, 'open', 1) ON CONFLICT (batch_id) DO UPDATE SET submission_count = submission_count + 1",
+      )
+      .run(row.batchId);
+  }
+
+  requestDecryption(
+    requestId: string,
+    batchId: number,
+    stateHash: string,
+    blockNumber: number,
+  ): void {
+    this.db
+      .prepare(
+        "INSERT OR IGNORE INTO decryptions (request_id, batch_id, state_hash, requested_block) VALUES (?, ?, ?, ?)",
+      )
+      .run(requestId, batchId, stateHash, blockNumber);
+  }
+
+  completeDecryption(
+    requestId: string,
+    batchId: number,
+    totalEnergy: string,
+    blockNumber: number,
+  ): void {
+    this.db
+      .prepare(
+        "INSERT INTO decryptions (request_id, batch_id, state_hash, requested_block, completed_block, total_energy) VALUES (?, ?, '', ?, ?, ?) ON CONFLICT (request_id) DO UPDATE SET completed_block = excluded.completed_block, total_energy = excluded.total_energy",
+      )
+      .run(requestId, batchId, blockNumber, blockNumber, totalEnergy);
+  }
+
+  addRecord(row: RecordRow & { logIndex: number }): void {
+    this.db
+      .prepare(
+        "INSERT OR IGNORE INTO records (key, sender, value, block_number, tx_hash, log_index) VALUES (?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        row.key,
+        row.sender.toLowerCase(),
+        row.value,
+        row.blockNumber,
+        row.txHash,
+        row.logIndex,
+      );
+  }
+
+  listBatches(): BatchRow[] {
+    return this.db
+      .prepare(
+        "SELECT batch_id AS batchId, status, opened_block AS openedBlock, closed_block AS closedBlock, submission_count AS submissionCount FROM batches ORDER BY batch_id DESC",
+      )
+      .all() as BatchRow[];
+  }
+
+  getBatch(batchId: number): BatchRow | undefined {
+    return this.db
+      .prepare(
+        "SELECT batch_id AS batchId, status, opened_block AS openedBlock, closed_block AS closedBlock, submission_count AS submissionCount FROM batches WHERE batch_id = ?",
+      )
+      .get(batchId) as BatchRow | undefined;
+  }
+
+  listSubmissions(filter: {
+    provider?: string;
+    batchId?: number;
+  }): SubmissionRow[] {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.provider) {
+      clauses.push("provider = ?");
+      params.push(filter.provider.toLowerCase());
+    }
+    if (filter.batchId !== undefined) {
+      clauses.push("batch_id = ?");
+      params.push(filter.batchId);
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    return this.db
+      .prepare(
+        `SELECT provider, batch_id AS batchId, handle, block_number AS blockNumber, tx_hash AS txHash FROM submissions ${where} ORDER BY block_number DESC, log_index DESC`,
+      )
+      .all(...params) as SubmissionRow[];
+  }
+
+  listDecryptions(batchId?: number): DecryptionRow[] {
+    const where = batchId !== undefined ? "WHERE batch_id = ?" : "";
+    return this.db
+      .prepare(
+        `SELECT request_id AS requestId, batch_id AS batchId, state_hash AS stateHash, requested_block AS requestedBlock, completed_block AS completedBlock, total_energy AS totalEnergy FROM decryptions ${where} ORDER BY requested_block DESC`,
+      )
+      .all(...(batchId !== undefined ? [batchId] : [])) as DecryptionRow[];
+  }
+
+  /** Latest revision of every record key. */
+  listRecords(prefix = ""): RecordRow[] {
+    return this.db
+      .prepare(
+        `SELECT r.key, r.sender, r.value, r.block_number AS blockNumber, r.tx_hash AS txHash
+         FROM records r
+         WHERE r.key LIKE ? ESCAPE '\\' AND NOT EXISTS (
+           SELECT 1 FROM records newer
+           WHERE newer.key = r.key
+             AND (newer.block_number > r.block_number OR (newer.block_number = r.block_number AND newer.log_index > r.log_index))
+         )
+         ORDER BY r.block_number DESC`,
+      )
+      .all(`${prefix.replace(/[\\%_]/g, "\\$&")}%`) as RecordRow[];
+  }
+
+  getRecordHistory(key: string): RecordRow[] {
+    return this.db
+      .prepare(
+        "SELECT key, sender, value, block_number AS blockNumber, tx_hash AS txHash FROM records WHERE key = ? ORDER BY block_number, log_index",
+      )
+      .all(key) as RecordRow[];
+  }
+
+  listEvents(filter: {
+    name?: string;
+    limit: number;
+    fromBlock?: number;
+  }): StoredEvent[] {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.name) {
+      clauses.push("name = ?");
+      params.push(filter.name);
+    }
+    if (filter.fromBlock !== undefined) {
+      clauses.push("block_number >= ?");
+      params.push(filter.fromBlock);
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(
+        `SELECT contract, name, block_number AS blockNumber, tx_hash AS txHash, log_index AS logIndex, args FROM events ${where} ORDER BY block_number DESC, log_index DESC LIMIT ?`,
+      )
+      .all(...params, filter.limit) as (Omit<StoredEvent, "args"> & {
+      args: string;
+    })[];
+    return rows.map((row) => ({ ...row, args: JSON.parse(row.args) }));
+  }
+}
@@ -0,0 +1,53 @@
+import { ethers } from "ethers";
+
+import { createApiServer } from "./api";
+import { loadIndexerConfig } from "./config";
+import { IndexerDatabase } from "./db";
+import { HeliosIndexer } from "./indexer";
+
+/**
+ * Standalone indexer entry point.
+ *
+ * Example (against a local node):
+ *   npx hardhat node
+ *   HELIOS_ADDRESS=0x... ADAPTER_ADDRESS=0x... npm run indexer
+ *   curl http://127.0.0.1:4000/batches
+ */
+async function main() {
+  const config = loadIndexerConfig();
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const db = new IndexerDatabase(config.dbPath);
+  const indexer = new HeliosIndexer(provider, db, config);
+
+  const addresses = [config.heliosAddress, config.adapterAddress].filter(
+    (address): address is string => Boolean(address),
+  );
+  const server = createApiServer(db, () =>
+    Object.fromEntries(
+      addresses.map((address) => [address, db.getCursor(address)]),
+    ),
+  );
+
+  indexer.start();
+  server.listen(config.port, config.host, () => {
+    console.log(
+      `Helios indexer API listening on http://${config.host}:${config.port}`,
+    );
+  });
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close(() => {
+      provider.destroy();
+      db.close();
+      process.exit(0);
+    });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
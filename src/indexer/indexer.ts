@@ -0,0 +1,211 @@
+import { ethers } from "ethers";
+
+import { HeliosNetFHE__factory, UniversalAdapter__factory } from "../../types";
+import { IndexerDatabase } from "./db";
+
+export interface IndexerOptions {
+  heliosAddress?: string;
+  adapterAddress?: string;
+  startBlock: number;
+  blockRange: number;
+  confirmations: number;
+  pollIntervalMs: number;
+}
+
+interface Source {
+  address: string;
+  iface: ethers.Interface;
+  topics: string[];
+}
+
+const HELIOS_EVENTS = [
+  "EnergySubmitted",
+  "BatchOpened",
+  "BatchClosed",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+];
+const ADAPTER_EVENTS = ["DataStored", "DataImported"];
+
+function makeSource(
+  address: string,
+  iface: ethers.Interface,
+  events: string[],
+): Source {
+  return {
+    address: ethers.getAddress(address),
+    iface,
+    topics: events.map((name) => iface.getEvent(name)!.topicHash),
+  };
+}
+
+function serializeArgs(event: ethers.LogDescription): Record<string, string> {
+  const args: Record<string, string> = {};
+  event.fragment.inputs.forEach((input, i) => {
+    const value = event.args[i];
+    args[input.name] =
+      typeof value === "bigint" ? value.toString() : String(value);
+  });
+  return args;
+}
+
+/**
+ * Follows HeliosNetFHE and UniversalAdapter logs and projects them into SQLite.
+ * Each contract keeps its own cursor; a block range and its cursor commit in one transaction.
+ */
+export class HeliosIndexer {
+  private readonly sources: Source[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly db: IndexerDatabase,
+    private readonly options: IndexerOptions,
+  ) {
+    if (options.heliosAddress) {
+      this.sources.push(
+        makeSource(
+          options.heliosAddress,
+          HeliosNetFHE__factory.createInterface(),
+          HELIOS_EVENTS,
+        ),
+      );
+    }
+    if (options.adapterAddress) {
+      this.sources.push(
+        makeSource(
+          options.adapterAddress,
+          UniversalAdapter__factory.createInterface(),
+          ADAPTER_EVENTS,
+        ),
+      );
+    }
+  }
+
+  /** Indexes every source up to the confirmed head. Returns the number of new logs applied. */
+  async syncOnce(): Promise<number> {
+    const head = await this.provider.getBlockNumber();
+    const target = head - this.options.confirmations;
+    let applied = 0;
+    for (const source of this.sources) {
+      const cursor = this.db.getCursor(source.address);
+      let from = cursor === null ? this.options.startBlock : cursor + 1;
+      while (from <= target) {
+        const to = Math.min(from + this.options.blockRange - 1, target);
+        const logs = await this.provider.getLogs({
+          address: source.address,
+          topics: [source.topics],
+          fromBlock: from,
+          toBlock: to,
+        });
+        applied += this.db.transaction(() => {
+          let count = 0;
+          for (const log of logs) {
+            if (this.applyLog(source, log)) count++;
+          }
+          this.db.setCursor(source.address, to);
+          return count;
+        });
+        from = to + 1;
+      }
+    }
+    return applied;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const tick = async () => {
+      try {
+        const applied = await this.syncOnce();
+        if (applied > 0) console.log(`indexed ${applied} new log(s)`);
+      } catch (e) {
+        console.error("Indexer sync failed:", e);
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, this.options.pollIntervalMs);
+      }
+    };
+    void tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private applyLog(source: Source, log: ethers.Log): boolean {
+    const event = source.iface.parseLog(log);
+    if (!event) return false;
+
+    const isNew = this.db.insertEvent({
+      contract: source.address,
+      name: event.name,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      args: serializeArgs(event),
+    });
+    if (!isNew) return false;
+
+    const { blockNumber, transactionHash: txHash, index: logIndex } = log;
+    switch (event.name) {
+      case "BatchOpened":
+        this.db.openBatch(Number(event.args.batchId), blockNumber);
+        break;
+      case "BatchClosed":
+        this.db.closeBatch(Number(event.args.batchId), blockNumber);
+        break;
+      case "EnergySubmitted":
+        this.db.addSubmission({
+          provider: event.args.provider,
+          batchId: Number(event.args.batchId),
+          handle: event.args.encryptedEnergy,
+          blockNumber,
+          txHash,
+          logIndex,
+        });
+        break;
+      case "DecryptionRequested":
+        this.db.requestDecryption(
+          event.args.requestId.toString(),
+          Number(event.args.batchId),
+          event.args.stateHash,
+          blockNumber,
+        );
+        break;
+      case "DecryptionCompleted":
+        this.db.completeDecryption(
+          event.args.requestId.toString(),
+          Number(event.args.batchId),
+          event.args.totalEnergy.toString(),
+          blockNumber,
+        );
+        break;
+      case "DataStored":
+        this.db.addRecord({
+          key: event.args.key,
+          sender: event.args.sender,
+          value: event.args.value,
+          blockNumber,
+          txHash,
+          logIndex,
+        });
+        break;
+      case "DataImported":
+        // A migrated record is attributed to the account that wrote it on the old adapter, not the importer.
+        this.db.addRecord({
+          key: event.args.key,
+          sender: event.args.owner,
+          value: event.args.value,
+          blockNumber,
+          txHash,
+          logIndex,
+        });
+        break;
+    }
+    return true;
+  }
+}
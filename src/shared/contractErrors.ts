@@ -0,0 +1,191 @@
+/**
+ * Revert decoding shared by the dashboard and the Hardhat tasks.
+ *
+ * This module has no runtime imports so both the Vite bundle and ts-node can load it; callers pass
+ * in the contract interfaces (ethers `Interface` satisfies {@link ErrorParser}) whose custom errors
+ * they expect.
+ */
+
+export interface ErrorParser {
+  parseError(
+    data: string,
+  ): { name: string; args: ArrayLike<unknown> } | null | undefined;
+}
+
+export interface DecodedContractError {
+  /** Custom error name (or `Error` / `Panic`), null when no revert data was found. */
+  name: string | null;
+  args: unknown[];
+  message: string;
+  rejected: boolean;
+}
+
+/** Actionable text for every custom error declared by the Helios contracts. */
+export const CONTRACT_ERROR_MESSAGES: Record<string, string> = {
+  NotOwner: "Only the contract owner can do this",
+  NotProvider: "Your wallet is not a registered energy provider",
+  Paused: "The network is paused (or already unpaused)",
+  CooldownActive: "Cooldown is still active; wait before trying again",
+  BatchClosedOrInvalid: "The current batch is closed; open a new batch first",
+  ReplayAttempt: "This decryption request was already processed",
+  StateMismatch:
+    "The batch total changed after decryption was requested; request it again",
+  InvalidBatchId: "That batch does not exist or is no longer open",
+  NotInitialized: "The batch has no encrypted submissions yet",
+  KeyNotStored: "The key has no stored value, so it cannot be indexed",
+  NotKeyOwner:
+    "This record belongs to another account; only its owner can modify it",
+  NotImporter: "Only the adapter's importer can copy records into it",
+  Reentrancy: "The pool is busy with another call; try again",
+  InvalidAmount: "Enter an amount greater than zero",
+  InvalidParameter: "That value is outside the allowed range",
+  InsufficientShares: "You do not hold that many pool shares",
+  InsufficientLiquidity: "The pool does not have enough idle funds for this",
+  BatchNotClosed: "Only closed batches can be pledged or rewarded",
+  BatchAlreadyPledged: "This batch is already pledged",
+  CollateralNotShared:
+    "Share this batch's energy with the lending pool before pledging it",
+  NoCollateral: "Pledge at least one batch of energy before borrowing",
+  BorrowPending: "Your previous borrow request is still being decided",
+  UnknownRequest: "No pending request with that id exists",
+  NoDebt: "You have no outstanding loan to repay",
+  TransferFailed: "The ETH transfer to your wallet failed",
+  BatchAlreadyClosed: "Projections can only be pledged for batches still open",
+  BatchNotOpen:
+    "Projections can only be pledged for the batch that is open now",
+  NoProjection: "No projection was pledged for that batch",
+  ProjectionAlreadySettled: "That projection was already settled",
+  HealthCheckPending: "A health check for this position is already in flight",
+  PositionUndercollateralized:
+    "Your position is flagged as under-collateralized; repay or pledge more and request a new health check",
+  NotLiquidatable: "The latest health check did not flag this position",
+  SelfLiquidation: "Borrowers cannot liquidate their own position",
+  InvalidWindow: "Pick a window of 2 to 8 batches that have all closed already",
+  EnergyNotShared:
+    "Share each batch in the window with the risk model before assessing",
+  NotMember: "Only DAO members with voting power can do this",
+  UnknownProposal: "No proposal with that id exists",
+  VotingClosed: "Voting on this proposal has ended",
+  VotingNotEnded: "Voting on this proposal is still open",
+  TallyAlreadyRequested: "The tally for this proposal was already requested",
+  AlreadyVoted: "You already voted on this proposal",
+  NotSucceeded: "Only proposals that passed and were not executed yet can run",
+  ExecutionFailed: "The proposal's call reverted on its target contract",
+  BatchStillOpen: "That batch is still open; close it first",
+  EmptyBatch: "Nobody submitted energy to that batch, so it has no rewards",
+  TotalNotShared:
+    "The network owner must share the batch total with the reward distributor first",
+  EpochAlreadyFinalized: "Rewards for that batch are already finalized",
+  FinalizationPending: "The batch total is still being decrypted",
+  EpochNotFinalized: "Rewards for that batch are not finalized yet",
+  NoContribution: "You did not contribute energy to that batch",
+  AlreadyClaimed: "You already claimed the rewards for that batch",
+  NotMinter: "Only the reward distributor can mint reward tokens",
+  InvalidRecipient: "Enter a valid recipient address",
+  UnauthorizedAmount: "The reward amount was not shared with the token",
+};
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x32: "array index out of bounds",
+};
+
+const MAX_ERROR_DEPTH = 5;
+
+function isRejection(error: any): boolean {
+  return (
+    error?.code === "ACTION_REJECTED" ||
+    error?.code === 4001 ||
+    /user (rejected|denied)/i.test(String(error?.message ?? ""))
+  );
+}
+
+// Wallets and RPC providers nest the revert payload at different depths.
+function findRevertData(error: any, depth = 0): string | undefined {
+  if (!error || typeof error !== "object" || depth > MAX_ERROR_DEPTH) {
+    return undefined;
+  }
+  const data = error.data;
+  if (typeof data === "string" && /^0x[0-9a-fA-F]{8}/.test(data)) return data;
+  if (typeof data?.data === "string") return findRevertData(data, depth + 1);
+  return (
+    findRevertData(error.error, depth + 1) ??
+    findRevertData(error.info?.error, depth + 1) ??
+    findRevertData(error.cause, depth + 1)
+  );
+}
+
+function describe(name: string, args: unknown[]): string {
+  if (name === "Error") return String(args[0] ?? "Execution reverted");
+  if (name === "Panic") {
+    const code = Number(args[0]);
+    return `Contract panicked: ${PANIC_REASONS[code] ?? `code 0x${code.toString(16)}`}`;
+  }
+  const message = CONTRACT_ERROR_MESSAGES[name];
+  return message ? `${message} (${name})` : `Contract reverted with ${name}`;
+}
+
+export function decodeContractError(
+  error: unknown,
+  parsers: ErrorParser[],
+): DecodedContractError {
+  const e = error as any;
+  if (isRejection(e)) {
+    return {
+      name: null,
+      args: [],
+      message: "Transaction rejected by user",
+      rejected: true,
+    };
+  }
+
+  // ethers already decodes reverts for calls made through a Contract with the matching ABI.
+  if (e?.revert?.name) {
+    const args = Array.from(e.revert.args ?? []) as unknown[];
+    return {
+      name: e.revert.name,
+      args,
+      message: describe(e.revert.name, args),
+      rejected: false,
+    };
+  }
+
+  const data = findRevertData(e);
+  if (data) {
+    for (const parser of parsers) {
+      try {
+        const parsed = parser.parseError(data);
+        if (parsed) {
+          const args = Array.from(parsed.args);
+          return {
+            name: parsed.name,
+            args,
+            message: describe(parsed.name, args),
+            rejected: false,
+          };
+        }
+      } catch {
+        // Try the next interface.
+      }
+    }
+  }
+
+  return {
+    name: null,
+    args: [],
+    message: e?.shortMessage || e?.reason || e?.message || "Unknown error",
+    rejected: false,
+  };
+}
+
+/** One-line message, optionally prefixed with the action that failed. */
+export function formatContractError(
+  error: unknown,
+  parsers: ErrorParser[],
+  action?: string,
+): string {
+  const { message, rejected } = decodeContractError(error, parsers);
+  return action && !rejected ? `${action} failed: ${message}` : message;
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\styles-sms-account.go
-// Generated at: 2025-10-19T15:11:43.981Z
\ No newline at end of file
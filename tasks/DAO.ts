@@ -0,0 +1,277 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { Interface } from "ethers";
+
+import { readDeployments } from "../deploy/deployments";
+import { formatContractError } from "../src/shared/contractErrors";
+import {
+  HeliosDAO__factory,
+  HeliosLendingPool__factory,
+  HeliosNetFHE__factory,
+  HeliosRewards__factory,
+  HeliosRiskModel__factory,
+} from "../types";
+
+// Same order as HeliosDAO.ProposalState.
+const PROPOSAL_STATES = [
+  "active",
+  "ended",
+  "tallying",
+  "succeeded",
+  "defeated",
+  "executed",
+];
+
+// Contracts a proposal can name with --contract instead of raw --target/--calldata.
+const GOVERNABLE_INTERFACES: Record<string, Interface> = {
+  HeliosNetFHE: HeliosNetFHE__factory.createInterface(),
+  HeliosLendingPool: HeliosLendingPool__factory.createInterface(),
+  HeliosRiskModel: HeliosRiskModel__factory.createInterface(),
+  HeliosRewards: HeliosRewards__factory.createInterface(),
+  HeliosDAO: HeliosDAO__factory.createInterface(),
+};
+
+const errorParsers = Object.values(GOVERNABLE_INTERFACES);
+
+async function resolveDao(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+) {
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const contracts = readDeployments(hre.network.name, chainId).contracts;
+  const daoAddress = address ?? contracts.HeliosDAO?.address;
+  if (!daoAddress) {
+    throw new Error(
+      `No HeliosDAO recorded for network "${hre.network.name}"; pass --dao`,
+    );
+  }
+  return { dao: HeliosDAO__factory.connect(daoAddress, signer), contracts };
+}
+
+// `[1, "0xabc"]` is parsed as JSON; anything else is split on commas.
+function parseArgs(text: string | undefined): unknown[] {
+  if (!text || text.trim() === "") return [];
+  if (text.trim().startsWith("[")) return JSON.parse(text);
+  return text.split(",").map((arg) => arg.trim());
+}
+
+function describeCall(
+  target: string,
+  callData: string,
+  contracts: Record<string, { address: string }>,
+) {
+  for (const [name, iface] of Object.entries(GOVERNABLE_INTERFACES)) {
+    if (contracts[name]?.address.toLowerCase() !== target.toLowerCase()) {
+      continue;
+    }
+    const parsed = iface.parseTransaction({ data: callData });
+    if (parsed) {
+      return `${name}.${parsed.name}(${parsed.args.map(String).join(", ")})`;
+    }
+  }
+  return `${target} ${callData.slice(0, 10)}`;
+}
+
+/**
+ * Opens a HeliosDAO proposal. Name a deployed Helios contract with --contract and --method (arguments
+ * comma separated or as a JSON array), or pass any --target with raw --calldata. The signer needs voting
+ * power, and the target only accepts the call once its ownership has been transferred to the DAO.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:dao-propose --contract HeliosNetFHE --method setCooldownSeconds --args 60 --description "Shorter cooldown"
+ *   - npx hardhat --network sepolia task:dao-propose --target 0xTarget --calldata 0x8456cb59 --description "Pause"
+ */
+task("task:dao-propose", "Opens a HeliosDAO proposal")
+  .addParam("description", "What the proposal changes")
+  .addOptionalParam("contract", "Deployed Helios contract to call by name")
+  .addOptionalParam("method", "Method of --contract to call")
+  .addOptionalParam("args", "Arguments of --method")
+  .addOptionalParam("target", "Address to call (with --calldata)")
+  .addOptionalParam("calldata", "Raw call data for --target", "0x")
+  .addOptionalParam(
+    "dao",
+    "HeliosDAO address (defaults to deployments/<network>.json)",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { dao, contracts } = await resolveDao(hre, taskArguments.dao);
+
+    let target: string;
+    let callData: string;
+    if (taskArguments.contract) {
+      const iface = GOVERNABLE_INTERFACES[taskArguments.contract];
+      const address = contracts[taskArguments.contract]?.address;
+      if (!iface || !address) {
+        throw new Error(
+          `--contract must be one of the deployed ${Object.keys(GOVERNABLE_INTERFACES).join(", ")}`,
+        );
+      }
+      if (!taskArguments.method) throw new Error("--contract needs --method");
+      target = address;
+      callData = iface.encodeFunctionData(
+        taskArguments.method,
+        parseArgs(taskArguments.args),
+      );
+    } else if (taskArguments.target) {
+      target = taskArguments.target;
+      callData = taskArguments.calldata;
+    } else {
+      throw new Error("Pass either --contract and --method, or --target");
+    }
+
+    try {
+      const receipt = await (
+        await dao.propose(target, callData, taskArguments.description)
+      ).wait();
+      const created = receipt!.logs
+        .map((log) => dao.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ProposalCreated");
+      console.log(
+        `Proposal #${created!.args.proposalId} (${describeCall(target, callData, contracts)}) is open until ${new Date(Number(created!.args.endTime) * 1000).toISOString()}`,
+      );
+    } catch (error) {
+      throw new Error(formatContractError(error, errorParsers, "Proposal"));
+    }
+  });
+
+/**
+ * Lists HeliosDAO proposals with their state and, once tallied, the decrypted totals.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:dao-proposals
+ */
+task("task:dao-proposals", "Lists HeliosDAO proposals")
+  .addOptionalParam(
+    "dao",
+    "HeliosDAO address (defaults to deployments/<network>.json)",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { dao, contracts } = await resolveDao(hre, taskArguments.dao);
+    const count = Number(await dao.proposalCount());
+    console.log(`HeliosDAO at ${await dao.getAddress()}: ${count} proposal(s)`);
+    for (let id = count; id >= 1; id--) {
+      const [proposal, state] = await Promise.all([
+        dao.proposals(id),
+        dao.proposalState(id),
+      ]);
+      const label = PROPOSAL_STATES[Number(state)];
+      const tallied = ["succeeded", "defeated", "executed"].includes(label);
+      console.log(
+        `  #${id} ${label.padEnd(9)} ${proposal.description}\n` +
+          `      ${describeCall(proposal.target, proposal.callData, contracts)}; ${proposal.voterCount} ballot(s)` +
+          (tallied
+            ? `, ${proposal.forVotes} for / ${proposal.againstVotes} against`
+            : `, voting ends ${new Date(Number(proposal.endTime) * 1000).toISOString()}`),
+      );
+    }
+  });
+
+/**
+ * Casts an encrypted ballot from the first signer. The weights are encrypted locally and never leave the
+ * machine in the clear; a ballot above the signer's voting power is accepted but counts as nothing.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:dao-vote --id 1 --for 60
+ *   - npx hardhat --network localhost task:dao-vote --id 1 --for 10 --against 20
+ */
+task("task:dao-vote", "Casts an encrypted ballot on a HeliosDAO proposal")
+  .addParam("id", "Proposal id")
+  .addOptionalParam("for", "Votes for the proposal", "0")
+  .addOptionalParam("against", "Votes against the proposal", "0")
+  .addOptionalParam(
+    "dao",
+    "HeliosDAO address (defaults to deployments/<network>.json)",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const { dao } = await resolveDao(hre, taskArguments.dao);
+    const [signer] = await hre.ethers.getSigners();
+    const votesFor = Number(taskArguments.for);
+    const votesAgainst = Number(taskArguments.against);
+    const power = Number(await dao.votingPower(signer.address));
+    if (votesFor + votesAgainst > power) {
+      throw new Error(`${signer.address} can cast at most ${power} votes`);
+    }
+
+    const encrypted = await hre.fhevm
+      .createEncryptedInput(await dao.getAddress(), signer.address)
+      .add32(votesFor)
+      .add32(votesAgainst)
+      .encrypt();
+    try {
+      await (
+        await dao.castVote(
+          taskArguments.id,
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.inputProof,
+        )
+      ).wait();
+      console.log(`Cast an encrypted ballot on #${taskArguments.id}`);
+    } catch (error) {
+      throw new Error(formatContractError(error, errorParsers, "Vote"));
+    }
+  });
+
+/**
+ * Takes a proposal whose voting has ended through the rest of its life: requests the tally if nobody has,
+ * and executes the proposal if it passed. Only the final totals are ever decrypted. On the local fhevm mock
+ * the task answers the decryption oracle itself; on Sepolia re-run it once the oracle has answered.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:dao-execute --id 1
+ */
+task(
+  "task:dao-execute",
+  "Tallies a HeliosDAO proposal whose voting ended and executes it if it passed",
+)
+  .addParam("id", "Proposal id")
+  .addOptionalParam(
+    "dao",
+    "HeliosDAO address (defaults to deployments/<network>.json)",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const { dao } = await resolveDao(hre, taskArguments.dao);
+    const id = BigInt(taskArguments.id);
+    const state = async () =>
+      PROPOSAL_STATES[Number(await dao.proposalState(id))];
+
+    try {
+      if ((await state()) === "active") {
+        const { endTime } = await dao.proposals(id);
+        console.log(
+          `Voting on #${id} is open until ${new Date(Number(endTime) * 1000).toISOString()}`,
+        );
+        return;
+      }
+      if ((await state()) === "ended") {
+        await (await dao.requestTally(id)).wait();
+        console.log(`Requested the tally of #${id}`);
+      }
+      if ((await state()) === "tallying") {
+        if (!hre.fhevm.isMock) {
+          console.log(
+            "Waiting for the decryption oracle; run this task again once it has answered",
+          );
+          return;
+        }
+        await hre.fhevm.awaitDecryptionOracle();
+      }
+
+      const { forVotes, againstVotes } = await dao.proposals(id);
+      const result = await state();
+      console.log(
+        `#${id} ${result}: ${forVotes} for / ${againstVotes} against`,
+      );
+      if (result === "succeeded") {
+        await (await dao.execute(id)).wait();
+        console.log(`Executed #${id}`);
+      }
+    } catch (error) {
+      throw new Error(
+        formatContractError(error, errorParsers, `Proposal #${id}`),
+      );
+    }
+  });
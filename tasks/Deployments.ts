@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { readDeployments } from "../deploy/deployments";
+import {
+  fingerprintArtifact,
+  hashAbi,
+  hashBytecode,
+  maskImmutables,
+  readManifest,
+} from "../deploy/manifest";
+
+const FRONTEND_SRC = path.join(__dirname, "..", "frontend", "web", "src");
+
+/**
+ * Checks the recorded deployments of the selected network against the chain, the current build and
+ * the frontend registry and ABI files. Exits with an error when any of them disagree.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:verify-deployment
+ *   - npx hardhat --network localhost task:verify-deployment --contract HeliosNetFHE
+ */
+task(
+  "task:verify-deployment",
+  "Verifies that the frontend ABIs and build manifest match the deployed bytecode",
+)
+  .addOptionalParam("contract", "Only verify this contract")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const network = hre.network.name;
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const deployments = readDeployments(network, chainId);
+    const manifest = readManifest(network);
+    const registryPath = path.join(FRONTEND_SRC, "deployments.json");
+    const registeredChain = fs.existsSync(registryPath)
+      ? JSON.parse(fs.readFileSync(registryPath, "utf-8"))[String(chainId)]
+      : undefined;
+
+    const names = taskArguments.contract
+      ? [taskArguments.contract as string]
+      : Object.keys(deployments.contracts);
+    if (names.length === 0) {
+      throw new Error(`No deployments recorded for network "${network}"`);
+    }
+
+    let failures = 0;
+    const check = (ok: boolean, label: string) => {
+      console.log(`  ${ok ? "ok  " : "FAIL"} ${label}`);
+      if (!ok) failures++;
+    };
+
+    for (const name of names) {
+      const deployment = deployments.contracts[name];
+      if (!deployment) {
+        throw new Error(
+          `${name} is not recorded in deployments/${network}.json`,
+        );
+      }
+      console.log(`${name} @ ${deployment.address}`);
+
+      const onChainCode = await ethers.provider.getCode(deployment.address);
+      check(
+        hashBytecode(onChainCode) !== hashBytecode("0x"),
+        "contract code is present",
+      );
+
+      const artifact = await hre.artifacts.readArtifact(name);
+      const compiled = await fingerprintArtifact(hre, artifact);
+      // Immutables are compared masked, the way they appear in the artifact.
+      const onChainHash = hashBytecode(
+        await maskImmutables(hre, artifact, onChainCode),
+      );
+      check(
+        compiled.deployedBytecodeHash === onChainHash,
+        "current build matches deployed bytecode",
+      );
+
+      const recorded = manifest?.contracts[name];
+      if (recorded) {
+        check(
+          recorded.deployedBytecodeHash === onChainHash,
+          "manifest matches deployed bytecode",
+        );
+      } else {
+        console.log(`  skip no manifest entry`);
+      }
+
+      const registered = registeredChain?.contracts?.[name];
+      if (registered) {
+        check(
+          registered.address.toLowerCase() === deployment.address.toLowerCase(),
+          "frontend deployments.json points at the recorded address",
+        );
+      } else {
+        console.log(`  skip not in frontend deployments.json`);
+      }
+
+      const abiFile = `abi/${name}.json`;
+      const abiPath = path.join(FRONTEND_SRC, abiFile);
+      if (!fs.existsSync(abiPath)) {
+        console.log(`  skip no frontend ${abiFile}`);
+        continue;
+      }
+      const frontendArtifact = JSON.parse(fs.readFileSync(abiPath, "utf-8"));
+      check(
+        hashBytecode(frontendArtifact.deployedBytecode ?? "0x") === onChainHash,
+        `frontend ${abiFile} matches deployed bytecode`,
+      );
+      const frontendAbiHash = hashAbi(frontendArtifact.abi ?? frontendArtifact);
+      check(
+        frontendAbiHash === compiled.abiHash,
+        `frontend ${abiFile} matches the compiled ABI`,
+      );
+      const recordedAbiHash = manifest?.frontend?.abiFiles[abiFile];
+      if (recordedAbiHash) {
+        check(
+          recordedAbiHash === frontendAbiHash,
+          `frontend ${abiFile} is the one written at deploy time`,
+        );
+      }
+    }
+
+    if (failures > 0) {
+      throw new Error(`${failures} deployment check(s) failed`);
+    }
+    console.log("All deployment checks passed");
+  });
@@ -0,0 +1,391 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { readDeployments } from "../deploy/deployments";
+import { formatContractError } from "../src/shared/contractErrors";
+import {
+  HeliosLendingPool,
+  HeliosLendingPool__factory,
+  HeliosNetFHE,
+  HeliosNetFHE__factory,
+} from "../types";
+
+type PositionStatus =
+  | "healthy"
+  | "recently checked"
+  | "unchecked"
+  | "check requested"
+  | "check pending"
+  | "flagged"
+  | "liquidated"
+  | "borrow pending";
+
+interface KeeperOptions {
+  dryRun: boolean;
+  minAgeSeconds: number;
+}
+
+interface LogPosition {
+  blockNumber: number;
+  index: number;
+}
+
+const isAfter = (a: LogPosition, b: LogPosition) =>
+  a.blockNumber > b.blockNumber ||
+  (a.blockNumber === b.blockNumber && a.index > b.index);
+
+const errorParsers = [
+  HeliosLendingPool__factory.createInterface(),
+  HeliosNetFHE__factory.createInterface(),
+];
+
+async function resolvePool(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+) {
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const recorded = readDeployments(hre.network.name, chainId).contracts
+    .HeliosLendingPool;
+  const poolAddress = address ?? recorded?.address;
+  if (!poolAddress) {
+    throw new Error(
+      `No HeliosLendingPool recorded for network "${hre.network.name}"; pass --pool`,
+    );
+  }
+
+  const pool = HeliosLendingPool__factory.connect(poolAddress, signer);
+  const helios = HeliosNetFHE__factory.connect(await pool.heliosNet(), signer);
+  const fromBlock =
+    recorded && recorded.address.toLowerCase() === poolAddress.toLowerCase()
+      ? recorded.blockNumber
+      : 0;
+  return { pool, helios, fromBlock };
+}
+
+// Sends one keeper transaction; failures are logged so a single stuck position does not stop the scan.
+async function send(
+  label: string,
+  options: KeeperOptions,
+  action: () => Promise<{ wait: () => Promise<unknown> }>,
+): Promise<boolean> {
+  if (options.dryRun) {
+    console.log(`  would ${label}`);
+    return false;
+  }
+  try {
+    await (await action()).wait();
+    console.log(`  ${label}`);
+    return true;
+  } catch (error) {
+    console.warn(`  ${formatContractError(error, errorParsers, label)}`);
+    return false;
+  }
+}
+
+async function liquidateIfFlagged(
+  pool: HeliosLendingPool,
+  borrower: string,
+  keeper: string,
+  options: KeeperOptions,
+): Promise<PositionStatus> {
+  if (!(await pool.isUndercollateralized(borrower))) return "healthy";
+  if ((await pool.pendingBorrowAmount(borrower)) !== 0n) {
+    return "borrow pending";
+  }
+  // The pool refuses self-liquidation, so a keeper that also borrows leaves its own position to others.
+  if (borrower === keeper) return "flagged";
+  const liquidated = await send(`liquidate ${borrower}`, options, () =>
+    pool.liquidate(borrower),
+  );
+  return liquidated ? "liquidated" : "flagged";
+}
+
+/** One pass over every position the pool has seen; returns how many transactions it sent. */
+async function scanPositions(
+  hre: HardhatRuntimeEnvironment,
+  pool: HeliosLendingPool,
+  helios: HeliosNetFHE,
+  fromBlock: number,
+  options: KeeperOptions,
+) {
+  const { ethers, fhevm } = hre;
+  const [keeper] = await ethers.getSigners();
+  const [pledges, projections, loans, settlements, repayments, checks] =
+    await Promise.all([
+      pool.queryFilter(pool.filters.CollateralPledged(), fromBlock),
+      pool.queryFilter(pool.filters.ProjectionPledged(), fromBlock),
+      pool.queryFilter(pool.filters.BorrowExecuted(), fromBlock),
+      pool.queryFilter(pool.filters.ProjectionSettled(), fromBlock),
+      pool.queryFilter(pool.filters.Repaid(), fromBlock),
+      pool.queryFilter(pool.filters.HealthChecked(), fromBlock),
+    ]);
+  const borrowers = [
+    ...new Set(
+      [...pledges, ...projections, ...loans].map((log) =>
+        ethers.getAddress(log.args.borrower),
+      ),
+    ),
+  ];
+  let sent = 0;
+
+  // The latest event that changed each position's debt or collateral, and its latest answered health check.
+  const lastChange = new Map<string, LogPosition>();
+  for (const log of [
+    ...pledges,
+    ...projections,
+    ...loans,
+    ...settlements,
+    ...repayments,
+  ]) {
+    const borrower = ethers.getAddress(log.args.borrower);
+    const previous = lastChange.get(borrower);
+    if (!previous || isAfter(log, previous)) lastChange.set(borrower, log);
+  }
+  const lastCheck = new Map<string, (typeof checks)[number]>();
+  for (const log of checks) {
+    const borrower = ethers.getAddress(log.args.borrower);
+    const previous = lastCheck.get(borrower);
+    if (!previous || isAfter(log, previous)) lastCheck.set(borrower, log);
+  }
+  const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+  // Projections for batches that have closed are settled first so the health checks see the shortfalls.
+  const currentBatchId = await helios.currentBatchId();
+  const currentOpen =
+    currentBatchId > 0n && (await helios.isBatchOpen(currentBatchId));
+  for (const log of projections) {
+    const { borrower, batchId } = log.args;
+    const closed =
+      batchId < currentBatchId || (batchId === currentBatchId && !currentOpen);
+    if (!closed || (await pool.isProjectionSettled(borrower, batchId))) {
+      continue;
+    }
+    const label = `settle projection of ${borrower} for batch #${batchId}`;
+    if (
+      await send(label, options, () => pool.settleProjection(borrower, batchId))
+    ) {
+      sent++;
+      // Settling may have removed collateral since the last check.
+      lastCheck.delete(ethers.getAddress(borrower));
+    }
+  }
+
+  // Interest accrues between events, so even an unchanged position is re-checked once its check is old enough.
+  async function isRecentlyChecked(borrower: string) {
+    const check = lastCheck.get(borrower);
+    const change = lastChange.get(borrower);
+    if (!check || (change && isAfter(change, check))) return false;
+    const checkedAt = (await check.getBlock()).timestamp;
+    return now - checkedAt < options.minAgeSeconds;
+  }
+
+  const statuses = new Map<string, PositionStatus>();
+  for (const borrower of borrowers) {
+    if ((await pool.debtOf(borrower)) === 0n) continue;
+    if (await pool.isUndercollateralized(borrower)) {
+      statuses.set(borrower, "flagged");
+    } else if (await pool.isHealthCheckPending(borrower)) {
+      statuses.set(borrower, "check pending");
+    } else if (await isRecentlyChecked(borrower)) {
+      statuses.set(borrower, "recently checked");
+    } else {
+      const label = `request health check for ${borrower}`;
+      const ok = await send(label, options, () =>
+        pool.requestHealthCheck(borrower),
+      );
+      if (ok) sent++;
+      statuses.set(borrower, ok ? "check requested" : "unchecked");
+    }
+  }
+
+  // The fhevm mock only answers decryption requests when asked; a real oracle answers on its own and
+  // the flags it sets are picked up on the next scan.
+  const answersOracle = fhevm.isMock && !options.dryRun;
+  const awaiting = [...statuses.values()].some(
+    (status) => status === "check requested" || status === "check pending",
+  );
+  if (awaiting && answersOracle) {
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  for (const [borrower, status] of statuses) {
+    const answered =
+      answersOracle &&
+      (status === "check requested" || status === "check pending");
+    if (status === "flagged" || answered) {
+      const next = await liquidateIfFlagged(
+        pool,
+        borrower,
+        keeper.address,
+        options,
+      );
+      if (next === "liquidated") sent++;
+      statuses.set(borrower, next);
+    }
+  }
+
+  console.log(
+    `Scanned ${borrowers.length} borrower(s), ${statuses.size} with debt:`,
+  );
+  for (const [borrower, status] of statuses) {
+    const debt = await pool.debtOf(borrower);
+    console.log(
+      `  ${borrower}  ${ethers.formatEther(debt).padStart(24)} ETH  ${status}`,
+    );
+  }
+  return sent;
+}
+
+/**
+ * Keeper for HeliosLendingPool. Each scan settles projections for batches that have closed, requests an
+ * encrypted health check for every loan whose debt or collateral changed since its last check, or whose last
+ * check is older than --min-age, and liquidates the positions the checks flag. Liquidation rewards are paid
+ * from the pool's keeper reserve while it lasts. Only the health-check
+ * bit is ever decrypted, so the keeper never learns anyone's production. On the local fhevm mock the task
+ * answers the decryption oracle itself and liquidates in the same scan.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:keeper
+ *   - npx hardhat --network localhost task:keeper --watch --interval 15 --min-age 600
+ *   - npx hardhat --network localhost task:keeper --pool 0xPool --dry-run
+ */
+task(
+  "task:keeper",
+  "Settles projections, health-checks loans and liquidates under-collateralized positions",
+)
+  .addOptionalParam(
+    "pool",
+    "HeliosLendingPool address (defaults to deployments/<network>.json)",
+  )
+  .addOptionalParam("interval", "Seconds between scans with --watch", "30")
+  .addOptionalParam(
+    "minAge",
+    "Seconds before an unchanged loan is health-checked again",
+    "3600",
+  )
+  .addFlag("watch", "Keep scanning until interrupted")
+  .addFlag("dryRun", "Report what would be sent without sending it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const { pool, helios, fromBlock } = await resolvePool(
+      hre,
+      taskArguments.pool,
+    );
+    const options: KeeperOptions = {
+      dryRun: taskArguments.dryRun,
+      minAgeSeconds: Number(taskArguments.minAge),
+    };
+    const intervalMs = Number(taskArguments.interval) * 1000;
+    if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+      throw new Error("--interval must be a positive number of seconds");
+    }
+    if (!Number.isFinite(options.minAgeSeconds) || options.minAgeSeconds < 0) {
+      throw new Error("--min-age must be a non-negative number of seconds");
+    }
+
+    console.log(`Keeping HeliosLendingPool at ${await pool.getAddress()}`);
+    do {
+      const sent = await scanPositions(hre, pool, helios, fromBlock, options);
+      console.log(`Sent ${sent} transaction(s)`);
+      if (taskArguments.watch) {
+        await new Promise((resolve) => setTimeout(resolve, intervalMs));
+      }
+    } while (taskArguments.watch);
+  });
+
+/**
+ * Pledges the first signer's projected output for the batch that is open now. The projection is encrypted
+ * locally in tenths of a kWh; the pool caps it at its per-batch limit, and once the batch closes the keeper
+ * settles it against what was actually submitted. Production only counts if it is shared with the pool
+ * through HeliosNetFHE.grantEnergyAccess after submitting; otherwise the whole projection is a shortfall.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:pool-pledge-projection --kwh 12.5
+ */
+task(
+  "task:pool-pledge-projection",
+  "Pledges projected output for the open batch as collateral",
+)
+  .addParam("kwh", "Projected output in kWh")
+  .addOptionalParam(
+    "pool",
+    "HeliosLendingPool address (defaults to deployments/<network>.json)",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const { pool, helios } = await resolvePool(hre, taskArguments.pool);
+    const [signer] = await hre.ethers.getSigners();
+    const units = Math.round(Number(taskArguments.kwh) * 10);
+    if (!Number.isSafeInteger(units) || units <= 0 || units > 0xffffffff) {
+      throw new Error("--kwh must be a positive amount of energy");
+    }
+
+    const batchId = await helios.currentBatchId();
+    const encrypted = await hre.fhevm
+      .createEncryptedInput(await pool.getAddress(), signer.address)
+      .add32(units)
+      .encrypt();
+    try {
+      await (
+        await pool.pledgeProjection(
+          batchId,
+          encrypted.handles[0],
+          encrypted.inputProof,
+        )
+      ).wait();
+      console.log(
+        `Pledged an encrypted projection for batch #${batchId} (capped at ${await pool.maxBatchUnits()} units)`,
+      );
+    } catch (error) {
+      throw new Error(
+        formatContractError(error, errorParsers, `Batch #${batchId}`),
+      );
+    }
+  });
+
+/**
+ * Requests a fresh health check, by default for the first signer. A borrower flagged by an earlier check
+ * can clear the flag this way after pledging more collateral or repaying part of the loan. On the local
+ * fhevm mock the task answers the decryption oracle itself and prints the result.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:pool-health-check
+ *   - npx hardhat --network localhost task:pool-health-check --borrower 0xBorrower
+ */
+task(
+  "task:pool-health-check",
+  "Asks the pool to re-check whether a loan is under-collateralized",
+)
+  .addOptionalParam("borrower", "Borrower to check (defaults to the signer)")
+  .addOptionalParam(
+    "pool",
+    "HeliosLendingPool address (defaults to deployments/<network>.json)",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const { pool } = await resolvePool(hre, taskArguments.pool);
+    const [signer] = await hre.ethers.getSigners();
+    const borrower = hre.ethers.getAddress(
+      taskArguments.borrower ?? signer.address,
+    );
+
+    try {
+      await (await pool.requestHealthCheck(borrower)).wait();
+    } catch (error) {
+      throw new Error(formatContractError(error, errorParsers, borrower));
+    }
+    if (!hre.fhevm.isMock) {
+      console.log(
+        `Requested a health check for ${borrower}; the flag updates once the oracle answers`,
+      );
+      return;
+    }
+    await hre.fhevm.awaitDecryptionOracle();
+    console.log(
+      (await pool.isUndercollateralized(borrower))
+        ? `${borrower} is under-collateralized and may be liquidated`
+        : `${borrower} is healthy`,
+    );
+  });
@@ -0,0 +1,227 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { readDeployments } from "../deploy/deployments";
+import { formatContractError } from "../src/shared/contractErrors";
+import {
+  HeliosNetFHE__factory,
+  HeliosRewardToken__factory,
+  HeliosRewards__factory,
+} from "../types";
+
+const errorParsers = [
+  HeliosRewards__factory.createInterface(),
+  HeliosNetFHE__factory.createInterface(),
+];
+
+async function resolveRewards(
+  hre: HardhatRuntimeEnvironment,
+  address: string | undefined,
+) {
+  const { ethers } = hre;
+  const [signer] = await ethers.getSigners();
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const recorded = readDeployments(hre.network.name, chainId).contracts
+    .HeliosRewards;
+  const rewardsAddress = address ?? recorded?.address;
+  if (!rewardsAddress) {
+    throw new Error(
+      `No HeliosRewards recorded for network "${hre.network.name}"; pass --rewards`,
+    );
+  }
+
+  const rewards = HeliosRewards__factory.connect(rewardsAddress, signer);
+  const helios = HeliosNetFHE__factory.connect(
+    await rewards.heliosNet(),
+    signer,
+  );
+  const fromBlock =
+    recorded && recorded.address.toLowerCase() === rewardsAddress.toLowerCase()
+      ? recorded.blockNumber
+      : 0;
+  return { rewards, helios, fromBlock };
+}
+
+/**
+ * Finalizes the reward epoch of a closed batch. When the signer owns HeliosNetFHE the batch total is shared
+ * with the distributor first. On the local fhevm mock the task answers the decryption oracle itself; on
+ * Sepolia the epoch opens for claims once the oracle has answered.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:rewards-finalize --batch 3
+ */
+task(
+  "task:rewards-finalize",
+  "Decrypts a closed batch's total so its providers can claim rewards",
+)
+  .addParam("batch", "Batch id")
+  .addOptionalParam(
+    "rewards",
+    "HeliosRewards address (defaults to deployments/<network>.json)",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const { rewards, helios } = await resolveRewards(
+      hre,
+      taskArguments.rewards,
+    );
+    const [signer] = await hre.ethers.getSigners();
+    const batchId = BigInt(taskArguments.batch);
+    const rewardsAddress = await rewards.getAddress();
+
+    try {
+      const grants = await helios.queryFilter(
+        helios.filters.BatchTotalAccessGranted(batchId, rewardsAddress),
+      );
+      const ownsHelios =
+        (await helios.owner()).toLowerCase() === signer.address.toLowerCase();
+      if (grants.length === 0 && ownsHelios) {
+        await (
+          await helios.grantBatchTotalAccess(batchId, rewardsAddress)
+        ).wait();
+        console.log(`Shared the total of batch #${batchId} with HeliosRewards`);
+      }
+      await (await rewards.finalizeEpoch(batchId)).wait();
+      if (!hre.fhevm.isMock) {
+        console.log(
+          `Requested the total of batch #${batchId}; claims open once the oracle answers`,
+        );
+        return;
+      }
+      await hre.fhevm.awaitDecryptionOracle();
+      const epoch = await rewards.epochs(batchId);
+      console.log(
+        `Batch #${batchId} finalized: ${epoch.totalEnergy} units share ${epoch.reward} reward base units`,
+      );
+    } catch (error) {
+      throw new Error(
+        formatContractError(error, errorParsers, `Batch #${batchId}`),
+      );
+    }
+  });
+
+/**
+ * Reconciles claimed rewards against the decrypted batch totals. For every finalized epoch the owner decrypts
+ * the encrypted sums of claimed rewards and claimed energy, and checks that the rewards paid are the epoch
+ * reward times the claimed share of the batch total, less at most one base unit per claim lost to rounding.
+ * The claim count and batch total are also matched against the RewardClaimed and DecryptionCompleted events.
+ * The task fails when any epoch does not reconcile. Individual rewards are never decrypted.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:rewards-report
+ */
+task(
+  "task:rewards-report",
+  "Reconciles claimed rewards against decrypted batch totals",
+)
+  .addOptionalParam(
+    "rewards",
+    "HeliosRewards address (defaults to deployments/<network>.json)",
+  )
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.fhevm.initializeCLIApi();
+    const { rewards, helios, fromBlock } = await resolveRewards(
+      hre,
+      taskArguments.rewards,
+    );
+    const [signer] = await hre.ethers.getSigners();
+    const rewardsAddress = await rewards.getAddress();
+    if (
+      (await rewards.owner()).toLowerCase() !== signer.address.toLowerCase()
+    ) {
+      throw new Error(
+        `Only the HeliosRewards owner can decrypt the claimed sums; ${signer.address} is not it`,
+      );
+    }
+
+    const token = HeliosRewardToken__factory.connect(
+      await rewards.rewardToken(),
+      signer,
+    );
+    const [symbol, decimals, finalized, claims, decryptions] =
+      await Promise.all([
+        token.symbol(),
+        token.decimals(),
+        rewards.queryFilter(rewards.filters.EpochFinalized(), fromBlock),
+        rewards.queryFilter(rewards.filters.RewardClaimed(), fromBlock),
+        helios.queryFilter(helios.filters.DecryptionCompleted(), fromBlock),
+      ]);
+    const format = (amount: bigint) =>
+      `${hre.ethers.formatUnits(amount, decimals)} ${symbol}`;
+    const decrypt = (handle: string) =>
+      hre.fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        handle,
+        rewardsAddress,
+        signer,
+      );
+
+    const claimCounts = new Map<bigint, bigint>();
+    for (const log of claims) {
+      const batchId = log.args.batchId;
+      claimCounts.set(batchId, (claimCounts.get(batchId) ?? 0n) + 1n);
+    }
+    const publishedTotals = new Map<bigint, bigint>(
+      decryptions.map((log) => [log.args.batchId, log.args.totalEnergy]),
+    );
+
+    console.log(
+      `HeliosRewards at ${rewardsAddress}: ${finalized.length} finalized epoch(s)`,
+    );
+    let totalReward = 0n;
+    let totalClaimed = 0n;
+    let mismatches = 0;
+    for (const log of finalized.sort((a, b) =>
+      Number(a.args.batchId - b.args.batchId),
+    )) {
+      const batchId = log.args.batchId;
+      const epoch = await rewards.epochs(batchId);
+      const [claimedReward, claimedEnergy] = await Promise.all([
+        decrypt(epoch.claimedReward),
+        decrypt(epoch.claimedEnergy),
+      ]);
+
+      // Each claim rounds its share down, so the sum sits in (reward * energy / total - claims, reward * energy / total].
+      const owed = epoch.reward * claimedEnergy;
+      const slack = epoch.claimCount > 0n ? epoch.claimCount : 1n;
+      const problems: string[] = [];
+      if (claimedEnergy > epoch.totalEnergy) {
+        problems.push("claimed energy exceeds the batch total");
+      }
+      if (
+        claimedReward * epoch.totalEnergy > owed ||
+        (claimedReward + slack) * epoch.totalEnergy <= owed
+      ) {
+        problems.push(
+          `paid ${format(claimedReward)}, expected ${format(owed / epoch.totalEnergy)}`,
+        );
+      }
+      if ((claimCounts.get(batchId) ?? 0n) !== epoch.claimCount) {
+        problems.push(
+          `${claimCounts.get(batchId) ?? 0n} RewardClaimed event(s) for ${epoch.claimCount} claim(s)`,
+        );
+      }
+      const published = publishedTotals.get(batchId);
+      if (published !== undefined && published !== epoch.totalEnergy) {
+        problems.push(`HeliosNetFHE published a total of ${published}`);
+      }
+
+      totalReward += epoch.reward;
+      totalClaimed += claimedReward;
+      if (problems.length > 0) mismatches++;
+      console.log(
+        `  #${batchId} ${(problems.length > 0 ? "MISMATCH" : "ok").padEnd(8)} ` +
+          `${claimedEnergy}/${epoch.totalEnergy} units claimed by ${epoch.claimCount} provider(s), ` +
+          `${format(claimedReward)} of ${format(epoch.reward)} paid, ${format(epoch.reward - claimedReward)} outstanding` +
+          problems.map((problem) => `\n      ${problem}`).join(""),
+      );
+    }
+
+    console.log(
+      `Paid ${format(totalClaimed)} of ${format(totalReward)} across ${finalized.length} epoch(s)`,
+    );
+    if (mismatches > 0) {
+      throw new Error(`${mismatches} epoch(s) do not reconcile`);
+    }
+  });
@@ -0,0 +1,136 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+import { formatContractError } from "../src/shared/contractErrors";
+import { UniversalAdapter__factory } from "../types";
+
+const RECORD_NAMESPACE = "solar";
+const LEGACY_KEYS_KEY = "solar_keys";
+
+/**
+ * Moves records listed in the legacy `solar_keys` JSON array into the append-only key index.
+ * With `--to`, record payloads are copied from the old adapter into the new one; without it the
+ * records are indexed in place. Keys that are already indexed are skipped, so the task can be re-run.
+ * Copied records are owned by the account that first wrote them in the old adapter (read from its DataStored
+ * events), the same rule the dashboard applies to legacy records, so a later overwrite by someone else does
+ * not hand them the record. Copying needs the new
+ * adapter's importer, which is its deployer until `--finish` (or finishImport) gives the right up.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:migrate-solar-keys --from 0xOldAdapter --to 0xNewAdapter --from-block 4200000
+ *   - npx hardhat --network sepolia task:migrate-solar-keys --from 0xOldAdapter --to 0xNewAdapter --finish
+ */
+task(
+  "task:migrate-solar-keys",
+  "Migrates the legacy solar_keys list into the UniversalAdapter key index",
+)
+  .addParam("from", "UniversalAdapter holding the legacy solar_keys list")
+  .addOptionalParam(
+    "to",
+    "UniversalAdapter with the key index (defaults to --from)",
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan for the old adapter's DataStored events",
+    "0",
+  )
+  .addFlag("finish", "Give up the new adapter's import right once done")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const [signer] = await ethers.getSigners();
+
+    const source = await ethers.getContractAt(
+      "UniversalAdapter",
+      taskArguments.from,
+      signer,
+    );
+    const inPlace =
+      !taskArguments.to ||
+      ethers.getAddress(taskArguments.to) ===
+        ethers.getAddress(taskArguments.from);
+    const target = inPlace
+      ? source
+      : await ethers.getContractAt(
+          "UniversalAdapter",
+          taskArguments.to,
+          signer,
+        );
+
+    const keysBytes = await source.getData(LEGACY_KEYS_KEY);
+    if (ethers.dataLength(keysBytes) === 0) {
+      console.log("No legacy solar_keys list found, nothing to migrate");
+      return;
+    }
+    const recordIds: string[] = JSON.parse(ethers.toUtf8String(keysBytes));
+
+    // The first DataStored event of a key names the account that created it.
+    const writers = new Map<string, string>();
+    if (!inPlace) {
+      if ((await target.importer()) !== signer.address) {
+        throw new Error(
+          `${signer.address} is not the importer of ${taskArguments.to}, so it cannot copy records under their owners`,
+        );
+      }
+      const stored = await source.queryFilter(
+        source.filters.DataStored(),
+        Number(taskArguments.fromBlock),
+      );
+      for (const log of stored) {
+        if (!writers.has(log.args.key)) {
+          writers.set(log.args.key, log.args.sender);
+        }
+      }
+    }
+
+    let migrated = 0;
+    let skipped = 0;
+    for (const recordId of new Set(recordIds)) {
+      const key = `${RECORD_NAMESPACE}_${recordId}`;
+      if (await target.isIndexed(RECORD_NAMESPACE, key)) {
+        skipped++;
+        continue;
+      }
+
+      const value = await source.getData(key);
+      if (ethers.dataLength(value) === 0) {
+        console.warn(
+          `Skipping ${key}: listed in solar_keys but has no stored payload`,
+        );
+        skipped++;
+        continue;
+      }
+
+      const writer = writers.get(key);
+      if (!inPlace && !writer) {
+        console.warn(
+          `Skipping ${key}: no DataStored event found for it; lower --from-block`,
+        );
+        skipped++;
+        continue;
+      }
+
+      try {
+        const tx = inPlace
+          ? await target.indexKey(RECORD_NAMESPACE, key)
+          : await target.importData(RECORD_NAMESPACE, key, value, writer!);
+        await tx.wait();
+      } catch (error) {
+        throw new Error(
+          formatContractError(
+            error,
+            [UniversalAdapter__factory.createInterface()],
+            `Indexing ${key}`,
+          ),
+          { cause: error },
+        );
+      }
+      migrated++;
+      console.log(`Indexed ${key}`);
+    }
+
+    console.log(`Migration done: ${migrated} indexed, ${skipped} skipped`);
+    if (taskArguments.finish && !inPlace) {
+      await (await target.finishImport()).wait();
+      console.log(`Gave up the import right on ${taskArguments.to}`);
+    }
+  });
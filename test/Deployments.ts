@@ -0,0 +1,66 @@
+import fs from "fs";
+import { expect } from "chai";
+import hre, { ethers, fhevm } from "hardhat";
+
+import {
+  constructorArgs,
+  deployContract,
+  deploymentsPath,
+  writeDeployments,
+  DEFAULT_CONTRACTS,
+  DEPLOYMENTS_DIR,
+  NetworkDeployments,
+} from "../deploy/deployments";
+
+describe("task:verify-deployment", function () {
+  const file = deploymentsPath(hre.network.name);
+  let createdDir = false;
+
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite can only run on the fhevm mock`);
+      this.skip();
+    }
+    if (fs.existsSync(file)) {
+      throw new Error(`${file} already exists; move it out of the way first`);
+    }
+    createdDir = !fs.existsSync(DEPLOYMENTS_DIR);
+  });
+
+  afterEach(function () {
+    fs.rmSync(file, { force: true });
+    if (createdDir)
+      fs.rmSync(DEPLOYMENTS_DIR, { recursive: true, force: true });
+  });
+
+  it("passes for the default contract set", async function () {
+    const deployments: NetworkDeployments = {
+      network: hre.network.name,
+      chainId: Number((await ethers.provider.getNetwork()).chainId),
+      contracts: {},
+    };
+    for (const name of DEFAULT_CONTRACTS) {
+      deployments.contracts[name] = await deployContract(
+        hre,
+        name,
+        constructorArgs(name, deployments),
+      );
+    }
+    writeDeployments(deployments);
+
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => lines.push(args.join(" "));
+    let error: unknown;
+    try {
+      await hre.run("task:verify-deployment");
+    } catch (e) {
+      error = e;
+    } finally {
+      console.log = log;
+    }
+    expect(lines.filter((line) => line.includes("FAIL"))).to.deep.eq([]);
+    expect(error).to.eq(undefined);
+    expect(lines).to.include("All deployment checks passed");
+  });
+});
@@ -0,0 +1,103 @@
+/// <reference lib="dom" />
+/// <reference path="../frontend/web/src/type/window.d.ts" />
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import { HeliosNetFHE, HeliosNetFHE__factory } from "../types";
+
+type FrontendFhevm = typeof import("../frontend/web/src/fhevm");
+
+// Runs the dashboard's encryption helpers against the fhevm mock relayer of the in-process network, the
+// same mock-utils instance the dashboard uses against a local `npx hardhat node`.
+describe("frontend fhevm helpers", function () {
+  let web: FrontendFhevm;
+  let alice: HardhatEthersSigner;
+  let helios: HeliosNetFHE;
+  let heliosAddress: string;
+  let stubbedWindow = false;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite can only run on the fhevm mock`);
+      this.skip();
+    }
+    [, alice] = await ethers.getSigners();
+
+    // The relayer SDK bundle reads its exports off `window` when it is imported.
+    // Other suites must not see it, since libraries treat a global `window` as a browser.
+    stubbedWindow = !("window" in globalThis);
+    if (stubbedWindow) {
+      (globalThis as { window?: unknown }).window = { relayerSDK: {} };
+    }
+    web = await import("../frontend/web/src/fhevm");
+    const { createMockFhevmInstance } = await import(
+      "../frontend/web/src/localChain"
+    );
+    web.setFhevmInstance(await createMockFhevmInstance(ethers.provider));
+  });
+
+  after(function () {
+    web?.setFhevmInstance(null);
+    if (stubbedWindow) delete (globalThis as { window?: unknown }).window;
+  });
+
+  beforeEach(async function () {
+    const factory = (await ethers.getContractFactory(
+      "HeliosNetFHE",
+    )) as HeliosNetFHE__factory;
+    helios = (await factory.deploy()) as HeliosNetFHE;
+    heliosAddress = await helios.getAddress();
+    await (await helios.addProvider(alice.address)).wait();
+    await (await helios.openBatch()).wait();
+  });
+
+  async function submitAndDecrypt(input: {
+    handle: string;
+    inputProof: string;
+  }) {
+    await (
+      await helios.connect(alice).submitEnergy(input.handle, input.inputProof)
+    ).wait();
+    return fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      await helios.userEncryptedEnergyInBatch(1, alice.address),
+      heliosAddress,
+      alice,
+    );
+  }
+
+  it("converts kWh to tenths and rejects out-of-range output", function () {
+    expect(web.toEnergyUnits(0)).to.eq(0);
+    expect(web.toEnergyUnits(12.34)).to.eq(123);
+    expect(web.toEnergyUnits(0.05)).to.eq(1);
+    expect(web.fromEnergyUnits(web.toEnergyUnits(42.1))).to.eq(42.1);
+    for (const kWh of [-0.1, 429_496_729.6, Number.NaN, Infinity]) {
+      expect(() => web.toEnergyUnits(kWh)).to.throw("out of range");
+    }
+  });
+
+  it("encrypts a uint32 the contract accepts from that user", async function () {
+    const input = await web.encryptUint32(42, heliosAddress, alice.address);
+    expect(ethers.isHexString(input.handle, 32)).to.eq(true);
+    expect(await submitAndDecrypt(input)).to.eq(42n);
+  });
+
+  it("encrypts energy output in tenths of a kWh", async function () {
+    const input = await web.encryptEnergyOutput(
+      12.5,
+      heliosAddress,
+      alice.address,
+    );
+    expect(await submitAndDecrypt(input)).to.eq(125n);
+  });
+
+  it("binds the input proof to the user it was encrypted for", async function () {
+    const [owner] = await ethers.getSigners();
+    const input = await web.encryptUint32(7, heliosAddress, owner.address);
+    await expect(
+      helios.connect(alice).submitEnergy(input.handle, input.inputProof),
+    ).to.be.reverted;
+  });
+});
@@ -0,0 +1,269 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  HeliosDAO,
+  HeliosDAO__factory,
+  HeliosNetFHE,
+  HeliosNetFHE__factory,
+} from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+// Mirrors HeliosDAO.ProposalState.
+const State = {
+  Active: 0n,
+  Ended: 1n,
+  Tallying: 2n,
+  Succeeded: 3n,
+  Defeated: 4n,
+  Executed: 5n,
+};
+
+const VOTING_PERIOD = 3 * 24 * 60 * 60;
+
+async function deployFixture() {
+  const daoFactory = (await ethers.getContractFactory(
+    "HeliosDAO",
+  )) as HeliosDAO__factory;
+  const dao = (await daoFactory.deploy()) as HeliosDAO;
+  const daoAddress = await dao.getAddress();
+
+  const heliosFactory = (await ethers.getContractFactory(
+    "HeliosNetFHE",
+  )) as HeliosNetFHE__factory;
+  const helios = (await heliosFactory.deploy()) as HeliosNetFHE;
+
+  return { dao, daoAddress, helios };
+}
+
+describe("HeliosDAO", function () {
+  let signers: Signers;
+  let dao: HeliosDAO;
+  let daoAddress: string;
+  let helios: HeliosNetFHE;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite can only run on the fhevm mock`);
+      this.skip();
+    }
+
+    ({ dao, daoAddress, helios } = await deployFixture());
+    await fhevm.assertCoprocessorInitialized(dao, "HeliosDAO");
+    await (await dao.setVotingPower(signers.alice.address, 60)).wait();
+    await (await dao.setVotingPower(signers.bob.address, 30)).wait();
+    await (await dao.setVotingPower(signers.carol.address, 10)).wait();
+  });
+
+  async function propose(
+    target: string,
+    callData: string,
+    description: string,
+  ) {
+    await (
+      await dao.connect(signers.alice).propose(target, callData, description)
+    ).wait();
+    return dao.proposalCount();
+  }
+
+  // Proposes setting HeliosNetFHE's cooldown, which only takes effect once the DAO owns HeliosNetFHE.
+  async function proposeCooldown(seconds: number) {
+    const callData = helios.interface.encodeFunctionData("setCooldownSeconds", [
+      seconds,
+    ]);
+    return propose(
+      await helios.getAddress(),
+      callData,
+      `Set the decryption cooldown to ${seconds}s`,
+    );
+  }
+
+  async function vote(
+    voter: HardhatEthersSigner,
+    proposalId: bigint,
+    votesFor: number,
+    votesAgainst: number,
+  ) {
+    const encrypted = await fhevm
+      .createEncryptedInput(daoAddress, voter.address)
+      .add32(votesFor)
+      .add32(votesAgainst)
+      .encrypt();
+    await (
+      await dao
+        .connect(voter)
+        .castVote(
+          proposalId,
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.inputProof,
+        )
+    ).wait();
+  }
+
+  async function tally(proposalId: bigint) {
+    await time.increase(VOTING_PERIOD);
+    expect(await dao.proposalState(proposalId)).to.eq(State.Ended);
+    await (await dao.requestTally(proposalId)).wait();
+    expect(await dao.proposalState(proposalId)).to.eq(State.Tallying);
+    await fhevm.awaitDecryptionOracle();
+    return dao.proposals(proposalId);
+  }
+
+  it("tallies encrypted ballots and executes a passed proposal", async function () {
+    await (await helios.transferOwnership(daoAddress)).wait();
+    const proposalId = await proposeCooldown(5);
+    expect(await dao.proposalState(proposalId)).to.eq(State.Active);
+
+    await vote(signers.alice, proposalId, 40, 20);
+    await vote(signers.bob, proposalId, 0, 30);
+    await vote(signers.carol, proposalId, 10, 0);
+
+    const proposal = await tally(proposalId);
+    expect(proposal.forVotes).to.eq(50n);
+    expect(proposal.againstVotes).to.eq(50n);
+    expect(proposal.voterCount).to.eq(3n);
+    expect(await dao.proposalState(proposalId)).to.eq(State.Defeated);
+    await expect(dao.execute(proposalId)).to.be.revertedWithCustomError(
+      dao,
+      "NotSucceeded",
+    );
+
+    const retry = await proposeCooldown(5);
+    await vote(signers.alice, retry, 60, 0);
+    await vote(signers.bob, retry, 0, 30);
+    await tally(retry);
+    expect(await dao.proposalState(retry)).to.eq(State.Succeeded);
+
+    await expect(dao.execute(retry))
+      .to.emit(dao, "ProposalExecuted")
+      .withArgs(retry);
+    expect(await helios.cooldownSeconds()).to.eq(5n);
+    expect(await dao.proposalState(retry)).to.eq(State.Executed);
+    await expect(dao.execute(retry)).to.be.revertedWithCustomError(
+      dao,
+      "NotSucceeded",
+    );
+  });
+
+  it("ignores ballots that exceed the voter's power", async function () {
+    const proposalId = await proposeCooldown(5);
+    await vote(signers.carol, proposalId, 1000, 0);
+    await vote(signers.bob, proposalId, 20, 10);
+    await vote(signers.alice, proposalId, 40, 30);
+
+    const proposal = await tally(proposalId);
+    expect(proposal.forVotes).to.eq(20n);
+    expect(proposal.againstVotes).to.eq(10n);
+    expect(proposal.voterCount).to.eq(3n);
+  });
+
+  it("requires quorum and reports a failed call", async function () {
+    await (await dao.setGovernanceParameters(VOTING_PERIOD, 50n)).wait();
+    const quiet = await proposeCooldown(5);
+    await vote(signers.bob, quiet, 30, 0);
+    await tally(quiet);
+    expect(await dao.proposalState(quiet)).to.eq(State.Defeated);
+
+    // HeliosNetFHE is still owned by the deployer, so the passed call reverts.
+    const proposalId = await proposeCooldown(5);
+    await vote(signers.alice, proposalId, 60, 0);
+    await tally(proposalId);
+    await expect(dao.execute(proposalId)).to.be.revertedWithCustomError(
+      dao,
+      "ExecutionFailed",
+    );
+    expect(await dao.proposalState(proposalId)).to.eq(State.Succeeded);
+  });
+
+  it("governs itself once it owns itself", async function () {
+    await (await dao.transferOwnership(daoAddress)).wait();
+    await expect(
+      dao.setVotingPower(signers.carol.address, 0),
+    ).to.be.revertedWithCustomError(dao, "NotOwner");
+
+    const callData = dao.interface.encodeFunctionData("setVotingPower", [
+      signers.carol.address,
+      0,
+    ]);
+    const proposalId = await propose(daoAddress, callData, "Remove carol");
+    await vote(signers.alice, proposalId, 60, 0);
+    await tally(proposalId);
+    await (await dao.execute(proposalId)).wait();
+
+    expect(await dao.votingPower(signers.carol.address)).to.eq(0n);
+    expect(await dao.totalVotingPower()).to.eq(90n);
+  });
+
+  it("guards proposing, voting and tallying", async function () {
+    const [, , , , outsider] = await ethers.getSigners();
+    await expect(
+      dao.connect(outsider).propose(daoAddress, "0x", "Outsider proposal"),
+    ).to.be.revertedWithCustomError(dao, "NotMember");
+    await expect(
+      dao.connect(signers.alice).propose(daoAddress, "0x", ""),
+    ).to.be.revertedWithCustomError(dao, "InvalidParameter");
+    await expect(dao.proposalState(1n)).to.be.revertedWithCustomError(
+      dao,
+      "UnknownProposal",
+    );
+
+    const proposalId = await proposeCooldown(5);
+    await expect(dao.requestTally(proposalId)).to.be.revertedWithCustomError(
+      dao,
+      "VotingNotEnded",
+    );
+    await vote(signers.alice, proposalId, 60, 0);
+    await expect(
+      vote(signers.alice, proposalId, 60, 0),
+    ).to.be.revertedWithCustomError(dao, "AlreadyVoted");
+
+    await time.increase(VOTING_PERIOD);
+    await expect(
+      vote(signers.bob, proposalId, 30, 0),
+    ).to.be.revertedWithCustomError(dao, "VotingClosed");
+    await (await dao.requestTally(proposalId)).wait();
+    await expect(dao.requestTally(proposalId)).to.be.revertedWithCustomError(
+      dao,
+      "TallyAlreadyRequested",
+    );
+  });
+
+  it("lets only the owner manage members and parameters", async function () {
+    await expect(
+      dao.connect(signers.alice).setVotingPower(signers.alice.address, 100),
+    ).to.be.revertedWithCustomError(dao, "NotOwner");
+    await expect(
+      dao.connect(signers.alice).setGovernanceParameters(60, 1n),
+    ).to.be.revertedWithCustomError(dao, "NotOwner");
+    await expect(
+      dao.setGovernanceParameters(0, 1n),
+    ).to.be.revertedWithCustomError(dao, "InvalidParameter");
+
+    await expect(dao.setGovernanceParameters(60, 25n))
+      .to.emit(dao, "GovernanceParametersUpdated")
+      .withArgs(60n, 25n);
+    await expect(dao.setVotingPower(signers.bob.address, 45))
+      .to.emit(dao, "VotingPowerSet")
+      .withArgs(signers.bob.address, 45n);
+    expect(await dao.totalVotingPower()).to.eq(115n);
+  });
+});
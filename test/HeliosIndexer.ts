@@ -0,0 +1,158 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { AddressInfo } from "node:net";
+import type http from "node:http";
+
+import { createApiServer } from "../src/indexer/api";
+import {
+  BatchRow,
+  IndexerDatabase,
+  RecordRow,
+  SubmissionRow,
+} from "../src/indexer/db";
+import { HeliosIndexer } from "../src/indexer/indexer";
+import {
+  HeliosNetFHE,
+  HeliosNetFHE__factory,
+  UniversalAdapter,
+  UniversalAdapter__factory,
+} from "../types";
+
+async function deployFixture() {
+  const helios = (await (
+    (await ethers.getContractFactory("HeliosNetFHE")) as HeliosNetFHE__factory
+  ).deploy()) as HeliosNetFHE;
+  const adapter = (await (
+    (await ethers.getContractFactory(
+      "UniversalAdapter",
+    )) as UniversalAdapter__factory
+  ).deploy()) as UniversalAdapter;
+
+  return {
+    helios,
+    heliosAddress: await helios.getAddress(),
+    adapter,
+    adapterAddress: await adapter.getAddress(),
+  };
+}
+
+describe("HeliosIndexer", function () {
+  let alice: HardhatEthersSigner;
+  let helios: HeliosNetFHE;
+  let heliosAddress: string;
+  let adapter: UniversalAdapter;
+  let adapterAddress: string;
+  let db: IndexerDatabase;
+  let indexer: HeliosIndexer;
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async function () {
+    [, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite can only run on the fhevm mock`);
+      this.skip();
+    }
+
+    ({ helios, heliosAddress, adapter, adapterAddress } =
+      await deployFixture());
+    db = new IndexerDatabase(":memory:");
+    indexer = new HeliosIndexer(ethers.provider, db, {
+      heliosAddress,
+      adapterAddress,
+      startBlock: await ethers.provider.getBlockNumber(),
+      blockRange: 2,
+      confirmations: 0,
+      pollIntervalMs: 1000,
+    });
+    server = createApiServer(db, () => ({
+      [heliosAddress]: db.getCursor(heliosAddress),
+    }));
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    if (!server) return;
+    await new Promise((resolve) => server.close(resolve));
+    db.close();
+  });
+
+  async function get<T>(path: string) {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: (await response.json()) as T };
+  }
+
+  it("serves batches, submissions and records synced from the chain", async function () {
+    await (await helios.addProvider(alice.address)).wait();
+    await (await helios.openBatch()).wait();
+    const encrypted = await fhevm
+      .createEncryptedInput(heliosAddress, alice.address)
+      .add32(42)
+      .encrypt();
+    await (
+      await helios
+        .connect(alice)
+        .submitEnergy(encrypted.handles[0], encrypted.inputProof)
+    ).wait();
+    await (await helios.closeBatch()).wait();
+    await (await adapter.connect(alice).setData("solar_1", "0x0102")).wait();
+
+    // BatchOpened, EnergySubmitted, BatchClosed and DataStored, over several block ranges.
+    expect(await indexer.syncOnce()).to.eq(4);
+    expect(await indexer.syncOnce()).to.eq(0);
+
+    const health = await get<{ cursors: Record<string, number | null> }>(
+      "/health",
+    );
+    expect(health.body.cursors[heliosAddress]).to.eq(
+      await ethers.provider.getBlockNumber(),
+    );
+
+    const batch = await get<BatchRow & { submissions: SubmissionRow[] }>(
+      "/batches/1",
+    );
+    expect(batch.status).to.eq(200);
+    expect(batch.body.status).to.eq("closed");
+    expect(batch.body.submissions).to.have.length(1);
+    expect(batch.body.submissions[0].provider).to.eq(
+      alice.address.toLowerCase(),
+    );
+    const [submitted] = await helios.queryFilter(
+      helios.filters.EnergySubmitted(),
+    );
+    expect(batch.body.submissions[0].handle).to.eq(
+      submitted.args.encryptedEnergy,
+    );
+
+    const records = await get<RecordRow[]>("/records?prefix=solar_");
+    expect(records.body).to.have.length(1);
+    expect(records.body[0]).to.include({
+      key: "solar_1",
+      sender: alice.address.toLowerCase(),
+      value: "0x0102",
+    });
+    expect((await get("/batches/2")).status).to.eq(404);
+  });
+
+  it("attributes imported records to their original writer", async function () {
+    await (
+      await adapter.importData("solar", "solar_7", "0x0a", alice.address)
+    ).wait();
+    await indexer.syncOnce();
+
+    const records = await get<RecordRow[]>("/records?prefix=solar_");
+    expect(records.body).to.have.length(1);
+    expect(records.body[0]).to.include({
+      key: "solar_7",
+      sender: alice.address.toLowerCase(),
+      value: "0x0a",
+    });
+  });
+});
@@ -0,0 +1,582 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+import {
+  HeliosLendingPool,
+  HeliosLendingPool__factory,
+  HeliosNetFHE,
+  HeliosNetFHE__factory,
+} from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  lender: HardhatEthersSigner;
+};
+
+// Defaults: 100_000 gwei of credit per energy unit at a 50% loan-to-value, 8% APR.
+const CREDIT_PER_UNIT = ethers.parseUnits("100000", "gwei");
+const ONE_YEAR = 365 * 24 * 60 * 60;
+
+async function deployFixture() {
+  const heliosFactory = (await ethers.getContractFactory(
+    "HeliosNetFHE",
+  )) as HeliosNetFHE__factory;
+  const helios = (await heliosFactory.deploy()) as HeliosNetFHE;
+  const heliosAddress = await helios.getAddress();
+
+  const poolFactory = (await ethers.getContractFactory(
+    "HeliosLendingPool",
+  )) as HeliosLendingPool__factory;
+  const pool = (await poolFactory.deploy(heliosAddress)) as HeliosLendingPool;
+  const poolAddress = await pool.getAddress();
+
+  return { helios, heliosAddress, pool, poolAddress };
+}
+
+describe("HeliosLendingPool", function () {
+  let signers: Signers;
+  let helios: HeliosNetFHE;
+  let heliosAddress: string;
+  let pool: HeliosLendingPool;
+  let poolAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      lender: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite can only run on the fhevm mock`);
+      this.skip();
+    }
+
+    ({ helios, heliosAddress, pool, poolAddress } = await deployFixture());
+    await fhevm.assertCoprocessorInitialized(helios, "HeliosNetFHE");
+  });
+
+  // Runs one batch in which `provider` produces `units`, and returns its id once closed.
+  async function produceBatch(provider: HardhatEthersSigner, units: number) {
+    await (await helios.addProvider(provider.address)).wait();
+    await (await helios.setCooldownSeconds(0)).wait();
+    await (await helios.openBatch()).wait();
+    const encrypted = await fhevm
+      .createEncryptedInput(heliosAddress, provider.address)
+      .add32(units)
+      .encrypt();
+    await (
+      await helios
+        .connect(provider)
+        .submitEnergy(encrypted.handles[0], encrypted.inputProof)
+    ).wait();
+    await (await helios.closeBatch()).wait();
+    return helios.currentBatchId();
+  }
+
+  async function pledge(provider: HardhatEthersSigner, batchId: bigint) {
+    await (
+      await helios.connect(provider).grantEnergyAccess(batchId, poolAddress)
+    ).wait();
+    await (await pool.connect(provider).pledgeBatch(batchId)).wait();
+  }
+
+  // Opens a batch and pledges `units` of projected output for it; the batch stays open.
+  async function projectBatch(provider: HardhatEthersSigner, units: number) {
+    await (await helios.addProvider(provider.address)).wait();
+    await (await helios.setCooldownSeconds(0)).wait();
+    await (await helios.openBatch()).wait();
+    const batchId = await helios.currentBatchId();
+    const encrypted = await fhevm
+      .createEncryptedInput(poolAddress, provider.address)
+      .add32(units)
+      .encrypt();
+    await (
+      await pool
+        .connect(provider)
+        .pledgeProjection(batchId, encrypted.handles[0], encrypted.inputProof)
+    ).wait();
+    return batchId;
+  }
+
+  // Submits `units` (if any) to the open batch, shares them with the pool and closes the batch.
+  async function deliver(provider: HardhatEthersSigner, units: number | null) {
+    const batchId = await helios.currentBatchId();
+    if (units !== null) {
+      const encrypted = await fhevm
+        .createEncryptedInput(heliosAddress, provider.address)
+        .add32(units)
+        .encrypt();
+      await (
+        await helios
+          .connect(provider)
+          .submitEnergy(encrypted.handles[0], encrypted.inputProof)
+      ).wait();
+      await (
+        await helios.connect(provider).grantEnergyAccess(batchId, poolAddress)
+      ).wait();
+    }
+    await (await helios.closeBatch()).wait();
+  }
+
+  async function decryptCollateral(provider: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await pool.collateralEnergy(provider.address),
+      poolAddress,
+      provider,
+    );
+  }
+
+  async function borrow(borrower: HardhatEthersSigner, amount: bigint) {
+    await (await pool.connect(borrower).requestBorrow(amount)).wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  describe("lenders", function () {
+    it("mints shares on deposit and redeems them on withdraw", async function () {
+      const amount = ethers.parseEther("2");
+      await expect(pool.connect(signers.lender).deposit({ value: amount }))
+        .to.emit(pool, "Deposited")
+        .withArgs(signers.lender.address, amount, amount);
+      expect(await pool.balanceOf(signers.lender.address)).to.eq(amount);
+
+      await expect(
+        pool.connect(signers.lender).withdraw(amount + 1n),
+      ).to.be.revertedWithCustomError(pool, "InsufficientShares");
+      await expect(
+        pool.connect(signers.lender).withdraw(amount / 2n),
+      ).to.changeEtherBalance(signers.lender, amount / 2n);
+      expect(await pool.depositedOf(signers.lender.address)).to.eq(amount / 2n);
+    });
+
+    it("rejects deposits while paused", async function () {
+      await (await pool.pause()).wait();
+      await expect(
+        pool.connect(signers.lender).deposit({ value: 1n }),
+      ).to.be.revertedWithCustomError(pool, "Paused");
+    });
+  });
+
+  describe("collateral", function () {
+    it("only accepts closed batches the provider has shared with the pool", async function () {
+      await expect(
+        pool.connect(signers.alice).pledgeBatch(1),
+      ).to.be.revertedWithCustomError(pool, "NotProvider");
+
+      await (await helios.addProvider(signers.alice.address)).wait();
+      await (await helios.openBatch()).wait();
+      await expect(
+        pool.connect(signers.alice).pledgeBatch(1),
+      ).to.be.revertedWithCustomError(pool, "BatchNotClosed");
+
+      await (await helios.closeBatch()).wait();
+      await expect(
+        pool.connect(signers.alice).pledgeBatch(1),
+      ).to.be.revertedWithCustomError(pool, "NotInitialized");
+
+      const batchId = await produceBatch(signers.alice, 100);
+      await expect(
+        pool.connect(signers.alice).pledgeBatch(batchId),
+      ).to.be.revertedWithCustomError(pool, "CollateralNotShared");
+
+      await expect(
+        helios.connect(signers.alice).grantEnergyAccess(batchId, poolAddress),
+      )
+        .to.emit(helios, "EnergyAccessGranted")
+        .withArgs(signers.alice.address, batchId, poolAddress);
+      await expect(pool.connect(signers.alice).pledgeBatch(batchId))
+        .to.emit(pool, "CollateralPledged")
+        .withArgs(signers.alice.address, batchId);
+      await expect(
+        pool.connect(signers.alice).pledgeBatch(batchId),
+      ).to.be.revertedWithCustomError(pool, "BatchAlreadyPledged");
+    });
+
+    it("caps pledged batches at the per-batch limit", async function () {
+      await pledge(
+        signers.alice,
+        await produceBatch(signers.alice, 4_000_000_000),
+      );
+      expect(await decryptCollateral(signers.alice)).to.eq(5_000n);
+
+      await (await pool.setMaxBatchUnits(2_000)).wait();
+      await pledge(signers.alice, await produceBatch(signers.alice, 2_500));
+      expect(await decryptCollateral(signers.alice)).to.eq(7_000n);
+    });
+
+    it("sums pledged batches into encrypted collateral the borrower can decrypt", async function () {
+      await pledge(signers.alice, await produceBatch(signers.alice, 120));
+      await pledge(signers.alice, await produceBatch(signers.alice, 80));
+
+      expect(await pool.pledgedBatchCount(signers.alice.address)).to.eq(2n);
+      expect(await decryptCollateral(signers.alice)).to.eq(200n);
+    });
+  });
+
+  describe("projections", function () {
+    it("only accepts projections for batches that have not closed", async function () {
+      const closed = await produceBatch(signers.alice, 100);
+      const encrypted = await fhevm
+        .createEncryptedInput(poolAddress, signers.alice.address)
+        .add32(100)
+        .encrypt();
+      await expect(
+        pool
+          .connect(signers.alice)
+          .pledgeProjection(closed, encrypted.handles[0], encrypted.inputProof),
+      ).to.be.revertedWithCustomError(pool, "BatchAlreadyClosed");
+
+      const batchId = await projectBatch(signers.alice, 100);
+      expect(await pool.pledgedBatchCount(signers.alice.address)).to.eq(1n);
+      // A later batch could not be settled before it closes.
+      const future = await fhevm
+        .createEncryptedInput(poolAddress, signers.alice.address)
+        .add32(100)
+        .encrypt();
+      await expect(
+        pool
+          .connect(signers.alice)
+          .pledgeProjection(batchId + 1n, future.handles[0], future.inputProof),
+      ).to.be.revertedWithCustomError(pool, "BatchNotOpen");
+      await expect(
+        pool.settleProjection(signers.alice.address, batchId),
+      ).to.be.revertedWithCustomError(pool, "BatchNotClosed");
+      await expect(
+        pool.settleProjection(signers.alice.address, closed),
+      ).to.be.revertedWithCustomError(pool, "NoProjection");
+    });
+
+    it("takes shortfalls against the projection out of the collateral", async function () {
+      const short = await projectBatch(signers.alice, 1000);
+      await deliver(signers.alice, 600);
+      const over = await projectBatch(signers.alice, 100);
+      await deliver(signers.alice, 150);
+      expect(await decryptCollateral(signers.alice)).to.eq(1100n);
+
+      await expect(
+        pool
+          .connect(signers.bob)
+          .settleProjection(signers.alice.address, short),
+      )
+        .to.emit(pool, "ProjectionSettled")
+        .withArgs(signers.alice.address, short);
+      await (await pool.settleProjection(signers.alice.address, over)).wait();
+      await expect(
+        pool.settleProjection(signers.alice.address, over),
+      ).to.be.revertedWithCustomError(pool, "ProjectionAlreadySettled");
+
+      // Surplus production is not credited beyond what was pledged.
+      expect(await decryptCollateral(signers.alice)).to.eq(700n);
+      const shortfalls = await Promise.all(
+        [short, over].map(async (batchId) =>
+          fhevm.userDecryptEbool(
+            await pool.projectionShortfall(signers.alice.address, batchId),
+            poolAddress,
+            signers.alice,
+          ),
+        ),
+      );
+      expect(shortfalls).to.deep.eq([true, false]);
+    });
+
+    it("caps projections at the per-batch limit", async function () {
+      await expect(pool.setMaxBatchUnits(0)).to.be.revertedWithCustomError(
+        pool,
+        "InvalidParameter",
+      );
+      await expect(pool.setMaxBatchUnits(2_000))
+        .to.emit(pool, "MaxBatchUnitsUpdated")
+        .withArgs(2_000);
+
+      const batchId = await projectBatch(signers.alice, 4_000_000_000);
+      expect(await decryptCollateral(signers.alice)).to.eq(2_000n);
+      await deliver(signers.alice, 2_500);
+      await (
+        await pool.settleProjection(signers.alice.address, batchId)
+      ).wait();
+      expect(await decryptCollateral(signers.alice)).to.eq(2_000n);
+    });
+
+    it("pledges projections for the open batch from the CLI", async function () {
+      await (await helios.addProvider(signers.owner.address)).wait();
+      await (await helios.openBatch()).wait();
+      const log = console.log;
+      console.log = () => {};
+      try {
+        await hre.run("task:pool-pledge-projection", {
+          kwh: "12.5",
+          pool: poolAddress,
+        });
+      } finally {
+        console.log = log;
+      }
+      expect(await pool.isBatchPledged(signers.owner.address, 1)).to.eq(true);
+      expect(await decryptCollateral(signers.owner)).to.eq(125n);
+    });
+
+    it("counts unsubmitted production as zero", async function () {
+      const batchId = await projectBatch(signers.alice, 500);
+      await deliver(signers.alice, null);
+      await (
+        await pool.settleProjection(signers.alice.address, batchId)
+      ).wait();
+      expect(await decryptCollateral(signers.alice)).to.eq(0n);
+    });
+  });
+
+  describe("borrowing", function () {
+    beforeEach(async function () {
+      await (
+        await pool
+          .connect(signers.lender)
+          .deposit({ value: ethers.parseEther("10") })
+      ).wait();
+    });
+
+    it("requires collateral and one request at a time", async function () {
+      await expect(
+        pool.connect(signers.alice).requestBorrow(1n),
+      ).to.be.revertedWithCustomError(pool, "NoCollateral");
+
+      await pledge(signers.alice, await produceBatch(signers.alice, 100));
+      await (await pool.connect(signers.alice).requestBorrow(1n)).wait();
+      await expect(
+        pool.connect(signers.alice).requestBorrow(1n),
+      ).to.be.revertedWithCustomError(pool, "BorrowPending");
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("pays out loans within the encrypted credit limit and rejects the rest", async function () {
+      await pledge(signers.alice, await produceBatch(signers.alice, 1000));
+      // 1000 units * 100_000 gwei * 50% = 0.05 ETH of credit.
+      const limit = (1000n * CREDIT_PER_UNIT) / 2n;
+
+      const balanceBefore = await ethers.provider.getBalance(
+        signers.alice.address,
+      );
+      await borrow(signers.alice, ethers.parseEther("0.04"));
+      expect(await pool.principalOf(signers.alice.address)).to.eq(
+        ethers.parseEther("0.04"),
+      );
+      expect(await ethers.provider.getBalance(signers.alice.address)).to.be.gt(
+        balanceBefore,
+      );
+
+      // Debt plus the new amount would exceed the limit.
+      await borrow(signers.alice, limit - ethers.parseEther("0.03"));
+      const rejected = await pool.queryFilter(pool.filters.BorrowRejected());
+      expect(rejected).to.have.length(1);
+      expect(await pool.principalOf(signers.alice.address)).to.eq(
+        ethers.parseEther("0.04"),
+      );
+      expect(await pool.pendingBorrowAmount(signers.alice.address)).to.eq(0n);
+    });
+
+    it("accrues interest to borrowers and lenders", async function () {
+      await pledge(signers.alice, await produceBatch(signers.alice, 1000));
+      const principal = ethers.parseEther("0.04");
+      await borrow(signers.alice, principal);
+
+      await time.increase(ONE_YEAR);
+      const debt = await pool.debtOf(signers.alice.address);
+      // 8% APR, simple interest between accruals.
+      expect(debt).to.be.closeTo((principal * 108n) / 100n, 10n ** 12n);
+      expect(await pool.balanceOf(signers.lender.address)).to.be.gt(
+        ethers.parseEther("10"),
+      );
+
+      // Overpaying refunds the excess and clears the loan.
+      await expect(
+        pool
+          .connect(signers.alice)
+          .repay({ value: debt + ethers.parseEther("1") }),
+      ).to.emit(pool, "Repaid");
+      expect(await pool.debtOf(signers.alice.address)).to.eq(0n);
+      expect(await pool.principalOf(signers.alice.address)).to.eq(0n);
+      await expect(
+        pool.connect(signers.alice).repay({ value: 1n }),
+      ).to.be.revertedWithCustomError(pool, "NoDebt");
+
+      const shares = await pool.sharesOf(signers.lender.address);
+      await expect(
+        pool.connect(signers.lender).withdraw(shares),
+      ).to.changeEtherBalance(
+        signers.lender,
+        await ethers.provider.getBalance(poolAddress),
+      );
+    });
+
+    it("applies partial repayments to interest first", async function () {
+      await pledge(signers.alice, await produceBatch(signers.alice, 1000));
+      const principal = ethers.parseEther("0.04");
+      await borrow(signers.alice, principal);
+      await time.increase(ONE_YEAR);
+
+      const interest = (await pool.debtOf(signers.alice.address)) - principal;
+      await (
+        await pool.connect(signers.alice).repay({ value: interest / 2n })
+      ).wait();
+      expect(await pool.principalOf(signers.alice.address)).to.eq(principal);
+
+      await (
+        await pool.connect(signers.alice).repay({ value: interest })
+      ).wait();
+      expect(await pool.principalOf(signers.alice.address)).to.be.lt(principal);
+    });
+  });
+
+  describe("liquidation", function () {
+    const principal = ethers.parseEther("0.04");
+
+    beforeEach(async function () {
+      await (
+        await pool
+          .connect(signers.lender)
+          .deposit({ value: ethers.parseEther("10") })
+      ).wait();
+    });
+
+    async function healthCheck(borrower: HardhatEthersSigner) {
+      await (
+        await pool.connect(signers.bob).requestHealthCheck(borrower.address)
+      ).wait();
+      await fhevm.awaitDecryptionOracle();
+      return pool.isUndercollateralized(borrower.address);
+    }
+
+    it("keeps healthy positions out of reach of keepers", async function () {
+      await expect(
+        pool.requestHealthCheck(signers.alice.address),
+      ).to.be.revertedWithCustomError(pool, "NoDebt");
+
+      await pledge(signers.alice, await produceBatch(signers.alice, 1000));
+      await borrow(signers.alice, principal);
+      // 1000 units at the 75% threshold back 0.075 ETH of debt.
+      expect(await healthCheck(signers.alice)).to.eq(false);
+      await expect(
+        pool.connect(signers.bob).liquidate(signers.alice.address),
+      ).to.be.revertedWithCustomError(pool, "NotLiquidatable");
+    });
+
+    it("flags and liquidates positions whose projected output fell short", async function () {
+      await expect(pool.fundKeeperReserve({ value: ethers.parseEther("1") }))
+        .to.emit(pool, "KeeperReserveFunded")
+        .withArgs(signers.owner.address, ethers.parseEther("1"));
+      const batchId = await projectBatch(signers.alice, 1000);
+      await borrow(signers.alice, principal);
+      await deliver(signers.alice, 300);
+      await (
+        await pool.settleProjection(signers.alice.address, batchId)
+      ).wait();
+
+      // 300 units at the 75% threshold back only 0.0225 ETH.
+      await (
+        await pool
+          .connect(signers.bob)
+          .requestHealthCheck(signers.alice.address)
+      ).wait();
+      await expect(
+        pool.requestHealthCheck(signers.alice.address),
+      ).to.be.revertedWithCustomError(pool, "HealthCheckPending");
+      await fhevm.awaitDecryptionOracle();
+      expect(await pool.isUndercollateralized(signers.alice.address)).to.eq(
+        true,
+      );
+      await expect(
+        pool.connect(signers.alice).requestBorrow(1n),
+      ).to.be.revertedWithCustomError(pool, "PositionUndercollateralized");
+
+      await expect(
+        pool.connect(signers.alice).liquidate(signers.alice.address),
+      ).to.be.revertedWithCustomError(pool, "SelfLiquidation");
+
+      const balanceBefore = await ethers.provider.getBalance(
+        signers.bob.address,
+      );
+      const liquidityBefore = await pool.availableLiquidity();
+      await expect(
+        pool.connect(signers.bob).liquidate(signers.alice.address),
+      ).to.emit(pool, "Liquidated");
+      const [liquidated] = await pool.queryFilter(pool.filters.Liquidated());
+      expect(liquidated.args.keeper).to.eq(signers.bob.address);
+      expect(liquidated.args.debtWrittenOff).to.be.gt(principal);
+      // The keeper earns 2% of the written-off debt.
+      expect(liquidated.args.keeperReward).to.eq(
+        (liquidated.args.debtWrittenOff * 200n) / 10_000n,
+      );
+      expect(await ethers.provider.getBalance(signers.bob.address)).to.be.gt(
+        balanceBefore,
+      );
+      // The reward comes out of the keeper reserve, not out of lender liquidity.
+      expect(await pool.availableLiquidity()).to.eq(liquidityBefore);
+      expect(await pool.keeperReserve()).to.eq(
+        ethers.parseEther("1") - liquidated.args.keeperReward,
+      );
+      expect(await pool.debtOf(signers.alice.address)).to.eq(0n);
+      expect(await pool.totalBorrows()).to.eq(0n);
+      expect(await pool.pledgedBatchCount(signers.alice.address)).to.eq(0n);
+      expect(await decryptCollateral(signers.alice)).to.eq(0n);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await pool.seizedEnergy(),
+          poolAddress,
+          signers.owner,
+        ),
+      ).to.eq(300n);
+    });
+
+    it("has the keeper re-check loans only after they change or age", async function () {
+      await pledge(signers.alice, await produceBatch(signers.alice, 1000));
+      await borrow(signers.alice, principal);
+
+      const checksAfterScan = async () => {
+        const log = console.log;
+        console.log = () => {};
+        try {
+          await hre.run("task:keeper", { pool: poolAddress, minAge: "3600" });
+        } finally {
+          console.log = log;
+        }
+        return (await pool.queryFilter(pool.filters.HealthCheckRequested()))
+          .length;
+      };
+      expect(await checksAfterScan()).to.eq(1);
+      expect(await checksAfterScan()).to.eq(1);
+
+      await (
+        await pool.connect(signers.alice).repay({ value: principal / 2n })
+      ).wait();
+      expect(await checksAfterScan()).to.eq(2);
+      expect(await checksAfterScan()).to.eq(2);
+
+      await time.increase(3600);
+      expect(await checksAfterScan()).to.eq(3);
+      expect(await pool.isUndercollateralized(signers.alice.address)).to.eq(
+        false,
+      );
+    });
+
+    it("validates liquidation parameters against the loan-to-value", async function () {
+      await expect(
+        pool.setLiquidationParameters(4_000, 0),
+      ).to.be.revertedWithCustomError(pool, "InvalidParameter");
+      await expect(
+        pool.setRiskParameters(100_000, 8_000),
+      ).to.be.revertedWithCustomError(pool, "InvalidParameter");
+      await expect(pool.setLiquidationParameters(8_500, 500))
+        .to.emit(pool, "LiquidationParametersUpdated")
+        .withArgs(8_500, 500);
+    });
+  });
+});
@@ -0,0 +1,355 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+import { HeliosNetFHE, HeliosNetFHE__factory } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const COOLDOWN_SECONDS = 60;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "HeliosNetFHE",
+  )) as HeliosNetFHE__factory;
+  const helios = (await factory.deploy()) as HeliosNetFHE;
+  const heliosAddress = await helios.getAddress();
+
+  return { helios, heliosAddress };
+}
+
+describe("HeliosNetFHE", function () {
+  let signers: Signers;
+  let helios: HeliosNetFHE;
+  let heliosAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite can only run on the fhevm mock`);
+      this.skip();
+    }
+
+    ({ helios, heliosAddress } = await deployFixture());
+    await fhevm.assertCoprocessorInitialized(helios, "HeliosNetFHE");
+  });
+
+  async function submit(signer: HardhatEthersSigner, units: number) {
+    const encrypted = await fhevm
+      .createEncryptedInput(heliosAddress, signer.address)
+      .add32(units)
+      .encrypt();
+    return helios
+      .connect(signer)
+      .submitEnergy(encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function decryptBatchTotal(batchId: bigint) {
+    return fhevm.debugger.decryptEuint(
+      FhevmType.euint32,
+      await helios.totalEncryptedEnergyInBatch(batchId),
+    );
+  }
+
+  async function openBatchWithProviders(...providers: HardhatEthersSigner[]) {
+    for (const provider of providers) {
+      await (await helios.addProvider(provider.address)).wait();
+    }
+    await (await helios.openBatch()).wait();
+    return helios.currentBatchId();
+  }
+
+  describe("owner administration", function () {
+    it("rejects admin calls from non-owners", async function () {
+      const asAlice = helios.connect(signers.alice);
+      await expect(
+        asAlice.addProvider(signers.alice.address),
+      ).to.be.revertedWithCustomError(helios, "NotOwner");
+      await expect(asAlice.openBatch()).to.be.revertedWithCustomError(
+        helios,
+        "NotOwner",
+      );
+      await expect(asAlice.pause()).to.be.revertedWithCustomError(
+        helios,
+        "NotOwner",
+      );
+      await expect(asAlice.setCooldownSeconds(0)).to.be.revertedWithCustomError(
+        helios,
+        "NotOwner",
+      );
+    });
+
+    it("adds and removes providers idempotently", async function () {
+      await expect(helios.addProvider(signers.alice.address))
+        .to.emit(helios, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      await expect(helios.addProvider(signers.alice.address)).not.to.emit(
+        helios,
+        "ProviderAdded",
+      );
+      expect(await helios.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(helios.removeProvider(signers.alice.address))
+        .to.emit(helios, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await helios.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("blocks batch actions while paused", async function () {
+      await expect(helios.pause()).to.emit(helios, "ContractPaused");
+      await expect(helios.pause()).to.be.revertedWithCustomError(
+        helios,
+        "Paused",
+      );
+      await expect(helios.openBatch()).to.be.revertedWithCustomError(
+        helios,
+        "Paused",
+      );
+
+      await expect(helios.unpause()).to.emit(helios, "ContractUnpaused");
+      await expect(helios.unpause()).to.be.revertedWithCustomError(
+        helios,
+        "Paused",
+      );
+    });
+  });
+
+  describe("batches", function () {
+    it("opens and closes batches in sequence", async function () {
+      await expect(helios.closeBatch()).to.be.revertedWithCustomError(
+        helios,
+        "BatchClosedOrInvalid",
+      );
+
+      await expect(helios.openBatch())
+        .to.emit(helios, "BatchOpened")
+        .withArgs(1);
+      expect(await helios.isBatchOpen(1)).to.eq(true);
+
+      await expect(helios.closeBatch())
+        .to.emit(helios, "BatchClosed")
+        .withArgs(1);
+      expect(await helios.isBatchOpen(1)).to.eq(false);
+      await expect(helios.closeBatch()).to.be.revertedWithCustomError(
+        helios,
+        "BatchClosedOrInvalid",
+      );
+
+      await expect(helios.openBatch())
+        .to.emit(helios, "BatchOpened")
+        .withArgs(2);
+      expect(await helios.currentBatchId()).to.eq(2);
+    });
+  });
+
+  describe("energy submissions", function () {
+    it("only accepts registered providers", async function () {
+      await openBatchWithProviders(signers.alice);
+
+      await expect(submit(signers.bob, 10)).to.be.revertedWithCustomError(
+        helios,
+        "NotProvider",
+      );
+
+      await (await helios.removeProvider(signers.alice.address)).wait();
+      await expect(submit(signers.alice, 10)).to.be.revertedWithCustomError(
+        helios,
+        "NotProvider",
+      );
+    });
+
+    it("rejects submissions without an open batch or while paused", async function () {
+      await (await helios.addProvider(signers.alice.address)).wait();
+      await expect(submit(signers.alice, 10)).to.be.revertedWithCustomError(
+        helios,
+        "BatchClosedOrInvalid",
+      );
+
+      await (await helios.openBatch()).wait();
+      await (await helios.pause()).wait();
+      await expect(submit(signers.alice, 10)).to.be.revertedWithCustomError(
+        helios,
+        "Paused",
+      );
+    });
+
+    it("enforces the per-provider cooldown", async function () {
+      await openBatchWithProviders(signers.alice, signers.bob);
+
+      await (await submit(signers.alice, 10)).wait();
+      await expect(submit(signers.alice, 10)).to.be.revertedWithCustomError(
+        helios,
+        "CooldownActive",
+      );
+      // Cooldowns are tracked per provider.
+      await (await submit(signers.bob, 10)).wait();
+
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(submit(signers.alice, 10)).to.emit(
+        helios,
+        "EnergySubmitted",
+      );
+    });
+
+    it("honours an updated cooldown", async function () {
+      await openBatchWithProviders(signers.alice);
+      await expect(helios.setCooldownSeconds(0))
+        .to.emit(helios, "CooldownSecondsUpdated")
+        .withArgs(COOLDOWN_SECONDS, 0);
+
+      await (await submit(signers.alice, 10)).wait();
+      await (await submit(signers.alice, 20)).wait();
+    });
+
+    it("accumulates encrypted energy per batch and per provider", async function () {
+      const batchId = await openBatchWithProviders(signers.alice, signers.bob);
+      await (await helios.setCooldownSeconds(0)).wait();
+
+      await expect(submit(signers.alice, 125))
+        .to.emit(helios, "EnergySubmitted")
+        .withArgs(signers.alice.address, batchId, anyHandle);
+      await (await submit(signers.bob, 40)).wait();
+      await (await submit(signers.alice, 35)).wait();
+
+      expect(await decryptBatchTotal(batchId)).to.eq(200n);
+
+      const aliceTotal = await helios.userEncryptedEnergyInBatch(
+        batchId,
+        signers.alice.address,
+      );
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          aliceTotal,
+          heliosAddress,
+          signers.alice,
+        ),
+      ).to.eq(160n);
+
+      // A new batch starts from zero.
+      await (await helios.openBatch()).wait();
+      expect(await helios.totalEncryptedEnergyInBatch(batchId + 1n)).to.eq(
+        ethers.ZeroHash,
+      );
+    });
+  });
+
+  describe("batch total decryption", function () {
+    it("rejects unknown, closed and empty batches", async function () {
+      await expect(
+        helios.requestTotalEnergyDecryption(0),
+      ).to.be.revertedWithCustomError(helios, "InvalidBatchId");
+
+      const batchId = await openBatchWithProviders(signers.alice);
+      await expect(
+        helios.requestTotalEnergyDecryption(batchId),
+      ).to.be.revertedWithCustomError(helios, "NotInitialized");
+
+      await (await submit(signers.alice, 10)).wait();
+      await (await helios.closeBatch()).wait();
+      await expect(
+        helios.requestTotalEnergyDecryption(batchId),
+      ).to.be.revertedWithCustomError(helios, "InvalidBatchId");
+    });
+
+    it("delivers the batch total through the oracle callback", async function () {
+      const batchId = await openBatchWithProviders(signers.alice, signers.bob);
+      await (await submit(signers.alice, 70)).wait();
+      await (await submit(signers.bob, 55)).wait();
+
+      const tx = await helios.requestTotalEnergyDecryption(batchId);
+      const receipt = await tx.wait();
+      const requested = receipt!.logs
+        .map((log) => helios.interface.parseLog(log))
+        .find((event) => event?.name === "DecryptionRequested");
+      const requestId = requested!.args.requestId;
+
+      await fhevm.awaitDecryptionOracle();
+
+      const completed = await helios.queryFilter(
+        helios.filters.DecryptionCompleted(requestId),
+      );
+      expect(completed).to.have.length(1);
+      expect(completed[0].args.batchId).to.eq(batchId);
+      expect(completed[0].args.totalEnergy).to.eq(125n);
+      expect((await helios.decryptionContexts(requestId)).processed).to.eq(
+        true,
+      );
+    });
+
+    it("applies the cooldown to decryption requests", async function () {
+      const batchId = await openBatchWithProviders(signers.alice);
+      await (await submit(signers.alice, 10)).wait();
+
+      await (await helios.requestTotalEnergyDecryption(batchId)).wait();
+      await expect(
+        helios.requestTotalEnergyDecryption(batchId),
+      ).to.be.revertedWithCustomError(helios, "CooldownActive");
+    });
+
+    it("rejects a replayed callback", async function () {
+      const batchId = await openBatchWithProviders(signers.alice);
+      await (await submit(signers.alice, 10)).wait();
+      const receipt = await (
+        await helios.requestTotalEnergyDecryption(batchId)
+      ).wait();
+      const [request] = fhevm.parseDecryptionRequestEvents(receipt!.logs);
+      await fhevm.awaitDecryptionOracle();
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256"],
+        [10],
+      );
+      await expect(
+        helios.myCallback(request.requestID, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(helios, "ReplayAttempt");
+    });
+
+    it("rejects a callback once the batch total changed", async function () {
+      const batchId = await openBatchWithProviders(signers.alice, signers.bob);
+      await (await submit(signers.alice, 10)).wait();
+      const receipt = await (
+        await helios.requestTotalEnergyDecryption(batchId)
+      ).wait();
+      const [request] = fhevm.parseDecryptionRequestEvents(receipt!.logs);
+
+      // A submission after the request changes the handle the state hash was taken over.
+      await (await submit(signers.bob, 5)).wait();
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256"],
+        [10],
+      );
+      await expect(
+        helios.myCallback(request.requestID, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(helios, "StateMismatch");
+      expect(
+        (await helios.decryptionContexts(request.requestID)).processed,
+      ).to.eq(false);
+      // The oracle's own answer is refused as well, which also clears it from the mock's queue.
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(
+        helios,
+        "StateMismatch",
+      );
+    });
+  });
+});
+
+function anyHandle(value: string) {
+  return ethers.isHexString(value, 32) && value !== ethers.ZeroHash;
+}
@@ -0,0 +1,295 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+import {
+  HeliosNetFHE,
+  HeliosNetFHE__factory,
+  HeliosRewardToken,
+  HeliosRewardToken__factory,
+  HeliosRewards,
+  HeliosRewards__factory,
+} from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const EPOCH_REWARD = 1_000_000_000n;
+
+async function deployFixture() {
+  const heliosFactory = (await ethers.getContractFactory(
+    "HeliosNetFHE",
+  )) as HeliosNetFHE__factory;
+  const helios = (await heliosFactory.deploy()) as HeliosNetFHE;
+  const heliosAddress = await helios.getAddress();
+
+  const rewardsFactory = (await ethers.getContractFactory(
+    "HeliosRewards",
+  )) as HeliosRewards__factory;
+  const rewards = (await rewardsFactory.deploy(heliosAddress)) as HeliosRewards;
+  const rewardsAddress = await rewards.getAddress();
+  const token = HeliosRewardToken__factory.connect(
+    await rewards.rewardToken(),
+    ethers.provider,
+  ) as HeliosRewardToken;
+
+  return { helios, heliosAddress, rewards, rewardsAddress, token };
+}
+
+describe("HeliosRewards", function () {
+  let signers: Signers;
+  let helios: HeliosNetFHE;
+  let heliosAddress: string;
+  let rewards: HeliosRewards;
+  let rewardsAddress: string;
+  let token: HeliosRewardToken;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+      carol: ethSigners[3],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite can only run on the fhevm mock`);
+      this.skip();
+    }
+
+    ({ helios, heliosAddress, rewards, rewardsAddress, token } =
+      await deployFixture());
+    await fhevm.assertCoprocessorInitialized(rewards, "HeliosRewards");
+    for (const provider of [signers.alice, signers.bob]) {
+      await (await helios.addProvider(provider.address)).wait();
+    }
+    await (await helios.setCooldownSeconds(0)).wait();
+  });
+
+  // Runs one batch with the given contributions and leaves it closed.
+  async function runBatch(contributions: [HardhatEthersSigner, number][]) {
+    await (await helios.openBatch()).wait();
+    const batchId = await helios.currentBatchId();
+    for (const [provider, units] of contributions) {
+      const encrypted = await fhevm
+        .createEncryptedInput(heliosAddress, provider.address)
+        .add32(units)
+        .encrypt();
+      await (
+        await helios
+          .connect(provider)
+          .submitEnergy(encrypted.handles[0], encrypted.inputProof)
+      ).wait();
+    }
+    await (await helios.closeBatch()).wait();
+    return batchId;
+  }
+
+  async function finalize(batchId: bigint) {
+    await (await helios.grantBatchTotalAccess(batchId, rewardsAddress)).wait();
+    await (await rewards.finalizeEpoch(batchId)).wait();
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  async function claim(provider: HardhatEthersSigner, batchId: bigint) {
+    await (
+      await helios.connect(provider).grantEnergyAccess(batchId, rewardsAddress)
+    ).wait();
+    await (await rewards.connect(provider).claim(batchId)).wait();
+  }
+
+  async function balanceOf(account: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await token.confidentialBalanceOf(account.address),
+      await token.getAddress(),
+      account,
+    );
+  }
+
+  async function decryptAudit(batchId: bigint) {
+    const epoch = await rewards.epochs(batchId);
+    const [claimedReward, claimedEnergy] = await Promise.all(
+      [epoch.claimedReward, epoch.claimedEnergy].map((handle) =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          handle,
+          rewardsAddress,
+          signers.owner,
+        ),
+      ),
+    );
+    return { claimedReward, claimedEnergy, claimCount: epoch.claimCount };
+  }
+
+  it("splits an epoch's reward in proportion to encrypted contributions", async function () {
+    const batchId = await runBatch([
+      [signers.alice, 30],
+      [signers.bob, 10],
+    ]);
+    await finalize(batchId);
+
+    const epoch = await rewards.epochs(batchId);
+    expect(epoch.finalized).to.eq(true);
+    expect(epoch.totalEnergy).to.eq(40n);
+    expect(epoch.reward).to.eq(EPOCH_REWARD);
+
+    await claim(signers.alice, batchId);
+    expect(await balanceOf(signers.alice)).to.eq(750_000_000n);
+    expect(await decryptAudit(batchId)).to.deep.eq({
+      claimedReward: 750_000_000n,
+      claimedEnergy: 30n,
+      claimCount: 1n,
+    });
+
+    await claim(signers.bob, batchId);
+    expect(await balanceOf(signers.bob)).to.eq(250_000_000n);
+    expect(await decryptAudit(batchId)).to.deep.eq({
+      claimedReward: EPOCH_REWARD,
+      claimedEnergy: 40n,
+      claimCount: 2n,
+    });
+  });
+
+  it("rounds each share down and fixes the reward at finalization", async function () {
+    const batchId = await runBatch([
+      [signers.alice, 1],
+      [signers.bob, 2],
+    ]);
+    await finalize(batchId);
+    await (await rewards.setRewardPerEpoch(5n)).wait();
+
+    await claim(signers.alice, batchId);
+    await claim(signers.bob, batchId);
+    expect(await balanceOf(signers.alice)).to.eq(333_333_333n);
+    expect(await balanceOf(signers.bob)).to.eq(666_666_666n);
+    // At most one base unit per claim is lost to rounding.
+    expect((await decryptAudit(batchId)).claimedReward).to.eq(
+      EPOCH_REWARD - 1n,
+    );
+
+    const next = await runBatch([[signers.alice, 7]]);
+    await finalize(next);
+    await claim(signers.alice, next);
+    expect(await balanceOf(signers.alice)).to.eq(333_333_333n + 5n);
+  });
+
+  it("pays the rate in force when finalization was requested", async function () {
+    const batchId = await runBatch([[signers.alice, 4]]);
+    await (await helios.grantBatchTotalAccess(batchId, rewardsAddress)).wait();
+    await (await rewards.finalizeEpoch(batchId)).wait();
+    await (await rewards.setRewardPerEpoch(5n)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await rewards.epochs(batchId)).reward).to.eq(EPOCH_REWARD);
+    await claim(signers.alice, batchId);
+    expect(await balanceOf(signers.alice)).to.eq(EPOCH_REWARD);
+  });
+
+  it("guards finalization and claims", async function () {
+    await (await helios.openBatch()).wait();
+    await expect(rewards.finalizeEpoch(1n)).to.be.revertedWithCustomError(
+      rewards,
+      "BatchNotClosed",
+    );
+    await expect(
+      helios.grantBatchTotalAccess(1n, rewardsAddress),
+    ).to.be.revertedWithCustomError(helios, "BatchStillOpen");
+    await (await helios.closeBatch()).wait();
+    await expect(rewards.finalizeEpoch(1n)).to.be.revertedWithCustomError(
+      rewards,
+      "EmptyBatch",
+    );
+
+    const batchId = await runBatch([
+      [signers.alice, 10],
+      [signers.bob, 5],
+    ]);
+    await expect(rewards.finalizeEpoch(batchId)).to.be.revertedWithCustomError(
+      rewards,
+      "TotalNotShared",
+    );
+    await expect(
+      rewards.connect(signers.alice).claim(batchId),
+    ).to.be.revertedWithCustomError(rewards, "EpochNotFinalized");
+
+    await (await helios.grantBatchTotalAccess(batchId, rewardsAddress)).wait();
+    await (await rewards.finalizeEpoch(batchId)).wait();
+    await expect(rewards.finalizeEpoch(batchId)).to.be.revertedWithCustomError(
+      rewards,
+      "FinalizationPending",
+    );
+    await fhevm.awaitDecryptionOracle();
+    await expect(rewards.finalizeEpoch(batchId)).to.be.revertedWithCustomError(
+      rewards,
+      "EpochAlreadyFinalized",
+    );
+
+    await expect(
+      rewards.connect(signers.alice).claim(batchId),
+    ).to.be.revertedWithCustomError(rewards, "EnergyNotShared");
+    await expect(
+      rewards.connect(signers.carol).claim(batchId),
+    ).to.be.revertedWithCustomError(rewards, "NoContribution");
+    await claim(signers.alice, batchId);
+    await expect(
+      rewards.connect(signers.alice).claim(batchId),
+    ).to.be.revertedWithCustomError(rewards, "AlreadyClaimed");
+  });
+
+  it("lets only the owner set the reward within bounds", async function () {
+    await expect(
+      rewards.connect(signers.alice).setRewardPerEpoch(1n),
+    ).to.be.revertedWithCustomError(rewards, "NotOwner");
+    await expect(rewards.setRewardPerEpoch(0n)).to.be.revertedWithCustomError(
+      rewards,
+      "InvalidParameter",
+    );
+    await expect(
+      rewards.setRewardPerEpoch((await rewards.MAX_EPOCH_REWARD()) + 1n),
+    ).to.be.revertedWithCustomError(rewards, "InvalidParameter");
+    await expect(rewards.setRewardPerEpoch(42n))
+      .to.emit(rewards, "RewardPerEpochUpdated")
+      .withArgs(42n);
+  });
+
+  it("moves confidential rewards and ignores overdrawn transfers", async function () {
+    const batchId = await runBatch([[signers.alice, 10]]);
+    await finalize(batchId);
+    await claim(signers.alice, batchId);
+    const tokenAddress = await token.getAddress();
+
+    const send = async (amount: bigint) => {
+      const encrypted = await fhevm
+        .createEncryptedInput(tokenAddress, signers.alice.address)
+        .add64(amount)
+        .encrypt();
+      await (
+        await token
+          .connect(signers.alice)
+          .transfer(
+            signers.carol.address,
+            encrypted.handles[0],
+            encrypted.inputProof,
+          )
+      ).wait();
+    };
+
+    await send(100_000_000n);
+    await send(EPOCH_REWARD);
+    expect(await balanceOf(signers.alice)).to.eq(900_000_000n);
+    expect(await balanceOf(signers.carol)).to.eq(100_000_000n);
+
+    await expect(
+      token.connect(signers.alice).mint(signers.alice.address, ethers.ZeroHash),
+    ).to.be.revertedWithCustomError(token, "NotMinter");
+  });
+});
@@ -0,0 +1,171 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+import {
+  HeliosNetFHE,
+  HeliosNetFHE__factory,
+  HeliosRiskModel,
+  HeliosRiskModel__factory,
+} from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const heliosFactory = (await ethers.getContractFactory(
+    "HeliosNetFHE",
+  )) as HeliosNetFHE__factory;
+  const helios = (await heliosFactory.deploy()) as HeliosNetFHE;
+  const heliosAddress = await helios.getAddress();
+
+  const modelFactory = (await ethers.getContractFactory(
+    "HeliosRiskModel",
+  )) as HeliosRiskModel__factory;
+  const model = (await modelFactory.deploy(heliosAddress)) as HeliosRiskModel;
+  const modelAddress = await model.getAddress();
+
+  return { helios, heliosAddress, model, modelAddress };
+}
+
+describe("HeliosRiskModel", function () {
+  let signers: Signers;
+  let helios: HeliosNetFHE;
+  let heliosAddress: string;
+  let model: HeliosRiskModel;
+  let modelAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite can only run on the fhevm mock`);
+      this.skip();
+    }
+
+    ({ helios, heliosAddress, model, modelAddress } = await deployFixture());
+    await fhevm.assertCoprocessorInitialized(helios, "HeliosNetFHE");
+    await (await helios.addProvider(signers.alice.address)).wait();
+    await (await helios.setCooldownSeconds(0)).wait();
+  });
+
+  // Runs one closed batch per entry; `null` means alice skipped that batch.
+  async function produceHistory(outputs: (number | null)[], share = true) {
+    for (const units of outputs) {
+      await (await helios.openBatch()).wait();
+      const batchId = await helios.currentBatchId();
+      if (units !== null) {
+        const encrypted = await fhevm
+          .createEncryptedInput(heliosAddress, signers.alice.address)
+          .add32(units)
+          .encrypt();
+        await (
+          await helios
+            .connect(signers.alice)
+            .submitEnergy(encrypted.handles[0], encrypted.inputProof)
+        ).wait();
+        if (share) {
+          await (
+            await helios
+              .connect(signers.alice)
+              .grantEnergyAccess(batchId, modelAddress)
+          ).wait();
+        }
+      }
+      await (await helios.closeBatch()).wait();
+    }
+  }
+
+  async function assessAndDecrypt(window: number) {
+    await (await model.connect(signers.alice).assessRisk(window)).wait();
+    const assessment = await model.assessments(signers.alice.address);
+    return fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      assessment.creditLimitGwei,
+      modelAddress,
+      signers.alice,
+    );
+  }
+
+  // Defaults: 50_000 gwei per unit of dependable output over 4 batches; halved when output is erratic.
+  it("lends against steady output for the full horizon", async function () {
+    await produceHistory([100, 100, 100, 100]);
+    expect(await assessAndDecrypt(4)).to.eq(100n * 4n * 50_000n);
+
+    const assessment = await model.assessments(signers.alice.address);
+    expect(assessment.firstBatchId).to.eq(1n);
+    expect(assessment.lastBatchId).to.eq(4n);
+  });
+
+  it("discounts shortfalls below the average and the worst batch", async function () {
+    await produceHistory([120, 80, 100, 100]);
+    // Capped output 100+80+100+100 = 380, worst batch 80: (95 + 80) / 2 = 87.5 dependable units.
+    expect(await assessAndDecrypt(4)).to.eq(17_500_000n);
+  });
+
+  it("applies the volatility haircut and counts skipped batches as zero", async function () {
+    await produceHistory([100, null, 100, 100]);
+    // Average 75, worst 0, spread 100 > 75: ((75 * 3) / 4 + 0) / 2 units at half the rate.
+    expect(await assessAndDecrypt(4)).to.eq(225n * 12_500n);
+  });
+
+  it("cuts erratic output by the configured haircut", async function () {
+    await (await model.setModelParameters(50_000n, 4n, 2_500n)).wait();
+    await produceHistory([100, null, 100, 100]);
+    // Same 225 / 8 dependable units as above, at 75% of the 200_000 gwei rate.
+    expect(await assessAndDecrypt(4)).to.eq(225n * 18_750n);
+  });
+
+  it("only scores the most recent closed batches", async function () {
+    await produceHistory([0, 0, 100, 100]);
+    await (await helios.openBatch()).wait();
+    expect(await model.latestClosedBatchId()).to.eq(4n);
+    expect(await assessAndDecrypt(2)).to.eq(100n * 4n * 50_000n);
+  });
+
+  it("rejects invalid windows, non-providers and unshared energy", async function () {
+    await expect(
+      model.connect(signers.bob).assessRisk(2),
+    ).to.be.revertedWithCustomError(model, "NotProvider");
+
+    await produceHistory([100, 100, 100], false);
+    await expect(
+      model.connect(signers.alice).assessRisk(1),
+    ).to.be.revertedWithCustomError(model, "InvalidWindow");
+    await expect(
+      model.connect(signers.alice).assessRisk(4),
+    ).to.be.revertedWithCustomError(model, "InvalidWindow");
+    await expect(
+      model.connect(signers.alice).assessRisk(3),
+    ).to.be.revertedWithCustomError(model, "EnergyNotShared");
+  });
+
+  it("lets only the owner tune the model within bounds", async function () {
+    await expect(
+      model.connect(signers.alice).setModelParameters(1n, 1n, 0n),
+    ).to.be.revertedWithCustomError(model, "NotOwner");
+    await expect(
+      model.setModelParameters(1n, 0n, 0n),
+    ).to.be.revertedWithCustomError(model, "InvalidParameter");
+    await expect(
+      model.setModelParameters(1n, 1n, 10_001n),
+    ).to.be.revertedWithCustomError(model, "InvalidParameter");
+
+    await expect(model.setModelParameters(20_000n, 8n, 2_500n))
+      .to.emit(model, "ModelParametersUpdated")
+      .withArgs(20_000n, 8n, 2_500n);
+    await produceHistory([100, 100]);
+    expect(await assessAndDecrypt(2)).to.eq(100n * 8n * 20_000n);
+  });
+});
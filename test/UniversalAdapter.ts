@@ -0,0 +1,230 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+
+import legacyAdapter from "../frontend/web/src/abi/UniversalAdapter-cc98.json";
+import { UniversalAdapter, UniversalAdapter__factory } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const NAMESPACE = "solar";
+const KEY = "solar_1";
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory(
+    "UniversalAdapter",
+  )) as UniversalAdapter__factory;
+  const adapter = (await factory.deploy()) as UniversalAdapter;
+
+  return { adapter };
+}
+
+describe("UniversalAdapter", function () {
+  let signers: Signers;
+  let adapter: UniversalAdapter;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      owner: ethSigners[0],
+      alice: ethSigners[1],
+      bob: ethSigners[2],
+    };
+  });
+
+  beforeEach(async function () {
+    ({ adapter } = await deployFixture());
+  });
+
+  describe("key ownership", function () {
+    it("binds a key to its first writer", async function () {
+      expect(await adapter.keyOwner(KEY)).to.eq(ethers.ZeroAddress);
+
+      await expect(adapter.connect(signers.alice).setData(KEY, "0x01"))
+        .to.emit(adapter, "DataStored")
+        .withArgs(signers.alice.address, KEY, "0x01");
+      expect(await adapter.keyOwner(KEY)).to.eq(signers.alice.address);
+
+      await (await adapter.connect(signers.alice).setData(KEY, "0x02")).wait();
+      expect(await adapter.getData(KEY)).to.eq("0x02");
+    });
+
+    it("rejects writes from anyone but the key owner", async function () {
+      await (await adapter.connect(signers.alice).setData(KEY, "0x01")).wait();
+
+      const asBob = adapter.connect(signers.bob);
+      await expect(asBob.setData(KEY, "0x02"))
+        .to.be.revertedWithCustomError(adapter, "NotKeyOwner")
+        .withArgs(signers.alice.address);
+      await expect(asBob.setIndexedData(NAMESPACE, KEY, "0x02"))
+        .to.be.revertedWithCustomError(adapter, "NotKeyOwner")
+        .withArgs(signers.alice.address);
+      expect(await adapter.getData(KEY)).to.eq("0x01");
+    });
+
+    it("claims keys written through setIndexedData", async function () {
+      await (
+        await adapter
+          .connect(signers.bob)
+          .setIndexedData(NAMESPACE, KEY, "0x01")
+      ).wait();
+
+      expect(await adapter.keyOwner(KEY)).to.eq(signers.bob.address);
+      expect(await adapter.isIndexed(NAMESPACE, KEY)).to.eq(true);
+      await expect(
+        adapter.connect(signers.alice).setData(KEY, "0x02"),
+      ).to.be.revertedWithCustomError(adapter, "NotKeyOwner");
+    });
+  });
+
+  describe("key index", function () {
+    it("indexes each key once", async function () {
+      await (await adapter.setIndexedData(NAMESPACE, KEY, "0x01")).wait();
+      await (await adapter.setIndexedData(NAMESPACE, KEY, "0x02")).wait();
+      await (await adapter.indexKey(NAMESPACE, KEY)).wait();
+
+      expect(await adapter.keyCount(NAMESPACE)).to.eq(1n);
+      expect(await adapter.getKeys(NAMESPACE, 0, 10)).to.deep.eq([KEY]);
+    });
+
+    it("refuses to index keys without a stored value", async function () {
+      await expect(
+        adapter.indexKey(NAMESPACE, "solar_missing"),
+      ).to.be.revertedWithCustomError(adapter, "KeyNotStored");
+    });
+  });
+
+  describe("migration", function () {
+    const payload = (owner: string) =>
+      ethers.toUtf8Bytes(JSON.stringify({ version: 1, owner }));
+
+    async function migrate(args: Record<string, unknown>) {
+      const log = console.log;
+      console.log = () => {};
+      try {
+        await hre.run("task:migrate-solar-keys", args);
+      } finally {
+        console.log = log;
+      }
+    }
+
+    it("copies legacy records under the accounts that wrote them", async function () {
+      await (
+        await adapter
+          .connect(signers.alice)
+          .setData("solar_1", payload(signers.alice.address))
+      ).wait();
+      // Bob overwrote a record claiming Alice as its owner, which the old adapter allowed.
+      await (
+        await adapter
+          .connect(signers.bob)
+          .setData("solar_2", payload(signers.alice.address))
+      ).wait();
+      await (
+        await adapter.setData(
+          "solar_keys",
+          ethers.toUtf8Bytes(JSON.stringify(["1", "2"])),
+        )
+      ).wait();
+      const { adapter: target } = await deployFixture();
+
+      await migrate({
+        from: await adapter.getAddress(),
+        to: await target.getAddress(),
+        finish: true,
+      });
+
+      expect(await target.getKeys(NAMESPACE, 0, 10)).to.deep.eq([
+        "solar_1",
+        "solar_2",
+      ]);
+      const loaded = JSON.parse(
+        ethers.toUtf8String(await target.getData("solar_1")),
+      );
+      expect(loaded.owner).to.eq(signers.alice.address);
+      expect(await target.keyOwner("solar_1")).to.eq(loaded.owner);
+      expect(await target.keyOwner("solar_2")).to.eq(signers.bob.address);
+      expect(await target.importer()).to.eq(ethers.ZeroAddress);
+
+      // The original owner keeps control of the copied record.
+      await (
+        await target
+          .connect(signers.alice)
+          .setData("solar_1", payload(signers.alice.address))
+      ).wait();
+      await expect(target.setData("solar_1", "0x01"))
+        .to.be.revertedWithCustomError(target, "NotKeyOwner")
+        .withArgs(signers.alice.address);
+    });
+
+    it("keeps records owned by their first writer after an overwrite", async function () {
+      // The adapter deployed before key ownership let anyone overwrite any key.
+      const legacy = await new ethers.ContractFactory(
+        legacyAdapter.abi,
+        legacyAdapter.bytecode,
+        signers.owner,
+      ).deploy();
+      const asAlice = legacy.connect(signers.alice) as typeof legacy;
+      const asBob = legacy.connect(signers.bob) as typeof legacy;
+      await (
+        await asAlice.getFunction("setData")(
+          "solar_1",
+          payload(signers.alice.address),
+        )
+      ).wait();
+      await (
+        await asBob.getFunction("setData")(
+          "solar_1",
+          payload(signers.bob.address),
+        )
+      ).wait();
+      await (
+        await legacy.getFunction("setData")(
+          "solar_keys",
+          ethers.toUtf8Bytes(JSON.stringify(["1"])),
+        )
+      ).wait();
+
+      await migrate({
+        from: await legacy.getAddress(),
+        to: await adapter.getAddress(),
+      });
+
+      expect(await adapter.keyOwner("solar_1")).to.eq(signers.alice.address);
+      expect(await adapter.getData("solar_1")).to.eq(
+        ethers.hexlify(payload(signers.bob.address)),
+      );
+      await expect(
+        adapter
+          .connect(signers.bob)
+          .setData("solar_1", payload(signers.bob.address)),
+      )
+        .to.be.revertedWithCustomError(adapter, "NotKeyOwner")
+        .withArgs(signers.alice.address);
+    });
+
+    it("only lets the importer assign unowned keys", async function () {
+      await expect(
+        adapter
+          .connect(signers.alice)
+          .importData(NAMESPACE, KEY, "0x01", signers.alice.address),
+      ).to.be.revertedWithCustomError(adapter, "NotImporter");
+
+      await (await adapter.connect(signers.bob).setData(KEY, "0x01")).wait();
+      await expect(
+        adapter.importData(NAMESPACE, KEY, "0x02", signers.alice.address),
+      )
+        .to.be.revertedWithCustomError(adapter, "NotKeyOwner")
+        .withArgs(signers.bob.address);
+
+      await expect(adapter.finishImport()).to.emit(adapter, "ImportFinished");
+      await expect(
+        adapter.importData(NAMESPACE, "solar_2", "0x01", signers.alice.address),
+      ).to.be.revertedWithCustomError(adapter, "NotImporter");
+    });
+  });
+});
@@ -0,0 +1,823 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface HeliosDAOInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_VOTING_PERIOD"
+      | "castVote"
+      | "decryptionContexts"
+      | "execute"
+      | "hasVoted"
+      | "owner"
+      | "proposalCount"
+      | "proposalState"
+      | "proposals"
+      | "propose"
+      | "protocolId"
+      | "quorumVotes"
+      | "requestTally"
+      | "setGovernanceParameters"
+      | "setVotingPower"
+      | "tallyCallback"
+      | "totalVotingPower"
+      | "transferOwnership"
+      | "votingPeriod"
+      | "votingPower"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "GovernanceParametersUpdated"
+      | "OwnershipTransferred"
+      | "ProposalCreated"
+      | "ProposalExecuted"
+      | "ProposalTallied"
+      | "TallyRequested"
+      | "VoteCast"
+      | "VotingPowerSet"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_VOTING_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVote",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "execute",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasVoted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "proposalCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalState",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposals",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "propose",
+    values: [AddressLike, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "quorumVotes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestTally",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setGovernanceParameters",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVotingPower",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tallyCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalVotingPower",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "votingPeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "votingPower",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_VOTING_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "castVote", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "execute", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasVoted", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalState",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "proposals", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "propose", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "quorumVotes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestTally",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setGovernanceParameters",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVotingPower",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tallyCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalVotingPower",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "votingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "votingPower",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GovernanceParametersUpdatedEvent {
+  export type InputTuple = [
+    votingPeriod: BigNumberish,
+    quorumVotes: BigNumberish
+  ];
+  export type OutputTuple = [votingPeriod: bigint, quorumVotes: bigint];
+  export interface OutputObject {
+    votingPeriod: bigint;
+    quorumVotes: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalCreatedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    proposer: AddressLike,
+    target: AddressLike,
+    endTime: BigNumberish,
+    description: string
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    proposer: string,
+    target: string,
+    endTime: bigint,
+    description: string
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    proposer: string;
+    target: string;
+    endTime: bigint;
+    description: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalExecutedEvent {
+  export type InputTuple = [proposalId: BigNumberish];
+  export type OutputTuple = [proposalId: bigint];
+  export interface OutputObject {
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalTalliedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    forVotes: BigNumberish,
+    againstVotes: BigNumberish,
+    succeeded: boolean
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    forVotes: bigint,
+    againstVotes: bigint,
+    succeeded: boolean
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    forVotes: bigint;
+    againstVotes: bigint;
+    succeeded: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    proposalId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    proposalId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    proposalId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteCastEvent {
+  export type InputTuple = [proposalId: BigNumberish, voter: AddressLike];
+  export type OutputTuple = [proposalId: bigint, voter: string];
+  export interface OutputObject {
+    proposalId: bigint;
+    voter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VotingPowerSetEvent {
+  export type InputTuple = [account: AddressLike, votingPower: BigNumberish];
+  export type OutputTuple = [account: string, votingPower: bigint];
+  export interface OutputObject {
+    account: string;
+    votingPower: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface HeliosDAO extends BaseContract {
+  connect(runner?: ContractRunner | null): HeliosDAO;
+  waitForDeployment(): Promise<this>;
+
+  interface: HeliosDAOInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_VOTING_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  castVote: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      forWeight: BytesLike,
+      againstWeight: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        proposalId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  execute: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  hasVoted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  proposalCount: TypedContractMethod<[], [bigint], "view">;
+
+  proposalState: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  proposals: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        string,
+        string
+      ] & {
+        proposer: string;
+        target: string;
+        endTime: bigint;
+        state: bigint;
+        forVotes: bigint;
+        againstVotes: bigint;
+        voterCount: bigint;
+        description: string;
+        callData: string;
+        encryptedFor: string;
+        encryptedAgainst: string;
+      }
+    ],
+    "view"
+  >;
+
+  propose: TypedContractMethod<
+    [target: AddressLike, callData: BytesLike, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  quorumVotes: TypedContractMethod<[], [bigint], "view">;
+
+  requestTally: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setGovernanceParameters: TypedContractMethod<
+    [newVotingPeriod: BigNumberish, newQuorumVotes: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setVotingPower: TypedContractMethod<
+    [account: AddressLike, power: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  tallyCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  totalVotingPower: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  votingPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  votingPower: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_VOTING_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "castVote"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      forWeight: BytesLike,
+      againstWeight: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        proposalId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "execute"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "hasVoted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "proposalCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposalState"
+  ): TypedContractMethod<[proposalId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        string,
+        string
+      ] & {
+        proposer: string;
+        target: string;
+        endTime: bigint;
+        state: bigint;
+        forVotes: bigint;
+        againstVotes: bigint;
+        voterCount: bigint;
+        description: string;
+        callData: string;
+        encryptedFor: string;
+        encryptedAgainst: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "propose"
+  ): TypedContractMethod<
+    [target: AddressLike, callData: BytesLike, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "quorumVotes"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestTally"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setGovernanceParameters"
+  ): TypedContractMethod<
+    [newVotingPeriod: BigNumberish, newQuorumVotes: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setVotingPower"
+  ): TypedContractMethod<
+    [account: AddressLike, power: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tallyCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "totalVotingPower"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "votingPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "votingPower"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "GovernanceParametersUpdated"
+  ): TypedContractEvent<
+    GovernanceParametersUpdatedEvent.InputTuple,
+    GovernanceParametersUpdatedEvent.OutputTuple,
+    GovernanceParametersUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalCreated"
+  ): TypedContractEvent<
+    ProposalCreatedEvent.InputTuple,
+    ProposalCreatedEvent.OutputTuple,
+    ProposalCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalExecuted"
+  ): TypedContractEvent<
+    ProposalExecutedEvent.InputTuple,
+    ProposalExecutedEvent.OutputTuple,
+    ProposalExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalTallied"
+  ): TypedContractEvent<
+    ProposalTalliedEvent.InputTuple,
+    ProposalTalliedEvent.OutputTuple,
+    ProposalTalliedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyRequested"
+  ): TypedContractEvent<
+    TallyRequestedEvent.InputTuple,
+    TallyRequestedEvent.OutputTuple,
+    TallyRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteCast"
+  ): TypedContractEvent<
+    VoteCastEvent.InputTuple,
+    VoteCastEvent.OutputTuple,
+    VoteCastEvent.OutputObject
+  >;
+  getEvent(
+    key: "VotingPowerSet"
+  ): TypedContractEvent<
+    VotingPowerSetEvent.InputTuple,
+    VotingPowerSetEvent.OutputTuple,
+    VotingPowerSetEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "GovernanceParametersUpdated(uint256,uint64)": TypedContractEvent<
+      GovernanceParametersUpdatedEvent.InputTuple,
+      GovernanceParametersUpdatedEvent.OutputTuple,
+      GovernanceParametersUpdatedEvent.OutputObject
+    >;
+    GovernanceParametersUpdated: TypedContractEvent<
+      GovernanceParametersUpdatedEvent.InputTuple,
+      GovernanceParametersUpdatedEvent.OutputTuple,
+      GovernanceParametersUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ProposalCreated(uint256,address,address,uint64,string)": TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+    ProposalCreated: TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+
+    "ProposalExecuted(uint256)": TypedContractEvent<
+      ProposalExecutedEvent.InputTuple,
+      ProposalExecutedEvent.OutputTuple,
+      ProposalExecutedEvent.OutputObject
+    >;
+    ProposalExecuted: TypedContractEvent<
+      ProposalExecutedEvent.InputTuple,
+      ProposalExecutedEvent.OutputTuple,
+      ProposalExecutedEvent.OutputObject
+    >;
+
+    "ProposalTallied(uint256,uint64,uint64,bool)": TypedContractEvent<
+      ProposalTalliedEvent.InputTuple,
+      ProposalTalliedEvent.OutputTuple,
+      ProposalTalliedEvent.OutputObject
+    >;
+    ProposalTallied: TypedContractEvent<
+      ProposalTalliedEvent.InputTuple,
+      ProposalTalliedEvent.OutputTuple,
+      ProposalTalliedEvent.OutputObject
+    >;
+
+    "TallyRequested(uint256,uint256,bytes32)": TypedContractEvent<
+      TallyRequestedEvent.InputTuple,
+      TallyRequestedEvent.OutputTuple,
+      TallyRequestedEvent.OutputObject
+    >;
+    TallyRequested: TypedContractEvent<
+      TallyRequestedEvent.InputTuple,
+      TallyRequestedEvent.OutputTuple,
+      TallyRequestedEvent.OutputObject
+    >;
+
+    "VoteCast(uint256,address)": TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+    VoteCast: TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+
+    "VotingPowerSet(address,uint32)": TypedContractEvent<
+      VotingPowerSetEvent.InputTuple,
+      VotingPowerSetEvent.OutputTuple,
+      VotingPowerSetEvent.OutputObject
+    >;
+    VotingPowerSet: TypedContractEvent<
+      VotingPowerSetEvent.InputTuple,
+      VotingPowerSetEvent.OutputTuple,
+      VotingPowerSetEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1777 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface HeliosLendingPoolInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_BORROW_RATE_BPS"
+      | "MAX_KEEPER_REWARD_BPS"
+      | "MAX_LOAN_TO_VALUE_BPS"
+      | "availableLiquidity"
+      | "balanceOf"
+      | "borrowCallback"
+      | "borrowIndex"
+      | "borrowRateBps"
+      | "borrowRequests"
+      | "collateralEnergy"
+      | "creditPerUnitGwei"
+      | "currentBorrowIndex"
+      | "debtOf"
+      | "deposit"
+      | "depositedOf"
+      | "fundKeeperReserve"
+      | "healthCheckCallback"
+      | "healthChecks"
+      | "heliosNet"
+      | "isBatchPledged"
+      | "isHealthCheckPending"
+      | "isProjectionSettled"
+      | "isUndercollateralized"
+      | "keeperReserve"
+      | "keeperRewardBps"
+      | "lastAccrualTime"
+      | "liquidate"
+      | "liquidationThresholdBps"
+      | "loanToValueBps"
+      | "maxBatchUnits"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "pendingBorrowAmount"
+      | "pledgeBatch"
+      | "pledgeProjection"
+      | "pledgedBatchCount"
+      | "principalOf"
+      | "projectedEnergy"
+      | "projectionShortfall"
+      | "protocolId"
+      | "repay"
+      | "requestBorrow"
+      | "requestHealthCheck"
+      | "scaledDebtOf"
+      | "seizedEnergy"
+      | "setBorrowRateBps"
+      | "setLiquidationParameters"
+      | "setMaxBatchUnits"
+      | "setRiskParameters"
+      | "settleProjection"
+      | "sharesOf"
+      | "totalAssets"
+      | "totalBorrows"
+      | "totalScaledDebt"
+      | "totalShares"
+      | "transferOwnership"
+      | "unpause"
+      | "utilizationBps"
+      | "withdraw"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BorrowExecuted"
+      | "BorrowRateUpdated"
+      | "BorrowRejected"
+      | "BorrowRequested"
+      | "CollateralPledged"
+      | "ContractPaused"
+      | "ContractUnpaused"
+      | "DecryptionFulfilled"
+      | "Deposited"
+      | "HealthCheckRequested"
+      | "HealthChecked"
+      | "KeeperReserveFunded"
+      | "Liquidated"
+      | "LiquidationParametersUpdated"
+      | "MaxBatchUnitsUpdated"
+      | "OwnershipTransferred"
+      | "ProjectionPledged"
+      | "ProjectionSettled"
+      | "Repaid"
+      | "RiskParametersUpdated"
+      | "Withdrawn"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_BORROW_RATE_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_KEEPER_REWARD_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_LOAN_TO_VALUE_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "availableLiquidity",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "borrowCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "borrowIndex",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "borrowRateBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "borrowRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "collateralEnergy",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "creditPerUnitGwei",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBorrowIndex",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "debtOf", values: [AddressLike]): string;
+  encodeFunctionData(functionFragment: "deposit", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "depositedOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundKeeperReserve",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "healthCheckCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "healthChecks",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "heliosNet", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "isBatchPledged",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isHealthCheckPending",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProjectionSettled",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isUndercollateralized",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "keeperReserve",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "keeperRewardBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastAccrualTime",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "liquidate",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "liquidationThresholdBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "loanToValueBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxBatchUnits",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingBorrowAmount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pledgeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pledgeProjection",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pledgedBatchCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "principalOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "projectedEnergy",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "projectionShortfall",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "repay", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "requestBorrow",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestHealthCheck",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scaledDebtOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "seizedEnergy",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBorrowRateBps",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setLiquidationParameters",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaxBatchUnits",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRiskParameters",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleProjection",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sharesOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalAssets",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalBorrows",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalScaledDebt",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalShares",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "utilizationBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdraw",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_BORROW_RATE_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_KEEPER_REWARD_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_LOAN_TO_VALUE_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "availableLiquidity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "borrowCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "borrowIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "borrowRateBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "borrowRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "collateralEnergy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "creditPerUnitGwei",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBorrowIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "debtOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "deposit", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "depositedOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundKeeperReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "healthCheckCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "healthChecks",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "heliosNet", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchPledged",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isHealthCheckPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isProjectionSettled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isUndercollateralized",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "keeperReserve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "keeperRewardBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastAccrualTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "liquidate", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "liquidationThresholdBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "loanToValueBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxBatchUnits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingBorrowAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pledgeBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pledgeProjection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pledgedBatchCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "principalOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "projectedEnergy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "projectionShortfall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "repay", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBorrow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestHealthCheck",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "scaledDebtOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "seizedEnergy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBorrowRateBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setLiquidationParameters",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxBatchUnits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRiskParameters",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settleProjection",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "sharesOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalAssets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalBorrows",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalScaledDebt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "utilizationBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+}
+
+export namespace BorrowExecutedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    borrower: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    borrower: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    borrower: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BorrowRateUpdatedEvent {
+  export type InputTuple = [
+    oldBorrowRateBps: BigNumberish,
+    newBorrowRateBps: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldBorrowRateBps: bigint,
+    newBorrowRateBps: bigint
+  ];
+  export interface OutputObject {
+    oldBorrowRateBps: bigint;
+    newBorrowRateBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BorrowRejectedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    borrower: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    borrower: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    borrower: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BorrowRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    borrower: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    borrower: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    borrower: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollateralPledgedEvent {
+  export type InputTuple = [borrower: AddressLike, batchId: BigNumberish];
+  export type OutputTuple = [borrower: string, batchId: bigint];
+  export interface OutputObject {
+    borrower: string;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractPausedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContractUnpausedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DepositedEvent {
+  export type InputTuple = [
+    lender: AddressLike,
+    amount: BigNumberish,
+    shares: BigNumberish
+  ];
+  export type OutputTuple = [lender: string, amount: bigint, shares: bigint];
+  export interface OutputObject {
+    lender: string;
+    amount: bigint;
+    shares: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HealthCheckRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, borrower: AddressLike];
+  export type OutputTuple = [requestId: bigint, borrower: string];
+  export interface OutputObject {
+    requestId: bigint;
+    borrower: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HealthCheckedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    borrower: AddressLike,
+    undercollateralized: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    borrower: string,
+    undercollateralized: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    borrower: string;
+    undercollateralized: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace KeeperReserveFundedEvent {
+  export type InputTuple = [funder: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [funder: string, amount: bigint];
+  export interface OutputObject {
+    funder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LiquidatedEvent {
+  export type InputTuple = [
+    borrower: AddressLike,
+    keeper: AddressLike,
+    debtWrittenOff: BigNumberish,
+    keeperReward: BigNumberish
+  ];
+  export type OutputTuple = [
+    borrower: string,
+    keeper: string,
+    debtWrittenOff: bigint,
+    keeperReward: bigint
+  ];
+  export interface OutputObject {
+    borrower: string;
+    keeper: string;
+    debtWrittenOff: bigint;
+    keeperReward: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LiquidationParametersUpdatedEvent {
+  export type InputTuple = [
+    liquidationThresholdBps: BigNumberish,
+    keeperRewardBps: BigNumberish
+  ];
+  export type OutputTuple = [
+    liquidationThresholdBps: bigint,
+    keeperRewardBps: bigint
+  ];
+  export interface OutputObject {
+    liquidationThresholdBps: bigint;
+    keeperRewardBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MaxBatchUnitsUpdatedEvent {
+  export type InputTuple = [maxBatchUnits: BigNumberish];
+  export type OutputTuple = [maxBatchUnits: bigint];
+  export interface OutputObject {
+    maxBatchUnits: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProjectionPledgedEvent {
+  export type InputTuple = [borrower: AddressLike, batchId: BigNumberish];
+  export type OutputTuple = [borrower: string, batchId: bigint];
+  export interface OutputObject {
+    borrower: string;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProjectionSettledEvent {
+  export type InputTuple = [borrower: AddressLike, batchId: BigNumberish];
+  export type OutputTuple = [borrower: string, batchId: bigint];
+  export interface OutputObject {
+    borrower: string;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RepaidEvent {
+  export type InputTuple = [
+    borrower: AddressLike,
+    amount: BigNumberish,
+    remainingDebt: BigNumberish
+  ];
+  export type OutputTuple = [
+    borrower: string,
+    amount: bigint,
+    remainingDebt: bigint
+  ];
+  export interface OutputObject {
+    borrower: string;
+    amount: bigint;
+    remainingDebt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RiskParametersUpdatedEvent {
+  export type InputTuple = [
+    creditPerUnitGwei: BigNumberish,
+    loanToValueBps: BigNumberish
+  ];
+  export type OutputTuple = [creditPerUnitGwei: bigint, loanToValueBps: bigint];
+  export interface OutputObject {
+    creditPerUnitGwei: bigint;
+    loanToValueBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawnEvent {
+  export type InputTuple = [
+    lender: AddressLike,
+    amount: BigNumberish,
+    shares: BigNumberish
+  ];
+  export type OutputTuple = [lender: string, amount: bigint, shares: bigint];
+  export interface OutputObject {
+    lender: string;
+    amount: bigint;
+    shares: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface HeliosLendingPool extends BaseContract {
+  connect(runner?: ContractRunner | null): HeliosLendingPool;
+  waitForDeployment(): Promise<this>;
+
+  interface: HeliosLendingPoolInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_BORROW_RATE_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_KEEPER_REWARD_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_LOAN_TO_VALUE_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  availableLiquidity: TypedContractMethod<[], [bigint], "view">;
+
+  balanceOf: TypedContractMethod<[lender: AddressLike], [bigint], "view">;
+
+  borrowCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  borrowIndex: TypedContractMethod<[], [bigint], "view">;
+
+  borrowRateBps: TypedContractMethod<[], [bigint], "view">;
+
+  borrowRequests: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        borrower: string;
+        amount: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  collateralEnergy: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  creditPerUnitGwei: TypedContractMethod<[], [bigint], "view">;
+
+  currentBorrowIndex: TypedContractMethod<[], [bigint], "view">;
+
+  debtOf: TypedContractMethod<[borrower: AddressLike], [bigint], "view">;
+
+  deposit: TypedContractMethod<[], [void], "payable">;
+
+  depositedOf: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  fundKeeperReserve: TypedContractMethod<[], [void], "payable">;
+
+  healthCheckCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  healthChecks: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, boolean] & { borrower: string; processed: boolean }],
+    "view"
+  >;
+
+  heliosNet: TypedContractMethod<[], [string], "view">;
+
+  isBatchPledged: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isHealthCheckPending: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isProjectionSettled: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isUndercollateralized: TypedContractMethod<
+    [arg0: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  keeperReserve: TypedContractMethod<[], [bigint], "view">;
+
+  keeperRewardBps: TypedContractMethod<[], [bigint], "view">;
+
+  lastAccrualTime: TypedContractMethod<[], [bigint], "view">;
+
+  liquidate: TypedContractMethod<[borrower: AddressLike], [void], "nonpayable">;
+
+  liquidationThresholdBps: TypedContractMethod<[], [bigint], "view">;
+
+  loanToValueBps: TypedContractMethod<[], [bigint], "view">;
+
+  maxBatchUnits: TypedContractMethod<[], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingBorrowAmount: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  pledgeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  pledgeProjection: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedProjection: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  pledgedBatchCount: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  principalOf: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  projectedEnergy: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  projectionShortfall: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  repay: TypedContractMethod<[], [void], "payable">;
+
+  requestBorrow: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestHealthCheck: TypedContractMethod<
+    [borrower: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  scaledDebtOf: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  seizedEnergy: TypedContractMethod<[], [string], "view">;
+
+  setBorrowRateBps: TypedContractMethod<
+    [newBorrowRateBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setLiquidationParameters: TypedContractMethod<
+    [
+      newLiquidationThresholdBps: BigNumberish,
+      newKeeperRewardBps: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setMaxBatchUnits: TypedContractMethod<
+    [newMaxBatchUnits: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setRiskParameters: TypedContractMethod<
+    [newCreditPerUnitGwei: BigNumberish, newLoanToValueBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  settleProjection: TypedContractMethod<
+    [borrower: AddressLike, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  sharesOf: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  totalAssets: TypedContractMethod<[], [bigint], "view">;
+
+  totalBorrows: TypedContractMethod<[], [bigint], "view">;
+
+  totalScaledDebt: TypedContractMethod<[], [bigint], "view">;
+
+  totalShares: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  utilizationBps: TypedContractMethod<[], [bigint], "view">;
+
+  withdraw: TypedContractMethod<[shares: BigNumberish], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_BORROW_RATE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_KEEPER_REWARD_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_LOAN_TO_VALUE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "availableLiquidity"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "balanceOf"
+  ): TypedContractMethod<[lender: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "borrowCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "borrowIndex"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "borrowRateBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "borrowRequests"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        borrower: string;
+        amount: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "collateralEnergy"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "creditPerUnitGwei"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBorrowIndex"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "debtOf"
+  ): TypedContractMethod<[borrower: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "deposit"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "depositedOf"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "fundKeeperReserve"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "healthCheckCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "healthChecks"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, boolean] & { borrower: string; processed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "heliosNet"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "isBatchPledged"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isHealthCheckPending"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProjectionSettled"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isUndercollateralized"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "keeperReserve"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "keeperRewardBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastAccrualTime"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "liquidate"
+  ): TypedContractMethod<[borrower: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "liquidationThresholdBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "loanToValueBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "maxBatchUnits"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingBorrowAmount"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pledgeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "pledgeProjection"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedProjection: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "pledgedBatchCount"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "principalOf"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "projectedEnergy"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "projectionShortfall"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "repay"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "requestBorrow"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestHealthCheck"
+  ): TypedContractMethod<[borrower: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "scaledDebtOf"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "seizedEnergy"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setBorrowRateBps"
+  ): TypedContractMethod<
+    [newBorrowRateBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setLiquidationParameters"
+  ): TypedContractMethod<
+    [
+      newLiquidationThresholdBps: BigNumberish,
+      newKeeperRewardBps: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMaxBatchUnits"
+  ): TypedContractMethod<
+    [newMaxBatchUnits: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setRiskParameters"
+  ): TypedContractMethod<
+    [newCreditPerUnitGwei: BigNumberish, newLoanToValueBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleProjection"
+  ): TypedContractMethod<
+    [borrower: AddressLike, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "sharesOf"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalAssets"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalBorrows"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalScaledDebt"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalShares"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "utilizationBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[shares: BigNumberish], [void], "nonpayable">;
+
+  getEvent(
+    key: "BorrowExecuted"
+  ): TypedContractEvent<
+    BorrowExecutedEvent.InputTuple,
+    BorrowExecutedEvent.OutputTuple,
+    BorrowExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BorrowRateUpdated"
+  ): TypedContractEvent<
+    BorrowRateUpdatedEvent.InputTuple,
+    BorrowRateUpdatedEvent.OutputTuple,
+    BorrowRateUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BorrowRejected"
+  ): TypedContractEvent<
+    BorrowRejectedEvent.InputTuple,
+    BorrowRejectedEvent.OutputTuple,
+    BorrowRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BorrowRequested"
+  ): TypedContractEvent<
+    BorrowRequestedEvent.InputTuple,
+    BorrowRequestedEvent.OutputTuple,
+    BorrowRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollateralPledged"
+  ): TypedContractEvent<
+    CollateralPledgedEvent.InputTuple,
+    CollateralPledgedEvent.OutputTuple,
+    CollateralPledgedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractPaused"
+  ): TypedContractEvent<
+    ContractPausedEvent.InputTuple,
+    ContractPausedEvent.OutputTuple,
+    ContractPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContractUnpaused"
+  ): TypedContractEvent<
+    ContractUnpausedEvent.InputTuple,
+    ContractUnpausedEvent.OutputTuple,
+    ContractUnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "Deposited"
+  ): TypedContractEvent<
+    DepositedEvent.InputTuple,
+    DepositedEvent.OutputTuple,
+    DepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "HealthCheckRequested"
+  ): TypedContractEvent<
+    HealthCheckRequestedEvent.InputTuple,
+    HealthCheckRequestedEvent.OutputTuple,
+    HealthCheckRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "HealthChecked"
+  ): TypedContractEvent<
+    HealthCheckedEvent.InputTuple,
+    HealthCheckedEvent.OutputTuple,
+    HealthCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "KeeperReserveFunded"
+  ): TypedContractEvent<
+    KeeperReserveFundedEvent.InputTuple,
+    KeeperReserveFundedEvent.OutputTuple,
+    KeeperReserveFundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Liquidated"
+  ): TypedContractEvent<
+    LiquidatedEvent.InputTuple,
+    LiquidatedEvent.OutputTuple,
+    LiquidatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LiquidationParametersUpdated"
+  ): TypedContractEvent<
+    LiquidationParametersUpdatedEvent.InputTuple,
+    LiquidationParametersUpdatedEvent.OutputTuple,
+    LiquidationParametersUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MaxBatchUnitsUpdated"
+  ): TypedContractEvent<
+    MaxBatchUnitsUpdatedEvent.InputTuple,
+    MaxBatchUnitsUpdatedEvent.OutputTuple,
+    MaxBatchUnitsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProjectionPledged"
+  ): TypedContractEvent<
+    ProjectionPledgedEvent.InputTuple,
+    ProjectionPledgedEvent.OutputTuple,
+    ProjectionPledgedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProjectionSettled"
+  ): TypedContractEvent<
+    ProjectionSettledEvent.InputTuple,
+    ProjectionSettledEvent.OutputTuple,
+    ProjectionSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "Repaid"
+  ): TypedContractEvent<
+    RepaidEvent.InputTuple,
+    RepaidEvent.OutputTuple,
+    RepaidEvent.OutputObject
+  >;
+  getEvent(
+    key: "RiskParametersUpdated"
+  ): TypedContractEvent<
+    RiskParametersUpdatedEvent.InputTuple,
+    RiskParametersUpdatedEvent.OutputTuple,
+    RiskParametersUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Withdrawn"
+  ): TypedContractEvent<
+    WithdrawnEvent.InputTuple,
+    WithdrawnEvent.OutputTuple,
+    WithdrawnEvent.OutputObject
+  >;
+
+  filters: {
+    "BorrowExecuted(uint256,address,uint256)": TypedContractEvent<
+      BorrowExecutedEvent.InputTuple,
+      BorrowExecutedEvent.OutputTuple,
+      BorrowExecutedEvent.OutputObject
+    >;
+    BorrowExecuted: TypedContractEvent<
+      BorrowExecutedEvent.InputTuple,
+      BorrowExecutedEvent.OutputTuple,
+      BorrowExecutedEvent.OutputObject
+    >;
+
+    "BorrowRateUpdated(uint256,uint256)": TypedContractEvent<
+      BorrowRateUpdatedEvent.InputTuple,
+      BorrowRateUpdatedEvent.OutputTuple,
+      BorrowRateUpdatedEvent.OutputObject
+    >;
+    BorrowRateUpdated: TypedContractEvent<
+      BorrowRateUpdatedEvent.InputTuple,
+      BorrowRateUpdatedEvent.OutputTuple,
+      BorrowRateUpdatedEvent.OutputObject
+    >;
+
+    "BorrowRejected(uint256,address,uint256)": TypedContractEvent<
+      BorrowRejectedEvent.InputTuple,
+      BorrowRejectedEvent.OutputTuple,
+      BorrowRejectedEvent.OutputObject
+    >;
+    BorrowRejected: TypedContractEvent<
+      BorrowRejectedEvent.InputTuple,
+      BorrowRejectedEvent.OutputTuple,
+      BorrowRejectedEvent.OutputObject
+    >;
+
+    "BorrowRequested(uint256,address,uint256)": TypedContractEvent<
+      BorrowRequestedEvent.InputTuple,
+      BorrowRequestedEvent.OutputTuple,
+      BorrowRequestedEvent.OutputObject
+    >;
+    BorrowRequested: TypedContractEvent<
+      BorrowRequestedEvent.InputTuple,
+      BorrowRequestedEvent.OutputTuple,
+      BorrowRequestedEvent.OutputObject
+    >;
+
+    "CollateralPledged(address,uint256)": TypedContractEvent<
+      CollateralPledgedEvent.InputTuple,
+      CollateralPledgedEvent.OutputTuple,
+      CollateralPledgedEvent.OutputObject
+    >;
+    CollateralPledged: TypedContractEvent<
+      CollateralPledgedEvent.InputTuple,
+      CollateralPledgedEvent.OutputTuple,
+      CollateralPledgedEvent.OutputObject
+    >;
+
+    "ContractPaused()": TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+    ContractPaused: TypedContractEvent<
+      ContractPausedEvent.InputTuple,
+      ContractPausedEvent.OutputTuple,
+      ContractPausedEvent.OutputObject
+    >;
+
+    "ContractUnpaused()": TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+    ContractUnpaused: TypedContractEvent<
+      ContractUnpausedEvent.InputTuple,
+      ContractUnpausedEvent.OutputTuple,
+      ContractUnpausedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "Deposited(address,uint256,uint256)": TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+    Deposited: TypedContractEvent<
+      DepositedEvent.InputTuple,
+      DepositedEvent.OutputTuple,
+      DepositedEvent.OutputObject
+    >;
+
+    "HealthCheckRequested(uint256,address)": TypedContractEvent<
+      HealthCheckRequestedEvent.InputTuple,
+      HealthCheckRequestedEvent.OutputTuple,
+      HealthCheckRequestedEvent.OutputObject
+    >;
+    HealthCheckRequested: TypedContractEvent<
+      HealthCheckRequestedEvent.InputTuple,
+      HealthCheckRequestedEvent.OutputTuple,
+      HealthCheckRequestedEvent.OutputObject
+    >;
+
+    "HealthChecked(uint256,address,bool)": TypedContractEvent<
+      HealthCheckedEvent.InputTuple,
+      HealthCheckedEvent.OutputTuple,
+      HealthCheckedEvent.OutputObject
+    >;
+    HealthChecked: TypedContractEvent<
+      HealthCheckedEvent.InputTuple,
+      HealthCheckedEvent.OutputTuple,
+      HealthCheckedEvent.OutputObject
+    >;
+
+    "KeeperReserveFunded(address,uint256)": TypedContractEvent<
+      KeeperReserveFundedEvent.InputTuple,
+      KeeperReserveFundedEvent.OutputTuple,
+      KeeperReserveFundedEvent.OutputObject
+    >;
+    KeeperReserveFunded: TypedContractEvent<
+      KeeperReserveFundedEvent.InputTuple,
+      KeeperReserveFundedEvent.OutputTuple,
+      KeeperReserveFundedEvent.OutputObject
+    >;
+
+    "Liquidated(address,address,uint256,uint256)": TypedContractEvent<
+      LiquidatedEvent.InputTuple,
+      LiquidatedEvent.OutputTuple,
+      LiquidatedEvent.OutputObject
+    >;
+    Liquidated: TypedContractEvent<
+      LiquidatedEvent.InputTuple,
+      LiquidatedEvent.OutputTuple,
+      LiquidatedEvent.OutputObject
+    >;
+
+    "LiquidationParametersUpdated(uint256,uint256)": TypedContractEvent<
+      LiquidationParametersUpdatedEvent.InputTuple,
+      LiquidationParametersUpdatedEvent.OutputTuple,
+      LiquidationParametersUpdatedEvent.OutputObject
+    >;
+    LiquidationParametersUpdated: TypedContractEvent<
+      LiquidationParametersUpdatedEvent.InputTuple,
+      LiquidationParametersUpdatedEvent.OutputTuple,
+      LiquidationParametersUpdatedEvent.OutputObject
+    >;
+
+    "MaxBatchUnitsUpdated(uint32)": TypedContractEvent<
+      MaxBatchUnitsUpdatedEvent.InputTuple,
+      MaxBatchUnitsUpdatedEvent.OutputTuple,
+      MaxBatchUnitsUpdatedEvent.OutputObject
+    >;
+    MaxBatchUnitsUpdated: TypedContractEvent<
+      MaxBatchUnitsUpdatedEvent.InputTuple,
+      MaxBatchUnitsUpdatedEvent.OutputTuple,
+      MaxBatchUnitsUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ProjectionPledged(address,uint256)": TypedContractEvent<
+      ProjectionPledgedEvent.InputTuple,
+      ProjectionPledgedEvent.OutputTuple,
+      ProjectionPledgedEvent.OutputObject
+    >;
+    ProjectionPledged: TypedContractEvent<
+      ProjectionPledgedEvent.InputTuple,
+      ProjectionPledgedEvent.OutputTuple,
+      ProjectionPledgedEvent.OutputObject
+    >;
+
+    "ProjectionSettled(address,uint256)": TypedContractEvent<
+      ProjectionSettledEvent.InputTuple,
+      ProjectionSettledEvent.OutputTuple,
+      ProjectionSettledEvent.OutputObject
+    >;
+    ProjectionSettled: TypedContractEvent<
+      ProjectionSettledEvent.InputTuple,
+      ProjectionSettledEvent.OutputTuple,
+      ProjectionSettledEvent.OutputObject
+    >;
+
+    "Repaid(address,uint256,uint256)": TypedContractEvent<
+      RepaidEvent.InputTuple,
+      RepaidEvent.OutputTuple,
+      RepaidEvent.OutputObject
+    >;
+    Repaid: TypedContractEvent<
+      RepaidEvent.InputTuple,
+      RepaidEvent.OutputTuple,
+      RepaidEvent.OutputObject
+    >;
+
+    "RiskParametersUpdated(uint64,uint256)": TypedContractEvent<
+      RiskParametersUpdatedEvent.InputTuple,
+      RiskParametersUpdatedEvent.OutputTuple,
+      RiskParametersUpdatedEvent.OutputObject
+    >;
+    RiskParametersUpdated: TypedContractEvent<
+      RiskParametersUpdatedEvent.InputTuple,
+      RiskParametersUpdatedEvent.OutputTuple,
+      RiskParametersUpdatedEvent.OutputObject
+    >;
+
+    "Withdrawn(address,uint256,uint256)": TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+    Withdrawn: TypedContractEvent<
+      WithdrawnEvent.InputTuple,
+      WithdrawnEvent.OutputTuple,
+      WithdrawnEvent.OutputObject
+    >;
+  };
+}
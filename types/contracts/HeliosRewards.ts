@@ -0,0 +1,568 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface HeliosRewardsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_EPOCH_REWARD"
+      | "claim"
+      | "decryptionContexts"
+      | "epochs"
+      | "finalizeCallback"
+      | "finalizeEpoch"
+      | "hasClaimed"
+      | "heliosNet"
+      | "isFinalizationPending"
+      | "owner"
+      | "protocolId"
+      | "rewardPerEpoch"
+      | "rewardToken"
+      | "setRewardPerEpoch"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "EpochFinalizationRequested"
+      | "EpochFinalized"
+      | "OwnershipTransferred"
+      | "RewardClaimed"
+      | "RewardPerEpochUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_EPOCH_REWARD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "claim", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "epochs",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeEpoch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasClaimed",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "heliosNet", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "isFinalizationPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardPerEpoch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rewardToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRewardPerEpoch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_EPOCH_REWARD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claim", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "epochs", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeEpoch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasClaimed", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "heliosNet", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isFinalizationPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardPerEpoch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rewardToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRewardPerEpoch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EpochFinalizationRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EpochFinalizedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    totalEnergy: BigNumberish,
+    reward: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    totalEnergy: bigint,
+    reward: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    totalEnergy: bigint;
+    reward: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardClaimedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    provider: AddressLike,
+    amount: BytesLike
+  ];
+  export type OutputTuple = [batchId: bigint, provider: string, amount: string];
+  export interface OutputObject {
+    batchId: bigint;
+    provider: string;
+    amount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardPerEpochUpdatedEvent {
+  export type InputTuple = [rewardPerEpoch: BigNumberish];
+  export type OutputTuple = [rewardPerEpoch: bigint];
+  export interface OutputObject {
+    rewardPerEpoch: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface HeliosRewards extends BaseContract {
+  connect(runner?: ContractRunner | null): HeliosRewards;
+  waitForDeployment(): Promise<this>;
+
+  interface: HeliosRewardsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_EPOCH_REWARD: TypedContractMethod<[], [bigint], "view">;
+
+  claim: TypedContractMethod<[batchId: BigNumberish], [string], "nonpayable">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        reward: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  epochs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean, bigint, string, string] & {
+        reward: bigint;
+        totalEnergy: bigint;
+        finalized: boolean;
+        claimCount: bigint;
+        claimedReward: string;
+        claimedEnergy: string;
+      }
+    ],
+    "view"
+  >;
+
+  finalizeCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  finalizeEpoch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  hasClaimed: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  heliosNet: TypedContractMethod<[], [string], "view">;
+
+  isFinalizationPending: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  rewardPerEpoch: TypedContractMethod<[], [bigint], "view">;
+
+  rewardToken: TypedContractMethod<[], [string], "view">;
+
+  setRewardPerEpoch: TypedContractMethod<
+    [newRewardPerEpoch: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_EPOCH_REWARD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claim"
+  ): TypedContractMethod<[batchId: BigNumberish], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        reward: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "epochs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean, bigint, string, string] & {
+        reward: bigint;
+        totalEnergy: bigint;
+        finalized: boolean;
+        claimCount: bigint;
+        claimedReward: string;
+        claimedEnergy: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeEpoch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "hasClaimed"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "heliosNet"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "isFinalizationPending"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rewardPerEpoch"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rewardToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setRewardPerEpoch"
+  ): TypedContractMethod<
+    [newRewardPerEpoch: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "EpochFinalizationRequested"
+  ): TypedContractEvent<
+    EpochFinalizationRequestedEvent.InputTuple,
+    EpochFinalizationRequestedEvent.OutputTuple,
+    EpochFinalizationRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EpochFinalized"
+  ): TypedContractEvent<
+    EpochFinalizedEvent.InputTuple,
+    EpochFinalizedEvent.OutputTuple,
+    EpochFinalizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardClaimed"
+  ): TypedContractEvent<
+    RewardClaimedEvent.InputTuple,
+    RewardClaimedEvent.OutputTuple,
+    RewardClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardPerEpochUpdated"
+  ): TypedContractEvent<
+    RewardPerEpochUpdatedEvent.InputTuple,
+    RewardPerEpochUpdatedEvent.OutputTuple,
+    RewardPerEpochUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "EpochFinalizationRequested(uint256,uint256,bytes32)": TypedContractEvent<
+      EpochFinalizationRequestedEvent.InputTuple,
+      EpochFinalizationRequestedEvent.OutputTuple,
+      EpochFinalizationRequestedEvent.OutputObject
+    >;
+    EpochFinalizationRequested: TypedContractEvent<
+      EpochFinalizationRequestedEvent.InputTuple,
+      EpochFinalizationRequestedEvent.OutputTuple,
+      EpochFinalizationRequestedEvent.OutputObject
+    >;
+
+    "EpochFinalized(uint256,uint64,uint64)": TypedContractEvent<
+      EpochFinalizedEvent.InputTuple,
+      EpochFinalizedEvent.OutputTuple,
+      EpochFinalizedEvent.OutputObject
+    >;
+    EpochFinalized: TypedContractEvent<
+      EpochFinalizedEvent.InputTuple,
+      EpochFinalizedEvent.OutputTuple,
+      EpochFinalizedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "RewardClaimed(uint256,address,bytes32)": TypedContractEvent<
+      RewardClaimedEvent.InputTuple,
+      RewardClaimedEvent.OutputTuple,
+      RewardClaimedEvent.OutputObject
+    >;
+    RewardClaimed: TypedContractEvent<
+      RewardClaimedEvent.InputTuple,
+      RewardClaimedEvent.OutputTuple,
+      RewardClaimedEvent.OutputObject
+    >;
+
+    "RewardPerEpochUpdated(uint64)": TypedContractEvent<
+      RewardPerEpochUpdatedEvent.InputTuple,
+      RewardPerEpochUpdatedEvent.OutputTuple,
+      RewardPerEpochUpdatedEvent.OutputObject
+    >;
+    RewardPerEpochUpdated: TypedContractEvent<
+      RewardPerEpochUpdatedEvent.InputTuple,
+      RewardPerEpochUpdatedEvent.OutputTuple,
+      RewardPerEpochUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,437 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface HeliosRiskModelInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_CREDIT_PER_UNIT_GWEI"
+      | "MAX_HORIZON_BATCHES"
+      | "MAX_WINDOW"
+      | "MIN_WINDOW"
+      | "assessRisk"
+      | "assessments"
+      | "creditPerUnitGwei"
+      | "heliosNet"
+      | "horizonBatches"
+      | "latestClosedBatchId"
+      | "owner"
+      | "protocolId"
+      | "setModelParameters"
+      | "transferOwnership"
+      | "volatilityHaircutBps"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ModelParametersUpdated"
+      | "OwnershipTransferred"
+      | "RiskAssessed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_CREDIT_PER_UNIT_GWEI",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_HORIZON_BATCHES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_WINDOW",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_WINDOW",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assessRisk",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assessments",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "creditPerUnitGwei",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "heliosNet", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "horizonBatches",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "latestClosedBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setModelParameters",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "volatilityHaircutBps",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_CREDIT_PER_UNIT_GWEI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_HORIZON_BATCHES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_WINDOW", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "MIN_WINDOW", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "assessRisk", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "assessments",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "creditPerUnitGwei",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "heliosNet", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "horizonBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "latestClosedBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setModelParameters",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "volatilityHaircutBps",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ModelParametersUpdatedEvent {
+  export type InputTuple = [
+    creditPerUnitGwei: BigNumberish,
+    horizonBatches: BigNumberish,
+    volatilityHaircutBps: BigNumberish
+  ];
+  export type OutputTuple = [
+    creditPerUnitGwei: bigint,
+    horizonBatches: bigint,
+    volatilityHaircutBps: bigint
+  ];
+  export interface OutputObject {
+    creditPerUnitGwei: bigint;
+    horizonBatches: bigint;
+    volatilityHaircutBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RiskAssessedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    firstBatchId: BigNumberish,
+    lastBatchId: BigNumberish,
+    creditLimitGwei: BytesLike
+  ];
+  export type OutputTuple = [
+    provider: string,
+    firstBatchId: bigint,
+    lastBatchId: bigint,
+    creditLimitGwei: string
+  ];
+  export interface OutputObject {
+    provider: string;
+    firstBatchId: bigint;
+    lastBatchId: bigint;
+    creditLimitGwei: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface HeliosRiskModel extends BaseContract {
+  connect(runner?: ContractRunner | null): HeliosRiskModel;
+  waitForDeployment(): Promise<this>;
+
+  interface: HeliosRiskModelInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_CREDIT_PER_UNIT_GWEI: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_HORIZON_BATCHES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_WINDOW: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_WINDOW: TypedContractMethod<[], [bigint], "view">;
+
+  assessRisk: TypedContractMethod<
+    [window: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  assessments: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, bigint, bigint, bigint] & {
+        creditLimitGwei: string;
+        firstBatchId: bigint;
+        lastBatchId: bigint;
+        assessedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  creditPerUnitGwei: TypedContractMethod<[], [bigint], "view">;
+
+  heliosNet: TypedContractMethod<[], [string], "view">;
+
+  horizonBatches: TypedContractMethod<[], [bigint], "view">;
+
+  latestClosedBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  setModelParameters: TypedContractMethod<
+    [
+      newCreditPerUnitGwei: BigNumberish,
+      newHorizonBatches: BigNumberish,
+      newVolatilityHaircutBps: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  volatilityHaircutBps: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_CREDIT_PER_UNIT_GWEI"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_HORIZON_BATCHES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_WINDOW"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_WINDOW"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "assessRisk"
+  ): TypedContractMethod<[window: BigNumberish], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "assessments"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, bigint, bigint, bigint] & {
+        creditLimitGwei: string;
+        firstBatchId: bigint;
+        lastBatchId: bigint;
+        assessedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "creditPerUnitGwei"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "heliosNet"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "horizonBatches"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "latestClosedBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setModelParameters"
+  ): TypedContractMethod<
+    [
+      newCreditPerUnitGwei: BigNumberish,
+      newHorizonBatches: BigNumberish,
+      newVolatilityHaircutBps: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "volatilityHaircutBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "ModelParametersUpdated"
+  ): TypedContractEvent<
+    ModelParametersUpdatedEvent.InputTuple,
+    ModelParametersUpdatedEvent.OutputTuple,
+    ModelParametersUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "RiskAssessed"
+  ): TypedContractEvent<
+    RiskAssessedEvent.InputTuple,
+    RiskAssessedEvent.OutputTuple,
+    RiskAssessedEvent.OutputObject
+  >;
+
+  filters: {
+    "ModelParametersUpdated(uint64,uint64,uint64)": TypedContractEvent<
+      ModelParametersUpdatedEvent.InputTuple,
+      ModelParametersUpdatedEvent.OutputTuple,
+      ModelParametersUpdatedEvent.OutputObject
+    >;
+    ModelParametersUpdated: TypedContractEvent<
+      ModelParametersUpdatedEvent.InputTuple,
+      ModelParametersUpdatedEvent.OutputTuple,
+      ModelParametersUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "RiskAssessed(address,uint256,uint256,bytes32)": TypedContractEvent<
+      RiskAssessedEvent.InputTuple,
+      RiskAssessedEvent.OutputTuple,
+      RiskAssessedEvent.OutputObject
+    >;
+    RiskAssessed: TypedContractEvent<
+      RiskAssessedEvent.InputTuple,
+      RiskAssessedEvent.OutputTuple,
+      RiskAssessedEvent.OutputObject
+    >;
+  };
+}
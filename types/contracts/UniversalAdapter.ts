@@ -3,6 +3,7 @@
 /* eslint-disable */
 import type {
   BaseContract,
+  BigNumberish,
   BytesLike,
   FunctionFragment,
   Result,
@@ -24,27 +25,101 @@ import type {
 
 export interface UniversalAdapterInterface extends Interface {
   getFunction(
-    nameOrSignature: "getData" | "isAvailable" | "setData"
+    nameOrSignature:
+      | "finishImport"
+      | "getData"
+      | "getKeys"
+      | "importData"
+      | "importer"
+      | "indexKey"
+      | "isAvailable"
+      | "isIndexed"
+      | "keyCount"
+      | "keyOwner"
+      | "setData"
+      | "setIndexedData"
   ): FunctionFragment;
 
-  getEvent(nameOrSignatureOrTopic: "DataStored"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DataImported"
+      | "DataStored"
+      | "ImportFinished"
+      | "KeyIndexed"
+  ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "finishImport",
+    values?: undefined
+  ): string;
   encodeFunctionData(functionFragment: "getData", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getKeys",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "importData",
+    values: [string, string, BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "importer", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "indexKey",
+    values: [string, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "isAvailable",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "isIndexed",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(functionFragment: "keyCount", values: [string]): string;
+  encodeFunctionData(functionFragment: "keyOwner", values: [string]): string;
   encodeFunctionData(
     functionFragment: "setData",
     values: [string, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setIndexedData",
+    values: [string, string, BytesLike]
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "finishImport",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "getData", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getKeys", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "importData", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "importer", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "indexKey", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isAvailable",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "isIndexed", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "keyCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "keyOwner", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "setData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setIndexedData",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DataImportedEvent {
+  export type InputTuple = [owner: AddressLike, key: string, value: BytesLike];
+  export type OutputTuple = [owner: string, key: string, value: string];
+  export interface OutputObject {
+    owner: string;
+    key: string;
+    value: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
 }
 
 export namespace DataStoredEvent {
@@ -61,6 +136,34 @@ export namespace DataStoredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace ImportFinishedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace KeyIndexedEvent {
+  export type InputTuple = [
+    namespace_: string,
+    position: BigNumberish,
+    key: string
+  ];
+  export type OutputTuple = [namespace_: string, position: bigint, key: string];
+  export interface OutputObject {
+    namespace: string;
+    position: bigint;
+    key: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface UniversalAdapter extends BaseContract {
   connect(runner?: ContractRunner | null): UniversalAdapter;
   waitForDeployment(): Promise<this>;
@@ -104,30 +207,118 @@ export interface UniversalAdapter extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  finishImport: TypedContractMethod<[], [void], "nonpayable">;
+
   getData: TypedContractMethod<[key: string], [string], "view">;
 
+  getKeys: TypedContractMethod<
+    [namespace: string, offset: BigNumberish, limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  importData: TypedContractMethod<
+    [namespace: string, key: string, value: BytesLike, owner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  importer: TypedContractMethod<[], [string], "view">;
+
+  indexKey: TypedContractMethod<
+    [namespace: string, key: string],
+    [void],
+    "nonpayable"
+  >;
+
   isAvailable: TypedContractMethod<[], [boolean], "view">;
 
+  isIndexed: TypedContractMethod<
+    [namespace: string, key: string],
+    [boolean],
+    "view"
+  >;
+
+  keyCount: TypedContractMethod<[namespace: string], [bigint], "view">;
+
+  keyOwner: TypedContractMethod<[key: string], [string], "view">;
+
   setData: TypedContractMethod<
     [key: string, value: BytesLike],
     [void],
     "nonpayable"
   >;
 
+  setIndexedData: TypedContractMethod<
+    [namespace: string, key: string, value: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "finishImport"
+  ): TypedContractMethod<[], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "getData"
   ): TypedContractMethod<[key: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getKeys"
+  ): TypedContractMethod<
+    [namespace: string, offset: BigNumberish, limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "importData"
+  ): TypedContractMethod<
+    [namespace: string, key: string, value: BytesLike, owner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "importer"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "indexKey"
+  ): TypedContractMethod<
+    [namespace: string, key: string],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "isAvailable"
   ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isIndexed"
+  ): TypedContractMethod<[namespace: string, key: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "keyCount"
+  ): TypedContractMethod<[namespace: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "keyOwner"
+  ): TypedContractMethod<[key: string], [string], "view">;
   getFunction(
     nameOrSignature: "setData"
   ): TypedContractMethod<[key: string, value: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setIndexedData"
+  ): TypedContractMethod<
+    [namespace: string, key: string, value: BytesLike],
+    [void],
+    "nonpayable"
+  >;
 
+  getEvent(
+    key: "DataImported"
+  ): TypedContractEvent<
+    DataImportedEvent.InputTuple,
+    DataImportedEvent.OutputTuple,
+    DataImportedEvent.OutputObject
+  >;
   getEvent(
     key: "DataStored"
   ): TypedContractEvent<
@@ -135,8 +326,33 @@ export interface UniversalAdapter extends BaseContract {
     DataStoredEvent.OutputTuple,
     DataStoredEvent.OutputObject
   >;
+  getEvent(
+    key: "ImportFinished"
+  ): TypedContractEvent<
+    ImportFinishedEvent.InputTuple,
+    ImportFinishedEvent.OutputTuple,
+    ImportFinishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "KeyIndexed"
+  ): TypedContractEvent<
+    KeyIndexedEvent.InputTuple,
+    KeyIndexedEvent.OutputTuple,
+    KeyIndexedEvent.OutputObject
+  >;
 
   filters: {
+    "DataImported(address,string,bytes)": TypedContractEvent<
+      DataImportedEvent.InputTuple,
+      DataImportedEvent.OutputTuple,
+      DataImportedEvent.OutputObject
+    >;
+    DataImported: TypedContractEvent<
+      DataImportedEvent.InputTuple,
+      DataImportedEvent.OutputTuple,
+      DataImportedEvent.OutputObject
+    >;
+
     "DataStored(address,string,bytes)": TypedContractEvent<
       DataStoredEvent.InputTuple,
       DataStoredEvent.OutputTuple,
@@ -147,5 +363,27 @@ export interface UniversalAdapter extends BaseContract {
       DataStoredEvent.OutputTuple,
       DataStoredEvent.OutputObject
     >;
+
+    "ImportFinished()": TypedContractEvent<
+      ImportFinishedEvent.InputTuple,
+      ImportFinishedEvent.OutputTuple,
+      ImportFinishedEvent.OutputObject
+    >;
+    ImportFinished: TypedContractEvent<
+      ImportFinishedEvent.InputTuple,
+      ImportFinishedEvent.OutputTuple,
+      ImportFinishedEvent.OutputObject
+    >;
+
+    "KeyIndexed(string,uint256,string)": TypedContractEvent<
+      KeyIndexedEvent.InputTuple,
+      KeyIndexedEvent.OutputTuple,
+      KeyIndexedEvent.OutputObject
+    >;
+    KeyIndexed: TypedContractEvent<
+      KeyIndexedEvent.InputTuple,
+      KeyIndexedEvent.OutputTuple,
+      KeyIndexedEvent.OutputObject
+    >;
   };
 }
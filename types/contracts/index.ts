@@ -1,4 +1,13 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as heliosNetSol from "./Helios_Net.sol";
+export type { heliosNetSol };
+import type * as interfaces from "./interfaces";
+export type { interfaces };
+export type { HeliosDAO } from "./HeliosDAO";
+export type { HeliosLendingPool } from "./HeliosLendingPool";
+export type { HeliosRewardToken } from "./HeliosRewardToken";
+export type { HeliosRewards } from "./HeliosRewards";
+export type { HeliosRiskModel } from "./HeliosRiskModel";
 export type { UniversalAdapter } from "./UniversalAdapter";
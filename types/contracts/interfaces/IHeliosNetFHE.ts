@@ -0,0 +1,160 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface IHeliosNetFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "currentBatchId"
+      | "isBatchOpen"
+      | "isProvider"
+      | "totalEncryptedEnergyInBatch"
+      | "userEncryptedEnergyInBatch"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBatchOpen",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalEncryptedEnergyInBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userEncryptedEnergyInBatch",
+    values: [BigNumberish, AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchOpen",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalEncryptedEnergyInBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "userEncryptedEnergyInBatch",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IHeliosNetFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): IHeliosNetFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: IHeliosNetFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  isBatchOpen: TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+
+  isProvider: TypedContractMethod<[provider: AddressLike], [boolean], "view">;
+
+  totalEncryptedEnergyInBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  userEncryptedEnergyInBatch: TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "isBatchOpen"
+  ): TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[provider: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "totalEncryptedEnergyInBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "userEncryptedEnergyInBatch"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [string],
+    "view"
+  >;
+
+  filters: {};
+}
@@ -0,0 +1,742 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type { HeliosDAO, HeliosDAOInterface } from "../../contracts/HeliosDAO";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyVoted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ExecutionFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotMember",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotSucceeded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TallyAlreadyRequested",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownProposal",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingNotEnded",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "votingPeriod",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "quorumVotes",
+        type: "uint64",
+      },
+    ],
+    name: "GovernanceParametersUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "ProposalCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "ProposalExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "forVotes",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "againstVotes",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "succeeded",
+        type: "bool",
+      },
+    ],
+    name: "ProposalTallied",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "TallyRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+    ],
+    name: "VoteCast",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "votingPower",
+        type: "uint32",
+      },
+    ],
+    name: "VotingPowerSet",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_VOTING_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "forWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "againstWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "castVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "execute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasVoted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proposalCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "proposalState",
+    outputs: [
+      {
+        internalType: "enum HeliosDAO.ProposalState",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proposals",
+    outputs: [
+      {
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+      {
+        internalType: "enum HeliosDAO.ProposalState",
+        name: "state",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "forVotes",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "againstVotes",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "voterCount",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "callData",
+        type: "bytes",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedFor",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedAgainst",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "callData",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "propose",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "quorumVotes",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "requestTally",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newVotingPeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "newQuorumVotes",
+        type: "uint64",
+      },
+    ],
+    name: "setGovernanceParameters",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "power",
+        type: "uint32",
+      },
+    ],
+    name: "setVotingPower",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "tallyCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalVotingPower",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "votingPeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "votingPower",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234610175575f6060610014610179565b828152826020820152826040820152015261002d610179565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f556203f4806001556001808060401b03196002541617600255604051611cbe90816101ad8239f35b5f80fd5b60405190608082016001600160401b0381118382101761019857604052565b634e487b7160e01b5f52604160045260245ffdfe608060409080825260049182361015610016575f80fd5b5f915f3560e01c908163013cf08b146114855750806302a251a31461146757806317e84eaf1461111d578063244c54d314610db757806324bc1a6414610d905780633153fedb146109d657806333b079821461091357806343859632146108c5578063671b3793146108a75780638da5cb5b14610880578063a64e024a14610863578063b65e89411461081e578063c07473f6146107e0578063d26331d4146107b2578063da1f12ab14610796578063da35c66414610778578063df01d73e14610383578063f2fde38b14610319578063fe0d94c1146101a55763feab97dd146100fe575f80fd5b346101a157806003193601126101a15782356024356001600160401b03811680910361019d5761012c611c19565b81158015610191575b610181577f372b8fe241a102e708c58c6769fdc66a8b247c9d6daea8a05314cc4a68ce623493945081600155806001600160401b0319600254161760025582519182526020820152a180f35b8251630309cb8760e51b81528590fd5b5062278d008211610135565b8380fd5b5080fd5b50823461031557602091602060031936011261019d578135926101c784611830565b6006811015610302576003036102f457838552600660205284828120600192600560018301928354938260e01b60ff60e01b19861617905501855191849582549261021184611588565b93600181169081156102d957506001146102a1575b5050505082818195039260018060a01b03165af13d1561029c573d61024a81611743565b9061025784519283611678565b81528560203d92013e5b1561028f5750507f712ae1383f79ac853f8d882153778e0260ef8f03b504e2866e0593e04d2b291f8280a280f35b51632b3f6d1160e21b8152fd5b610261565b865260208620965085905b8382106102c357505050810193508281818b610226565b875482860152968701968b9650908201906102ac565b60ff191686525050505080151502810193508281818b610226565b50516354f482db60e11b8152fd5b634e487b7160e01b865260218452602486fd5b8280fd5b82346103805760203660031901126103805761033361172d565b61033b611c19565b81546001600160a01b039182166001600160a01b031982168117845591167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08380a380f35b80fd5b50829034610315576003199060603683011261019d578235926001600160401b0390602435828111610774576103bc9036908301611794565b91604435818111610770576103d49036908401611794565b958088526020926008845285892091825498891561076057600284019960ff8b5416610750578b5260068652878b20986104156104108b611b4c565b611be2565b60019060018701540361074057838d527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018089528a8e20541561073057908d9185835289528a8220908b5191829384928c835495868152019282528c8220915b8d86821061071a575050505061048d92500382611678565b88519081890191828a11610707578b018092116106f457918a89928f8c9796958380518094888c519c019b8c818b85016104c6926116ba565b82019089820152038781018552016104de9084611678565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035493516378542ead60e01b815260608b8201529687956001600160a01b039095169486948593610533906064860190611baf565b82858203016024860152610546916116db565b90838203016044840152610559916116db565b03925af19081156106ea578c916106b0575b50156106a0577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8b80a2868680518101031261069c5786905195015197600160ff198254161790558285169660028101988954896fffffffffffffffff0000000000000000838b1b16916fffffffffffffffffffffffffffffffff19161717809a558087119687610682575b505085156106795760016003915b019160068210156106665750815460ff60e01b191660e09190911b60ff60e01b1617905554845195865295841c16908401521515908201527fc8e99d8db186a709f6e7cc4ebb05e9de36c1012717cfa68347a0adefdacc683390606090a280f35b602190634e487b7160e01b5f525260245ffd5b60018291610605565b61068d9297506117d4565b83600254161115948a806105f7565b8980fd5b875163cf6c44e960e01b81528390fd5b90508681813d83116106e3575b6106c78183611678565b810103126106df575180151581036106df578c61056b565b8b80fd5b503d6106bd565b89513d8e823e3d90fd5b634e487b7160e01b8e526011865260248efd5b634e487b7160e01b8f526011875260248ffd5b8354855287955090930192918101918101610475565b8a5163d66ca67560e01b81528690fd5b89516313b304fb60e21b81528590fd5b885163dbde098160e01b81528490fd5b87516302eae9e560e51b81528390fd5b8780fd5b8680fd5b50346101a157816003193601126101a1576020906005549051908152f35b50346101a157816003193601126101a157602090516127118152f35b50903461038057602036600319011261038057506107de6107d560209335611830565b91518092611699565bf35b50346101a15760203660031901126101a15760209163ffffffff9082906001600160a01b0361080d61172d565b168152600385522054169051908152f35b5082346103155760203660031901126103155760609282913581526008602052209081549160ff60026001830154920154169082519384526020840152151590820152f35b50346101a157816003193601126101a1576020905162278d008152f35b50346101a157816003193601126101a157905490516001600160a01b039091168152602090f35b50823461031557826003193601126103155760209250549051908152f35b5082346103155781600319360112610315576024356001600160a01b038116919082900361090f5760209383913581526007855220905f52825260ff815f20541690519015158152f35b5f80fd5b50346101a157806003193601126101a15761092c61172d565b906024359063ffffffff928383168093036109d257610949611c19565b85546001600160a01b0390911680865260036020528286205490941681039081116109bf57916020918661099e837f35216bc66244e150269993f298db2276183a5055289e23dc2d38f2a8db3d61ba966117d4565b905584865260038352808620805463ffffffff19168317905551908152a280f35b634e487b7160e01b855260118652602485fd5b8480fd5b50346101a15760603660031901126101a1576109f061172d565b916024356001600160401b0381116101a157610a0f9036908601611700565b936044356001600160401b03811161019d57610a2e9036908801611700565b9390610a386118a8565b6001600160a01b038316158015610d88575b610d7857610a596005546117b2565b6005819055808352600660205286832080546001600160a01b031990811633178255600180830180549283166001600160a01b0389161790555492999196919267ffffffffffffffff60a01b90610ab090426117d4565b6001600160e01b03199092166001600160a01b0388161760a09290921b161760018701558986016001600160401b038811610d6557610af988610af38354611588565b836117e1565b8488601f8111600114610d035780610b25928891610cf8575b508160011b915f199060031b1c19161790565b90555b6001600160401b038211610ce55760209950918189959493610b5b8994610b5260058b0154611588565b60058b016117e1565b8490601f8311600114610c455797610bb7836001600160401b03946001947ffd5a9d24d91e2994e7ee01874fc49e09f7d9432b7db6d4cb372ad0a994aecf5c9b9c8a92610c3a575b50508160011b915f199060031b1c19161790565b60058201555b610bef610bc8611c3e565b60068301908155610be8610bda611c3e565b916007850192835554611aef565b5054611aef565b50015489516001600160a01b03909616865260a01c168a850152606084890181905284018290526080840137608085830101526080813395601f80199101168101030190a351908152f35b013590505f80610ba3565b9791906005830186528c862090865b601f1984168110610cc85750826001600160401b0394927ffd5a9d24d91e2994e7ee01874fc49e09f7d9432b7db6d4cb372ad0a994aecf5c9a9b600195938694601f19811610610caf575b505050811b016005820155610bbd565b01355f19600384901b60f8161c191690555f8080610c9f565b818b013583558d99508b9650600190920191908e01908e01610c54565b634e487b7160e01b845260418a52602484fd5b90508601355f610b12565b50818652602086209089601f198116885b818110610d4a575010610d31575b5050600188811b019055610b28565b8501355f1960038b901b60f8161c191690555f80610d22565b8884013585556001909401936020938401938d935001610d14565b634e487b7160e01b855260418b52602485fd5b8551630309cb8760e51b81528890fd5b508415610a4a565b50346101a157816003193601126101a1576020906001600160401b03600254169051908152f35b503461090f576020908160031936011261090f57833591610dd783611830565b91600683101561110a5782156110fb5760018093036110ec57835f5260068252610e02815f20611b4c565b90610e0c82611be2565b917f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080549560018060a01b03807f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561090f578551637d6e912360e11b8152808d01899052905f908290818381610e8a602482018c611baf565b03925af180156110e2576110cf575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561069c578451633263b83b60e01b8152808c0189905260606024820152908a908290818381610ef2606482018b611baf565b636f80eb9f60e11b604483015203925af180156110c557908a916110ad575b508790527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808752848a205461109d57878a5286528389208351906001600160401b039485831161108a5768010000000000000000831161108a5788908c8484549181865582821061105e575b50505001908b52878b208b5b83811061104d575050505050610fa081546117b2565b9055815190606082019081118282101761103a577f8eece49259923881563114fa5941266a19d9222b0f5d4edf14c1448be725cc1395969798508252868152600284820191848352838101928a8452888b5260088752848b2091518255516001820155019051151560ff8019835416911617905585875260068352600181882001600160e11b60ff60e01b1982541617905551908152a380f35b604189634e487b7160e01b5f525260245ffd5b825182820155918901918401610f8a565b908482878a94522092830192015b82811061107c575050848e610f7e565b5f81558c945087910161106c565b634e487b7160e01b8c5260418d5260248cfd5b8451633f06d22b60e01b81528b90fd5b6110b690611651565b6110c157885f610f11565b8880fd5b85513d8c823e3d90fd5b6110da919a50611651565b5f985f610e99565b86513d5f823e3d90fd5b516305a7a9f560e51b81528590fd5b51633fc30bd160e11b81528590fd5b602186634e487b7160e01b5f525260245ffd5b50823461090f57608036600319011261090f578035916064356001600160401b03811161090f576111519036908401611700565b9261115a6118a8565b61116385611830565b60068110156114545761144657845f5260209160078352835f20335f52835260ff845f205416611437576111b06111bd6111c5926111b56111b06111a8368b8561175e565b6024356118d4565b6119e9565b97369161175e565b6044356118d4565b906111d08286611a6b565b90335f526003845263ffffffff855f205416908215611427575b60018060a01b0393855f80516020611c9283398151915293606487865416965f8b519889948593631d44e90160e21b8552898501526024840152600160f81b60448401525af193841561141d575f946113e1575b50908360069796959493926064995f611255611c3e565b918d82528b8a52898b8084209d8e019e8f54938c8b541692519586938492637702dcff60e01b9b8c85528d85015260248401528860448401525af19182156113d757918d918b97969594935f92611397575b50916112b95f94926064979694611a6b565b905560078d01998a54985416918c51998a9788968752860152602485015260448401525af191821561138d575f9261135b575b506003966113016113099493610be893611a6b565b835554611aef565b50845f5260078152815f2090335f52525f20600160ff198254161790550161133181546117b2565b905533907ff1003b73c437642c0460aee9cd9628b0b8c447b66e6c7c905531b9c644214a115f80a3005b9291508383813d8311611386575b6113738183611678565b8101031261090f579151909160036112ec565b503d611369565b85513d5f823e3d90fd5b93978491969593508092503d83116113d0575b6113b48183611678565b8101031261090f579051899592939192918d91906112b96112a7565b503d6113aa565b8b513d5f823e3d90fd5b969594935091908487813d8111611416575b6113fd8183611678565b8101031261090f5795519495939492939091606461123e565b503d6113f3565b87513d5f823e3d90fd5b9150611431611c3e565b916111ea565b508251637c9a1cf960e01b8152fd5b825163335b65a560e11b8152fd5b602182634e487b7160e01b5f525260245ffd5b503461090f575f36600319011261090f576020906001549051908152f35b84833461090f57602036600319011261090f5781355f526006602052805f2090600160a01b600190039283835416946001840154956001600160401b039260028601549383806003890154938901906114dd916115c0565b036114e89085611678565b855194856114f98160058b016115c0565b036115049087611678565b600688015497600701549680519a8b9a610160968c52811660208c0152838160a01c16828c015260608b019060e01c60ff169061154091611699565b82821660808b01521c1660a088015260c08701528060e08701528501611565916116db565b848103610100860152611577916116db565b916101208401526101408301520390f35b90600182811c921680156115b6575b60208310146115a257565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611597565b80545f93926115ce82611588565b918282526020936001916001811690815f1461163257506001146115f4575b5050505050565b90939495505f92919252835f2092845f945b83861061161e57505050500101905f808080806115ed565b805485870183015294019385908201611606565b60ff19168685015250505090151560051b010191505f808080806115ed565b6001600160401b03811161166457604052565b634e487b7160e01b5f52604160045260245ffd5b90601f801991011681019081106001600160401b0382111761166457604052565b9060068210156116a65752565b634e487b7160e01b5f52602160045260245ffd5b5f5b8381106116cb5750505f910152565b81810151838201526020016116bc565b906020916116f4815180928185528580860191016116ba565b601f01601f1916010190565b9181601f8401121561090f578235916001600160401b03831161090f576020838186019501011161090f57565b600435906001600160a01b038216820361090f57565b6001600160401b03811161166457601f01601f191660200190565b92919261176a82611743565b916117786040519384611678565b82948184528183011161090f578281602093845f960137010152565b9080601f8301121561090f578160206117af9335910161175e565b90565b5f1981146117c05760010190565b634e487b7160e01b5f52601160045260245ffd5b919082018092116117c057565b601f82116117ee57505050565b5f5260205f20906020601f840160051c83019310611826575b601f0160051c01905b81811061181b575050565b5f8155600101611810565b9091508190611807565b8015801561189d575b61188b575f526006602052600160405f20015460ff8160e01c169060068210156116a65781159081611874575b5061186e5790565b50600190565b6001600160401b03915060a01c164210155f611866565b6040516302eae9e560e51b8152600490fd5b506005548111611839565b335f52600360205263ffffffff60405f205416156118c257565b60405163148fe22160e11b8152600490fd5b60206119249260018060a01b0392835f80516020611c928339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906116db565b6004606483015203925af19182156119aa575f926119b5575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561090f57604051630f8e573b60e21b815260048101839052336024820152905f908290818381604481015b03925af180156119aa576119a1575090565b6117af90611651565b6040513d5f823e3d90fd5b9091506020813d6020116119e1575b816119d160209383611678565b8101031261090f5751905f61193d565b3d91506119c4565b5f80516020611c92833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156119aa575f91611a3c575090565b90506020813d602011611a63575b81611a5760209383611678565b8101031261090f575190565b3d9150611a4a565b908115611adf575b8015611acd575b602090606460018060a01b035f80516020611c928339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156119aa575f91611a3c575090565b506020611ad8611c3e565b9050611a7a565b9050611ae9611c3e565b90611a73565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b1561090f57604051635ca4b5b160e11b815260048101839052306024820152905f9082908183816044810161198f565b90604051606081018181106001600160401b03821117611664576040526002815260208101604036823781936006810154835115611b9b5760079252015490805160011015611b9b5760400152565b634e487b7160e01b5f52603260045260245ffd5b9081518082526020808093019301915f5b828110611bce575050505090565b835185529381019392810192600101611bc0565b604051611c1381611bff6020820194604086526060830190611baf565b30604083015203601f198101835282611678565b51902090565b5f546001600160a01b03163303611c2c57565b6040516330cd747160e01b8152600490fd5b5f80516020611c9283398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156119aa575f91611a3c57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type HeliosDAOConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: HeliosDAOConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class HeliosDAO__factory extends ContractFactory {
+  constructor(...args: HeliosDAOConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      HeliosDAO & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): HeliosDAO__factory {
+    return super.connect(runner) as HeliosDAO__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): HeliosDAOInterface {
+    return new Interface(_abi) as HeliosDAOInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): HeliosDAO {
+    return new Contract(address, _abi, runner) as unknown as HeliosDAO;
+  }
+}
@@ -0,0 +1,1579 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  HeliosLendingPool,
+  HeliosLendingPoolInterface,
+} from "../../contracts/HeliosLendingPool";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "heliosNetAddress",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchAlreadyClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchAlreadyPledged",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BorrowPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CollateralNotShared",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HealthCheckPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InsufficientLiquidity",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InsufficientShares",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAmount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoCollateral",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoDebt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoProjection",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotLiquidatable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PositionUndercollateralized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ProjectionAlreadySettled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Reentrancy",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SelfLiquidation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "BorrowExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldBorrowRateBps",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newBorrowRateBps",
+        type: "uint256",
+      },
+    ],
+    name: "BorrowRateUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "BorrowRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "BorrowRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "CollateralPledged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "Deposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+    ],
+    name: "HealthCheckRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "undercollateralized",
+        type: "bool",
+      },
+    ],
+    name: "HealthChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "funder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "KeeperReserveFunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "keeper",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "debtWrittenOff",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "keeperReward",
+        type: "uint256",
+      },
+    ],
+    name: "Liquidated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "liquidationThresholdBps",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "keeperRewardBps",
+        type: "uint256",
+      },
+    ],
+    name: "LiquidationParametersUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "maxBatchUnits",
+        type: "uint32",
+      },
+    ],
+    name: "MaxBatchUnitsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "ProjectionPledged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "ProjectionSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "remainingDebt",
+        type: "uint256",
+      },
+    ],
+    name: "Repaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "creditPerUnitGwei",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "loanToValueBps",
+        type: "uint256",
+      },
+    ],
+    name: "RiskParametersUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "Withdrawn",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_BORROW_RATE_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_KEEPER_REWARD_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_LOAN_TO_VALUE_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "availableLiquidity",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "lender",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "borrowCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "borrowIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "borrowRateBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "borrowRequests",
+    outputs: [
+      {
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "collateralEnergy",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "creditPerUnitGwei",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBorrowIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+    ],
+    name: "debtOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deposit",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "depositedOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "fundKeeperReserve",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "healthCheckCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "healthChecks",
+    outputs: [
+      {
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "heliosNet",
+    outputs: [
+      {
+        internalType: "contract IHeliosNetFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchPledged",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isHealthCheckPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isProjectionSettled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isUndercollateralized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "keeperReserve",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "keeperRewardBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lastAccrualTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+    ],
+    name: "liquidate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "liquidationThresholdBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "loanToValueBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxBatchUnits",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pendingBorrowAmount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "pledgeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedProjection",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "pledgeProjection",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pledgedBatchCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "principalOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "projectedEnergy",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "projectionShortfall",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "repay",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "requestBorrow",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+    ],
+    name: "requestHealthCheck",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "scaledDebtOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "seizedEnergy",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newBorrowRateBps",
+        type: "uint256",
+      },
+    ],
+    name: "setBorrowRateBps",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newLiquidationThresholdBps",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "newKeeperRewardBps",
+        type: "uint256",
+      },
+    ],
+    name: "setLiquidationParameters",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "newMaxBatchUnits",
+        type: "uint32",
+      },
+    ],
+    name: "setMaxBatchUnits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "newCreditPerUnitGwei",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "newLoanToValueBps",
+        type: "uint256",
+      },
+    ],
+    name: "setRiskParameters",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "borrower",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "settleProjection",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "sharesOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalAssets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalBorrows",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalScaledDebt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalShares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "utilizationBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "shares",
+        type: "uint256",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346200022f57601f6200391738819003918201601f19168301916001600160401b0383118484101762000233578084926020946040528339810103126200022f57516001600160a01b038116908190036200022f575f60606200006362000247565b82815282602082015282604082015201526200007e62000247565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703918254161790556001601b556080525f54610c3560ad1b90600160a81b600160e81b03193316906bffffff0000000000000000ff60a01b1617175f5561138880600155610320600255611d4c60035560c860045563ffffffff196005541617600555670de0b6b3a764000060095542600a556040516136af90816200026882396080518181816110850152818161182601528181611f8901526126040152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b03811183821017620002335760405256fe60806040818152600480361015610014575f80fd5b5f925f3560e01c9081629c6e3d146129c05750806301e1d1141461299c5780630440a1961461295c57806307c70e2b1461293e5780630b4770d8146128f95780630c0f57ad146128dd5780631ecb63c4146128a15780632049faba1461288357806324570f8d1461284c5780632c173343146125ce5780632e1a7d4d1461248d5780632f865568146122c957806332d368ce146122ab57806333d9508e14611f0e5780633a98ef3914611eef5780633f4ba83a14611e8d578063402d888314611c9f5780634569487e14611c5857806345d3cc4f146117b657806347bd3718146117825780634a23bed1146117465780634cadf2dd146117085780634fb801d7146116eb57806350d282fc1461169f5780635c975abb1461167a5780635c99d8cc1461164257806361e20a1c1461160a57806370a0823114611591578063743753591461156f578063757680aa146110d15780637ae52e7b146110b45780637bc793f4146110705780637ec5427c146110385780638456cb5914610fd15780638da5cb5b14610fa9578063907ef63c14610b67578063918767f014610a94578063942ac11e14610a6b57806394ed4a3614610a33578063975e900e1461098c5780639ad08773146109675780639bdda5b314610948578063aa5af0fd14610929578063c029bd481461080d578063c681aaec146107cc578063c68b20d21461076f578063cf087dbc14610728578063cf4fa51c14610679578063cfd6d5e91461065c578063d0e30db0146104ff578063d283e75f146104d2578063d7e72708146104b3578063d8d8158814610494578063da1f12ab14610477578063dedf5fb81461043f578063defa5ba014610422578063e486473114610403578063f2fde38b14610380578063f5eb42dc146103445763ff68263d146102b3575f80fd5b34610340576020366003190112610340578254813591906001600160a01b031633036103325761271082116103245750907f5460ad292ebb6e981e9a8ddf964a6c49990b00e3dfecc014eccd09155dcbf0719161030e6130a5565b600254908060025582519182526020820152a180f35b8251630309cb8760e51b8152fd5b82516330cd747160e01b8152fd5b8280fd5b50503461037c57602036600319011261037c5760209181906001600160a01b0361036c612a51565b1681526007845220549051908152f35b5080fd5b5090346103405760203660031901126103405761039b612a51565b8354926001600160a01b038085169390929190338590036103f65750501680926bffffffffffffffffffffffff60a01b161783557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08380a380f35b516330cd747160e01b8152fd5b50503461037c578160031936011261037c576020906003549051908152f35b50503461037c578160031936011261037c57602090516123288152f35b50503461037c57602036600319011261037c5760209181906001600160a01b03610467612a51565b1681526010845220549051908152f35b50503461037c578160031936011261037c57602090516127118152f35b50503461037c578160031936011261037c576020906014549051908152f35b50503461037c578160031936011261037c57602090600a549051908152f35b50503461037c57602036600319011261037c576020906104f86104f3612a51565b612eae565b9051908152f35b5090826003193601126103405760ff835460a01c1661064f576001601b5403610642576002601b553415610635576105356130a5565b6105746105454760155490612be9565b61056f600b5491670de0b6b3a76400006105683494610562612bf6565b90612bb8565b0490612b7f565b612be9565b600654908115801561062d575b15610614575034925b83156106065750906105bd837f73a19dd210f1a7f902193214c0ee91dd35ee5b4d920cba8d519eca65a7b488ca93612b7f565b60065533845260076020528084206105d6848254612b7f565b905533845260086020528084206105ee348254612b7f565b905580519234845260208401523392a26001601b5580f35b825163162908e360e11b8152fd5b610627906106228334612bb8565b612bcb565b9261058a565b508015610581565b5163162908e360e11b8152fd5b5163558a1e0360e11b8152fd5b516313d0ff5960e31b8152fd5b503461034057826003193601126103405760209250549051908152f35b5091903461037c578060031936011261037c578154833590602435906001600160a01b03163303610718576001548210801561070d575b8015610702575b6106f257807fa77b8395e46a8c29538416a1e6724672bc0fd11ce31270e10c9423e58752393b9495836003555582519182526020820152a180f35b8251630309cb8760e51b81528590fd5b506103e881116106b7565b5061271082116106b0565b82516330cd747160e01b81528590fd5b5091903461037c5761073936612b39565b926001601b939293540361076057506107589394506002601b55612c73565b6001601b5580f35b5163558a1e0360e11b81528590fd5b50826003193601126103405734156107be575061078e34601554612b7f565b601555513481527fc5ccda29f62eef8a10e13d6bad7a0dc98b0a594a65251d5dc58634e52177e71c60203392a280f35b905163162908e360e11b8152fd5b50503461037c578060031936011261037c5760209181906001600160a01b036107f3612a51565b168152601384528181206024358252845220549051908152f35b50346103405761081c36612b39565b828652601860209081528587208054949591946001600160a01b039491939192908581161561091a5760a01c60ff1661090c575081610883610891927fe93e3309388cc2f94f9f63dbd17b82a6ad04a91b03ca338bebab2befe299433197969594896132a9565b848082518301019101612ba0565b815460ff60a01b198116600160a01b1783558316885260198452868820805460ff19169055806108f6575b6108de90838354168952601a85528789209060ff801983541691151516179055565b54169384865260ff818720541690519015158152a380f35b50805482168752600c83528587205415156108bc565b875163dbde098160e01b8152fd5b508751636d08029760e01b8152fd5b50503461037c578160031936011261037c576020906009549051908152f35b50503461037c578160031936011261037c576020906001549051908152f35b50503461037c578160031936011261037c5760209063ffffffff600554169051908152f35b509134610a305780600319360112610a30576109ab4760155490612be9565b600b54906109ce670de0b6b3a764000091826105686109c8612bf6565b86612bb8565b91826109e35750505060209250905b51908152f35b6109f290610562949394612bf6565b049061271091828102928184041490151715610a1d57506020935090610a1791612bcb565b906109dd565b634e487b7160e01b815260118552602490fd5b80fd5b50503461037c57602036600319011261037c5760209181906001600160a01b03610a5b612a51565b1681526017845220549051908152f35b50503461037c578160031936011261037c576001600160401b036020925460a81c169051908152f35b5091903461037c578060031936011261037c5782356001600160401b03811690818103610b63578354602435916001600160a01b0382163303610b535761232883118015610b48575b610b38577f6f153e55a5502803413436b8398dd829a74abcfa9272d44dcff49ea74fd79f379596506001600160401b0360a81b9060a81b16906001600160401b0360a81b19161785558060015582519182526020820152a180f35b8451630309cb8760e51b81528790fd5b506003548311610add565b84516330cd747160e01b81528790fd5b8380fd5b5091903461037c576020908160031936011261034057610b85612a51565b9060019283601b5403610f99576002601b5560018060a01b0395868416938487526019835260ff8488205416610f8a57610bc4610bc9916104f36130a5565b6131fe565b968715610f7b576001600160401b03808911610f6b57879884610c1183612710610bff825f9c9d9e5460a81c1660035490612bb8565b04168a8d52600e8352888d2054613228565b8015610f5d575b6064855f8051602061366383398151915254169189519a8b938492637210768160e01b84528a840152876024971687840152600160f81b60448401525af1968715610f53575f97610f24575b50610c6f308861352f565b8551610c7a81612a8e565b8981528581019786368a37610c8e82612c23565b525f977f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0091825499865f805160206136838339815191525416803b15610f20575f8b518092637d6e912360e11b82528c8c830152818381610cf18c82018a61362f565b03925af18015610f1657610f05575b50867f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561037c57818c8c51928391633263b83b60e01b83528c830152606089830152818381610d57606482018a61362f565b63180537a960e31b604483015203925af18015610efb57908291610ee7575b508b90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808a528a822054610ed7578b82528952898120915192868411610ec557600160401b8411610ec5578254848455808510610e9e575b509181528c898220915b848110610e8c575050505050610df08154613031565b905585519384870192831185841017610e7b57505084528582528282018881528589526018845284892092518354915160ff60a01b90151560a01b1692166001600160a81b031990911617179055838652601990528420805460ff1916841790557f118ed946acdf81f778fcf1303a576baa29da33e5b5cc64ec92734fd7bb34f3cd8480a3601b5580f35b604190634e487b7160e01b5f52525ffd5b8a845194019381840155018d90610dda565b8e848452858c852092830192015b828110610eba575050610dd0565b848155018f90610eac565b634e487b7160e01b8252604189528582fd5b8a51633f06d22b60e01b81528990fd5b610ef090612a67565b610a3057805f610d76565b8b513d84823e3d90fd5b610f0f9150612a67565b5f80610d00565b8b513d5f823e3d90fd5b5f80fd5b9096508481813d8311610f4c575b610f3c8183612aa9565b81010312610f205751955f610c64565b503d610f32565b86513d5f823e3d90fd5b50610f66613596565b610c18565b845163162908e360e11b81528390fd5b5082516308d1fde360e11b8152fd5b508251635e2a6dfd60e01b8152fd5b815163558a1e0360e11b81528690fd5b50503461037c578160031936011261037c57905490516001600160a01b039091168152602090f35b50346103405782600319360112610340578254916001600160a01b03831633036103f65760ff8360a01c1661064f57505060ff60a01b1916600160a01b1781557fab35696f06e428ebc5ceba8cd17f8fed287baf43440206d1943af1ee53e6d2678180a180f35b50503461037c57602036600319011261037c5760209181906001600160a01b03611060612a51565b168152600e845220549051908152f35b50503461037c578160031936011261037c57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50503461037c578160031936011261037c57602090516127108152f35b50903461034057602080600319360112610b635782359160ff855460a01c166115605760019384601b5403611552576002601b5583156107be5733865260178352818620546115445733865260108352818620541561153657338652601a835260ff8287205416611528576111446130a5565b6111514760155490612be9565b841161151a5761116c610bc48561116733612eae565b612b7f565b6001600160401b0380821161150a5790816111ac8161271061119a8c999897968a5460a81c168c5490612bb8565b0416338852600e875285882054613228565b9182156114fa575b8560018060a01b03936064855f8051602061366383398151915254169188519a8b938492631391547f60e01b84528a840152876024971687840152600160f81b60448401525af19687156114f0578a976114c1575b50611214308861352f565b845161121f81612a8e565b8981528681019787368a3761123382612c23565b525f977f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0091825499865f805160206136838339815191525416803b15610f20575f8a518092637d6e912360e11b82528d8c8301528183816112968c82018a61362f565b03925af180156114b7576114a6575b50867f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561037c57818c8b51928391633263b83b60e01b83528c8301526060898301528183816112fc606482018a61362f565b6333c21f6f60e21b604483015203925af1801561149c57908291611488575b508b90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808b5289822054611478578b82528a52888120915192868411610ec557600160401b8411610ec5578254848455808510611451575b509181528c8a8220915b84811061143f5750505050506113958154613031565b90558451936060850192831185841017610e7b5750509160026114269285947fab48ed5402a0c9ae3c238a1887717aa1daf570aabf9f0d68972ccd2d96cc754d979652338352858301898152858401918c8352898d5260168852868d209451166bffffffffffffffffffffffff60a01b855416178455518a84015551151591019060ff801983541691151516179055565b338752601782528481882055519384523393a3601b5580f35b8b845194019381840155018d9061137f565b8e848452858d852092830192015b82811061146d575050611375565b848155018f9061145f565b8951633f06d22b60e01b81528990fd5b61149190612a67565b610a3057805f61131b565b8a513d84823e3d90fd5b6114b09150612a67565b5f806112a5565b8a513d5f823e3d90fd5b9096508581813d83116114e9575b6114d98183612aa9565b81010312610f205751955f611209565b503d6114cf565b85513d8c823e3d90fd5b9150611504613596565b916111b4565b835163162908e360e11b81528390fd5b905163bb55fd2760e01b8152fd5b9051634c56808560e11b8152fd5b9051638dc8d9b360e01b8152fd5b905163ef578cb960e01b8152fd5b905163558a1e0360e11b8152fd5b516313d0ff5960e31b81528390fd5b50503461037c578160031936011261037c576020906104f84760155490612be9565b50503461037c57602036600319011261037c576020916115af612a51565b826006549182155f146115c6575050509051908152f35b6001600160a01b031683526007855290912054601554610a17929161062291610562906115f39047612be9565b670de0b6b3a7640000610568600b54610562612bf6565b50503461037c57602036600319011261037c5760209181906001600160a01b03611632612a51565b168152600d845220549051908152f35b50503461037c57602036600319011261037c5760209181906001600160a01b0361166a612a51565b1681526008845220549051908152f35b50503461037c578160031936011261037c5760ff6020925460a01c1690519015158152f35b50346103405760203660031901126103405760609282913581526016602052209060018060a01b038254169160ff60026001830154920154169082519384526020840152151590820152f35b50503461037c578160031936011261037c576020906104f8612bf6565b50503461037c57602036600319011261037c5760209160ff9082906001600160a01b03611733612a51565b168152601a855220541690519015158152f35b5034610340576020366003190112610340579181923581526018602052205460ff82519160018060a01b038116835260a01c1615156020820152f35b50503461037c578160031936011261037c57602090670de0b6b3a76400006117ae600b54610562612bf6565b049051908152f35b5090346103405780600319360112610340576117d0612a51565b906024359260018060a01b03908184169384875260209260118452848820878952845284882054928315611c4a5786895260128552858920888a52855260ff868a205416611c3c578551630a763da160e01b81527f000000000000000000000000000000000000000000000000000000000000000083169086818481855afa908115611ae4578b91611c0f575b50808a11908115611ba3575b50611b94578651630454192760e51b81528083018a81526001600160a01b038616602082015290959493929187918791908290819060400103915afa8015611b8a578a90611b5d575b5f955080151580611b4d575b8614611b3f576118cd906134dc565b80948115611b2f575b875f8051602061366383398151915296606486895416918c519a8b938492637210768160e01b8452898401528660248401528160448401525af1968715611b25579188918d94935f99611aee575b509061192f9161317a565b6064611939613596565b9186895416958c519687948593637702dcff60e01b85528d89860152602485015260448401525af1918215611ae457908792918c92611ab3575b50898c52600e8352888c20549384968315611aa3575b8515611a89575b606492915f9154168b5196879586946304559f7160e01b865285015260248401528160448401525af1908115610f53575f91611a5a575b506119d590611a049361317a565b6119df308261352f565b6119e9828261352f565b868952600e8552858920556119fe308461352f565b8261352f565b838652601382528286208587528252828620558285526012815281852084865290528320805460ff191660011790557fe50c85cc5dc97304ede3dabfb550f2a89037d02c127f973118a5cd5ac814c9b58380a380f35b90508481813d8311611a82575b611a718183612aa9565b81010312610f205751611a046119c7565b503d611a67565b9450905f606492611a98613596565b969150919250611990565b9250611aad613596565b92611989565b8381949293503d8311611add575b611acb8183612aa9565b81010312610f2057869151905f611973565b503d611ac1565b88513d8d823e3d90fd5b945097509083813d8311611b1e575b611b078183612aa9565b81010312610f20579151958b92889161192f611924565b503d611afd565b89513d5f823e3d90fd5b9450611b39613596565b946118d6565b50611b48613596565b6118cd565b50611b58308261346f565b6118be565b508585813d8311611b83575b611b738183612aa9565b81010312610f20575f94516118b2565b503d611b69565b87513d8c823e3d90fd5b5085516319417b1d60e21b8152fd5b9050891480611bb3575b5f611869565b50865163c332298560e01b81528281018a90528681602481855afa908115611ae4578b91611be2575b50611bad565b611c029150873d8911611c08575b611bfa8183612aa9565b810190612ba0565b5f611bdc565b503d611bf0565b90508681813d8311611c35575b611c268183612aa9565b81010312610f2057515f61185d565b503d611c1c565b8551631cd5eab160e11b8152fd5b855163130c8be560e31b8152fd5b50503461037c578060031936011261037c5760209160ff9082906001600160a01b03611c82612a51565b168152600f85528181206024358252855220541690519015158152f35b5091908160031936011261037c576001601b5403611e7e576002601b55611cc46130a5565b611ccd33612eae565b908115611e6f573415611e60578134115f14611e5957815b338452602090600d8252611cfc8386205482612be9565b808511611e32575b508303611dcc577f1b8cd61ed43bec7c6bdad3a18ffee613f99c853d16c50678d248d879e1b4343892939450338552600c8152611d5e828620545b338752600c8352838720611d54828254612be9565b9055600b54612be9565b600b55338552600c81528185205415611daf575b833411611d97575b611d8333612eae565b9082519485528401523392a26001601b5580f35b611daa611da48534612be9565b336130c1565b611d7a565b600d81528482812055601a815281852060ff198154169055611d72565b670de0b6b3a7640000808402908482041484151715611e1f577f1b8cd61ed43bec7c6bdad3a18ffee613f99c853d16c50678d248d879e1b4343893949550611e1a611d5e9160095490612bcb565b611d3f565b634e487b7160e01b855260118652602485fd5b611e3c9085612be9565b338652600d8352611e51848720918254612be9565b90555f611d04565b3491611ce5565b5163162908e360e11b81528390fd5b516308d1fde360e11b81528390fd5b5163558a1e0360e11b81529050fd5b50346103405782600319360112610340578254916001600160a01b03831633036103f65760ff8360a01c161561064f57505060ff60a01b191681557f0e5e3b3fb504c22cf5c42fa07d521225937514c654007e1f12646f89768d6f948180a180f35b50503461037c578160031936011261037c576020906006549051908152f35b50919034610f20576060366003190112610f2057823590602493604435906001600160401b0391828111610f205736602382011215610f205780820135928311610f205736878483010111610f205760ff5f5460a01c1661229c578351636b074a0760e01b815233838201526020936001600160a01b0392917f000000000000000000000000000000000000000000000000000000000000000084169086818c81855afa908115612265575f9161227f575b501561226f578651630a763da160e01b815286818781855afa908115612265575f91612238575b5080891161222857868b918a109283156121cd575b5050506121bd57335f52600f8552855f20875f52855260ff865f2054166121ad579761203085926120729a83369201612ae5565b90835f805160206136638339815191525416905f8851809c8195829463196d0b9b60e01b845280358b850152339084015260806044840152608483019061360a565b88606483015203925af19687156121a3575f97612174575b505f805160206136838339815191525416803b15610f20578351630f8e573b60e21b81529182018781523360208201525f91839182908490829060400103925af1801561216a5761214f575b506120f76120f261212794959663ffffffff6005541690612eff565b6134dc565b918291612104308461352f565b61210e338461352f565b338752601181528187209086885252852055823361303f565b337fa7f5011caaddcd7875b9d004a85d35d4c48164ccc17f7f4570f8029b4522c1918380a380f35b61212793945061215e90612a67565b5f9392506120f76120d6565b83513d5f823e3d90fd5b9096508281813d831161219c575b61218c8183612aa9565b81010312610f205751955f61208a565b503d612182565b84513d5f823e3d90fd5b855163192477a560e11b81528490fd5b85516335ee5c4560e11b81528490fd5b895163c332298560e01b81528881018c905293509091839182905afa90811561221e575f91612201575b501589865f611ffc565b6122189150863d8811611c0857611bfa8183612aa9565b5f6121f7565b87513d5f823e3d90fd5b875163f84b8daf60e01b81528690fd5b90508681813d831161225e575b61224f8183612aa9565b81010312610f2057515f611fe7565b503d612245565b88513d5f823e3d90fd5b8651631a40715960e11b81528590fd5b6122969150873d8911611c0857611bfa8183612aa9565b5f611fc0565b5082516313d0ff5960e31b8152fd5b8234610f20575f366003190112610f20576020906015549051908152f35b509034610f205760209081600319360112610f20576122e6612a51565b906001601b540361247e576002601b556001600160a01b03928284169233841461246e57835f52601a825260ff835f2054161561245e57835f5260178252825f205461244e576124057f1f0c6615429d1cdae0dfa233abf91d3b31cdbdd82c8081389832a61e1072f1ea9495966127109261235f6130a5565b61236881612eae565b98885f52600c865261237f875f2054600b54612be9565b600b55885f52600c86525f87812055600d86525f87812055601a8652865f2060ff1981541690556123d16123bd601454600e8952895f2054906130f6565b916123c8308461352f565b5f54168261352f565b6014556123ea6123df613596565b916119fe308461352f565b875f52600e8552855f2055601084525f858120555487612bb8565b0490601554808311612446575b8261241c91612be9565b60155581612437575b82519586528501523393a36001601b55005b61244182336130c1565b612425565b915081612412565b825163ef578cb960e01b81528690fd5b8251636ef5bcdd60e11b81528690fd5b82516344511af160e01b81528690fd5b5163558a1e0360e11b81528390fd5b5034610f205760209182600319360112610f205781356001601b54036125c0576002601b5580156125b257335f5260078452815f2054938482116125a3576124d36130a5565b601554936124fd6124f66124ed6109c86115f38947612be9565b60065490612bcb565b9547612be9565b8511612595575061255f827f92ccf450a286a957af52509bc1c9939d1a6a481783e142e41e2499f0bb66ebc69596335f52600884526125438161062284895f2054612bb8565b335f5260088552612558875f20918254612be9565b9055612be9565b335f5260078252835f205561257682600654612be9565b60065561258385336130c1565b82519485528401523392a26001601b55005b835163bb55fd2760e01b8152fd5b505051633999656760e01b8152fd5b505163162908e360e11b8152fd5b505163558a1e0360e11b8152fd5b5034610f205760209081600319360112610f205780359260ff5f5460a01c1661064f578051636b074a0760e01b815233838201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316908481602481855afa90811561216a575f9161282f575b501561282157841580156127ca575b801561277e575b61277057335f52600f8452815f20855f52845260ff825f205416612762578151630454192760e51b8152838101868152336020820152909185918391908290819060400103915afa938415612758575f94612728575b5050821561271b576126c1308461346f565b1561270e57836126e76126e06120f28663ffffffff6005541690612eff565b823361303f565b337f7925555ce1abd8b2f86a06a2e5a0d86e2c40c8fceef311f345e750e491aac72b5f80a3005b516343200bb560e01b8152fd5b516321c4e35760e21b8152fd5b9080929450813d8311612751575b6127408183612aa9565b81010312610f2057519184806126af565b503d612736565b82513d5f823e3d90fd5b505163192477a560e11b8152fd5b50516319417b1d60e21b8152fd5b50815163c332298560e01b81528381018690528481602481855afa90811561216a575f916127ad575b50612659565b6127c49150853d8711611c0857611bfa8183612aa9565b866127a7565b508151630a763da160e01b815284818581855afa90811561216a575f916127f4575b508511612652565b90508481813d831161281a575b61280b8183612aa9565b81010312610f205751866127ec565b503d612801565b5051631a40715960e11b8152fd5b6128469150853d8711611c0857611bfa8183612aa9565b86612643565b8234610f20576020366003190112610f20576020906001600160a01b03612871612a51565b165f52600c8252805f20549051908152f35b8234610f20575f366003190112610f2057602090600b549051908152f35b8234610f20576020366003190112610f20576020906001600160a01b036128c6612a51565b165f526019825260ff815f20541690519015158152f35b8234610f20575f366003190112610f2057602090516103e88152f35b8234610f205780600319360112610f20576020906001600160a01b0361291d612a51565b165f5260128252805f206024355f52825260ff815f20541690519015158152f35b8234610f20575f366003190112610f20576020906002549051908152f35b8234610f205780600319360112610f20576020906001600160a01b03612980612a51565b165f5260118252805f206024355f528252805f20549051908152f35b8234610f20575f366003190112610f20576020906104f86115f34760155490612be9565b838334610f20576020366003190112610f205780359263ffffffff8416809403610f20575f546001600160a01b03163303612a4557508215612a37577fc1fa22de70657dab8247d7e9e1a4a8ca13b7fd36d66336d46e0c7ef6cec4adf6602084848163ffffffff19600554161760055551908152a1005b9051630309cb8760e51b8152fd5b6330cd747160e01b8152fd5b600435906001600160a01b0382168203610f2057565b6001600160401b038111612a7a57604052565b634e487b7160e01b5f52604160045260245ffd5b604081019081106001600160401b03821117612a7a57604052565b90601f801991011681019081106001600160401b03821117612a7a57604052565b6001600160401b038111612a7a57601f01601f191660200190565b929192612af182612aca565b91612aff6040519384612aa9565b829481845281830111610f20578281602093845f960137010152565b9080601f83011215610f2057816020612b3693359101612ae5565b90565b6060600319820112610f2057600435916001600160401b03602435818111610f205783612b6891600401612b1b565b92604435918211610f2057612b3691600401612b1b565b91908201809211612b8c57565b634e487b7160e01b5f52601160045260245ffd5b90816020910312610f2057518015158103610f205790565b81810292918115918404141715612b8c57565b8115612bd5570490565b634e487b7160e01b5f52601260045260245ffd5b91908203918211612b8c57565b612b36612c05600a5442612be9565b64496cebb80061056860095492612c1e60025485612bb8565b612bb8565b805115612c305760200190565b634e487b7160e01b5f52603260045260245ffd5b3d15612c6e573d90612c5582612aca565b91612c636040519384612aa9565b82523d5f602084013e565b606090565b9091815f526020601681526040805f209260018060a01b03958685541615612e9d57600285019160ff835416612e8c5790610883612cb29282896132a9565b90600160ff19825416179055858454165f52601783525f82812055612cd56130a5565b158015612e7e575b8015612e65575b612e325760018301948554670de0b6b3a764000090818102918183041490151715612b8c5760095481612e0d5750505f935b818154165f52600c8452825f20612d2e868254612b7f565b9055612d3c85600b54612b7f565b600b558654828254165f52600d8552612d59845f20918254612b7f565b90555f808080858554168b54905af1612d70612c44565b5015612da5577f2e6437d08e33e59dbc8745020366c611a427d4c562a0a3304d57bfbd4fb039ae9450541694549051908152a3565b612de27fa28266f235b8bdfbfaa6312fca5bc825617c4858b47b08def5382a46c09582c495838354165f52600c8652845f20611d54828254612be9565b600b558654828254165f52600d8552612dff845f20918254612be9565b9055541694549051908152a3565b5f198201918211612b8c57612e2191612bcb565b60018101809111612b8c5793612d16565b600183957fa28266f235b8bdfbfaa6312fca5bc825617c4858b47b08def5382a46c09582c49454169501549051908152a3565b506001830154612e784760155490612be9565b10612ce4565b5060ff5f5460a01c16612cdd565b835163dbde098160e01b8152600490fd5b8251636d08029760e01b8152600490fd5b6001600160a01b03165f908152600c6020526040902054612ed190610562612bf6565b80612edb57505f90565b5f198101908111612b8c57670de0b6b3a7640000900460018101809111612b8c5790565b8015612fa5575b5f80516020613663833981519152546040516304559f7160e01b8152600481019290925263ffffffff929092166024820152600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115612f9a575f91612f6b575090565b90506020813d602011612f92575b81612f8660209383612aa9565b81010312610f20575190565b3d9150612f79565b6040513d5f823e3d90fd5b505f8051602061366383398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115612f9a575f91612ffb575b50612f06565b90506020813d602011613029575b8161301660209383612aa9565b81010312610f20575163ffffffff612ff5565b3d9150613009565b5f198114612b8c5760010190565b6130616123df60018060a01b03831694855f52600e60205260405f20546130f6565b825f52600e60205260405f2055600f60205260405f20905f5260205260405f20600160ff198254161790555f52601060205260405f206130a18154613031565b9055565b600a5442146130bf576130b6612bf6565b60095542600a55565b565b5f918291829182916001600160a01b03165af16130dc612c44565b50156130e457565b6040516312171d8360e31b8152600490fd5b90811561316a575b8015613158575b602090606460018060a01b035f805160206136638339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115612f9a575f91612f6b575090565b506020613163613596565b9050613105565b9050613174613596565b906130fe565b9081156131ee575b80156131dc575b602090606460018060a01b035f805160206136638339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115612f9a575f91612f6b575090565b5060206131e7613596565b9050613189565b90506131f8613596565b90613182565b8061320857505f90565b5f198101908111612b8c57633b9aca00900460018101809111612b8c5790565b6001600160401b03916020918015613297575b5f8051602061366383398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115612f9a575f91612f6b575090565b5060646132a2613596565b905061323b565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f20541561345e57855f528352835f209084518083868295549384815201905f52865f20925f5b888282106134485750505061331892500383612aa9565b805180850190818611612b8c578601809111612b8c576133b95f8694613367896133cc968151968161335389935180928d80870191016135e9565b8201908a8201520388810187520185612aa9565b6133db60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b875260606004880152606487019061362f565b600319938487830301602488015261360a565b9184830301604485015261360a565b03925af191821561216a575f9261342b575b50501561341b57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b6134419250803d10611c0857611bfa8183612aa9565b5f806133ed565b8554845260019586019588955093019201613301565b845163d66ca67560e01b8152600490fd5b5f80516020613683833981519152546040516382027b6d60e01b815260048101929092526001600160a01b039283166024830152909160209183916044918391165afa908115612f9a575f916134c3575090565b612b36915060203d602011611c0857611bfa8183612aa9565b5f80516020613663833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115612f9a575f91612f6b575090565b5f80516020613683833981519152546001600160a01b031691823b15610f2057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015612f9a5761358d5750565b6130bf90612a67565b5f8051602061366383398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115612f9a575f91612f6b575090565b5f5b8381106135fa5750505f910152565b81810151838201526020016135eb565b90602091613623815180928185528580860191016135e9565b601f01601f1916010190565b9081518082526020808093019301915f5b82811061364e575050505090565b83518552938101939281019260010161364056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type HeliosLendingPoolConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: HeliosLendingPoolConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class HeliosLendingPool__factory extends ContractFactory {
+  constructor(...args: HeliosLendingPoolConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    heliosNetAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(heliosNetAddress, overrides || {});
+  }
+  override deploy(
+    heliosNetAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(heliosNetAddress, overrides || {}) as Promise<
+      HeliosLendingPool & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): HeliosLendingPool__factory {
+    return super.connect(runner) as HeliosLendingPool__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): HeliosLendingPoolInterface {
+    return new Interface(_abi) as HeliosLendingPoolInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): HeliosLendingPool {
+    return new Contract(address, _abi, runner) as unknown as HeliosLendingPool;
+  }
+}
@@ -0,0 +1,252 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  HeliosRewardToken,
+  HeliosRewardTokenInterface,
+} from "../../contracts/HeliosRewardToken";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "minterAddress",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidRecipient",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotMinter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnauthorizedAmount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minter",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346101ad57601f610c3338819003918201601f19168301916001600160401b038311848410176101b1578084926020946040528339810103126101ad57516001600160a01b03811681036101ad575f606061005a6101c5565b82815282602082015282604082015201526100736101c5565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055608052604051610a4e90816101e5823960805181818161059b01526106ea0152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176101b15760405256fe6080604081815260049182361015610015575f80fd5b5f925f3560e01c91826306fdde03146107195750816307546172146106d65781632cfd300514610572578163313ce56714610557578163344ff101146105215781637b7e0a5a146100e657816395d89b4114610099575063da1f12ab1461007a575f80fd5b34610095578160031936011261009557602090516127118152f35b5080fd5b919050346100e257826003193601126100e2576100de92508051916100bd8361078c565b8252632422a62960e11b6020830152519182916020835260208301906107ca565b0390f35b8280fd5b8284346103fa5760603660031901126103fa57610101610808565b926044359267ffffffffffffffff948585116103fa57366023860112156103fa57848301359586116103fa5736602487870101116103fa576001600160a01b039481861693841561051357905f92918360208a819b602489519661016e85601f19601f86011601896107a8565b828852018387013784010152886101d57f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701938a85541690885197888094819363196d0b9b60e01b8352602435898401523360248401526080604484015260848301906107ca565b6005606483015203925af1938415610509575f946104da575b50877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156103fa578551630f8e573b60e21b815282810186815233602082015290915f9183919082908490829060400103925af180156104d0576104bb575b506102b29697338952888a52898987812054879088156104ab575b801561049d575b86548a51631d44e90160e21b815287810193845260208401929092526001600160f81b031984166040840152909b8c9391861692849291839160600190565b03925af197881561046457899861046e575b50896102ce610930565b9560648a8c858854168b519a8b958694637702dcff60e01b86528a860152602485015260448401525af1948515610464579189959493918b93879661042f575b503387528684528688812054918794831561041f575b881561040f575b548a516303056db360e31b815294850193845260208401959095526001600160f81b031990981660408301529196879316918391829060600103925af180156104055787906103d2575b61039d935061038430826109c5565b61038e33826109c5565b3388528789528488205561081e565b6103a733846109c5565b51927f4853ae1b4d437c4255ac16cd3ceda3465975023f27cb141584cd9d44440fed82339180a38152f35b508783813d83116103fe575b6103e881836107a8565b810103126103fa5761039d9251610375565b5f80fd5b503d6103de565b84513d89823e3d90fd5b9450610419610930565b9461032b565b9250610429610930565b92610324565b91965094509182813d811161045d575b61044981836107a8565b810103126103fa5788948a9251948c61030e565b503d61043f565b86513d8b823e3d90fd5b9097508981813d8311610496575b61048681836107a8565b810103126103fa5751968a6102c4565b503d61047c565b506104a6610930565b610273565b90506104b5610930565b9061026c565b6102b297506104c990610764565b5f96610251565b86513d5f823e3d90fd5b9093508881813d8311610502575b6104f281836107a8565b810103126103fa575192896101ee565b503d6104e8565b85513d5f823e3d90fd5b8351634e46966960e11b8152fd5b82346103fa5760203660031901126103fa576020906001600160a01b03610546610808565b165f525f8252805f20549051908152f35b82346103fa575f3660031901126103fa576020905160068152f35b82346103fa57806003193601126103fa5761058b610808565b6001600160a01b039160243591907f0000000000000000000000000000000000000000000000000000000000000000841633036106c7578382169384156106b7577f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005482516382027b6d60e01b81528781018681523360208281019190915291939192849216908290819060400103915afa9081156106ad575f91610672575b501561066357509061063c9161081e565b5f7f4853ae1b4d437c4255ac16cd3ceda3465975023f27cb141584cd9d44440fed828180a3005b5163dce72a6b60e01b81528490fd5b90506020813d6020116106a5575b8161068d602093836107a8565b810103126103fa575180151581036103fa578661062b565b3d9150610680565b82513d5f823e3d90fd5b8151634e46966960e11b81528690fd5b51633e34a41b60e21b81528490fd5b82346103fa575f3660031901126103fa57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b8390346103fa575f3660031901126103fa576100de916107388261078c565b600d82526c12195b1a5bdcc814995dd85c99609a1b6020830152519182916020835260208301906107ca565b67ffffffffffffffff811161077857604052565b634e487b7160e01b5f52604160045260245ffd5b6040810190811067ffffffffffffffff82111761077857604052565b90601f8019910116810190811067ffffffffffffffff82111761077857604052565b91908251928382525f5b8481106107f4575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016107d4565b600435906001600160a01b03821682036103fa57565b6001600160a01b038082165f818152602081815260409091205493949092818515610919575b9084929115610905575b6064907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416955f604051978894859363022f65e760e31b8552600485015260248401528160448401525af19283156108fa575f936108c9575b506108bf5f93946108b930876109c5565b856109c5565b82525260405f2055565b92508183813d83116108f3575b6108e081836107a8565b810103126103fa579151916108bf6108a8565b503d6108d6565b6040513d5f823e3d90fd5b90506064610911610930565b91905061084e565b9450908391610926610930565b9590919250610844565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156108fa575f91610996575090565b90506020813d6020116109bd575b816109b1602093836107a8565b810103126103fa575190565b3d91506109a4565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156103fa57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108fa57610a365750565b610a3f90610764565b56fea164736f6c6343000818000a";
+
+type HeliosRewardTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: HeliosRewardTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class HeliosRewardToken__factory extends ContractFactory {
+  constructor(...args: HeliosRewardTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    minterAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(minterAddress, overrides || {});
+  }
+  override deploy(
+    minterAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(minterAddress, overrides || {}) as Promise<
+      HeliosRewardToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): HeliosRewardToken__factory {
+    return super.connect(runner) as HeliosRewardToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): HeliosRewardTokenInterface {
+    return new Interface(_abi) as HeliosRewardTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): HeliosRewardToken {
+    return new Contract(address, _abi, runner) as unknown as HeliosRewardToken;
+  }
+}
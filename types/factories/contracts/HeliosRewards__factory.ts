@@ -0,0 +1,572 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  HeliosRewards,
+  HeliosRewardsInterface,
+} from "../../contracts/HeliosRewards";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "heliosNetAddress",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EnergyNotShared",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EpochAlreadyFinalized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EpochNotFinalized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FinalizationPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoContribution",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TotalNotShared",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "EpochFinalizationRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "totalEnergy",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "reward",
+        type: "uint64",
+      },
+    ],
+    name: "EpochFinalized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "RewardClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "rewardPerEpoch",
+        type: "uint64",
+      },
+    ],
+    name: "RewardPerEpochUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_EPOCH_REWARD",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "claim",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "reward",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "epochs",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "reward",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "totalEnergy",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "finalized",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "claimCount",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "claimedReward",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "claimedEnergy",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "finalizeCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "finalizeEpoch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasClaimed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "heliosNet",
+    outputs: [
+      {
+        internalType: "contract IHeliosNetFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isFinalizationPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "rewardPerEpoch",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "rewardToken",
+    outputs: [
+      {
+        internalType: "contract HeliosRewardToken",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "newRewardPerEpoch",
+        type: "uint64",
+      },
+    ],
+    name: "setRewardPerEpoch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c0346200025d57601f6200259d38819003918201601f19168301926001600160401b0392909183851183861017620002495781602092849260409788528339810103126200025d57516001600160a01b038116908190036200025d575f60606200006962000261565b828152826020820152828682015201526200008362000261565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918288820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055608052815190610c338083019183831090831117620002495760209183916200196a83393081520301905ff080156200023f5760a0525f80546001600160e01b03191633600160a01b600160e01b03191617621dcd6560a91b179055516116e890816200028282396080518181816103b4015281816107ac015281816108340152818161095401528181610db40152610e5b015260a05181818160da01526110180152f35b50513d5f823e3d90fd5b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b60405190608082016001600160401b03811183821017620002495760405256fe6080604081815260049182361015610015575f80fd5b5f925f3560e01c918263379607f514610de3575081637bc793f414610d9f5781637c3cc9c314610d8057816384449a9d14610d56578163873f6f9e14610d0c5781638da5cb5b14610ce4578163931f69d3146108a1578163986bce2c14610339578163b65e8941146102e5578163c6b61e4c14610278578163d0e0c97a1461024b578163da1f12ab1461022e578163f2fde38b146101c2578163f74653eb1461010d575063f7c618c1146100c7575f80fd5b34610109578160031936011261010957517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5080fd5b919050346101be5760203660031901126101be57813567ffffffffffffffff8116928382036101ba5761013e611513565b831580156101ad575b61019f5750835467ffffffffffffffff60a01b191660a09190911b67ffffffffffffffff60a01b16178355519081527fb66c1282d7d71a50c85d77e63bda505459e4106479b452fdc2da3040bac4eef990602090a180f35b8251630309cb8760e51b8152fd5b5063ee6b28008411610147565b8480fd5b8280fd5b83903461010957602036600319011261010957356001600160a01b038181169182900361022a576101f1611513565b82546001600160a01b0319811683178455167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08380a380f35b5f80fd5b505034610109578160031936011261010957602090516127118152f35b9050346101be5760203660031901126101be578160209360ff923581526002855220541690519015158152f35b9050346101be5760203660031901126101be5760c092829135815260016020522080549067ffffffffffffffff9260018201549060ff6003600285015494015494825196808216885281841c16602088015260801c161515908501526060840152608083015260a0820152f35b9050346101be5760203660031901126101be57816080938260ff933582526020522080549260026001830154920154918151948552602085015267ffffffffffffffff8216818501521c1615156060820152f35b83833461010957602090816003193601126101be5783359182158015610821575b8015610792575b61078257828452600180825260ff8386205460801c16610772578385526002825260ff838620541661076257825163b7e6be5760e01b81528681018590526024966001600160a01b039491929084848a817f00000000000000000000000000000000000000000000000000000000000000008a165afa938415610758578894610729575b50831561071b576103f63085611538565b1561070d578251936104078561129f565b828552858501908636833761041b86611355565b52610425856114dc565b947f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0090815498805f805160206116bc8339815191525416803b15610709578c8e61048a928c838a8d5196879586948593637d6e912360e11b855284015282018a6114a9565b03925af180156106ff57908d916106eb575b50507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156106e7578651633263b83b60e01b81528581018b90526060818f0152908c9082908183816104f560648201896114a9565b63931f69d360e01b604483015203925af180156106dd57908c916106c5575b508990527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808952868c20546106b557898c528852858b2090519067ffffffffffffffff938483116106a357600160401b83116106a3578154838355838b8f838310610674575b50505050908c52888c20868d5b84811061066257505050505061059e8154611333565b905580895460a01c16918451906080820182811084821117610650578b9c5091600291878c9d8c9d7ffe19ac0f31e168ee78233eab39744eee966a4273693cbac3e775c68481fb9f459d9796835284528b8401928b8452828501988952606085019782895282528c52209151825551868201550192511660ff60401b835492511515861b169168ffffffffffffffffff191617179055868852600284528188209060ff1982541617905551908152a380f35b8c604183634e487b7160e01b5f52525ffd5b8b845194019381840155018790610588565b8581528d8120938401938b9350870191505b838210610698578692508d915061057b565b81550188908f610686565b634e487b7160e01b8d52604186528d8dfd5b8651633f06d22b60e01b81528590fd5b6106ce90611277565b6106d9578a8d610514565b8a80fd5b87513d8e823e3d90fd5b8b80fd5b6106f490611277565b6106e7578b8e61049c565b88513d8f823e3d90fd5b8c80fd5b825163ef51be9360e01b8152fd5b825163c2e5347d60e01b8152fd5b9093508481813d8311610751575b61074181836112bb565b8101031261022a575192896103e5565b503d610737565b83513d8a823e3d90fd5b825163f1f5758160e01b81528690fd5b8251630cd9898f60e21b81528690fd5b81516319417b1d60e21b81528590fd5b50815163c332298560e01b815285810184905281816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156108175785916107ea575b50610361565b61080a9150823d8411610810575b61080281836112bb565b810190611376565b866107e4565b503d6107f8565b83513d87823e3d90fd5b508151630a763da160e01b8152818187817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa908115610817578591610874575b50831161035a565b90508181813d831161089a575b61088b81836112bb565b8101031261022a57518661086c565b503d610881565b919050346101be5760603660031901126101be5781359067ffffffffffffffff602435818111610ce0576108d890369086016112dd565b92604435828111610cdc576108f090369087016112dd565b94818752602091818352848820918254978815610ccd57600284019860ff8a54891c16610cbd578751906109238261129f565b60019060018352873681850137895163b7e6be5760e01b8152858101919091526001600160a01b03928d89836024817f000000000000000000000000000000000000000000000000000000000000000089165afa908115610cb25790610c83575b610998925061099282611355565b526114dc565b600187015403610c7357848c527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808852898d205415610c6357908c9392918685528852898420908a5191829586928b835495868152019282528b8220915b8c868210610c4d5750505050610a0f925003846112bb565b8951808801808911610c3a578a820110610c275760608d86610ad18b968f8f610aad9a98610a6a82610abf94819b8e83519683610a55899551809285808901910161160f565b8401920190820152038d8101855201836112bb565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541697519a8b998a9889976378542ead60e01b895288015260648701906114a9565b85810360031901602487015290611630565b83810360031901604485015290611630565b03925af1908115610c1d578a91610c00575b5015610bf257507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8880a2818580518101031261022a57817f5ffa9579af5bf250d1d992d81d3c13f307b9720bcfeb330cf00e92888bf5eb8295015195600160401b60ff60401b19825416178155815488526002835284882060ff1981541690558154885260018352838589209788546fffffffffffffffff0000000000000000600160801b92891b169070ffffffffffffffffff0000000000000000191617179182895554169067ffffffffffffffff1916178655610bc1611655565b6002870155610bce611655565b6003870155610bdc8661145f565b549454835181851c84168152921690820152a280f35b855163cf6c44e960e01b8152fd5b610c179150853d87116108105761080281836112bb565b5f610ae3565b87513d8c823e3d90fd5b634e487b7160e01b8d526011855260248dfd5b634e487b7160e01b8e526011865260248efd5b83548552899550909301929181019181016109f7565b895163d66ca67560e01b81528590fd5b88516313b304fb60e21b81528490fd5b508882813d8311610cab575b610c9981836112bb565b8101031261022a576109989151610984565b503d610c8f565b8c51903d90823e3d90fd5b875163dbde098160e01b81528390fd5b508551636d08029760e01b8152fd5b8680fd5b8580fd5b505034610109578160031936011261010957905490516001600160a01b039091168152602090f35b9050346101be57816003193601126101be576024356001600160a01b038116919082900361022a5760209383913581526003855220905f52825260ff815f20541690519015158152f35b50503461010957816003193601126101095767ffffffffffffffff6020925460a01c169051908152f35b5050346101095781600319360112610109576020905163ee6b28008152f35b505034610109578160031936011261010957517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b9291503461022a576020938460031936011261022a57813591825f5260018652835f209081549560ff8760801c161561126b5750835f5260038752845f20335f52875260ff855f20541661125d578451630454192760e51b8152818101859052336024820152956001600160a01b03929088886044817f000000000000000000000000000000000000000000000000000000000000000088165afa97881561116b575f9861122e575b50871561120e57610e9d3089611538565b1561121e5767ffffffffffffffff8091881c161561120e575f90897f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701996044878c5416918b5195869384926307227b9160e21b84528a840152600560248401525af1918215611204575f926111d5575b508083541698829183156111c5575b868254169a8a5193630afe14ad60e31b85528785015260248401528b83600160f81b9c8d6044830152815a6064925f91f19283156111bb57908c9392915f93611187575b509060649186548c1c1692888115611175575b5f919254168c519d8e958694635a53accb60e01b86528b860152602485015260448401525af197881561116b575f98611138575b509061100191865f5260038a52875f20335f528a52875f20600160ff1982541617905560018201610fd88154611333565b905560028201610fe98a825461138e565b9055610ffa6003830191825461138e565b905561145f565b61100b30876115a8565b61101533876115a8565b817f000000000000000000000000000000000000000000000000000000000000000016915f805160206116bc8339815191525416803b1561022a578551630f8e573b60e21b81528281018881526001600160a01b038516602082015290915f9183919082908490829060400103925af1801561112e5761111b575b50813b156101be5782916044839287519485938492632cfd300560e01b845233908401528a60248401525af18015611111576110fa575b50508151908382527fddb25be5308de112ff0824a2ae2465b941652d0aaaf1a2c43e81ae54fca27905853393a351908152f35b6111048291611277565b61110e57806110c7565b80fd5b84513d84823e3d90fd5b611126919350611277565b5f915f611090565b86513d5f823e3d90fd5b919097508882813d8311611164575b61115181836112bb565b8101031261022a57905196611001610fa7565b503d611147565b87513d5f823e3d90fd5b5f9150611180611655565b9150610f73565b848193959294503d83116111b4575b6111a081836112bb565b8101031261022a57518b9290916064610f60565b503d611196565b8a513d5f823e3d90fd5b91506111cf611655565b91610f1c565b9091508981813d83116111fd575b6111ed81836112bb565b8101031261022a5751905f610f0d565b503d6111e3565b88513d5f823e3d90fd5b8651631971fbf360e21b81528390fd5b8651630147e79760e21b81528390fd5b9097508881813d8311611256575b61124681836112bb565b8101031261022a5751965f610e8c565b503d61123c565b8451630c8d9eab60e31b8152fd5b638cf7570760e01b8152fd5b67ffffffffffffffff811161128b57604052565b634e487b7160e01b5f52604160045260245ffd5b6040810190811067ffffffffffffffff82111761128b57604052565b90601f8019910116810190811067ffffffffffffffff82111761128b57604052565b81601f8201121561022a5780359067ffffffffffffffff821161128b5760405192611312601f8401601f1916602001856112bb565b8284526020838301011161022a57815f926020809301838601378301015290565b5f1981146113415760010190565b634e487b7160e01b5f52601160045260245ffd5b8051156113625760200190565b634e487b7160e01b5f52603260045260245ffd5b9081602091031261022a5751801515810361022a5790565b90811561144f575b801561143d575b602090606460018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115611432575f91611403575090565b90506020813d60201161142a575b8161141e602093836112bb565b8101031261022a575190565b3d9150611411565b6040513d5f823e3d90fd5b506020611448611655565b905061139d565b9050611459611655565b90611396565b6114a79060036002820191611476835430906115a8565b01906114833083546115a8565b545f546001600160a01b03929161149c918416906115a8565b54905f5416906115a8565b565b9081518082526020808093019301915f5b8281106114c8575050505090565b8351855293810193928101926001016114ba565b60405161150d816114f960208201946040865260608301906114a9565b30604083015203601f1981018352826112bb565b51902090565b5f546001600160a01b0316330361152657565b6040516330cd747160e01b8152600490fd5b5f805160206116bc833981519152546040516382027b6d60e01b815260048101929092526001600160a01b039283166024830152909160209183916044918391165afa908115611432575f9161158c575090565b6115a5915060203d6020116108105761080281836112bb565b90565b5f805160206116bc833981519152546001600160a01b031691823b1561022a57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015611432576116065750565b6114a790611277565b5f5b8381106116205750505f910152565b8181015183820152602001611611565b906020916116498151809281855285808601910161160f565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115611432575f9161140357509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a60a0346101ad57601f610c3338819003918201601f19168301916001600160401b038311848410176101b1578084926020946040528339810103126101ad57516001600160a01b03811681036101ad575f606061005a6101c5565b82815282602082015282604082015201526100736101c5565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055608052604051610a4e90816101e5823960805181818161059b01526106ea0152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176101b15760405256fe6080604081815260049182361015610015575f80fd5b5f925f3560e01c91826306fdde03146107195750816307546172146106d65781632cfd300514610572578163313ce56714610557578163344ff101146105215781637b7e0a5a146100e657816395d89b4114610099575063da1f12ab1461007a575f80fd5b34610095578160031936011261009557602090516127118152f35b5080fd5b919050346100e257826003193601126100e2576100de92508051916100bd8361078c565b8252632422a62960e11b6020830152519182916020835260208301906107ca565b0390f35b8280fd5b8284346103fa5760603660031901126103fa57610101610808565b926044359267ffffffffffffffff948585116103fa57366023860112156103fa57848301359586116103fa5736602487870101116103fa576001600160a01b039481861693841561051357905f92918360208a819b602489519661016e85601f19601f86011601896107a8565b828852018387013784010152886101d57f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701938a85541690885197888094819363196d0b9b60e01b8352602435898401523360248401526080604484015260848301906107ca565b6005606483015203925af1938415610509575f946104da575b50877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156103fa578551630f8e573b60e21b815282810186815233602082015290915f9183919082908490829060400103925af180156104d0576104bb575b506102b29697338952888a52898987812054879088156104ab575b801561049d575b86548a51631d44e90160e21b815287810193845260208401929092526001600160f81b031984166040840152909b8c9391861692849291839160600190565b03925af197881561046457899861046e575b50896102ce610930565b9560648a8c858854168b519a8b958694637702dcff60e01b86528a860152602485015260448401525af1948515610464579189959493918b93879661042f575b503387528684528688812054918794831561041f575b881561040f575b548a516303056db360e31b815294850193845260208401959095526001600160f81b031990981660408301529196879316918391829060600103925af180156104055787906103d2575b61039d935061038430826109c5565b61038e33826109c5565b3388528789528488205561081e565b6103a733846109c5565b51927f4853ae1b4d437c4255ac16cd3ceda3465975023f27cb141584cd9d44440fed82339180a38152f35b508783813d83116103fe575b6103e881836107a8565b810103126103fa5761039d9251610375565b5f80fd5b503d6103de565b84513d89823e3d90fd5b9450610419610930565b9461032b565b9250610429610930565b92610324565b91965094509182813d811161045d575b61044981836107a8565b810103126103fa5788948a9251948c61030e565b503d61043f565b86513d8b823e3d90fd5b9097508981813d8311610496575b61048681836107a8565b810103126103fa5751968a6102c4565b503d61047c565b506104a6610930565b610273565b90506104b5610930565b9061026c565b6102b297506104c990610764565b5f96610251565b86513d5f823e3d90fd5b9093508881813d8311610502575b6104f281836107a8565b810103126103fa575192896101ee565b503d6104e8565b85513d5f823e3d90fd5b8351634e46966960e11b8152fd5b82346103fa5760203660031901126103fa576020906001600160a01b03610546610808565b165f525f8252805f20549051908152f35b82346103fa575f3660031901126103fa576020905160068152f35b82346103fa57806003193601126103fa5761058b610808565b6001600160a01b039160243591907f0000000000000000000000000000000000000000000000000000000000000000841633036106c7578382169384156106b7577f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005482516382027b6d60e01b81528781018681523360208281019190915291939192849216908290819060400103915afa9081156106ad575f91610672575b501561066357509061063c9161081e565b5f7f4853ae1b4d437c4255ac16cd3ceda3465975023f27cb141584cd9d44440fed828180a3005b5163dce72a6b60e01b81528490fd5b90506020813d6020116106a5575b8161068d602093836107a8565b810103126103fa575180151581036103fa578661062b565b3d9150610680565b82513d5f823e3d90fd5b8151634e46966960e11b81528690fd5b51633e34a41b60e21b81528490fd5b82346103fa575f3660031901126103fa57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b8390346103fa575f3660031901126103fa576100de916107388261078c565b600d82526c12195b1a5bdcc814995dd85c99609a1b6020830152519182916020835260208301906107ca565b67ffffffffffffffff811161077857604052565b634e487b7160e01b5f52604160045260245ffd5b6040810190811067ffffffffffffffff82111761077857604052565b90601f8019910116810190811067ffffffffffffffff82111761077857604052565b91908251928382525f5b8481106107f4575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016107d4565b600435906001600160a01b03821682036103fa57565b6001600160a01b038082165f818152602081815260409091205493949092818515610919575b9084929115610905575b6064907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416955f604051978894859363022f65e760e31b8552600485015260248401528160448401525af19283156108fa575f936108c9575b506108bf5f93946108b930876109c5565b856109c5565b82525260405f2055565b92508183813d83116108f3575b6108e081836107a8565b810103126103fa579151916108bf6108a8565b503d6108d6565b6040513d5f823e3d90fd5b90506064610911610930565b91905061084e565b9450908391610926610930565b9590919250610844565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156108fa575f91610996575090565b90506020813d6020116109bd575b816109b1602093836107a8565b810103126103fa575190565b3d91506109a4565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156103fa57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108fa57610a365750565b610a3f90610764565b56fea164736f6c6343000818000a";
+
+type HeliosRewardsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: HeliosRewardsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class HeliosRewards__factory extends ContractFactory {
+  constructor(...args: HeliosRewardsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    heliosNetAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(heliosNetAddress, overrides || {});
+  }
+  override deploy(
+    heliosNetAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(heliosNetAddress, overrides || {}) as Promise<
+      HeliosRewards & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): HeliosRewards__factory {
+    return super.connect(runner) as HeliosRewards__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): HeliosRewardsInterface {
+    return new Interface(_abi) as HeliosRewardsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): HeliosRewards {
+    return new Contract(address, _abi, runner) as unknown as HeliosRewards;
+  }
+}
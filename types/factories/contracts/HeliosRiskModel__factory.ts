@@ -0,0 +1,419 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  HeliosRiskModel,
+  HeliosRiskModelInterface,
+} from "../../contracts/HeliosRiskModel";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "heliosNetAddress",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "EnergyNotShared",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWindow",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "creditPerUnitGwei",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "horizonBatches",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "volatilityHaircutBps",
+        type: "uint64",
+      },
+    ],
+    name: "ModelParametersUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "firstBatchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "lastBatchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "creditLimitGwei",
+        type: "bytes32",
+      },
+    ],
+    name: "RiskAssessed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_CREDIT_PER_UNIT_GWEI",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_HORIZON_BATCHES",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_WINDOW",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_WINDOW",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "window",
+        type: "uint256",
+      },
+    ],
+    name: "assessRisk",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "assessments",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "creditLimitGwei",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "firstBatchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastBatchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "assessedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "creditPerUnitGwei",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "heliosNet",
+    outputs: [
+      {
+        internalType: "contract IHeliosNetFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "horizonBatches",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "latestClosedBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint64",
+        name: "newCreditPerUnitGwei",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "newHorizonBatches",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "newVolatilityHaircutBps",
+        type: "uint64",
+      },
+    ],
+    name: "setModelParameters",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "volatilityHaircutBps",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a03461020a57601f6113d338819003918201601f19168301916001600160401b0383118484101761020e5780849260209460405283398101031261020a57516001600160a01b0381169081900361020a575f606061005c610222565b8281528260208201528260408201520152610075610222565b7350157cffd6bbfa2dece204a89ec419c23ef5755d80825273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf696020830181905273a02cda4ca3a71d7c46997716f4283aa851c288126040808501829052731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060959095018590527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b031990811690951790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701805485169093179092557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054841690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703805490921690921790556080919091525f80546001600160e01b03191633600160a01b600160e01b03191617610c3560a41b179055600180546001600160801b031916691388000000000000000417905551611191908161024282396080518181816102a20152818161048401528181610c3a0152610d520152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b0381118382101761020e5760405256fe6080806040526004361015610012575f80fd5b5f3560e01c908163130e015d1461045b575080631bfcb429146104405780634b2929791461031257806350830b30146102ec57806352b65c4b146102d15780637bc793f41461028d5780638da5cb5b1461026657806391a4d05a1461023d578063942ac11e14610215578063c6932679146101f3578063da1f12ab146101d7578063deb96634146101bc578063df66cf711461015e578063e7edc3a2146101415763f2fde38b146100c1575f80fd5b3461013d57602036600319011261013d576004356001600160a01b038181169182900361013d575f549081169081330361012b576001600160a01b03191682175f9081557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09080a3005b6040516330cd747160e01b8152600490fd5b5f80fd5b3461013d575f36600319011261013d576020604051629896808152f35b3461013d57602036600319011261013d576004356001600160a01b0381169081900361013d575f526002602052608060405f208054906001810154906003600282015491015491604051938452602084015260408301526060820152f35b3461013d575f36600319011261013d57602060405160088152f35b3461013d575f36600319011261013d5760206040516127118152f35b3461013d575f36600319011261013d57602061020d610c2b565b604051908152f35b3461013d575f36600319011261013d5760206001600160401b035f5460a01c16604051908152f35b3461013d575f36600319011261013d5760206001600160401b0360015460401c16604051908152f35b3461013d575f36600319011261013d575f546040516001600160a01b039091168152602090f35b3461013d575f36600319011261013d576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461013d575f36600319011261013d57602060405160028152f35b3461013d575f36600319011261013d5760206001600160401b0360015416604051908152f35b3461013d57606036600319011261013d576001600160401b0360043581811680820361013d5760243583811680910361013d576044359384169081850361013d575f54946001600160a01b038616330361012b576298968084118015610438575b801561042e575b8015610423575b610411577fd7690348134e1835fef9c3c6d3a2de377fb489456dbfe6d9d41518af923f3848956060956001600160401b0360a01b9060a01b16906001600160401b0360a01b1916175f55816fffffffffffffffff00000000000000006001549260401b16916fffffffffffffffffffffffffffffffff1916171760015560405192835260208301526040820152a1005b604051630309cb8760e51b8152600490fd5b506127108311610381565b506034821161037a565b508115610373565b3461013d575f36600319011261013d57602060405160348152f35b3461013d57602036600319011261013d57636b074a0760e01b81523360048201526020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156108c7575f91610b64575b5015610b52576002600435108015610b46575b610b34576104db610c2b565b6004358110610b345760043581038181116109835760018101811161098357610505600435610bcc565b906105136040519283610b93565b6004358252601f19610526600435610bcc565b013660208401375f5b6004358110610b05575061054282610be3565b519061054d83610be3565b519261055881610be3565b519260015b6004358110610a0f57505f919080156109fd575b5f8051602061116583398151915254604051635a53accb60e01b815260048082019390935291356001600160401b03166024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af19182156108c7575f926109c9575b506105ea826105e483610be3565b51610f88565b6001915b60043583106109ab575061061891506106126001600160401b03600435168761100c565b90610ee1565b6001600160401b035f5460a01c1661063d600154916001600160401b03831690610c18565b92600435600181901b92906001600160ff1b0381169003610983578215610997576127106001600160401b038260401c16810311610983576127106106956001600160401b03809360401c1682038386890416610c18565b041696808715610973575b15610961575b602090606460018060a01b035f805160206111658339815191525416985f6040519a8b9485936303056db360e31b8552600485015260248401528160448401525af19586156108c7575f9661092d575b5080861561091d575b1561090b575b602090606460018060a01b035f805160206111658339815191525416975f604051998a9485936385362ee760e01b8552600485015260248401528160448401525af19485156108c7575f956108d2575b50816001600160401b0361077c92610773602097989960649661100c565b9504169061100c565b5f8051602061116583398151915254604051637702dcff60e01b8152600481019790975260248701939093526044860152849182905f906001600160a01b03165af19182156108c7575f92610893575b506107d7308361108d565b6107e1338361108d565b6040519260808401938085106001600160401b0386111761087f576020946040528381526003858201600185018152604083018481526060840191428352335f526002895260405f209451855551600185015551600284015551910155600160405192018252838201528160408201527f13964974cf46480784a78fa08c6e9c5252363d73b89c7e21769989f2c450661a60603392a2604051908152f35b634e487b7160e01b5f52604160045260245ffd5b9091506020813d6020116108bf575b816108af60209383610b93565b8101031261013d575190836107cc565b3d91506108a2565b6040513d5f823e3d90fd5b919394506020823d602011610903575b816108ef60209383610b93565b8101031261013d5790519392906064610755565b3d91506108e2565b506020610916611111565b9050610705565b9550610927611111565b956106ff565b9095506020813d602011610959575b8161094960209383610b93565b8101031261013d575194886106f6565b3d915061093c565b50602061096c611111565b90506106a6565b965061097d611111565b966106a0565b634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b5f52601260045260245ffd5b906109c0600191610612866105e48787610c04565b920191906105ee565b9091506020813d6020116109f5575b816109e560209383610b93565b8101031261013d575190866105d6565b3d91506109d8565b506020610a08611111565b9050610571565b939490610a2a610a3c91610a238786610c04565b5190610ee1565b91610a358685610c04565b5190610f88565b94610a478584610c04565b518115610af5575b8015610ae3575b602090606460018060a01b035f805160206111658339815191525416935f6040519586948593630d8c635960e21b8552600485015260248401528160448401525af180156108c7575f90610ab0575b60019150940161055d565b506020813d602011610adb575b81610aca60209383610b93565b8101031261013d5760019051610aa5565b3d9150610abd565b506020610aee611111565b9050610a56565b9050610aff611111565b90610a4f565b6001818301019081600184011161098357610b236001923390610d20565b610b2d8286610c04565b520161052f565b60405163392334ed60e01b8152600490fd5b506008600435116104cf565b604051631a40715960e11b8152600490fd5b610b86915060203d602011610b8c575b610b7e8183610b93565b810190610bb4565b816104bc565b503d610b74565b90601f801991011681019081106001600160401b0382111761087f57604052565b9081602091031261013d5751801515810361013d5790565b6001600160401b03811161087f5760051b60200190565b805115610bf05760200190565b634e487b7160e01b5f52603260045260245ffd5b8051821015610bf05760209160051b010190565b8181029291811591840414171561098357565b604051630a763da160e01b81527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031660208083600481855afa9283156108c7575f93610cf1575b508215159182610c9d575b505015610c9a575f1981019081116109835790565b90565b819250906024916040519283809263c332298560e01b82528760048301525afa9182156108c7575f92610cd4575b50505f80610c85565b610cea9250803d10610b8c57610b7e8183610b93565b5f80610ccb565b9080935081813d8311610d19575b610d098183610b93565b8101031261013d5751915f610c7a565b503d610cff565b60408051630454192760e51b815260048101929092526001600160a01b039283166024830152916020919082826044817f000000000000000000000000000000000000000000000000000000000000000085165afa918215610ed7575f92610ea8575b508115610e9c577f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005484516382027b6d60e01b8152600481018490523060248201529084908290604490829086165afa908115610e92575f91610e75575b5015610e645791809160445f945f80516020611165833981519152541691865195869384926307227b9160e21b84526004840152600560248401525af1928315610e5b57505f92610e3157505090565b90809250813d8311610e54575b610e488183610b93565b8101031261013d575190565b503d610e3e565b513d5f823e3d90fd5b8351630147e79760e21b8152600490fd5b610e8c9150843d8611610b8c57610b7e8183610b93565b5f610de1565b85513d5f823e3d90fd5b50505050610c9a611111565b9091508281813d8311610ed0575b610ec08183610b93565b8101031261013d5751905f610d83565b503d610eb6565b84513d5f823e3d90fd5b908115610f78575b8015610f66575b602090606460018060a01b035f805160206111658339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156108c7575f91610f43575090565b90506020813d602011610f5e575b81610e4860209383610b93565b3d9150610f51565b506020610f71611111565b9050610ef0565b9050610f82611111565b90610ee9565b908115610ffc575b8015610fea575b602090606460018060a01b035f805160206111658339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af19081156108c7575f91610f43575090565b506020610ff5611111565b9050610f97565b9050611006611111565b90610f90565b6001600160401b0391602091801561107b575b5f8051602061116583398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af19081156108c7575f91610f43575090565b506064611086611111565b905061101f565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561013d57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108c7576110fe5750565b6001600160401b03811161087f57604052565b5f8051602061116583398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156108c7575f91610f4357509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type HeliosRiskModelConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: HeliosRiskModelConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class HeliosRiskModel__factory extends ContractFactory {
+  constructor(...args: HeliosRiskModelConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    heliosNetAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(heliosNetAddress, overrides || {});
+  }
+  override deploy(
+    heliosNetAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(heliosNetAddress, overrides || {}) as Promise<
+      HeliosRiskModel & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): HeliosRiskModel__factory {
+    return super.connect(runner) as HeliosRiskModel__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): HeliosRiskModelInterface {
+    return new Interface(_abi) as HeliosRiskModelInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): HeliosRiskModel {
+    return new Contract(address, _abi, runner) as unknown as HeliosRiskModel;
+  }
+}
@@ -0,0 +1,754 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  HeliosNetFHE,
+  HeliosNetFHEInterface,
+} from "../../../contracts/Helios_Net.sol/HeliosNetFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedOrInvalid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchStillOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "BatchTotalAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ContractUnpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalEnergy",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "EnergyAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedEnergy",
+        type: "bytes32",
+      },
+    ],
+    name: "EnergySubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "grantBatchTotalAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "grantEnergyAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestTotalEnergyDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedEnergy",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEnergy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "totalEncryptedEnergyInBatch",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "userEncryptedEnergyInBatch",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234610162575f6060610014610166565b828152826020820152826040820152015261002d610166565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55603c600455604051611669908161019a8239f35b5f80fd5b60405190608082016001600160401b0381118382101761018557604052565b634e487b7160e01b5f52604160045260245ffdfe6080604081815260049081361015610015575f80fd5b5f925f3560e01c90816304c7a7cd14611213575080630a763da1146111f5578063124bd04b14610ebf5780631f96c1a814610e235780631f9c7ea114610b1c5780633f4ba83a14610abc57806346e2577a14610a3d57806358787e79146106715780635a94a079146106395780635c975abb146106155780636b074a07146105d75780637b5b11571461056a5780638456cb59146104fb5780638a355a57146104725780638a8324e0146104335780638da5cb5b1461040b5780638edba2361461039b578063a436547614610363578063b65e89411461031e578063b7e6be57146102f6578063b8221bc4146102d8578063c3322985146102ab578063da1f12ab1461028a578063e29d5a4d146101b95763f2fde38b14610134575f80fd5b346101b55760203660031901126101b55761014d611365565b8354926001600160a01b038085169390929190338590036101a85750501680926bffffffffffffffffffffffff60a01b161783557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08380a380f35b516330cd747160e01b8152fd5b8280fd5b5090346101b557816003193601126101b5578035916101d661137b565b84546001600160a01b0393919291908416330361027c5784158015610271575b61026357848652600760205260ff828720541661025557508161022c9185875260086020528620546102278161151c565b61157b565b16907f608163fdbdfe5481244b406516cd3fa1c107fd92af731658af243a584e81af1d8380a380f35b9051631b7506b360e01b8152fd5b9051633b98df6560e01b8152fd5b5060065485116101f6565b90516330cd747160e01b8152fd5b8382346102a757816003193601126102a757602090516127118152f35b5080fd5b5090346101b55760203660031901126101b5578160209360ff923581526007855220541690519015158152f35b5090346101b557826003193601126101b55760209250549051908152f35b5090346101b55760203660031901126101b55760209282913581526008845220549051908152f35b5090346101b55760203660031901126101b5576060928291358152600a602052209081549160ff60026001830154920154169082519384526020840152151590820152f35b8382346102a75760203660031901126102a75760209181906001600160a01b0361038b611365565b1681526002845220549051908152f35b5090346101b557816003193601126101b55735906103d96103ba61137b565b80928486526009602052808620335f526020525f20546102278161151c565b6001600160a01b031690337fd92a6d1fc80444dfe525d1e0240332d85376e79a5d3d446d330cdbddab1b92408480a480f35b8382346102a757816003193601126102a757905490516001600160a01b039091168152602090f35b5090346101b557816003193601126101b5578160209361045161137b565b9235815260098552209060018060a01b03165f528252805f20549051908152f35b5090346101b55760203660031901126101b55761048d611365565b83546001600160a01b039290831633036104ed5750169081835260016020528220805460ff81166104bc578380f35b60ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d98280a25f80808380f35b83516330cd747160e01b8152fd5b5090346101b557826003193601126101b55782546001600160a01b0316330361027c576005549160ff831661055d5760ff198316600117600555837fab35696f06e428ebc5ceba8cd17f8fed287baf43440206d1943af1ee53e6d2678180a180f35b516313d0ff5960e31b8152fd5b5090346101b55760203660031901126101b55782548135906001600160a01b031633036105c85790817ff7936cbb6fd8accff179e9d4552814b6a749fd30430b36c219fbda11bbfb004b93928254925582519182526020820152a180f35b5090516330cd747160e01b8152fd5b8382346102a75760203660031901126102a75760209160ff9082906001600160a01b03610602611365565b1681526001855220541690519015158152f35b8382346102a757816003193601126102a75760209060ff6005541690519015158152f35b8382346102a75760203660031901126102a75760209181906001600160a01b03610661611365565b1681526003845220549051908152f35b508290346102a757602090816003193601126101b55782548435926001600160a01b0392909183163303610a2e5760ff60055416610a1f5783158015610a0a575b6109fb57338552600382526106cc818620548754906113d4565b42106109ec578385526008825280852054906106e78261151c565b8051916106f3836112c3565b60019260018152848101918536843761070b826113b3565b5261071581611414565b937f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0091825497807f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156109e8578651637d6e912360e11b8152808e018a9052908c90829081838161078d602482018a6113e1565b03925af180156109de57908c916109ca575b50507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156109c6578551633263b83b60e01b8152808d018a905260606024820152908b9082908183816107f960648201896113e1565b63124bd04b60e01b604483015203925af180156109bc57908b916109a4575b508890527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808852858b205461099457888b528752848a2090519067ffffffffffffffff9485831161098157680100000000000000008311610981578154838355838a8e838310610952575b50505050908b52878b208b5b8381106109415750505050506108a68154611391565b9055815190606082019081118282101761092e577fbcf5a976ad5099b80a136d75eb362431099ce72445dd2c1a9305e658986b570b95969798508252868152600284820191848352838101928a8452888b52600a8752848b2091518255516001820155019051151560ff8019835416911617905533875260038352428188205551908152a380f35b604189634e487b7160e01b5f525260245ffd5b825182820155918901918401610890565b8590525050898d2090810190859085018e5b838210610976578692508c9150610884565b81550185908e610964565b634e487b7160e01b8c5260418d5260248cfd5b8551633f06d22b60e01b81528c90fd5b6109ad9061129b565b6109b857898c610818565b8980fd5b86513d8d823e3d90fd5b8a80fd5b6109d39061129b565b6109c6578a8d61079f565b87513d8e823e3d90fd5b8b80fd5b5163aa9a98df60e01b81528590fd5b51633b98df6560e01b81528590fd5b508385526007825260ff8186205416156106b2565b516313d0ff5960e31b81528590fd5b516330cd747160e01b81528590fd5b5090346101b55760203660031901126101b557610a58611365565b83546001600160a01b039290831633036104ed5750169081835260016020528220805460ff811615610a88578380f35b60ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a8280a25f80808380f35b5090346101b557826003193601126101b55782546001600160a01b0316330361027c576005549160ff83161561055d57505060ff19166005557f0e5e3b3fb504c22cf5c42fa07d521225937514c654007e1f12646f89768d6f948180a180f35b509034610da95781600319360112610da9576024359067ffffffffffffffff90818311610da95736602384011215610da95782810135918211610da9573660248385010111610da957335f526020926001845260ff855f20541615610e145760ff60055416610e0557335f5260028452610b9b855f20548354906113d4565b4210610df65760069283545f526007855260ff865f20541615610de6575f94939291610bcb916024369201611301565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154865163196d0b9b60e01b815283358482015233602482015260806044820152956001600160a01b039286928892908516918391908290610c31906084830190611556565b88606483015203925af1948515610ddc575f95610dad575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610da9578551630f8e573b60e21b81529182018581523360208201525f91839182908490829060400103925af18015610d9f57610d68575b50907f50d7480c800ff1188a1f894dc7f7948ba17e78df5b9b7032d821524ff395acf191610cd6308561157b565b610ce0338561157b565b3386526002825242858720558054865260088252610d01848688205461144b565b610d0b308261157b565b8154875260088352858720558054865260098252848620335f528252610d3484865f205461144b565b610d3e308261157b565b610d48338261157b565b8154875260098352858720335f528352855f20555493519283523392a380f35b7f50d7480c800ff1188a1f894dc7f7948ba17e78df5b9b7032d821524ff395acf192919550610d969061129b565b5f949091610ca8565b85513d5f823e3d90fd5b5f80fd5b9094508381813d8311610dd5575b610dc581836112df565b81010312610da95751935f610c49565b503d610dbb565b86513d5f823e3d90fd5b8551631e4f783760e11b81528390fd5b50835163aa9a98df60e01b8152fd5b5083516313d0ff5960e31b8152fd5b508351631a40715960e11b8152fd5b509034610da9575f366003190112610da9575f546001600160a01b0316330361027c5760ff60055416610eb15760065490815f52600760205260ff835f20541615610ea357505f5260076020525f2060ff1981541690556006547f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a2005b8251631e4f783760e11b8152fd5b90516313d0ff5960e31b8152fd5b509034610da957600319606036820112610da95781359167ffffffffffffffff602435818111610da957610ef69036908401611347565b90604435908111610da957610f0e9036908401611347565b91845f52602092600a845260ff6002885f200154166111e657855f52600a8452865f20545f5260088452865f205494610f678851610f4b816112c3565b60019760018252873681840137610f61826113b3565b52611414565b875f52600a86526001895f200154036111d657865f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808652885f2054156111c657875f528552875f2095885190819788918882549485815201915f52885f20905f5b8a8682106111b05750505050610fe3925003876112df565b8351958686019687871161119d57890180971161118a5790859189518a8188519a868a019b8c8189850161101692611535565b820190878201520385810183520161102e90826112df565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703548b516378542ead60e01b81526060888201529586946001600160a01b039092169385938493916110849060648601906113e1565b8285820301602486015261109791611556565b908382030160448401526110aa91611556565b03915a905f91f1908115611180575f9161114a575b501561113c575081855191857f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2805181010312610da9577fa1cb19133026dd70867e1fbd4d02beda96e459f622fbb0326ec7dca1e35a09f9925194845f52600a83525f2060028101600160ff1982541617905554948152a3005b855163cf6c44e960e01b8152fd5b90508381813d8311611179575b61116181836112df565b81010312610da957518015158103610da957876110bf565b503d611157565b87513d5f823e3d90fd5b601184634e487b7160e01b5f525260245ffd5b601185634e487b7160e01b5f525260245ffd5b835485528c955090930192918101918101610fcb565b885163d66ca67560e01b81528490fd5b87516313b304fb60e21b81528390fd5b50855163dbde098160e01b8152fd5b5034610da9575f366003190112610da9576020906006549051908152f35b83915034610da9575f366003190112610da9575f546001600160a01b0316330361128f575060ff60055416610eb1575061124e600654611391565b806006555f5260076020525f20600160ff198254161790556006547fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2005b6330cd747160e01b8152fd5b67ffffffffffffffff81116112af57604052565b634e487b7160e01b5f52604160045260245ffd5b6040810190811067ffffffffffffffff8211176112af57604052565b90601f8019910116810190811067ffffffffffffffff8211176112af57604052565b92919267ffffffffffffffff82116112af576040519161132b601f8201601f1916602001846112df565b829481845281830111610da9578281602093845f960137010152565b9080601f83011215610da95781602061136293359101611301565b90565b600435906001600160a01b0382168203610da957565b602435906001600160a01b0382168203610da957565b5f19811461139f5760010190565b634e487b7160e01b5f52601160045260245ffd5b8051156113c05760200190565b634e487b7160e01b5f52603260045260245ffd5b9190820180921161139f57565b9081518082526020808093019301915f5b828110611400575050505090565b8351855293810193928101926001016113f2565b6040516114458161143160208201946040865260608301906113e1565b30604083015203601f1981018352826112df565b51902090565b90811561150c575b80156114fa575b602090606460018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156114ef575f916114c0575090565b90506020813d6020116114e7575b816114db602093836112df565b81010312610da9575190565b3d91506114ce565b6040513d5f823e3d90fd5b5060206115056115f7565b905061145a565b90506115166115f7565b90611453565b1561152357565b6040516321c4e35760e21b8152600490fd5b5f5b8381106115465750505f910152565b8181015183820152602001611537565b9060209161156f81518092818552858086019101611535565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b15610da957604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156114ef576115ec5750565b6115f59061129b565b565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156114ef575f916114c057509056fea164736f6c6343000818000a";
+
+type HeliosNetFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: HeliosNetFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class HeliosNetFHE__factory extends ContractFactory {
+  constructor(...args: HeliosNetFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      HeliosNetFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): HeliosNetFHE__factory {
+    return super.connect(runner) as HeliosNetFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): HeliosNetFHEInterface {
+    return new Interface(_abi) as HeliosNetFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): HeliosNetFHE {
+    return new Contract(address, _abi, runner) as unknown as HeliosNetFHE;
+  }
+}
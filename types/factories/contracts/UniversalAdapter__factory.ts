@@ -15,6 +15,57 @@ import type {
 } from "../../contracts/UniversalAdapter";
 
 const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "KeyNotStored",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotImporter",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "NotKeyOwner",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "DataImported",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -40,6 +91,44 @@ const _abi = [
     name: "DataStored",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "ImportFinished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "position",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "KeyIndexed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "finishImport",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -59,6 +148,94 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getKeys",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "keys",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "importData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "importer",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "indexKey",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "isAvailable",
@@ -72,6 +249,68 @@ const _abi = [
     stateMutability: "pure",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "isIndexed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+    ],
+    name: "keyCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "keyOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -90,10 +329,33 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "namespace",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "value",
+        type: "bytes",
+      },
+    ],
+    name: "setIndexedData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x6080806040523461001657610468908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081636c67bdfa146101a257508063856c71dd146101875763ae55c88814610040575f80fd5b3461018357602091826003193601126101835780359067ffffffffffffffff8211610183576100719136910161039f565b61009284845183819483830196873781015f838201520380845201826103cd565b5190205f525f8252805f2082825180925f9080546100af81610403565b808552916001918083169081156101605750600114610122575b5050506100db925094929403846103cd565b815192818492835281519182828501525f5b83811061010c5750505f83830185015250601f01601f19168101030190f35b81810183015187820187015286945082016100ed565b5f90815285812095935091905b8183106101485750879450508201016100db5f806100c9565b8554878401850152948501948694509183019161012f565b925050506100db94925060ff191682840152151560051b82010185925f806100c9565b5f80fd5b5034610183575f366003190112610183576020905160018152f35b83833461018357806003193601126101835767ffffffffffffffff908235828111610183576101d4903690850161039f565b9290602435828111610183576101ed903690870161039f565b92909560209788810190878583376102138a828a81015f838201520380845201826103cd565b5190205f525f8852845f2091841161038c57506102308154610403565b601f8111610349575b505f601f84116001146102bd577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b1578296979284926102ad9561029e935f916102b2575b508460011b905f198660031b1c19161790555b855196868897885287019161043b565b9184830390850152339661043b565b0390a2005b90508a01358b61027b565b601f19841690825f52885f20915f5b81811061033257509261029e927ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782999a9592876102ad989610610319575b5050600184811b01905561028e565b8b01355f19600387901b60f8161c191690558a8061030a565b91928a60018192868d0135815501940192016102cc565b815f52875f20601f850160051c810191898610610382575b601f0160051c01905b8181106103775750610239565b5f815560010161036a565b9091508190610361565b604190634e487b7160e01b5f525260245ffd5b9181601f840112156101835782359167ffffffffffffffff8311610183576020838186019501011161018357565b90601f8019910116810190811067ffffffffffffffff8211176103ef57604052565b634e487b7160e01b5f52604160045260245ffd5b90600182811c92168015610431575b602083101461041d57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610412565b908060209392818452848401375f828201840152601f01601f191601019056fea164736f6c6343000818000a";
+  "0x6080806040523461002857600480546001600160a01b03191633179055610dd4908161002d8239f35b5f80fdfe60406080815260049081361015610014575f80fd5b5f3560e01c90816304eaf2d21461062e5781636293230114610606578163634a62c2146103c65781636c67bdfa146103ac5781637c015de51461035b578163856c71dd146103415781638b70cfdd146102da578163ae55c88814610264578163bee61c4e146101c7578163db6344f914610178578163de7bb7b61461011f575063f5ada9b0146100a2575f80fd5b3461011b57606036600319011261011b576001600160401b0390803582811161011b576100d29036908301610661565b60249291923584811161011b576100ec9036908401610661565b93909260443595861161011b5761010c6101149161011997369101610661565b908686610c1f565b610a85565b005b5f80fd5b90503461011b57602036600319011261011b5781356001600160401b03811161011b5760209261015191369101610661565b8083519283376003908201908152819003830190205490516001600160a01b039091168152f35b90503461011b576101883661068e565b936101a88194929451868682376020818881015f81520301902054610716565b156101b857506101199450610a85565b51630c019f7160e41b81528590fd5b823461011b57606036600319011261011b5780356001600160401b03811161011b57610207916101f991369101610661565b90604435916024359161092f565b81519060208083016020845282518091526020858501958260051b8601019301915f955b8287106102385785850386f35b909192938280610254600193603f198a820301865288516106d8565b960192019601959291909261022b565b823461011b57602036600319011261011b578035916001600160401b03831161011b576102c4602061029f6102bd946102d696369101610661565b9190828551938492833781015f8152030190208251938480926107e7565b0383610878565b519182916020835260208301906106d8565b0390f35b90503461011b575f36600319011261011b578154906001600160a01b038216330361033257506001600160a01b03191690557f8957b9a0b13b7672bf80ede8b9fa24bdcb603d690fb0862614fc634b700df2e85f80a1005b516301e5953360e41b81529050fd5b3461011b575f36600319011261011b576020905160018152f35b90503461011b57602036600319011261011b578135916001600160401b03831161011b57610390602093918492369101610661565b9190828451938492833781016001815203019020549051908152f35b3461011b576101196103bd3661068e565b92919091610c1f565b823461011b57608036600319011261011b576001600160401b03813581811161011b576103f69036908401610661565b9060243583811161011b5761040e9036908601610661565b94909360443581811161011b576104289036908401610661565b976001600160a01b0360643581811695939492939086900361011b578181541633036105f8578351918a8a8437828b8101600381526020948591030190205416806105e2575083518a8a823782818c81016003815203019020866bffffffffffffffffffffffff60a01b82541617905583518a8a823782818c81015f815203019020928b116105cf57506104c68a6104c08454610716565b8461074e565b5f90601f8b11600114610541575089927fbba0ad7d84d3f776af84cd8af8a4c603d512987565fa1cde895a52dfaddf2ff8949261051f856101199d61052e955f91610536575b508160011b915f199060031b1c19161790565b90555b519283928a8a856107bd565b0390a2610a85565b90508601358f61050c565b90601f198b16835f52825f20925f905b8282106105b75750509261052e928c95926101199d7fbba0ad7d84d3f776af84cd8af8a4c603d512987565fa1cde895a52dfaddf2ff898961061059e575b5050600185811b019055610522565b8501355f19600388901b60f8161c191690558c8061058f565b80600185968294968b01358155019501930190610551565b604190634e487b7160e01b5f525260245ffd5b8451632d5c4d0d60e01b81529182015260249150fd5b83516301e5953360e41b8152fd5b90503461011b575f36600319011261011b57905490516001600160a01b039091168152602090f35b3461011b5760209061064b6106423661068e565b92919091610a57565b5f526002825260ff815f20541690519015158152f35b9181601f8401121561011b578235916001600160401b03831161011b576020838186019501011161011b57565b604060031982011261011b576001600160401b039160043583811161011b57826106ba91600401610661565b9390939260243591821161011b576106d491600401610661565b9091565b91908251928382525f5b848110610702575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016106e2565b90600182811c92168015610744575b602083101461073057565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610725565b601f821161075b57505050565b5f5260205f20906020601f840160051c83019310610793575b601f0160051c01905b818110610788575050565b5f815560010161077d565b9091508190610774565b908060209392818452848401375f828201840152601f01601f1916010190565b92906107d6906107e4959360408652604086019161079d565b92602081850391015261079d565b90565b80545f93926107f582610716565b918282526020936001916001811690815f14610859575060011461081b575b5050505050565b90939495505f92919252835f2092845f945b83861061084557505050500101905f80808080610814565b80548587018301529401938590820161082d565b60ff19168685015250505090151560051b010191505f80808080610814565b90601f801991011681019081106001600160401b0382111761089957604052565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b0381116108995760051b60200190565b919082018092116108d157565b634e487b7160e01b5f52601160045260245ffd5b919082039182116108d157565b8054821015610907575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b80518210156109075760209160051b010190565b9190939293604090806040519485378301600193600182526020818193030190209586549081851015610a2d578161096782876108c4565b1115610a1c5750925b61097a81856108e5565b91610984836108ad565b926109926040519485610878565b8084526109a1601f19916108ad565b015f5b818110610a0d575050508196815b8581106109c25750505050505050565b80610a066109d18993856108f2565b506109ee6109f56109e288866108e5565b928a51928380926107e7565b0382610878565b6109ff828961091b565b528661091b565b50016109b2565b606085820184015282016109a4565b610a279150846108c4565b92610970565b5050505050509050604051602081018181106001600160401b03821117610899576040525f815290565b9290610a71610a7f926040519485936020850197886107bd565b03601f198101835282610878565b51902090565b929192610a9483858484610a57565b5f5260206002815260405f209081549160ff8316610c16576001809360ff19161790556040518484823781818681018581520301902080546801000000000000000081101561089957610aeb9184820181556108f2565b610c03576001600160401b03861161089957610b1186610b0b8354610716565b8361074e565b5f86601f8111600114610ba15780610b3c925f91610b9657508160011b915f199060031b1c19161790565b90555b60405180928585833781860190815203019020545f198101949085116108d1577fc99d8ae96b6b35d7f6bcb6ca0f142e383997d24f40af116f42efe516ab1b791993610b9191604051948594856107bd565b0390a2565b90508901355f61050c565b50601f19871690825f5287845f20925f5b86888d848410610bed575050505010610bd4575b50508286811b019055610b3f565b8801355f19600389901b60f8161c191690555f80610bc6565b860135875590950194938401938b935001610bb2565b634e487b7160e01b5f525f60045260245ffd5b50505050505050565b926040518285823760038184019081528190036020908101909120546001600160a01b031680610da257506040518386823781818581016003815203019020336bffffffffffffffffffffffff60a01b8254161790555b6040518386823781818581015f815203019020906001600160401b03831161089957610ca6836104c08454610716565b5f90601f8411600114610d17575091610b9191610cfb82807ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b157829897965f91610d0c57508160011b915f199060031b1c19161790565b90555b6040519384933397856107bd565b90508701355f61050c565b90601f198416835f52825f20925f905b828210610d8a57505091610b919391857ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b157829897969410610d71575b5050600182811b019055610cfe565b8601355f19600385901b60f8161c191690555f80610d62565b80600185968294968c01358155019501930190610d27565b338103610daf5750610c76565b60249060405190632d5c4d0d60e01b82526004820152fdfea164736f6c6343000818000a";
 
 type UniversalAdapterConstructorParams =
   | [signer?: Signer]
@@ -1,4 +1,11 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as heliosNetSol from "./Helios_Net.sol";
+export * as interfaces from "./interfaces";
+export { HeliosDAO__factory } from "./HeliosDAO__factory";
+export { HeliosLendingPool__factory } from "./HeliosLendingPool__factory";
+export { HeliosRewardToken__factory } from "./HeliosRewardToken__factory";
+export { HeliosRewards__factory } from "./HeliosRewards__factory";
+export { HeliosRiskModel__factory } from "./HeliosRiskModel__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
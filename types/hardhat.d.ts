@@ -45,6 +45,34 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
+    getContractFactory(
+      name: "HeliosNetFHE",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.HeliosNetFHE__factory>;
+    getContractFactory(
+      name: "HeliosDAO",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.HeliosDAO__factory>;
+    getContractFactory(
+      name: "HeliosLendingPool",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.HeliosLendingPool__factory>;
+    getContractFactory(
+      name: "HeliosRewards",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.HeliosRewards__factory>;
+    getContractFactory(
+      name: "HeliosRewardToken",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.HeliosRewardToken__factory>;
+    getContractFactory(
+      name: "HeliosRiskModel",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.HeliosRiskModel__factory>;
+    getContractFactory(
+      name: "IHeliosNetFHE",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IHeliosNetFHE__factory>;
     getContractFactory(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -90,6 +118,41 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
+    getContractAt(
+      name: "HeliosNetFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.HeliosNetFHE>;
+    getContractAt(
+      name: "HeliosDAO",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.HeliosDAO>;
+    getContractAt(
+      name: "HeliosLendingPool",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.HeliosLendingPool>;
+    getContractAt(
+      name: "HeliosRewards",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.HeliosRewards>;
+    getContractAt(
+      name: "HeliosRewardToken",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.HeliosRewardToken>;
+    getContractAt(
+      name: "HeliosRiskModel",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.HeliosRiskModel>;
+    getContractAt(
+      name: "IHeliosNetFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IHeliosNetFHE>;
     getContractAt(
       name: "UniversalAdapter",
       address: string | ethers.Addressable,
@@ -128,6 +191,34 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "HeliosNetFHE",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosNetFHE>;
+    deployContract(
+      name: "HeliosDAO",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosDAO>;
+    deployContract(
+      name: "HeliosLendingPool",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosLendingPool>;
+    deployContract(
+      name: "HeliosRewards",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosRewards>;
+    deployContract(
+      name: "HeliosRewardToken",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosRewardToken>;
+    deployContract(
+      name: "HeliosRiskModel",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosRiskModel>;
+    deployContract(
+      name: "IHeliosNetFHE",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IHeliosNetFHE>;
     deployContract(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -173,6 +264,41 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "HeliosNetFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosNetFHE>;
+    deployContract(
+      name: "HeliosDAO",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosDAO>;
+    deployContract(
+      name: "HeliosLendingPool",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosLendingPool>;
+    deployContract(
+      name: "HeliosRewards",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosRewards>;
+    deployContract(
+      name: "HeliosRewardToken",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosRewardToken>;
+    deployContract(
+      name: "HeliosRiskModel",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.HeliosRiskModel>;
+    deployContract(
+      name: "IHeliosNetFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IHeliosNetFHE>;
     deployContract(
       name: "UniversalAdapter",
       args: any[],
@@ -22,5 +22,19 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { HeliosNetFHE } from "./contracts/Helios_Net.sol/HeliosNetFHE";
+export { HeliosNetFHE__factory } from "./factories/contracts/Helios_Net.sol/HeliosNetFHE__factory";
+export type { HeliosDAO } from "./contracts/HeliosDAO";
+export { HeliosDAO__factory } from "./factories/contracts/HeliosDAO__factory";
+export type { HeliosLendingPool } from "./contracts/HeliosLendingPool";
+export { HeliosLendingPool__factory } from "./factories/contracts/HeliosLendingPool__factory";
+export type { HeliosRewards } from "./contracts/HeliosRewards";
+export { HeliosRewards__factory } from "./factories/contracts/HeliosRewards__factory";
+export type { HeliosRewardToken } from "./contracts/HeliosRewardToken";
+export { HeliosRewardToken__factory } from "./factories/contracts/HeliosRewardToken__factory";
+export type { HeliosRiskModel } from "./contracts/HeliosRiskModel";
+export { HeliosRiskModel__factory } from "./factories/contracts/HeliosRiskModel__factory";
+export type { IHeliosNetFHE } from "./contracts/interfaces/IHeliosNetFHE";
+export { IHeliosNetFHE__factory } from "./factories/contracts/interfaces/IHeliosNetFHE__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";